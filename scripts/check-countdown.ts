@@ -0,0 +1,113 @@
+/**
+ * Runs the countdown engine against a fake clock and exits non-zero when a deadline misbehaves.
+ *
+ *   npm run check-countdown
+ */
+import {
+  Clock,
+  CountdownEvent,
+  CountdownState,
+  extendCountdown,
+  getCountdownEvents,
+  getDeadline,
+  getTimeLeft,
+  hasExpired,
+  pauseCountdown,
+  resumeCountdown,
+  startCountdown
+} from '../src/utils/countdown';
+
+// A clock that only moves when told to, like a tab the browser has stopped firing timers in
+const fakeClock = (start = 1_000_000) => {
+  let reading = start;
+  const clock: Clock = () => reading;
+  return { clock, advance: (seconds: number) => (reading += seconds * 1000) };
+};
+
+let failures = 0;
+
+const check = (name: string, actual: unknown, expected: unknown) => {
+  const passed = JSON.stringify(actual) === JSON.stringify(expected);
+  if (!passed) failures++;
+  console.log(`  ${passed ? '✓' : '✗'} ${name}${passed ? '' : `: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`}`);
+};
+
+const runs = (name: string, steps: (clock: ReturnType<typeof fakeClock>) => void) => {
+  console.log(name);
+  steps(fakeClock());
+};
+
+runs('a running countdown', ({ clock, advance }) => {
+  const state = startCountdown(60, clock());
+  check('deadline is the limit from the start', getDeadline(state), clock() + 60_000);
+  advance(59.2);
+  check('time left rounds up', getTimeLeft(state, clock()), 1);
+  check('not expired before the deadline', hasExpired(state, clock()), false);
+  advance(0.8);
+  check('expired at the deadline', hasExpired(state, clock()), true);
+});
+
+runs('a throttled tab', ({ clock, advance }) => {
+  // No ticks arrive for five minutes; the next reading still finds the time gone
+  const state = startCountdown(120, clock());
+  advance(300);
+  check('time left never goes below 0', getTimeLeft(state, clock()), 0);
+  check('expired on the first reading after waking', hasExpired(state, clock()), true);
+});
+
+runs('time spent before a reload', ({ clock, advance }) => {
+  const state = startCountdown(60, clock(), 45);
+  check('carries on from the seconds spent', getTimeLeft(state, clock()), 15);
+  advance(15);
+  check('expires 15 seconds later', hasExpired(state, clock()), true);
+});
+
+runs('pause and resume', ({ clock, advance }) => {
+  let state: CountdownState = startCountdown(60, clock());
+  advance(20);
+  state = pauseCountdown(state, clock());
+  check('no deadline while paused', getDeadline(state), undefined);
+  advance(600);
+  check('paused time does not count', getTimeLeft(state, clock()), 40);
+  state = resumeCountdown(state, clock());
+  check('deadline moves by the pause', getDeadline(state), clock() + 40_000);
+  check('resuming twice changes nothing', resumeCountdown(state, clock() + 5000), state);
+  advance(40);
+  check('expires once the rest has run', hasExpired(state, clock()), true);
+});
+
+runs('an extension', ({ clock, advance }) => {
+  let state: CountdownState = startCountdown(60, clock());
+  advance(50);
+  state = extendCountdown(state, 30);
+  check('adds to the time left', getTimeLeft(state, clock()), 40);
+  check('pushes the deadline back', getDeadline(state), clock() + 40_000);
+  advance(40);
+  check('expires at the new deadline', hasExpired(state, clock()), true);
+});
+
+runs('events', ({ clock, advance }) => {
+  const events = (previous: CountdownState | undefined, previousNow: number, next: CountdownState): CountdownEvent[] =>
+    getCountdownEvents(previous, previousNow, next, clock());
+  const running = startCountdown(60, clock());
+  check('none for a fresh countdown', events(undefined, clock(), running), []);
+  advance(10);
+  const paused = pauseCountdown(running, clock());
+  check('pause', events(running, clock(), paused), ['pause']);
+  const resumed = resumeCountdown(paused, clock());
+  check('resume', events(paused, clock(), resumed), ['resume']);
+  const extended = extendCountdown(resumed, 30);
+  check('extend', events(resumed, clock(), extended), ['extend']);
+  const before = clock();
+  advance(80);
+  check('expire, on the first reading past the deadline', events(extended, before, extended), ['expire']);
+  const after = clock();
+  advance(5);
+  check('expire only once', events(extended, after, extended), []);
+});
+
+if (failures > 0) {
+  console.error(`${failures} check${failures === 1 ? '' : 's'} failed`);
+  process.exit(1);
+}
+console.log('All countdown checks passed');
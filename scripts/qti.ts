@@ -0,0 +1,81 @@
+/**
+ * Moves forms in and out of IMS QTI content packages.
+ *
+ *   npm run qti -- export semf-core-a                       # writes semf-core-a-qti3.0.zip
+ *   npm run qti -- export semf-core-a --qti 2.1 --out a.zip
+ *   npm run qti -- import package.zip --out form.json       # audio is copied into public/audio
+ */
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { registeredForms } from '../src/data/testForms';
+import { checkTestForm } from '../src/utils/formChecks';
+import { exportQtiPackage } from '../src/utils/qtiExport';
+import { importQtiPackage } from '../src/utils/qtiImport';
+import { QtiVersion } from '../src/utils/qtiXml';
+
+const publicDir = fileURLToPath(new URL('../public', import.meta.url));
+const audioDir = join(publicDir, 'audio');
+
+const USAGE = 'usage: npm run qti -- export <formId> [--qti 2.1|3.0] [--out file.zip]\n       npm run qti -- import <package.zip> [--out form.json]';
+
+const fail = (message: string): never => {
+  console.error(message);
+  process.exit(1);
+};
+
+const readOption = (args: string[], name: string) => {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+const runExport = (formId: string, args: string[]) => {
+  const version = readOption(args, '--qti') ?? '3.0';
+  if (version !== '2.1' && version !== '3.0') fail(`unknown QTI version "${version}"; use 2.1 or 3.0`);
+  const form = registeredForms.find(candidate => candidate.id === formId) ?? fail(`no form "${formId}" is registered`);
+
+  const readAudio = (audioFile: string) => {
+    const path = join(publicDir, audioFile);
+    return existsSync(path) ? new Uint8Array(readFileSync(path)) : undefined;
+  };
+  const { zip, warnings } = exportQtiPackage(form, { version: version as QtiVersion, readAudio });
+  const out = readOption(args, '--out') ?? `${form.id}-qti${version}.zip`;
+  writeFileSync(out, zip);
+
+  warnings.forEach(warning => console.log(`warning: ${warning}`));
+  console.log(`Wrote ${out} (QTI ${version}, ${form.sections.reduce((sum, section) => sum + section.questions.length, 0)} items)`);
+};
+
+// Audio is never overwritten: a different recording under the same name is left for the author to rename
+const copyMedia = (media: Record<string, Uint8Array>) => {
+  mkdirSync(audioDir, { recursive: true });
+  Object.entries(media).forEach(([name, contents]) => {
+    const path = join(audioDir, name);
+    if (!existsSync(path)) {
+      writeFileSync(path, contents);
+      console.log(`copied audio/${name}`);
+    } else if (!Buffer.from(contents).equals(readFileSync(path))) {
+      console.log(`warning: public/audio/${name} already exists with different content and was not replaced`);
+    }
+  });
+};
+
+const runImport = (packagePath: string, args: string[]) => {
+  const { form, media, warnings } = importQtiPackage(new Uint8Array(readFileSync(packagePath)));
+  copyMedia(media);
+  const out = readOption(args, '--out') ?? `${form.id}.json`;
+  writeFileSync(out, `${JSON.stringify(form, null, 2)}\n`);
+  warnings.forEach(warning => console.log(`warning: ${warning}`));
+  console.log(`Wrote ${out}`);
+
+  const report = checkTestForm(form, { audioExists: audioFile => existsSync(join(publicDir, audioFile)) });
+  report.errors.forEach(error => console.log(`error: ${error}`));
+  report.warnings.forEach(warning => console.log(`warning: ${warning}`));
+  if (report.errors.length > 0) fail(`${form.id} needs fixing before it can be used; open ${out} in the authoring studio`);
+};
+
+const [command, target, ...args] = process.argv.slice(2);
+if (!target) fail(USAGE);
+if (command === 'export') runExport(target, args);
+else if (command === 'import') runImport(target, args);
+else fail(USAGE);
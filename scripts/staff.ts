@@ -0,0 +1,50 @@
+/**
+ * Sets up staff access for a build and writes staff-issued links.
+ *
+ *   npm run staff -- passcode <passcode>              # prints the VITE_STAFF_PASSCODE_HASH line for .env
+ *   npm run staff -- keygen                           # prints the form link keys; keep the private one out of .env
+ *   npm run staff -- link semf-core-d --url https://test.example.org/
+ *                                                     # a link that seats the candidate on that form; reads FORM_LINK_PRIVATE_KEY
+ */
+import { registeredForms } from '../src/data/testForms';
+import { generateFormLinkKeys, hashPasscode, signFormLink } from '../src/utils/staffAccess';
+
+const USAGE =
+  'usage: npm run staff -- passcode <passcode>\n       npm run staff -- keygen\n       npm run staff -- link <formId> [--url <app url>]';
+
+const fail = (message: string): never => {
+  console.error(message);
+  process.exit(1);
+};
+
+const readOption = (args: string[], name: string) => {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+const runPasscode = async (passcode: string) => {
+  if (passcode.length < 8) fail('use a passcode of at least 8 characters');
+  console.log(`VITE_STAFF_PASSCODE_HASH=${await hashPasscode(passcode)}`);
+};
+
+const runKeygen = async () => {
+  const { publicKey, privateKey } = await generateFormLinkKeys();
+  console.log(`VITE_FORM_LINK_PUBLIC_KEY=${publicKey}`);
+  console.log(`FORM_LINK_PRIVATE_KEY=${privateKey}`);
+};
+
+const runLink = async (formId: string, args: string[]) => {
+  if (!registeredForms.some(form => form.id === formId)) fail(`no form "${formId}" is registered`);
+  const privateKey = process.env.FORM_LINK_PRIVATE_KEY ?? fail('set FORM_LINK_PRIVATE_KEY to the private key from keygen');
+  const url = new URL(readOption(args, '--url') ?? 'http://localhost:5173/');
+  url.searchParams.set('form', formId);
+  url.searchParams.set('sig', await signFormLink(formId, privateKey));
+  console.log(url.toString());
+};
+
+const [command, target, ...args] = process.argv.slice(2);
+if (command === 'keygen') await runKeygen();
+else if (!target) fail(USAGE);
+else if (command === 'passcode') await runPasscode(target);
+else if (command === 'link') await runLink(target, args);
+else fail(USAGE);
@@ -0,0 +1,76 @@
+/**
+ * Checks test form content and exits non-zero when any form has errors.
+ *
+ *   npm run validate-forms                     # every form registered in src/data/testForms.ts, pilots included
+ *   npm run validate-forms -- exported.json    # form files, e.g. exported from the authoring studio
+ */
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { checkTestForm, FormCheckReport } from '../src/utils/formChecks';
+import { TestFormValidationError } from '../src/utils/testFormSchema';
+
+const publicDir = fileURLToPath(new URL('../public', import.meta.url));
+const audioExists = (audioFile: string) => existsSync(join(publicDir, audioFile));
+
+const printReport = (source: string, report: FormCheckReport) => {
+  const status = report.errors.length > 0 ? '✗' : '✓';
+  console.log(`${status} ${report.formId} (${source})`);
+  report.sections.forEach(section => {
+    console.log(
+      section.adaptive
+        ? `    ${section.sectionId}: bank of ${section.questions} questions, ${section.points} points; each candidate is given ${section.adaptive.minItems} to ${section.adaptive.maxItems}`
+        : `    ${section.sectionId}: ${section.questions} questions, ${section.points} points`
+    );
+    section.paths?.forEach(path => console.log(`      ${path.route} path: ${path.questions} questions, ${path.points} points`));
+  });
+  if (report.maxScores) {
+    // A skill tested adaptively is placed by the ability estimate, not out of its bank's points
+    const adaptiveBySkill = (skill: string) =>
+      report.sections.find(section => section.adaptive && section.skills.some(scored => scored === skill))?.adaptive;
+    const denominators = Object.entries(report.maxScores).map(([skill, points]) => {
+      const adaptive = adaptiveBySkill(skill);
+      return adaptive ? `${skill} ability estimate from ${adaptive.minItems}-${adaptive.maxItems} items` : `${skill} ${points}`;
+    });
+    console.log(`    scored out of: ${denominators.join(', ')}`);
+  }
+  report.errors.forEach(error => console.log(`    error: ${error}`));
+  report.warnings.forEach(warning => console.log(`    warning: ${warning}`));
+};
+
+// The registered forms are validated as they are imported, so a broken one fails the import itself
+const checkRegisteredForms = async (): Promise<FormCheckReport[]> => {
+  try {
+    const { registeredForms } = await import('../src/data/testForms');
+    return registeredForms.map(form => {
+      const report = checkTestForm(form, { audioExists });
+      printReport('src/data', report);
+      return report;
+    });
+  } catch (error) {
+    if (!(error instanceof TestFormValidationError)) throw error;
+    const report = { formId: error.formId, errors: error.issues, warnings: [], sections: [], maxScores: null };
+    printReport('src/data', report);
+    return [report];
+  }
+};
+
+const checkFiles = (paths: string[]): FormCheckReport[] =>
+  paths.map(path => {
+    let report: FormCheckReport;
+    try {
+      report = checkTestForm(JSON.parse(readFileSync(path, 'utf8')), { audioExists });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      report = { formId: '(unreadable)', errors: [message], warnings: [], sections: [], maxScores: null };
+    }
+    printReport(path, report);
+    return report;
+  });
+
+const paths = process.argv.slice(2);
+const reports = paths.length > 0 ? checkFiles(paths) : await checkRegisteredForms();
+const failed = reports.filter(report => report.errors.length > 0).length;
+
+console.log(failed > 0 ? `\n${failed} of ${reports.length} forms have errors.` : `\nAll ${reports.length} forms are valid.`);
+process.exit(failed > 0 ? 1 : 0);
@@ -1,39 +1,159 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { WelcomeScreen } from './components/WelcomeScreen';
 import { StudentInfoForm } from './components/StudentInfoForm';
 import { TestHeader } from './components/TestHeader';
-import { SingleQuestionView } from './components/SingleQuestionView';
-import { ListeningSection } from './components/ListeningSection';
-import { ReadingPassageView } from './components/ReadingPassageView';
 import { TestResults } from './components/TestResults';
 import { SectionProgressBar } from './components/SectionProgressBar';
-import { ListeningQuestionView } from './components/ListeningQuestionView';
-import { useTimer } from './hooks/useTimer';
-import { testSections } from './data/testData';
-import { StudentInfo, Question } from './types/test';
+import { FlowScreenView } from './components/FlowScreenView';
+import { ReviewView } from './components/ReviewView';
+import { useTestTiming } from './hooks/useTestTiming';
+import { systemClock } from './utils/countdown';
+import { SEMFScoringEngine } from './utils/semfScoring';
+import { registeredForms, testForms } from './data/testForms';
+import { assignTestForm, getAssignmentFromUrl } from './utils/formAssignment';
+import { applyAccommodations } from './utils/accommodations';
+import {
+  clearAccommodationsGrant,
+  clearSession,
+  loadAccommodationsGrant,
+  loadSession,
+  saveAttempt,
+  saveSession
+} from './utils/attemptStore';
+import { useI18n } from './i18n/useI18n';
+import { translateFormText } from './i18n/locales';
+import {
+  buildTestFlow,
+  canNavigateTo,
+  FlowEvent,
+  FlowState,
+  getNavigationPolicy,
+  INITIAL_FLOW_STATE,
+  transition
+} from './utils/testFlow';
+import { StudentInfo, TestForm, Answers, AnswerValue, NavigationEvent, Accommodations } from './types/test';
 
 type TestPhase = 'welcome' | 'student-info' | 'testing' | 'complete';
 
 function App() {
   const [phase, setPhase] = useState<TestPhase>('welcome');
-  const [currentSection, setCurrentSection] = useState(0);
-  const [currentQuestion, setCurrentQuestion] = useState(0);
-  const [currentListeningGroup, setCurrentListeningGroup] = useState(0);
-  const [answers, setAnswers] = useState<Record<number, string>>({});
+  const [flowState, setFlowState] = useState<FlowState>(INITIAL_FLOW_STATE);
+  const [flagged, setFlagged] = useState<number[]>([]);
+  const [timeUsed, setTimeUsed] = useState<Record<number, number>>({}); // seconds on each screen, by flow position
+  const [playCounts, setPlayCounts] = useState<Record<string, number>>({}); // by recording id
+  const [events, setEvents] = useState<NavigationEvent[]>([]);
+  const [screenEnteredAt, setScreenEnteredAt] = useState(0); // clock reading when the current screen was shown
+  const [answers, setAnswers] = useState<Answers>({});
   const [studentInfo, setStudentInfo] = useState<StudentInfo | null>(null);
+  const [form, setForm] = useState<TestForm | null>(null);
+  const [attemptId, setAttemptId] = useState<string | null>(null);
+  const [accommodations, setAccommodations] = useState<Accommodations>({}); // granted by an administrator, never by the URL
+  const [restoring, setRestoring] = useState(true); // until any interrupted attempt has been looked up
+  const sections = form?.sections ?? [];
+  // Multistage and adaptive sections follow the answers given so far; the flow locks them in once the candidate moves on
+  const flow = useMemo(() => (form ? buildTestFlow(form, SEMFScoringEngine.getPaths(form, answers)) : []), [form, answers]);
+  const { messages } = useI18n();
+  const mainRef = useRef<HTMLElement | null>(null);
+
+  // Pick up an attempt that a refresh or crash interrupted; its clocks kept running while the page was away
+  useEffect(() => {
+    // Without an attempt to resume, pick up whatever an administrator has granted for the next sitting here
+    const loadGrant = () => loadAccommodationsGrant().then(setAccommodations);
+    loadSession()
+      .then(session => {
+        if (!session) return loadGrant();
+        // Rest breaks add screens, so the saved position only means something in the accommodated flow
+        const granted = session.accommodations ?? {};
+        const savedForm = registeredForms.find(f => f.id === session.formId);
+        const takenForm = savedForm && applyAccommodations(savedForm, granted);
+        const paths = takenForm && SEMFScoringEngine.getPaths(takenForm, session.answers);
+        const screen = takenForm && buildTestFlow(takenForm, paths)[session.position];
+        if (!takenForm || !screen) return clearSession(session.id).then(loadGrant);
+
+        const section = takenForm.sections[screen.sectionIndex];
+        setAccommodations(granted);
+        setForm(takenForm);
+        setAttemptId(session.id);
+        setStudentInfo(session.studentInfo);
+        setFlowState({ position: session.position, reviewing: session.reviewing });
+        setAnswers(session.answers);
+        setFlagged(session.flagged);
+        setTimeUsed(session.timeUsed);
+        setScreenEnteredAt(session.screenEnteredAt);
+        setPlayCounts(session.playCounts);
+        setEvents([
+          ...session.events,
+          {
+            at: new Date().toISOString(),
+            type: 'resume',
+            from: session.position,
+            to: session.position,
+            sectionId: section.id,
+            navigation: getNavigationPolicy(section)
+          }
+        ]);
+        setPhase('testing');
+      })
+      .catch(error => console.error('Error restoring session:', error))
+      .finally(() => setRestoring(false));
+  }, []);
+
+  // Save the attempt in progress after every change
+  useEffect(() => {
+    if (phase !== 'testing' || !form || !attemptId) return;
+    saveSession({
+      id: attemptId,
+      formId: form.id,
+      studentInfo,
+      position: flowState.position,
+      reviewing: flowState.reviewing,
+      answers,
+      flagged,
+      timeUsed,
+      screenEnteredAt,
+      playCounts,
+      events,
+      accommodations,
+      updatedAt: new Date().toISOString()
+    }).catch(error => console.error('Error saving session:', error));
+  }, [phase, form, attemptId, studentInfo, flowState, answers, flagged, timeUsed, screenEnteredAt, playCounts, events, accommodations]);
+
+  // Large print and high contrast restyle the whole page, so they are switched on the root element
+  useEffect(() => {
+    document.documentElement.classList.toggle('large-print', !!accommodations.largePrint);
+    document.documentElement.classList.toggle('high-contrast', !!accommodations.highContrast);
+  }, [accommodations]);
 
-  // Scroll to top when section or question changes
+  // Scroll to top when the screen changes, and start keyboard and screen-reader users at the new screen
   useEffect(() => {
     window.scrollTo({ top: 0, behavior: 'smooth' });
-  }, [currentSection, currentQuestion, currentListeningGroup, phase]);
+    mainRef.current?.focus({ preventScroll: true });
+  }, [flowState.position, phase]);
+
+  // Keep the finished attempt so speaking recordings can be rated later
+  useEffect(() => {
+    if (phase === 'complete' && form && attemptId) {
+      saveAttempt({
+        id: attemptId,
+        formId: form.id,
+        studentInfo,
+        answers,
+        completedAt: new Date().toISOString(),
+        events,
+        accommodations
+      })
+        .then(() => clearSession(attemptId))
+        .catch(error => console.error('Error saving attempt:', error));
+    }
+  }, [phase, form, attemptId, studentInfo, answers, events, accommodations]);
 
   // Add warning message when user tries to refresh or close during test
   useEffect(() => {
     const handleBeforeUnload = (e: BeforeUnloadEvent) => {
       if (phase === 'testing') {
         e.preventDefault();
-        e.returnValue = 'Are you sure you want to leave? Your test progress will be lost.';
-        return 'Are you sure you want to leave? Your test progress will be lost.';
+        e.returnValue = 'Are you sure you want to leave? Your answers are saved, but the test clock keeps running.';
+        return 'Are you sure you want to leave? Your answers are saved, but the test clock keeps running.';
       }
     };
 
@@ -46,144 +166,113 @@ function App() {
     };
   }, [phase]);
 
-  // Total test time: 70 minutes (4200 seconds)
-  const handleTimeUp = useCallback(() => {
-    setPhase('complete');
-  }, []);
-
-  const { timeLeft, isActive, start, reset } = useTimer(4200, handleTimeUp);
-
   const handleStartTest = () => {
     setPhase('student-info');
   };
 
-  const handleStudentInfoSubmit = (info: StudentInfo) => {
+  // Pilot forms are never drawn at random or in rotation, only when an administrator picks one.
+  // A pick that names no registered form falls back to a random form rather than stopping the sitting.
+  const chooseForm = async (): Promise<TestForm> => {
+    const assignment = await getAssignmentFromUrl();
+    if (assignment.strategy !== 'admin') return assignTestForm(testForms, assignment);
+    try {
+      return assignTestForm(registeredForms, assignment);
+    } catch (error) {
+      console.error('Error assigning the administrator\'s form:', error);
+      return assignTestForm(testForms, { strategy: 'random' });
+    }
+  };
+
+  const handleStudentInfoSubmit = async (info: StudentInfo) => {
     setStudentInfo(info);
+    setForm(applyAccommodations(await chooseForm(), accommodations));
+    setAttemptId(crypto.randomUUID());
     setPhase('testing');
-    start();
+    setScreenEnteredAt(systemClock());
+    // The grant is for this sitting only; the attempt keeps its own copy from here on
+    clearAccommodationsGrant().catch(error => console.error('Error clearing accommodations:', error));
   };
 
-  const handleAnswerChange = (questionId: number, answer: string) => {
+  const handleAnswerChange = (questionId: number, answer: AnswerValue) => {
     setAnswers(prev => ({
       ...prev,
       [questionId]: answer
     }));
   };
 
-  const getCurrentQuestion = (): Question | null => {
-    const currentSectionData = testSections[currentSection];
-    if (!currentSectionData) return null;
-
-    // For reading passage section, handle differently
-    if (currentSectionData.id === 'reading-writing' && currentQuestion >= 20) {
-      return null; // Will show reading passage view
-    }
+  const handleFlowEvent = (event: FlowEvent) => {
+    // Time on a screen adds up across visits, so a revisit cannot restart its timer
+    const { position } = flowState;
+    const now = systemClock();
+    const elapsed = Math.max(0, now - screenEnteredAt) / 1000; // not rounded down, so moving on often gains nothing
+    const spent = { ...timeUsed, [position]: (timeUsed[position] ?? 0) + elapsed };
 
-    return currentSectionData.questions[currentQuestion] || null;
-  };
+    // The buttons follow the navigation policy already; check again in case time ran out since they were drawn
+    const target = event.type === 'previous' ? position - 1 : event.type === 'goTo' ? event.position : undefined;
+    if (target !== undefined && !canNavigateTo(flow, sections, spent, position, target)) return;
 
-  const handleNextQuestion = () => {
-    const currentSectionData = testSections[currentSection];
-    
-    // Special handling for listening section
-    if (currentSectionData.id === 'listening') {
-      if (currentListeningGroup < 3) { // 4 groups total (0-3)
-        setCurrentListeningGroup(currentListeningGroup + 1);
-      } else {
-        handleNextSection();
-      }
-      return;
-    }
-    
-    // Special handling for reading-writing section
-    if (currentSectionData.id === 'reading-writing') {
-      if (currentQuestion < 19) {
-        // Still in individual questions (story continuation + sentence ordering)
-        setCurrentQuestion(currentQuestion + 1);
-      } else if (currentQuestion === 19) {
-        // Move to reading passage view
-        setCurrentQuestion(20);
-      } else {
-        // From reading passage, move to next section
-        handleNextSection();
-      }
-    } else {
-      // Regular section handling
-      const nextQuestion = currentQuestion + 1;
-      if (nextQuestion < currentSectionData.questions.length) {
-        setCurrentQuestion(nextQuestion);
-      } else {
-        handleNextSection();
-      }
-    }
-  };
+    setTimeUsed(spent);
+    setScreenEnteredAt(now);
 
-  const handlePreviousQuestion = () => {
-    const currentSectionData = testSections[currentSection];
-    
-    // Special handling for listening section
-    if (currentSectionData.id === 'listening') {
-      if (currentListeningGroup > 0) {
-        setCurrentListeningGroup(currentListeningGroup - 1);
-      } else {
-        handlePreviousSection();
-      }
-      return;
-    }
-    
-    // Special handling for reading-writing section
-    if (currentSectionData.id === 'reading-writing') {
-      if (currentQuestion === 20) {
-        // From reading passage back to last individual question
-        setCurrentQuestion(19);
-      } else if (currentQuestion > 0) {
-        setCurrentQuestion(currentQuestion - 1);
-      } else {
-        handlePreviousSection();
-      }
-    } else {
-      // Regular section handling
-      if (currentQuestion > 0) {
-        setCurrentQuestion(currentQuestion - 1);
-      } else {
-        handlePreviousSection();
+    const next = transition(flow, flowState, event);
+    const section = sections[flow[position].sectionIndex];
+    setEvents(prev => [
+      ...prev,
+      {
+        at: new Date().toISOString(),
+        type: event.type,
+        from: position,
+        to: next === 'complete' ? 'complete' : next.position,
+        sectionId: section.id,
+        navigation: getNavigationPolicy(section)
       }
-    }
-  };
-
-  const handleNextSection = () => {
-    if (currentSection < testSections.length - 1) {
-      setCurrentSection(currentSection + 1);
-      setCurrentQuestion(0);
-      setCurrentListeningGroup(0);
-    } else {
+    ]);
+    if (next === 'complete') {
       setPhase('complete');
+    } else {
+      setFlowState(next);
     }
   };
 
-  const handlePreviousSection = () => {
-    if (currentSection > 0) {
-      setCurrentSection(currentSection - 1);
-      const prevSectionData = testSections[currentSection - 1];
-      setCurrentQuestion(prevSectionData.questions.length - 1);
-      setCurrentListeningGroup(0);
-    }
+  const timing = useTestTiming({
+    form,
+    flow,
+    flowState,
+    timeUsed,
+    screenEnteredAt,
+    active: phase === 'testing',
+    onExpire: handleFlowEvent
+  });
+
+  const handleToggleFlag = (questionId: number) => {
+    setFlagged(prev => (prev.includes(questionId) ? prev.filter(id => id !== questionId) : [...prev, questionId]));
   };
 
-  const handleSubmitTest = () => {
-    setPhase('complete');
+  const handlePlay = (stimulusId: string) => {
+    setPlayCounts(prev => ({ ...prev, [stimulusId]: (prev[stimulusId] ?? 0) + 1 }));
   };
 
   const handleRestart = () => {
     setPhase('welcome');
-    setCurrentSection(0);
-    setCurrentQuestion(0);
-    setCurrentListeningGroup(0);
+    setFlowState(INITIAL_FLOW_STATE);
+    setFlagged([]);
+    setTimeUsed({});
+    setPlayCounts({});
+    setEvents([]);
     setAnswers({});
     setStudentInfo(null);
-    reset();
+    setForm(null);
+    setAttemptId(null);
+    setAccommodations({});
+    loadAccommodationsGrant()
+      .then(setAccommodations)
+      .catch(error => console.error('Error loading accommodations:', error));
   };
 
+  if (restoring) {
+    return <div>Loading...</div>;
+  }
+
   if (phase === 'welcome') {
     return <WelcomeScreen onStart={handleStartTest} />;
   }
@@ -192,136 +281,65 @@ function App() {
     return <StudentInfoForm onSubmit={handleStudentInfoSubmit} />;
   }
 
-  if (phase === 'complete') {
-    return <TestResults answers={answers} studentInfo={studentInfo} onRestart={handleRestart} />;
-  }
-
-  const currentSectionData = testSections[currentSection];
-  const currentQuestionData = getCurrentQuestion();
-
-  // Special handling for reading passage view
-  if (currentSectionData.id === 'reading-writing' && currentQuestion >= 20) {
-    const readingQuestions = currentSectionData.questions.slice(20, 23); // Questions 41-43
-    const writingQuestions = currentSectionData.questions.slice(23); // Question 44
-
+  if (phase === 'complete' && form) {
     return (
-      <div className="min-h-screen bg-gray-50">
-        <TestHeader
-          currentSection={currentSection}
-          totalSections={testSections.length}
-          sectionTitle={currentSectionData.title}
-        />
-        <SectionProgressBar currentSection={currentSection} totalSections={testSections.length} />
-        
-        <ReadingPassageView
-          questions={[...readingQuestions, ...writingQuestions]}
-          answers={answers}
-          onAnswerChange={handleAnswerChange}
-          onNext={handleNextSection}
-          canGoNext={true}
-        />
-      </div>
+      <TestResults
+        formId={form.id}
+        answers={answers}
+        studentInfo={studentInfo}
+        accommodations={accommodations}
+        onRestart={handleRestart}
+      />
     );
   }
 
-  // Individual question view for all other questions
-  if (!currentQuestionData) {
+  const { position } = flowState;
+  const screen = flow[position];
+  if (!screen) {
     return <div>Loading...</div>;
   }
 
-  // Calculate display question number based on section and position
-  const getDisplayQuestionNumber = () => {
-    if (currentSectionData.id === 'grammar-vocabulary') {
-      // Questions 1-20: no change (1-20)
-      return currentQuestion + 1;
-    } else if (currentSectionData.id === 'reading-writing') {
-      if (currentQuestion < 15) {
-        // Questions 21-35: change to 1-15
-        return currentQuestion + 1;
-      } else {
-        // Questions 36-40: change to 1-5
-        return currentQuestion - 15 + 1;
-      }
-    }
-    return currentQuestion + 1;
-  };
-  const totalQuestionsInSection = currentSectionData.questions.length;
-  const canGoNext = currentQuestion < totalQuestionsInSection - 1 || currentSection < testSections.length - 1;
-  const canGoPrevious = currentQuestion > 0 || currentSection > 0;
-
-  // Handle listening questions with individual audio players
-  if (currentSectionData.id === 'listening') {
-    const audioGroups = [
-      {
-        name: 'Library Announcement',
-        audioFile: '/audio/library-announcement.mp3',
-        questions: currentSectionData.questions.slice(0, 3),
-        description: 'You will hear a library announcement about a heating system issue.'
-      },
-      {
-        name: 'Museum Announcement',
-        audioFile: '/audio/museum-announcement.mp3',
-        questions: currentSectionData.questions.slice(3, 6),
-        description: 'You will hear a museum announcement about closing time.'
-      },
-      {
-        name: 'Voicemail Message',
-        audioFile: '/audio/voicemail-message.mp3',
-        questions: currentSectionData.questions.slice(6, 9),
-        description: 'You will hear a voicemail message from a veterinary clinic.'
-      },
-      {
-        name: 'Travel Report',
-        audioFile: '/audio/travel-report.mp3',
-        questions: currentSectionData.questions.slice(9, 12),
-        description: 'You will hear a radio travel report about traffic conditions.'
-      }
-    ];
-
-    const currentGroup = audioGroups[currentListeningGroup];
-
-    return (
-      <div className="min-h-screen bg-gray-50">
-        <TestHeader
-          currentSection={currentSection}
-          totalSections={testSections.length}
-          sectionTitle={currentSectionData.title}
-        />
-        <SectionProgressBar currentSection={currentSection} totalSections={testSections.length} />
-        
-        <ListeningQuestionView
-          group={currentGroup}
-          groupNumber={currentListeningGroup + 1}
-          totalGroups={audioGroups.length}
-          answers={answers}
-          onAnswerChange={handleAnswerChange}
-          onNext={handleNextQuestion}
-          canGoNext={currentListeningGroup < audioGroups.length - 1 || currentSection < testSections.length - 1}
-        />
-      </div>
-    );
-  }
-
-  // Regular individual question view for grammar/vocab and reading/writing individual questions
   return (
     <div className="min-h-screen bg-gray-50">
       <TestHeader
-        currentSection={currentSection}
-        totalSections={testSections.length}
-        sectionTitle={currentSectionData.title}
-      />
-      <SectionProgressBar currentSection={currentSection} totalSections={testSections.length} />
-      
-      <SingleQuestionView
-        question={currentQuestionData}
-        questionNumber={getDisplayQuestionNumber()}
-        totalQuestions={totalQuestionsInSection}
-        answer={answers[currentQuestionData.id] || ''}
-        onAnswerChange={handleAnswerChange}
-        onNext={handleNextQuestion}
-        canGoNext={canGoNext}
-        sectionTitle={currentSectionData.title}
+        currentSection={screen.sectionIndex}
+        totalSections={sections.length}
+        sectionTitle={translateFormText(messages, sections[screen.sectionIndex].title)}
+        testTime={timing.test}
+        sectionTime={timing.section}
       />
+      <SectionProgressBar currentSection={screen.sectionIndex} totalSections={sections.length} />
+
+      <main ref={mainRef} tabIndex={-1} className="focus:outline-none">
+        {screen.kind === 'review' ? (
+          <ReviewView
+            flow={flow}
+            sections={sections}
+            answers={answers}
+            flagged={flagged}
+            canGoTo={target => canNavigateTo(flow, sections, timeUsed, position, target)}
+            onGoTo={target => handleFlowEvent({ type: 'goTo', position: target })}
+            onSubmit={() => handleFlowEvent({ type: 'next' })}
+          />
+        ) : (
+          <FlowScreenView
+            key={position}
+            screen={screen}
+            sections={sections}
+            answers={answers}
+            onAnswerChange={handleAnswerChange}
+            onNext={() => handleFlowEvent({ type: 'next' })}
+            onPrevious={() => handleFlowEvent({ type: 'previous' })}
+            canGoPrevious={canNavigateTo(flow, sections, timeUsed, position, position - 1)}
+            beforeReview={flow[position + 1]?.kind === 'review'}
+            timeLeft={timing.screen?.left}
+            playCounts={playCounts}
+            onPlay={handlePlay}
+            flagged={flagged}
+            onToggleFlag={handleToggleFlag}
+          />
+        )}
+      </main>
     </div>
   );
 }
@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { Accessibility, Save, Trash2 } from 'lucide-react';
+import { Accommodations } from '../types/test';
+import { NumberField } from './AuthoringFields';
+import { clearAccommodationsGrant, loadAccommodationsGrant, saveAccommodationsGrant } from '../utils/attemptStore';
+import { cleanAccommodations, describeAccommodations, hasAccommodations } from '../utils/accommodations';
+
+/**
+ * Where an administrator grants accommodations before a candidate sits down at this device. The
+ * grant is stored in this browser and used by the next attempt started here, which then clears
+ * it, so it never carries over to the following candidate.
+ */
+export const AccommodationsDesk: React.FC = () => {
+  const [draft, setDraft] = useState<Accommodations>({});
+  const [granted, setGranted] = useState<Accommodations>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadAccommodationsGrant()
+      .then(grant => {
+        setGranted(grant);
+        setDraft(grant);
+      })
+      .catch(error => console.error('Error loading accommodations:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleSave = async () => {
+    const grant = cleanAccommodations(draft);
+    try {
+      await saveAccommodationsGrant(grant);
+      setGranted(grant);
+      setDraft(grant);
+    } catch (error) {
+      console.error('Error saving accommodations:', error);
+    }
+  };
+
+  const handleClear = async () => {
+    try {
+      await clearAccommodationsGrant();
+      setGranted({});
+      setDraft({});
+    } catch (error) {
+      console.error('Error clearing accommodations:', error);
+    }
+  };
+
+  const current = describeAccommodations(granted);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white border-b border-gray-200 shadow-sm">
+        <div className="max-w-3xl mx-auto px-6 py-4 flex items-center gap-3">
+          <Accessibility className="w-6 h-6 text-blue-600" />
+          <h1 className="text-xl font-bold text-gray-800">SEMF Accommodations</h1>
+        </div>
+      </div>
+
+      <div className="max-w-3xl mx-auto px-6 py-8 space-y-6">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <h2 className="text-lg font-semibold text-gray-800 mb-2">Next sitting on this device</h2>
+          {loading && <p className="text-sm text-gray-500">Loading...</p>}
+          {!loading && (
+            <p className="text-sm text-gray-600">
+              {hasAccommodations(granted) ? current.join(', ') : 'No accommodations granted; the test runs as written.'}
+            </p>
+          )}
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+          <h2 className="text-lg font-semibold text-gray-800">Grant accommodations</h2>
+          <p className="text-sm text-gray-600">
+            Only grant what the candidate's documentation supports. The grant is used by the next attempt
+            started in this browser and then cleared.
+          </p>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <NumberField
+              label="Time multiplier"
+              hint="e.g. 1.25 or 1.5. Leave empty for standard time."
+              min={1}
+              step={0.05}
+              value={draft.timeMultiplier}
+              onChange={(timeMultiplier) => setDraft(prev => ({ ...prev, timeMultiplier }))}
+            />
+            <NumberField
+              label="Extra plays per recording"
+              value={draft.extraPlays}
+              onChange={(extraPlays) => setDraft(prev => ({ ...prev, extraPlays }))}
+            />
+            <NumberField
+              label="Rest break (minutes)"
+              hint="Offered between sections."
+              value={draft.restBreak && draft.restBreak / 60}
+              onChange={(minutes) => setDraft(prev => ({ ...prev, restBreak: minutes && minutes * 60 }))}
+            />
+          </div>
+          <div className="flex flex-wrap gap-6">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={draft.largePrint ?? false}
+                onChange={(e) => setDraft(prev => ({ ...prev, largePrint: e.target.checked || undefined }))}
+              />
+              Large print
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={draft.highContrast ?? false}
+                onChange={(e) => setDraft(prev => ({ ...prev, highContrast: e.target.checked || undefined }))}
+              />
+              High contrast
+            </label>
+          </div>
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={handleClear}
+              className="inline-flex items-center gap-2 px-6 py-3 border-2 border-gray-300 text-gray-700 rounded-lg font-semibold hover:bg-gray-50 transition-colors"
+            >
+              <Trash2 className="w-5 h-5" />
+              Clear
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              className="inline-flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors"
+            >
+              <Save className="w-5 h-5" />
+              Save Grant
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
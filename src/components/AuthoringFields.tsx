@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+
+const inputClass =
+  'w-full p-2 border-2 border-gray-300 rounded-lg focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all duration-200';
+
+interface FieldProps {
+  label: string;
+  hint?: string;
+  children: React.ReactNode;
+}
+
+const Field: React.FC<FieldProps> = ({ label, hint, children }) => (
+  <label className="block">
+    <span className="block text-sm font-medium text-gray-700 mb-1">{label}</span>
+    {children}
+    {hint && <span className="block text-xs text-gray-500 mt-1">{hint}</span>}
+  </label>
+);
+
+interface TextFieldProps {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  hint?: string;
+  multiline?: boolean;
+}
+
+export const TextField: React.FC<TextFieldProps> = ({ label, value, onChange, hint, multiline }) => (
+  <Field label={label} hint={hint}>
+    {multiline ? (
+      <textarea value={value} onChange={(e) => onChange(e.target.value)} className={`${inputClass} h-28`} />
+    ) : (
+      <input type="text" value={value} onChange={(e) => onChange(e.target.value)} className={inputClass} />
+    )}
+  </Field>
+);
+
+interface NumberFieldProps {
+  label: string;
+  value: number | undefined;
+  onChange: (value: number | undefined) => void;
+  hint?: string;
+  min?: number;
+  step?: number;
+}
+
+// An empty box means "not set"; callers that need a number fall back to their own default
+export const NumberField: React.FC<NumberFieldProps> = ({ label, value, onChange, hint, min = 0, step = 1 }) => (
+  <Field label={label} hint={hint}>
+    <input
+      type="number"
+      min={min}
+      step={step}
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+      className={inputClass}
+    />
+  </Field>
+);
+
+interface SelectFieldProps {
+  label: string;
+  value: string;
+  options: { value: string; label: string }[];
+  onChange: (value: string) => void;
+  hint?: string;
+}
+
+export const SelectField: React.FC<SelectFieldProps> = ({ label, value, options, onChange, hint }) => (
+  <Field label={label} hint={hint}>
+    <select value={value} onChange={(e) => onChange(e.target.value)} className={`${inputClass} bg-white`}>
+      {options.map(option => (
+        <option key={option.value} value={option.value}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  </Field>
+);
+
+interface ListFieldProps {
+  label: string;
+  value: string[];
+  onChange: (value: string[]) => void;
+  hint?: string;
+  separator?: 'line' | 'comma';
+}
+
+/**
+ * Edits a list of strings as one entry per line (or comma-separated). The text is kept as typed
+ * so blank lines and trailing commas survive while the author is still writing.
+ */
+export const ListField: React.FC<ListFieldProps> = ({ label, value, onChange, hint, separator = 'line' }) => {
+  const joiner = separator === 'line' ? '\n' : ', ';
+  const [text, setText] = useState(value.join(joiner));
+
+  const handleChange = (next: string) => {
+    setText(next);
+    onChange(
+      next
+        .split(separator === 'line' ? '\n' : ',')
+        .map(entry => entry.trim())
+        .filter(entry => entry.length > 0)
+    );
+  };
+
+  return (
+    <Field label={label} hint={hint}>
+      {separator === 'line' ? (
+        <textarea value={text} onChange={(e) => handleChange(e.target.value)} className={`${inputClass} h-24`} />
+      ) : (
+        <input type="text" value={text} onChange={(e) => handleChange(e.target.value)} className={inputClass} />
+      )}
+    </Field>
+  );
+};
+
+interface GroupsFieldProps {
+  label: string;
+  value: string[][];
+  onChange: (value: string[][]) => void;
+  hint?: string;
+}
+
+/**
+ * Edits one list per line with comma-separated entries, e.g. the accepted answers for each gap.
+ * Lines are positional, so an empty line in the middle is kept as an empty list.
+ */
+export const GroupsField: React.FC<GroupsFieldProps> = ({ label, value, onChange, hint }) => {
+  const [text, setText] = useState(value.map(group => group.join(', ')).join('\n'));
+
+  const handleChange = (next: string) => {
+    setText(next);
+    const lines = next.replace(/\n+$/, '').split('\n');
+    onChange(
+      next.trim()
+        ? lines.map(line =>
+            line
+              .split(',')
+              .map(entry => entry.trim())
+              .filter(entry => entry.length > 0)
+          )
+        : []
+    );
+  };
+
+  return (
+    <Field label={label} hint={hint}>
+      <textarea value={text} onChange={(e) => handleChange(e.target.value)} className={`${inputClass} h-24`} />
+    </Field>
+  );
+};
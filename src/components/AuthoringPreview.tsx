@@ -0,0 +1,42 @@
+import React, { useState } from 'react';
+import { Answers, AnswerValue, Question, TestSection } from '../types/test';
+import { buildSectionScreens, getScreenQuestions } from '../utils/testFlow';
+import { FlowScreenView } from './FlowScreenView';
+
+interface AuthoringPreviewProps {
+  section: TestSection;
+  question: Question;
+}
+
+/**
+ * Shows a draft question the way candidates will see it, on the same screen the test flow
+ * puts it: its listening group, its reading passage, or a question on its own.
+ */
+export const AuthoringPreview: React.FC<AuthoringPreviewProps> = ({ section, question }) => {
+  const [answers, setAnswers] = useState<Answers>({});
+
+  const handleAnswerChange = (questionId: number, answer: AnswerValue) => {
+    setAnswers(prev => ({ ...prev, [questionId]: answer }));
+  };
+
+  // Several question components copy their content into state when mounted, so remount on every edit
+  const revision = JSON.stringify(section);
+
+  const screen = buildSectionScreens(section, 0).find(candidate =>
+    getScreenQuestions(candidate).some(shown => shown.id === question.id)
+  );
+  if (!screen) return null;
+
+  // Navigation is disabled in the preview
+  return (
+    <FlowScreenView
+      key={revision}
+      screen={screen}
+      sections={[section]}
+      answers={answers}
+      onAnswerChange={handleAnswerChange}
+      onNext={() => {}}
+      canGoNext={false}
+    />
+  );
+};
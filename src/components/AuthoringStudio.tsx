@@ -0,0 +1,350 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, CheckCircle, Download, FilePlus, FileSpreadsheet, FolderOpen, PenTool, Plus, Settings } from 'lucide-react';
+import { Question, TestForm, TestSection } from '../types/test';
+import { registeredForms } from '../data/testForms';
+import { loadTestForm } from '../utils/testFormSchema';
+import { toPlainText } from '../utils/richText';
+import {
+  assignToStimulus,
+  createBlankForm,
+  createBlankSection,
+  createQuestion,
+  exportTestForm,
+  findStimulusFor,
+  getFormIssues,
+  nextQuestionId,
+  QUESTION_TYPE_LABELS,
+  removeQuestion
+} from '../utils/formAuthoring';
+import { NumberField, TextField } from './AuthoringFields';
+import { SectionEditor } from './SectionEditor';
+import { QuestionEditor } from './QuestionEditor';
+import { AuthoringPreview } from './AuthoringPreview';
+import { ItemSheetImport } from './ItemSheetImport';
+
+const downloadFile = (contents: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Lets test designers edit a form without touching code and export it as a validated form file
+export const AuthoringStudio: React.FC = () => {
+  const [form, setForm] = useState<TestForm>(() => structuredClone(registeredForms[0]));
+  const [sectionIndex, setSectionIndex] = useState(0);
+  const [questionId, setQuestionId] = useState<number | null>(null);
+  const [newQuestionType, setNewQuestionType] = useState<Question['type']>('multiple-choice');
+  const [openError, setOpenError] = useState<string | null>(null);
+  const [importingItems, setImportingItems] = useState(false);
+
+  const issues = useMemo(() => getFormIssues(form), [form]);
+  const section: TestSection | undefined = form.sections[sectionIndex];
+  const question = section?.questions.find(candidate => candidate.id === questionId);
+
+  const startFrom = (next: TestForm) => {
+    setForm(next);
+    setSectionIndex(0);
+    setQuestionId(null);
+    setOpenError(null);
+    setImportingItems(false);
+  };
+
+  const handleStartFrom = (value: string) => {
+    const existing = registeredForms.find(candidate => candidate.id === value);
+    startFrom(existing ? structuredClone(existing) : createBlankForm());
+  };
+
+  const handleOpenFile = async (file: File) => {
+    try {
+      startFrom(loadTestForm(JSON.parse(await file.text())));
+    } catch (error) {
+      setOpenError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleExport = () => {
+    downloadFile(exportTestForm(form), `${form.id}.json`);
+  };
+
+  const updateSection = (next: TestSection) => {
+    setForm(prev => ({
+      ...prev,
+      sections: prev.sections.map((current, index) => (index === sectionIndex ? next : current))
+    }));
+  };
+
+  const updateQuestion = (next: Question) => {
+    if (!section) return;
+    updateSection({
+      ...section,
+      questions: section.questions.map(current => (current.id === next.id ? next : current))
+    });
+  };
+
+  const handleAddSection = () => {
+    setForm(prev => ({ ...prev, sections: [...prev.sections, createBlankSection(prev.sections.length)] }));
+    setSectionIndex(form.sections.length);
+    setQuestionId(null);
+    setImportingItems(false);
+  };
+
+  const handleDeleteSection = () => {
+    setForm(prev => ({ ...prev, sections: prev.sections.filter((_, index) => index !== sectionIndex) }));
+    setSectionIndex(Math.max(0, sectionIndex - 1));
+    setQuestionId(null);
+    setImportingItems(false);
+  };
+
+  const handleAddQuestion = () => {
+    if (!section) return;
+    const id = nextQuestionId(form);
+    const skill = section.questions[section.questions.length - 1]?.skill ?? 'GrammarVocabulary';
+    updateSection({ ...section, questions: [...section.questions, createQuestion(id, newQuestionType, section.id, skill)] });
+    setQuestionId(id);
+    setImportingItems(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white border-b border-gray-200 shadow-sm">
+        <div className="max-w-screen-2xl mx-auto px-6 py-4 flex flex-wrap items-center gap-4">
+          <PenTool className="w-6 h-6 text-blue-600" />
+          <h1 className="text-xl font-bold text-gray-800 mr-auto">SEMF Authoring Studio</h1>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <FilePlus className="w-4 h-4" />
+            Start from
+            <select
+              value=""
+              onChange={(e) => handleStartFrom(e.target.value)}
+              className="p-2 border-2 border-gray-300 rounded-lg bg-white"
+            >
+              <option value="" disabled>
+                Choose...
+              </option>
+              {registeredForms.map(candidate => (
+                <option key={candidate.id} value={candidate.id}>
+                  {candidate.title} ({candidate.id})
+                </option>
+              ))}
+              <option value="blank">Blank form</option>
+            </select>
+          </label>
+
+          <label className="inline-flex items-center gap-2 px-4 py-2 border-2 border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:border-gray-400 cursor-pointer">
+            <FolderOpen className="w-4 h-4" />
+            Open file
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleOpenFile(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={issues.length > 0}
+            className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold transition-colors ${
+              issues.length > 0 ? 'bg-gray-200 text-gray-400 cursor-not-allowed' : 'bg-blue-600 text-white hover:bg-blue-700'
+            }`}
+          >
+            <Download className="w-4 h-4" />
+            Export form
+          </button>
+        </div>
+      </div>
+
+      <div className="max-w-screen-2xl mx-auto px-6 py-6 space-y-6">
+        {openError && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700 whitespace-pre-line">{openError}</div>
+        )}
+
+        {/* Form details and validation */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <TextField label="Form id" value={form.id} onChange={(id) => setForm(prev => ({ ...prev, id }))} />
+            <TextField label="Title" value={form.title} onChange={(title) => setForm(prev => ({ ...prev, title }))} />
+            <TextField label="Version" value={form.version} onChange={(version) => setForm(prev => ({ ...prev, version }))} />
+            <NumberField
+              label="Test time limit (minutes)"
+              hint="Leave empty for no overall limit."
+              value={form.timeLimit}
+              onChange={(timeLimit) => setForm(prev => ({ ...prev, timeLimit }))}
+            />
+          </div>
+          {issues.length === 0 ? (
+            <p className="text-sm text-green-700 flex items-center gap-2">
+              <CheckCircle className="w-4 h-4" />
+              The form is valid and ready to export.
+            </p>
+          ) : (
+            <details className="text-sm text-amber-700">
+              <summary className="cursor-pointer flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4" />
+                {issues.length} {issues.length === 1 ? 'problem' : 'problems'} to fix before export
+              </summary>
+              <ul className="mt-2 ml-6 list-disc space-y-1">
+                {issues.map((issue, index) => (
+                  <li key={index}>{issue}</li>
+                ))}
+              </ul>
+            </details>
+          )}
+        </div>
+
+        {/* Sections */}
+        <div className="flex flex-wrap gap-2">
+          {form.sections.map((candidate, index) => (
+            <button
+              key={index}
+              type="button"
+              onClick={() => {
+                setSectionIndex(index);
+                setQuestionId(null);
+                setImportingItems(false);
+              }}
+              className={`px-4 py-2 rounded-lg border-2 text-sm font-medium transition-all duration-200 ${
+                index === sectionIndex ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-200 bg-white text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              {candidate.title || candidate.id}
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={handleAddSection}
+            className="inline-flex items-center gap-1 px-4 py-2 rounded-lg border-2 border-dashed border-gray-300 text-sm text-gray-600 hover:border-gray-400"
+          >
+            <Plus className="w-4 h-4" />
+            Add section
+          </button>
+        </div>
+
+        {section && (
+          <div className="grid grid-cols-1 xl:grid-cols-12 gap-6">
+            {/* Question list */}
+            <div className="xl:col-span-2 bg-white rounded-xl shadow-sm border border-gray-200 p-4 h-fit space-y-2">
+              <button
+                type="button"
+                onClick={() => {
+                  setQuestionId(null);
+                  setImportingItems(false);
+                }}
+                className={`w-full flex items-center gap-2 text-left p-2 rounded-lg border-2 text-sm transition-all duration-200 ${
+                  questionId === null && !importingItems ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300'
+                }`}
+              >
+                <Settings className="w-4 h-4" />
+                Section settings
+              </button>
+              {section.questions.map(candidate => (
+                <button
+                  key={candidate.id}
+                  type="button"
+                  onClick={() => {
+                    setQuestionId(candidate.id);
+                    setImportingItems(false);
+                  }}
+                  className={`w-full text-left p-2 rounded-lg border-2 text-sm transition-all duration-200 ${
+                    candidate.id === questionId ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300'
+                  }`}
+                >
+                  <div className="font-medium text-gray-800">Q{candidate.id}</div>
+                  <div className="text-xs text-gray-500 truncate">{toPlainText(candidate.question) || QUESTION_TYPE_LABELS[candidate.type]}</div>
+                </button>
+              ))}
+              <div className="border-t border-gray-200 pt-3 space-y-2">
+                <select
+                  value={newQuestionType}
+                  onChange={(e) => setNewQuestionType(e.target.value as Question['type'])}
+                  className="w-full p-2 border-2 border-gray-300 rounded-lg bg-white text-sm"
+                >
+                  {Object.entries(QUESTION_TYPE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={handleAddQuestion}
+                  className="w-full inline-flex items-center justify-center gap-1 p-2 rounded-lg bg-blue-600 text-white text-sm font-semibold hover:bg-blue-700"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add question
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setImportingItems(true);
+                    setQuestionId(null);
+                  }}
+                  className={`w-full inline-flex items-center justify-center gap-1 p-2 rounded-lg border-2 text-sm font-medium transition-all duration-200 ${
+                    importingItems ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-700 hover:border-gray-400'
+                  }`}
+                >
+                  <FileSpreadsheet className="w-4 h-4" />
+                  Import items
+                </button>
+              </div>
+            </div>
+
+            {/* Editor */}
+            <div className="xl:col-span-5">
+              {importingItems ? (
+                <ItemSheetImport
+                  key={sectionIndex}
+                  form={form}
+                  section={section}
+                  onApply={(next) => {
+                    setForm(next);
+                    setImportingItems(false);
+                  }}
+                  onClose={() => setImportingItems(false)}
+                />
+              ) : question ? (
+                <QuestionEditor
+                  key={question.id}
+                  question={question}
+                  passages={section.passages ?? []}
+                  stimuli={section.stimuli ?? []}
+                  stimulusId={findStimulusFor(section, question.id)?.id ?? null}
+                  staged={!!section.stages}
+                  onChange={updateQuestion}
+                  onStimulusChange={(stimulusId) => updateSection(assignToStimulus(section, question.id, stimulusId))}
+                  onDelete={() => {
+                    updateSection(removeQuestion(section, question.id));
+                    setQuestionId(null);
+                  }}
+                />
+              ) : (
+                <SectionEditor key={sectionIndex} section={section} onChange={updateSection} onDelete={handleDeleteSection} />
+              )}
+            </div>
+
+            {/* Live preview */}
+            <div className="xl:col-span-5 bg-gray-100 rounded-xl border border-gray-200 overflow-hidden">
+              <div className="px-4 py-2 bg-white border-b border-gray-200 text-sm font-semibold text-gray-600">
+                Candidate preview
+              </div>
+              {question ? (
+                <AuthoringPreview section={section} question={question} />
+              ) : (
+                <p className="p-8 text-center text-gray-500">Select a question to preview it.</p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import React from 'react';
+import { ArrowRight, Coffee } from 'lucide-react';
+import { NEXT_SHORTCUT } from '../hooks/useNavigationKeys';
+import { useI18n } from '../i18n/useI18n';
+
+interface BreakViewProps {
+  timeLeft: number; // seconds
+  nextSectionTitle?: string;
+  onNext: () => void;
+}
+
+// A rest between sections that ends by itself, or sooner if the candidate chooses to continue
+export const BreakView: React.FC<BreakViewProps> = ({ timeLeft, nextSectionTitle, onNext }) => {
+  const { common, flow } = useI18n().messages;
+
+  return (
+    <div className="max-w-3xl mx-auto px-6 py-12">
+      <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-10 text-center">
+        <Coffee className="w-12 h-12 text-blue-600 mx-auto mb-4" />
+        <h2 className="text-3xl font-bold text-gray-800 mb-4">{flow.breakTitle}</h2>
+        <p className="text-lg text-gray-700 mb-2">
+          {flow.breakBody(common.minutesSeconds(Math.floor(timeLeft / 60), String(timeLeft % 60).padStart(2, '0')))}
+        </p>
+        {nextSectionTitle && <p className="text-gray-600 mb-8">{flow.upNext(nextSectionTitle)}</p>}
+        <button
+          onClick={onNext}
+          aria-keyshortcuts={NEXT_SHORTCUT}
+          className="inline-flex items-center gap-2 px-8 py-3 rounded-lg font-semibold bg-blue-600 hover:bg-blue-700 text-white shadow-md hover:shadow-lg transition-all duration-200"
+        >
+          {flow.continueNow}
+          <ArrowRight className="w-5 h-5" />
+        </button>
+      </div>
+    </div>
+  );
+};
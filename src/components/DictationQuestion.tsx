@@ -0,0 +1,42 @@
+import React from 'react';
+import { Question } from '../types/test';
+import { RichText } from './RichText';
+import { useI18n } from '../i18n/useI18n';
+
+interface DictationQuestionProps {
+  question: Question;
+  answer: string;
+  onAnswerChange: (questionId: number, answer: string) => void;
+  questionNumber: number;
+}
+
+export const DictationQuestion: React.FC<DictationQuestionProps> = ({
+  question,
+  answer,
+  onAnswerChange,
+  questionNumber
+}) => {
+  const text = useI18n().messages.questions;
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 shadow-sm">
+      <div className="mb-4">
+        <h3 className="text-lg font-medium text-gray-800">
+          <span className="text-blue-600 font-bold">{questionNumber}.</span> <RichText text={question.question} inline />
+        </h3>
+        <p className="text-sm text-gray-600 mt-2">{text.dictationHint}</p>
+      </div>
+
+      <textarea
+        aria-label={text.dictationLabel(questionNumber)}
+        value={answer}
+        onChange={(e) => onAnswerChange(question.id, e.target.value)}
+        className="w-full h-20 p-3 border-2 border-gray-300 rounded-lg focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all duration-200 resize-none"
+        placeholder={text.dictationPlaceholder}
+        spellCheck={false}
+        autoCorrect="off"
+        autoCapitalize="off"
+      />
+    </div>
+  );
+};
@@ -0,0 +1,31 @@
+import React from 'react';
+import { Flag } from 'lucide-react';
+import { useI18n } from '../i18n/useI18n';
+
+interface FlagButtonProps {
+  flagged: boolean;
+  onToggle: () => void;
+}
+
+// Marks a question so the candidate can find it again on the review screen
+export const FlagButton: React.FC<FlagButtonProps> = ({ flagged, onToggle }) => {
+  const { review } = useI18n().messages;
+
+  return (
+    <div className="flex justify-end mb-2">
+      <button
+        type="button"
+        onClick={onToggle}
+        aria-pressed={flagged}
+        className={`inline-flex items-center gap-1 px-3 py-1 rounded-full text-sm font-medium border transition-colors duration-200 ${
+          flagged
+            ? 'bg-amber-100 border-amber-300 text-amber-800'
+            : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-50'
+        }`}
+      >
+        <Flag className={`w-4 h-4 ${flagged ? 'fill-amber-500 text-amber-600' : ''}`} />
+        {flagged ? review.flagged : review.flagForReview}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,142 @@
+import React from 'react';
+import { Answers, AnswerValue, TestSection } from '../types/test';
+import { SectionScreen } from '../utils/testFlow';
+import { SingleQuestionView } from './SingleQuestionView';
+import { ReadingPassageView } from './ReadingPassageView';
+import { ListeningQuestionView } from './ListeningQuestionView';
+import { SectionIntroView } from './SectionIntroView';
+import { BreakView } from './BreakView';
+import { useNavigationKeys } from '../hooks/useNavigationKeys';
+import { useI18n } from '../i18n/useI18n';
+import { translateFormText } from '../i18n/locales';
+
+interface FlowScreenViewProps {
+  screen: SectionScreen;
+  sections: TestSection[];
+  answers: Answers;
+  onAnswerChange: (questionId: number, answer: AnswerValue) => void;
+  onNext: () => void;
+  onPrevious?: () => void;
+  canGoNext?: boolean;
+  canGoPrevious?: boolean;
+  beforeReview?: boolean; // the review screen comes next, so Next is labelled as going there
+  timeLeft?: number; // seconds left on the screen's timer; the whole limit when not given
+  playCounts?: Record<string, number>; // plays used so far, by recording id
+  onPlay?: (stimulusId: string) => void;
+  flagged?: number[];
+  onToggleFlag?: (questionId: number) => void;
+}
+
+const noop = () => {};
+
+// Shows one screen of the test flow with the view for its kind
+export const FlowScreenView: React.FC<FlowScreenViewProps> = ({
+  screen,
+  sections,
+  answers,
+  onAnswerChange,
+  onNext,
+  onPrevious = noop,
+  canGoNext = true,
+  canGoPrevious = false,
+  beforeReview = false,
+  timeLeft,
+  playCounts = {},
+  onPlay,
+  flagged = [],
+  onToggleFlag
+}) => {
+  const { messages } = useI18n();
+  useNavigationKeys(canGoNext ? onNext : undefined, canGoPrevious ? onPrevious : undefined);
+  const section = sections[screen.sectionIndex];
+  const sectionTitle = translateFormText(messages, section.title);
+  const sectionInstructions = translateFormText(messages, section.instructions);
+
+  switch (screen.kind) {
+    case 'instructions':
+      return <SectionIntroView sectionTitle={sectionTitle} sectionInstructions={sectionInstructions} onNext={onNext} />;
+
+    case 'break': {
+      const nextSection = sections[screen.sectionIndex + 1];
+      return (
+        <BreakView
+          timeLeft={timeLeft ?? screen.duration}
+          nextSectionTitle={nextSection && translateFormText(messages, nextSection.title)}
+          onNext={onNext}
+        />
+      );
+    }
+
+    case 'passage':
+      return (
+        <ReadingPassageView
+          sectionTitle={sectionTitle}
+          sectionInstructions={sectionInstructions}
+          passage={screen.passage}
+          passageNumber={screen.number}
+          totalPassages={screen.total}
+          questions={screen.questions}
+          answers={answers}
+          onAnswerChange={onAnswerChange}
+          onNext={onNext}
+          onPrevious={onPrevious}
+          canGoNext={canGoNext}
+          canGoPrevious={canGoPrevious}
+          beforeReview={beforeReview}
+          timeLimit={screen.timeLimit}
+          timeLeft={timeLeft ?? screen.timeLimit}
+          flagged={flagged}
+          onToggleFlag={onToggleFlag}
+        />
+      );
+
+    case 'audio':
+      // Keyed by recording so the player starts afresh for each group
+      return (
+        <ListeningQuestionView
+          key={screen.stimulus.id}
+          sectionTitle={sectionTitle}
+          sectionInstructions={sectionInstructions}
+          stimulus={screen.stimulus}
+          questions={screen.questions}
+          groupNumber={screen.number}
+          totalGroups={screen.total}
+          answers={answers}
+          onAnswerChange={onAnswerChange}
+          onNext={onNext}
+          onPrevious={onPrevious}
+          canGoNext={canGoNext}
+          canGoPrevious={canGoPrevious}
+          beforeReview={beforeReview}
+          timeLimit={screen.timeLimit}
+          timeLeft={timeLeft ?? screen.timeLimit}
+          playsUsed={playCounts[screen.stimulus.id]}
+          onPlay={onPlay}
+          flagged={flagged}
+          onToggleFlag={onToggleFlag}
+        />
+      );
+
+    case 'item':
+      return (
+        <SingleQuestionView
+          question={screen.question}
+          questionNumber={screen.number}
+          totalQuestions={screen.total}
+          answer={answers[screen.question.id] ?? ''}
+          onAnswerChange={onAnswerChange}
+          onNext={onNext}
+          onPrevious={onPrevious}
+          canGoNext={canGoNext}
+          canGoPrevious={canGoPrevious}
+          beforeReview={beforeReview}
+          sectionTitle={sectionTitle}
+          sectionInstructions={sectionInstructions}
+          timeLimit={screen.timeLimit}
+          timeLeft={timeLeft ?? screen.timeLimit}
+          flagged={flagged.includes(screen.question.id)}
+          onToggleFlag={onToggleFlag}
+        />
+      );
+  }
+};
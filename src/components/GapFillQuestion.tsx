@@ -0,0 +1,86 @@
+import React from 'react';
+import { Question } from '../types/test';
+import { splitClozeText } from '../utils/cloze';
+import { RichText } from './RichText';
+import { toPlainText } from '../utils/richText';
+import { useI18n } from '../i18n/useI18n';
+
+interface GapFillQuestionProps {
+  question: Question;
+  answers: string[];
+  onAnswerChange: (questionId: number, answer: string[]) => void;
+  questionNumber: number;
+}
+
+export const GapFillQuestion: React.FC<GapFillQuestionProps> = ({
+  question,
+  answers,
+  onAnswerChange,
+  questionNumber
+}) => {
+  const text = useI18n().messages.questions;
+  const gaps = question.cloze?.gaps ?? [];
+  const parts = splitClozeText(question.cloze?.text ?? '');
+
+  const handleGapChange = (index: number, value: string) => {
+    const next = gaps.map((_, gapIndex) => answers[gapIndex] ?? '');
+    next[index] = value;
+    onAnswerChange(question.id, next);
+  };
+
+  const renderGap = (index: number) => {
+    const gap = gaps[index];
+    const label = text.gapLabel(index + 1);
+    if (!gap) return null;
+
+    if (gap.options) {
+      return (
+        <select
+          aria-label={label}
+          value={answers[index] ?? ''}
+          onChange={(e) => handleGapChange(index, e.target.value)}
+          className="mx-1 px-2 py-1 border-2 border-gray-300 rounded-lg focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all duration-200"
+        >
+          <option value="">({index + 1}) ...</option>
+          {gap.options.map(option => (
+            <option key={option} value={option}>{toPlainText(option)}</option>
+          ))}
+        </select>
+      );
+    }
+
+    return (
+      <input
+        type="text"
+        aria-label={label}
+        value={answers[index] ?? ''}
+        onChange={(e) => handleGapChange(index, e.target.value)}
+        className="mx-1 w-36 px-2 py-1 border-2 border-gray-300 rounded-lg focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all duration-200"
+        placeholder={`(${index + 1})`}
+        spellCheck={false}
+        autoCorrect="off"
+        autoCapitalize="off"
+      />
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 shadow-sm">
+      <div className="mb-4">
+        <h3 className="text-lg font-medium text-gray-800">
+          <span className="text-blue-600 font-bold">{questionNumber}.</span> <RichText text={question.question} inline />
+        </h3>
+      </div>
+
+      <p className="text-gray-700 leading-loose">
+        {parts.map((part, index) =>
+          typeof part === 'number' ? (
+            <React.Fragment key={index}>{renderGap(part)}</React.Fragment>
+          ) : (
+            <RichText key={index} text={part} inline />
+          )
+        )}
+      </p>
+    </div>
+  );
+};
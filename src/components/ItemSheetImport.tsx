@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { AlertTriangle, FileSpreadsheet, X } from 'lucide-react';
+import { TestForm, TestSection } from '../types/test';
+import { readSpreadsheet } from '../utils/spreadsheet';
+import { applyItemSheet, diffItemSheet, ItemSheet, ItemSheetDiff, parseItemSheet, SheetIssue } from '../utils/itemSheetImport';
+
+interface ItemSheetImportProps {
+  form: TestForm;
+  section: TestSection;
+  onApply: (form: TestForm) => void;
+  onClose: () => void;
+}
+
+interface LoadedSheet {
+  fileName: string;
+  sheet: ItemSheet;
+  diff: ItemSheetDiff;
+}
+
+const IssueList: React.FC<{ issues: SheetIssue[]; className: string }> = ({ issues, className }) => (
+  <ul className={`space-y-1 text-sm ${className}`}>
+    {issues.map((issue, index) => (
+      <li key={index}>
+        <span className="font-medium">Row {issue.row}:</span> {issue.message}
+      </li>
+    ))}
+  </ul>
+);
+
+// Loads multiple-choice items from an item writer's spreadsheet and shows what would change before applying it
+export const ItemSheetImport: React.FC<ItemSheetImportProps> = ({ form, section, onApply, onClose }) => {
+  const [loaded, setLoaded] = useState<LoadedSheet | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+
+  // New items take the section's skill, so a grammar sheet loaded into the grammar section scores as grammar
+  const skill = section.questions[0]?.skill ?? 'GrammarVocabulary';
+
+  const handleFile = async (file: File) => {
+    try {
+      const rows = readSpreadsheet(new Uint8Array(await file.arrayBuffer()), file.name);
+      const sheet = parseItemSheet(rows, skill);
+      setLoaded({ fileName: file.name, sheet, diff: diffItemSheet(section, sheet.items) });
+      setReadError(null);
+    } catch (error) {
+      setLoaded(null);
+      setReadError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const diff = loaded?.diff;
+  const hasErrors = (loaded?.sheet.errors.length ?? 0) > 0;
+  const hasChanges = !!diff && diff.added.length + diff.updated.length > 0;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-800">Import items into {section.title || section.id}</h3>
+        <button type="button" onClick={onClose} className="text-gray-500 hover:text-gray-700" aria-label="Close import">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-600">
+        The first row names the columns: stem, A, B, C, D and key, with optional sub-skill, level, difficulty and points.
+        Items whose stem is already in the section update that question; the rest are added at the end.
+      </p>
+
+      <label className="inline-flex items-center gap-2 px-4 py-2 border-2 border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:border-gray-400 cursor-pointer">
+        <FileSpreadsheet className="w-4 h-4" />
+        {loaded ? loaded.fileName : 'Choose spreadsheet'}
+        <input
+          type="file"
+          accept=".csv,.tsv,.xlsx,text/csv"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+        />
+      </label>
+
+      {readError && <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">{readError}</div>}
+
+      {loaded && (
+        <>
+          {hasErrors && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 space-y-2">
+              <p className="text-sm font-semibold text-red-700 flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4" />
+                Fix these rows in the spreadsheet and load it again
+              </p>
+              <IssueList issues={loaded.sheet.errors} className="text-red-700" />
+            </div>
+          )}
+          {loaded.sheet.warnings.length > 0 && (
+            <details className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+              <summary className="cursor-pointer text-sm font-semibold text-amber-700">
+                {loaded.sheet.warnings.length} {loaded.sheet.warnings.length === 1 ? 'warning' : 'warnings'}
+              </summary>
+              <IssueList issues={loaded.sheet.warnings} className="mt-2 text-amber-700" />
+            </details>
+          )}
+
+          {diff && (
+            <div className="space-y-3 text-sm">
+              <p className="text-gray-700">
+                {diff.added.length} new, {diff.updated.length} updated, {diff.unchanged.length} unchanged;{' '}
+                {diff.untouched.length} {diff.untouched.length === 1 ? 'question' : 'questions'} not in the sheet will be kept.
+              </p>
+              {diff.added.length > 0 && (
+                <div>
+                  <h4 className="font-semibold text-green-700 mb-1">New</h4>
+                  <ul className="space-y-1">
+                    {diff.added.map(item => (
+                      <li key={item.row} className="text-gray-700">
+                        <span className="text-gray-500">Row {item.row}:</span> {item.question.question}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {diff.updated.length > 0 && (
+                <div>
+                  <h4 className="font-semibold text-blue-700 mb-1">Updated</h4>
+                  <ul className="space-y-1">
+                    {diff.updated.map(update => (
+                      <li key={update.before.id} className="text-gray-700">
+                        <span className="text-gray-500">Q{update.before.id}:</span> {update.before.question}{' '}
+                        <span className="text-blue-700">({update.changes.join(', ')})</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+
+          <button
+            type="button"
+            onClick={() => diff && onApply(applyItemSheet(form, section.id, diff))}
+            disabled={hasErrors || !hasChanges}
+            className={`px-4 py-2 rounded-lg text-sm font-semibold transition-colors ${
+              hasErrors || !hasChanges ? 'bg-gray-200 text-gray-400 cursor-not-allowed' : 'bg-blue-600 text-white hover:bg-blue-700'
+            }`}
+          >
+            Apply to section
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,30 +1,39 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef } from 'react';
 import { Play, Volume2, RotateCcw, ArrowRight, ArrowLeft } from 'lucide-react';
-import { MultipleChoiceQuestion } from './MultipleChoiceQuestion';
-import { Question } from '../types/test';
+import { QuestionRenderer } from './QuestionRenderer';
+import { Answers, AnswerValue, ListeningStimulus, Question } from '../types/test';
 import { Timer } from './Timer';
-
-interface AudioGroup {
-  name: string;
-  audioFile: string;
-  questions: Question[];
-  description: string;
-}
+import { RichText } from './RichText';
+import { NEXT_SHORTCUT, PREVIOUS_SHORTCUT } from '../hooks/useNavigationKeys';
+import { useI18n } from '../i18n/useI18n';
 
 interface ListeningQuestionViewProps {
-  group: AudioGroup;
+  sectionTitle: string;
+  sectionInstructions?: string;
+  stimulus: ListeningStimulus;
+  questions: Question[];
   groupNumber: number;
   totalGroups: number;
-  answers: Record<number, string>;
-  onAnswerChange: (questionId: number, answer: string) => void;
+  answers: Answers;
+  onAnswerChange: (questionId: number, answer: AnswerValue) => void;
   onNext: () => void;
   onPrevious: () => void;
   canGoNext: boolean;
+  beforeReview?: boolean; // the review screen comes next
   canGoPrevious: boolean;
+  timeLimit: number; // seconds
+  timeLeft: number;
+  playsUsed?: number; // plays used on an earlier visit, which count towards the limit
+  onPlay?: (stimulusId: string) => void;
+  flagged?: number[];
+  onToggleFlag?: (questionId: number) => void;
 }
 
 export const ListeningQuestionView: React.FC<ListeningQuestionViewProps> = ({
-  group,
+  sectionTitle,
+  sectionInstructions,
+  stimulus,
+  questions,
   groupNumber,
   totalGroups,
   answers,
@@ -32,59 +41,26 @@ export const ListeningQuestionView: React.FC<ListeningQuestionViewProps> = ({
   onNext,
   onPrevious,
   canGoNext,
-  canGoPrevious
+  beforeReview = false,
+  canGoPrevious,
+  timeLimit,
+  timeLeft,
+  playsUsed = 0,
+  onPlay,
+  flagged = [],
+  onToggleFlag
 }) => {
+  const { common, test, listening } = useI18n().messages;
   const [audioState, setAudioState] = useState({
     isPlaying: false,
-    hasPlayed: false,
-    playCount: 0,
+    hasPlayed: playsUsed > 0,
+    playCount: playsUsed,
     currentTime: 0,
     duration: 0
   });
 
   const audioRef = useRef<HTMLAudioElement | null>(null);
-  const maxPlays = 2;
-  const timeLimit = 300; // 5 minutes = 300 seconds
-  const [timeLeft, setTimeLeft] = useState(timeLimit);
-  const [isActive, setIsActive] = useState(true);
-
-  // Timer logic
-  useEffect(() => {
-    let interval: NodeJS.Timeout | null = null;
-    
-    if (isActive && timeLeft > 0) {
-      interval = setInterval(() => {
-        setTimeLeft((time) => {
-          if (time <= 1) {
-            setIsActive(false);
-            onNext();
-            return 0;
-          }
-          return time - 1;
-        });
-      }, 1000);
-    }
-
-    return () => {
-      if (interval) {
-        clearInterval(interval);
-      }
-    };
-  }, [isActive, timeLeft, onNext]);
-
-  // Reset timer when group changes
-  useEffect(() => {
-    setTimeLeft(timeLimit);
-    setIsActive(true);
-    setAudioState({
-      isPlaying: false,
-      hasPlayed: false,
-      playCount: 0,
-      currentTime: 0,
-      duration: 0
-    });
-  }, [group.name]);
-
+  const { maxPlays, revealQuestionsAfterPlay } = stimulus.playPolicy;
   const handlePlayAudio = () => {
     if (audioRef.current && audioState.playCount < maxPlays && !audioState.isPlaying) {
       audioRef.current.play()
@@ -95,6 +71,7 @@ export const ListeningQuestionView: React.FC<ListeningQuestionViewProps> = ({
             hasPlayed: true,
             playCount: prev.playCount + 1
           }));
+          onPlay?.(stimulus.id);
         })
         .catch(error => console.error('Error playing audio:', error));
     }
@@ -151,15 +128,18 @@ export const ListeningQuestionView: React.FC<ListeningQuestionViewProps> = ({
 
       {/* Page Header */}
       <div className="text-center mb-8">
-        <h2 className="text-2xl font-bold text-gray-800 mb-2">Core Listening</h2>
-        <p className="text-gray-600">Recording {groupNumber} of {totalGroups}: {group.name}</p>
+        <h2 className="text-2xl font-bold text-gray-800 mb-2">{sectionTitle}</h2>
+        <p className="text-gray-600">{test.recordingOf(groupNumber, totalGroups, stimulus.title)}</p>
+        {sectionInstructions && (
+          <RichText text={sectionInstructions} className="mt-3 text-sm text-gray-600" />
+        )}
       </div>
 
       <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
         {/* Hidden audio element */}
         <audio
           ref={audioRef}
-          src={group.audioFile}
+          src={stimulus.audioFile}
           onTimeUpdate={handleTimeUpdate}
           onLoadedMetadata={handleLoadedMetadata}
           onEnded={() => setAudioState(prev => ({ ...prev, isPlaying: false }))}
@@ -167,16 +147,17 @@ export const ListeningQuestionView: React.FC<ListeningQuestionViewProps> = ({
 
         {/* Audio Player Section */}
         <div className="bg-blue-50 border border-blue-200 rounded-t-xl p-6">
-          <h3 className="text-lg font-semibold text-blue-800 mb-3">{group.name}</h3>
-          <p className="text-blue-700 mb-4">
-            {group.description}
-            <strong> You can play the audio up to {maxPlays} times. Once started, the audio cannot be paused.</strong>
+          <h3 className="text-lg font-semibold text-blue-800 mb-3">{stimulus.title}</h3>
+          <p id={`play-limit-${stimulus.id}`} className="text-blue-700 mb-4">
+            <RichText text={stimulus.description} inline lang="en" dir="ltr" />
+            <strong> {listening.playLimit(maxPlays)}</strong>
           </p>
           
           <div className="flex items-center gap-4 mb-4">
             <button
               onClick={handlePlayAudio}
               disabled={audioState.playCount >= maxPlays || audioState.isPlaying}
+              aria-describedby={`play-limit-${stimulus.id}`}
               className={`flex items-center gap-2 px-6 py-3 rounded-lg font-medium transition-all duration-200 ${
                 audioState.playCount >= maxPlays
                   ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
@@ -190,17 +171,17 @@ export const ListeningQuestionView: React.FC<ListeningQuestionViewProps> = ({
                   <div className="w-5 h-5 flex items-center justify-center">
                     <div className="w-2 h-2 bg-white rounded-full animate-pulse"></div>
                   </div>
-                  Playing...
+                  {listening.playing}
                 </>
               ) : audioState.playCount >= maxPlays ? (
                 <>
                   <Volume2 className="w-5 h-5" />
-                  No Plays Remaining
+                  {listening.noPlaysLeft}
                 </>
               ) : (
                 <>
                   <Play className="w-5 h-5" />
-                  Play Audio ({maxPlays - audioState.playCount} {maxPlays - audioState.playCount === 1 ? 'play' : 'plays'} remaining)
+                  {listening.play(maxPlays - audioState.playCount)}
                 </>
               )}
             </button>
@@ -208,6 +189,7 @@ export const ListeningQuestionView: React.FC<ListeningQuestionViewProps> = ({
             <button
               onClick={handleResetAudio}
               disabled={audioState.playCount >= maxPlays || audioState.isPlaying}
+              aria-label={listening.resetLabel}
               className={`flex items-center gap-2 px-4 py-3 rounded-lg font-medium transition-all duration-200 ${
                 audioState.playCount >= maxPlays || audioState.isPlaying
                   ? 'bg-gray-200 text-gray-400 cursor-not-allowed'
@@ -215,45 +197,57 @@ export const ListeningQuestionView: React.FC<ListeningQuestionViewProps> = ({
               }`}
             >
               <RotateCcw className="w-4 h-4" />
-              Reset
+              {listening.reset}
             </button>
             
-            {audioState.isPlaying && (
-              <div className="flex items-center gap-2 text-blue-700">
-                <div className="w-2 h-2 bg-blue-600 rounded-full animate-pulse"></div>
-                <span className="text-sm">Audio is playing (cannot be paused)</span>
-              </div>
-            )}
+            <div role="status" className="flex items-center gap-2 text-blue-700">
+              {audioState.isPlaying && (
+                <>
+                  <div className="w-2 h-2 bg-blue-600 rounded-full animate-pulse"></div>
+                  <span className="text-sm">{listening.cannotPause}</span>
+                </>
+              )}
+            </div>
           </div>
 
           {/* Play counter */}
-          <div className="mb-3 text-sm text-blue-700">
-            <strong>Plays used:</strong> {audioState.playCount} of {maxPlays}
+          <div role="status" className="mb-3 text-sm text-blue-700">
+            {listening.playsUsed(audioState.playCount, maxPlays)}
           </div>
 
           {/* Audio progress bar */}
-          <div className="w-full bg-gray-200 rounded-full h-2 mb-2">
+          <div
+            role="progressbar"
+            aria-label={listening.position}
+            aria-valuemin={0}
+            aria-valuemax={Math.floor(audioState.duration)}
+            aria-valuenow={Math.floor(audioState.currentTime)}
+            aria-valuetext={listening.positionOf(formatTime(audioState.currentTime), formatTime(audioState.duration))}
+            className="w-full bg-gray-200 rounded-full h-2 mb-2"
+          >
             <div 
               className="bg-blue-600 h-2 rounded-full transition-all duration-300"
               style={{ width: `${audioState.duration > 0 ? (audioState.currentTime / audioState.duration) * 100 : 0}%` }}
             />
           </div>
-          <div className="flex justify-between text-sm text-gray-600">
+          <div className="flex justify-between text-sm text-gray-600" aria-hidden="true">
             <span>{formatTime(audioState.currentTime)}</span>
             <span>{formatTime(audioState.duration)}</span>
           </div>
         </div>
 
         {/* Questions Section */}
-        {audioState.hasPlayed ? (
+        {audioState.hasPlayed || !revealQuestionsAfterPlay ? (
           <div className="p-6 space-y-4">
-            {group.questions.map((question, index) => (
-              <MultipleChoiceQuestion
+            {questions.map((question, index) => (
+              <QuestionRenderer
                 key={question.id}
                 question={question}
-                selectedAnswer={answers[question.id] || ''}
+                answer={answers[question.id]}
                 onAnswerChange={onAnswerChange}
                 questionNumber={index + 1}
+                flagged={flagged.includes(question.id)}
+                onToggleFlag={onToggleFlag}
               />
             ))}
           </div>
@@ -261,22 +255,35 @@ export const ListeningQuestionView: React.FC<ListeningQuestionViewProps> = ({
           <div className="p-6">
             <div className="bg-gray-50 border-2 border-dashed border-gray-300 rounded-xl p-12 text-center">
               <Volume2 className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-              <p className="text-gray-600">Please play the audio first to access the questions</p>
+              <p className="text-gray-600">{listening.playFirst}</p>
             </div>
           </div>
         )}
       </div>
 
       {/* Navigation */}
-      <div className="flex justify-end mt-8">
+      <div className="flex justify-between mt-8">
+        {canGoPrevious ? (
+          <button
+            onClick={onPrevious}
+            aria-keyshortcuts={PREVIOUS_SHORTCUT}
+            className="flex items-center gap-2 px-6 py-3 rounded-lg font-semibold bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 transition-all duration-200"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            {common.previous}
+          </button>
+        ) : (
+          <span />
+        )}
         <button
           onClick={onNext}
+          aria-keyshortcuts={NEXT_SHORTCUT}
           disabled={false}
           className={`flex items-center gap-2 px-6 py-3 rounded-lg font-semibold transition-all duration-200 ${
             'bg-blue-600 hover:bg-blue-700 text-white shadow-md hover:shadow-lg'
           }`}
         >
-          {groupNumber >= totalGroups ? 'Complete Test' : 'Next'}
+          {beforeReview ? common.reviewAnswers : common.next}
           <ArrowRight className="w-5 h-5" />
         </button>
       </div>
@@ -0,0 +1,77 @@
+import React from 'react';
+import { Question } from '../types/test';
+import { RichText } from './RichText';
+import { useI18n } from '../i18n/useI18n';
+
+interface MatchingQuestionProps {
+  question: Question;
+  answers: string[];
+  onAnswerChange: (questionId: number, answer: string[]) => void;
+  questionNumber: number;
+}
+
+export const MatchingQuestion: React.FC<MatchingQuestionProps> = ({
+  question,
+  answers,
+  onAnswerChange,
+  questionNumber
+}) => {
+  const text = useI18n().messages.questions;
+  const matching = question.matching;
+  if (!matching) return null;
+
+  const handleMatchChange = (index: number, letter: string) => {
+    const next = matching.prompts.map((_, promptIndex) => answers[promptIndex] ?? '');
+    next[index] = letter;
+    onAnswerChange(question.id, next);
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 shadow-sm">
+      <div className="mb-4">
+        <h3 className="text-lg font-medium text-gray-800">
+          <span className="text-blue-600 font-bold">{questionNumber}.</span> <RichText text={question.question} inline />
+        </h3>
+      </div>
+
+      {/* Options to choose from */}
+      <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-6">
+        <div className="text-sm font-semibold text-gray-600 mb-2">{matching.optionLabel}s</div>
+        <ul className="space-y-1">
+          {matching.options.map((option, index) => (
+            <li key={index} className="text-gray-700">
+              <span className="font-medium min-w-[20px] inline-block">{String.fromCharCode(65 + index)})</span> <RichText text={option} inline />
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="space-y-4">
+        {matching.prompts.map((prompt, index) => {
+          const selectId = `question-${question.id}-prompt-${index}`;
+          return (
+            <div key={selectId} className="flex flex-col sm:flex-row sm:items-start gap-3 p-3 rounded-lg border-2 border-gray-200">
+              <label htmlFor={selectId} className="flex-1 text-gray-700">
+                <span className="font-semibold">{matching.promptLabel} {index + 1}:</span> <RichText text={prompt} inline />
+              </label>
+              <select
+                id={selectId}
+                value={answers[index] ?? ''}
+                onChange={(e) => handleMatchChange(index, e.target.value)}
+                className="px-3 py-2 border-2 border-gray-300 rounded-lg focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all duration-200"
+              >
+                <option value="">{text.chooseOption(matching.optionLabel)}</option>
+                {matching.options.map((_, optionIndex) => {
+                  const letter = String.fromCharCode(65 + optionIndex);
+                  return (
+                    <option key={letter} value={letter}>{letter}</option>
+                  );
+                })}
+              </select>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
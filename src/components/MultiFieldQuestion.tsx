@@ -0,0 +1,61 @@
+import React from 'react';
+import { Question } from '../types/test';
+import { RichText } from './RichText';
+import { useI18n } from '../i18n/useI18n';
+
+interface MultiFieldQuestionProps {
+  question: Question;
+  answers: string[];
+  onAnswerChange: (questionId: number, answer: string[]) => void;
+  questionNumber: number;
+}
+
+export const MultiFieldQuestion: React.FC<MultiFieldQuestionProps> = ({
+  question,
+  answers,
+  onAnswerChange,
+  questionNumber
+}) => {
+  const text = useI18n().messages.questions;
+  const fields = question.fields ?? [];
+
+  const handleFieldChange = (index: number, value: string) => {
+    const next = fields.map((_, fieldIndex) => answers[fieldIndex] ?? '');
+    next[index] = value;
+    onAnswerChange(question.id, next);
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 shadow-sm">
+      <div className="mb-4">
+        <h3 className="text-lg font-medium text-gray-800 mb-3">
+          <span className="text-blue-600 font-bold">{questionNumber}.</span> <RichText text={question.question} inline />
+        </h3>
+      </div>
+
+      <div className="space-y-3">
+        {fields.map((field, index) => {
+          const inputId = `question-${question.id}-field-${index}`;
+          return (
+            <div key={inputId}>
+              <label htmlFor={inputId} className="block text-sm font-medium text-gray-700 mb-1">
+                ({index + 1}) {field.label}
+              </label>
+              <input
+                id={inputId}
+                type="text"
+                value={answers[index] ?? ''}
+                onChange={(e) => handleFieldChange(index, e.target.value)}
+                className="w-full p-3 border-2 border-gray-300 rounded-lg focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all duration-200"
+                placeholder={field.placeholder ?? text.answerPlaceholder}
+                spellCheck={false}
+                autoCorrect="off"
+                autoCapitalize="off"
+              />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,7 @@
-import React from 'react';
+import React, { useRef } from 'react';
 import { Question } from '../types/test';
+import { RichText } from './RichText';
+import { useI18n } from '../i18n/useI18n';
 
 interface MultipleChoiceQuestionProps {
   question: Question;
@@ -14,16 +16,37 @@ export const MultipleChoiceQuestion: React.FC<MultipleChoiceQuestionProps> = ({
   onAnswerChange,
   questionNumber
 }) => {
+  const text = useI18n().messages.questions;
+  const optionRefs = useRef<(HTMLInputElement | null)[]>([]);
+  const optionCount = question.options?.length ?? 0;
+
+  // A letter key chooses its option while focus is in this question, so typing elsewhere is never taken as an answer
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.altKey || e.ctrlKey || e.metaKey || e.key.length !== 1) return;
+    const index = e.key.toUpperCase().charCodeAt(0) - 65;
+    if (index < 0 || index >= optionCount) return;
+    e.preventDefault();
+    onAnswerChange(question.id, String.fromCharCode(65 + index));
+    optionRefs.current[index]?.focus();
+  };
+
   return (
     <div className="bg-white rounded-lg border border-gray-200 p-6 shadow-sm">
       {/* Question Header */}
       <div className="mb-4">
-        <h3 className="text-lg font-medium text-gray-800">
-          <span className="text-blue-600 font-bold">{questionNumber}.</span> {question.question}
+        <h3 id={`question-${question.id}-stem`} className="text-lg font-medium text-gray-800">
+          <span className="text-blue-600 font-bold">{questionNumber}.</span> <RichText text={question.question} inline />
         </h3>
       </div>
 
-      <div className="space-y-3">
+      <p id={`question-${question.id}-keys`} className="sr-only">{text.optionKeys}</p>
+      <div
+        role="radiogroup"
+        aria-labelledby={`question-${question.id}-stem`}
+        aria-describedby={`question-${question.id}-keys`}
+        onKeyDown={handleKeyDown}
+        className="space-y-3"
+      >
         {question.options?.map((option, index) => {
           const optionLetter = String.fromCharCode(65 + index); // A, B, C, D
           const isSelected = selectedAnswer === optionLetter;
@@ -38,17 +61,21 @@ export const MultipleChoiceQuestion: React.FC<MultipleChoiceQuestionProps> = ({
               }`}
             >
               <input
+                ref={element => {
+                  optionRefs.current[index] = element;
+                }}
                 type="radio"
                 name={`question-${question.id}`}
                 value={optionLetter}
                 checked={isSelected}
                 onChange={() => onAnswerChange(question.id, optionLetter)}
+                aria-keyshortcuts={optionLetter}
                 className="w-4 h-4 text-blue-600 border-gray-300 focus:ring-blue-500"
               />
               <span className="font-medium text-gray-700 min-w-[20px]">
                 {optionLetter})
               </span>
-              <span className="text-gray-700">{option}</span>
+              <RichText text={option} inline className="text-gray-700" />
             </label>
           );
         })}
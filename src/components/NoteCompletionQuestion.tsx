@@ -0,0 +1,60 @@
+import React from 'react';
+import { Question } from '../types/test';
+import { RichText } from './RichText';
+
+interface NoteCompletionQuestionProps {
+  question: Question;
+  answers: string[];
+  onAnswerChange: (questionId: number, answer: string[]) => void;
+  questionNumber: number;
+}
+
+export const NoteCompletionQuestion: React.FC<NoteCompletionQuestionProps> = ({
+  question,
+  answers,
+  onAnswerChange,
+  questionNumber
+}) => {
+  const fields = question.fields ?? [];
+
+  const handleFieldChange = (index: number, value: string) => {
+    const next = fields.map((_, fieldIndex) => answers[fieldIndex] ?? '');
+    next[index] = value;
+    onAnswerChange(question.id, next);
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 shadow-sm">
+      <div className="mb-4">
+        <h3 className="text-lg font-medium text-gray-800">
+          <span className="text-blue-600 font-bold">{questionNumber}.</span> <RichText text={question.question} inline />
+        </h3>
+      </div>
+
+      {/* Notes laid out like a form: label on the left, answer line on the right */}
+      <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 space-y-3">
+        {fields.map((field, index) => {
+          const inputId = `question-${question.id}-note-${index}`;
+          return (
+            <div key={inputId} className="flex flex-col sm:flex-row sm:items-center gap-2">
+              <label htmlFor={inputId} className="sm:w-1/3 font-medium text-gray-700">
+                {field.label}:
+              </label>
+              <input
+                id={inputId}
+                type="text"
+                value={answers[index] ?? ''}
+                onChange={(e) => handleFieldChange(index, e.target.value)}
+                className="flex-1 p-2 border-b-2 border-gray-400 bg-transparent focus:border-blue-500 focus:outline-none transition-all duration-200"
+                placeholder={field.placeholder ?? ''}
+                spellCheck={false}
+                autoCorrect="off"
+                autoCapitalize="off"
+              />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,488 @@
+import React from 'react';
+import { Trash2 } from 'lucide-react';
+import { ListeningStimulus, Passage, Question, SEMFLevel, SEMFSkill, StageModule, TRUE_FALSE_NOT_GIVEN } from '../types/test';
+import { GroupsField, ListField, NumberField, SelectField, TextField } from './AuthoringFields';
+import { RICH_TEXT_HINT } from '../utils/richText';
+import { changeQuestionType, MODULE_LABELS, optionLetter, QUESTION_TYPE_LABELS, SKILL_LABELS } from '../utils/formAuthoring';
+import { splitClozeText } from '../utils/cloze';
+import { speakingRubrics } from '../data/speakingRubric';
+
+interface QuestionEditorProps {
+  question: Question;
+  passages: Passage[];
+  stimuli: ListeningStimulus[];
+  stimulusId: string | null;
+  staged?: boolean; // the section routes candidates between modules, so each question needs one
+  onChange: (question: Question) => void;
+  onStimulusChange: (stimulusId: string | null) => void;
+  onDelete: () => void;
+}
+
+const LEVELS: SEMFLevel[] = ['S1', 'S2', 'S3', 'S4', 'S5'];
+
+const letterOptions = (count: number) =>
+  Array.from({ length: count }, (_, index) => ({ value: optionLetter(index), label: optionLetter(index) }));
+
+// Number of gaps implied by the highest [[n]] marker in a cloze text
+const countGaps = (text: string): number =>
+  splitClozeText(text).reduce<number>((count, part) => (typeof part === 'number' ? Math.max(count, part + 1) : count), 0);
+
+// Keeps each field's placeholder when its label is edited
+const relabelFields = (question: Question, labels: string[]) =>
+  labels.map((label, index) => ({ ...question.fields?.[index], label }));
+
+interface ContentEditorProps {
+  question: Question;
+  onChange: (question: Question) => void;
+}
+
+// Content and answer key fields for the question's type
+const ContentEditor: React.FC<ContentEditorProps> = ({ question, onChange }) => {
+  const { answerKey } = question;
+
+  switch (question.type) {
+    case 'multiple-choice':
+      return (
+        <>
+          <ListField
+            label="Options"
+            hint="One per line; they are lettered A, B, C... in this order."
+            value={question.options ?? []}
+            onChange={(options) => onChange({ ...question, options })}
+          />
+          {answerKey.method === 'exact' && (
+            <SelectField
+              label="Correct option"
+              value={answerKey.value}
+              options={letterOptions(question.options?.length ?? 0)}
+              onChange={(value) => onChange({ ...question, answerKey: { ...answerKey, value } })}
+            />
+          )}
+        </>
+      );
+
+    case 'true-false-not-given':
+      return answerKey.method === 'exact' ? (
+        <SelectField
+          label="Correct answer"
+          value={answerKey.value}
+          options={TRUE_FALSE_NOT_GIVEN.map(value => ({ value, label: value }))}
+          onChange={(value) => onChange({ ...question, answerKey: { ...answerKey, value } })}
+        />
+      ) : null;
+
+    case 'text':
+      return (
+        <>
+          <SelectField
+            label="Scoring"
+            value={answerKey.method}
+            options={[
+              { value: 'keywords', label: 'Keywords' },
+              { value: 'exact', label: 'Exact answer' }
+            ]}
+            onChange={(method) =>
+              onChange({
+                ...question,
+                answerKey:
+                  method === 'exact'
+                    ? { method: 'exact', value: '' }
+                    : { method: 'keywords', keywords: [], minMatches: 1, minLength: 1 }
+              })
+            }
+          />
+          {answerKey.method === 'exact' && (
+            <TextField
+              label="Answer"
+              hint="Compared ignoring case."
+              value={answerKey.value}
+              onChange={(value) => onChange({ ...question, answerKey: { ...answerKey, value } })}
+            />
+          )}
+          {answerKey.method === 'keywords' && (
+            <>
+              <ListField
+                label="Keywords"
+                separator="comma"
+                value={answerKey.keywords}
+                onChange={(keywords) => onChange({ ...question, answerKey: { ...answerKey, keywords } })}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <NumberField
+                  label="Keywords needed"
+                  min={1}
+                  value={answerKey.minMatches}
+                  onChange={(minMatches) => onChange({ ...question, answerKey: { ...answerKey, minMatches: minMatches ?? 1 } })}
+                />
+                <NumberField
+                  label="Minimum length (characters)"
+                  value={answerKey.minLength}
+                  onChange={(minLength) => onChange({ ...question, answerKey: { ...answerKey, minLength: minLength ?? 0 } })}
+                />
+              </div>
+            </>
+          )}
+        </>
+      );
+
+    case 'essay':
+      return answerKey.method === 'essay' ? (
+        <>
+          <div className="grid grid-cols-2 gap-4">
+            <NumberField
+              label="Minimum words"
+              value={answerKey.minWords}
+              onChange={(minWords) => onChange({ ...question, answerKey: { ...answerKey, minWords: minWords ?? 0 } })}
+            />
+            <NumberField
+              label="Maximum words"
+              value={answerKey.maxWords}
+              onChange={(maxWords) => onChange({ ...question, answerKey: { ...answerKey, maxWords: maxWords ?? 0 } })}
+            />
+          </div>
+          <ListField
+            label="On-topic words"
+            hint="The essay must use at least one of these."
+            separator="comma"
+            value={answerKey.anyOf}
+            onChange={(anyOf) => onChange({ ...question, answerKey: { ...answerKey, anyOf } })}
+          />
+        </>
+      ) : null;
+
+    case 'multi-field':
+      return answerKey.method === 'fields' ? (
+        <>
+          <ListField
+            label="Field labels"
+            hint="One per line, e.g. Advantage 1."
+            value={(question.fields ?? []).map(field => field.label)}
+            onChange={(labels) => onChange({ ...question, fields: relabelFields(question, labels) })}
+          />
+          <GroupsField
+            label="Accepted ideas"
+            hint="One idea per line; separate interchangeable keywords with commas."
+            value={answerKey.accept}
+            onChange={(accept) => onChange({ ...question, answerKey: { ...answerKey, accept } })}
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={answerKey.distinct}
+              onChange={(e) => onChange({ ...question, answerKey: { ...answerKey, distinct: e.target.checked } })}
+            />
+            Each idea counts only once
+          </label>
+        </>
+      ) : null;
+
+    case 'note-completion':
+      return answerKey.method === 'tolerant' ? (
+        <>
+          <ListField
+            label="Note labels"
+            hint="One per line, e.g. Appointment day."
+            value={(question.fields ?? []).map(field => field.label)}
+            onChange={(labels) => onChange({ ...question, fields: relabelFields(question, labels) })}
+          />
+          <GroupsField
+            label="Accepted answers"
+            hint="One line per note, alternatives separated by commas. Case, punctuation and small misspellings are forgiven."
+            value={answerKey.accept}
+            onChange={(accept) => onChange({ ...question, answerKey: { ...answerKey, accept } })}
+          />
+        </>
+      ) : null;
+
+    case 'dictation':
+      return answerKey.method === 'dictation' ? (
+        <TextField
+          label="Dictated sentence"
+          multiline
+          value={answerKey.text}
+          onChange={(text) => onChange({ ...question, answerKey: { ...answerKey, text } })}
+        />
+      ) : null;
+
+    case 'sentence-ordering': {
+      const ordering = question.ordering ?? { topic: '', firstSentence: '', sentences: [] };
+      return answerKey.method === 'ordering' ? (
+        <>
+          <TextField
+            label="Topic"
+            value={ordering.topic}
+            onChange={(topic) => onChange({ ...question, ordering: { ...ordering, topic } })}
+          />
+          <TextField
+            label="First sentence (fixed)"
+            value={ordering.firstSentence}
+            onChange={(firstSentence) => onChange({ ...question, ordering: { ...ordering, firstSentence } })}
+          />
+          <ListField
+            label="Sentences to order"
+            hint="One per line, in the order they are shown; they are lettered A, B, C..."
+            value={ordering.sentences.map(sentence => sentence.text)}
+            onChange={(texts) =>
+              onChange({
+                ...question,
+                ordering: { ...ordering, sentences: texts.map((text, index) => ({ letter: optionLetter(index), text })) }
+              })
+            }
+          />
+          <TextField
+            label="Last sentence (fixed, optional)"
+            value={ordering.lastSentence ?? ''}
+            onChange={(lastSentence) =>
+              onChange({ ...question, ordering: { ...ordering, lastSentence: lastSentence || undefined } })
+            }
+          />
+          <ListField
+            label="Correct order"
+            hint="Letters separated by commas, e.g. B, D, A, C."
+            separator="comma"
+            value={answerKey.sequence}
+            onChange={(sequence) =>
+              onChange({ ...question, answerKey: { ...answerKey, sequence: sequence.map(letter => letter.toUpperCase()) } })
+            }
+          />
+        </>
+      ) : null;
+    }
+
+    case 'gap-fill': {
+      const cloze = question.cloze ?? { text: '', gaps: [] };
+      return answerKey.method === 'gaps' ? (
+        <>
+          <TextField
+            label="Text"
+            hint="Mark each gap with [[1]], [[2]], ... in order."
+            multiline
+            value={cloze.text}
+            onChange={(text) => {
+              const gapCount = countGaps(text);
+              const gaps = Array.from({ length: gapCount }, (_, index) => cloze.gaps[index] ?? {});
+              const accept = Array.from({ length: gapCount }, (_, index) => answerKey.accept[index] ?? []);
+              onChange({ ...question, cloze: { text, gaps }, answerKey: { ...answerKey, accept } });
+            }}
+          />
+          <GroupsField
+            label="Dropdown options"
+            hint="One line per gap, options separated by commas. Leave a line empty for a typed gap."
+            value={cloze.gaps.map(gap => gap.options ?? [])}
+            onChange={(groups) =>
+              onChange({
+                ...question,
+                cloze: {
+                  ...cloze,
+                  gaps: cloze.gaps.map((_, index) => (groups[index]?.length ? { options: groups[index] } : {}))
+                }
+              })
+            }
+          />
+          <GroupsField
+            label="Accepted answers"
+            hint="One line per gap, alternatives separated by commas."
+            value={answerKey.accept}
+            onChange={(accept) => onChange({ ...question, answerKey: { ...answerKey, accept } })}
+          />
+        </>
+      ) : null;
+    }
+
+    case 'matching': {
+      const matching = question.matching ?? { promptLabel: '', prompts: [], optionLabel: '', options: [] };
+      return answerKey.method === 'matching' ? (
+        <>
+          <div className="grid grid-cols-2 gap-4">
+            <TextField
+              label="Prompt label"
+              hint="e.g. Paragraph"
+              value={matching.promptLabel}
+              onChange={(promptLabel) => onChange({ ...question, matching: { ...matching, promptLabel } })}
+            />
+            <TextField
+              label="Option label"
+              hint="e.g. Heading"
+              value={matching.optionLabel}
+              onChange={(optionLabel) => onChange({ ...question, matching: { ...matching, optionLabel } })}
+            />
+          </div>
+          <ListField
+            label="Prompts"
+            hint="One per line."
+            value={matching.prompts}
+            onChange={(prompts) =>
+              onChange({
+                ...question,
+                matching: { ...matching, prompts },
+                answerKey: { ...answerKey, pairs: prompts.map((_, index) => answerKey.pairs[index] ?? 'A') }
+              })
+            }
+          />
+          <ListField
+            label="Options"
+            hint="One per line; they are lettered A, B, C... and may include distractors."
+            value={matching.options}
+            onChange={(options) => onChange({ ...question, matching: { ...matching, options } })}
+          />
+          {matching.prompts.map((prompt, index) => (
+            <SelectField
+              key={index}
+              label={`${matching.promptLabel || 'Prompt'} ${index + 1}: ${prompt}`}
+              value={answerKey.pairs[index] ?? 'A'}
+              options={letterOptions(matching.options.length)}
+              onChange={(letter) =>
+                onChange({
+                  ...question,
+                  answerKey: { ...answerKey, pairs: answerKey.pairs.map((pair, pairIndex) => (pairIndex === index ? letter : pair)) }
+                })
+              }
+            />
+          ))}
+        </>
+      ) : null;
+    }
+
+    case 'speaking': {
+      const task = question.speaking ?? { prepTime: 30, responseTime: 60 };
+      return answerKey.method === 'rubric' ? (
+        <>
+          <div className="grid grid-cols-2 gap-4">
+            <NumberField
+              label="Preparation (seconds)"
+              value={task.prepTime}
+              onChange={(prepTime) => onChange({ ...question, speaking: { ...task, prepTime: prepTime ?? 0 } })}
+            />
+            <NumberField
+              label="Response (seconds)"
+              min={1}
+              value={task.responseTime}
+              onChange={(responseTime) => onChange({ ...question, speaking: { ...task, responseTime: responseTime ?? 0 } })}
+            />
+          </div>
+          <SelectField
+            label="Rubric"
+            value={answerKey.rubricId}
+            options={speakingRubrics.map(rubric => ({ value: rubric.id, label: rubric.title }))}
+            onChange={(rubricId) => onChange({ ...question, answerKey: { ...answerKey, rubricId } })}
+          />
+        </>
+      ) : null;
+    }
+  }
+};
+
+// Edits one question of the draft form; every change is passed up as a new question object
+export const QuestionEditor: React.FC<QuestionEditorProps> = ({
+  question,
+  passages,
+  stimuli,
+  stimulusId,
+  staged = false,
+  onChange,
+  onStimulusChange,
+  onDelete
+}) => {
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-800">Question {question.id}</h3>
+        <button
+          type="button"
+          onClick={onDelete}
+          className="inline-flex items-center gap-1 text-sm text-red-600 hover:text-red-700"
+        >
+          <Trash2 className="w-4 h-4" />
+          Delete
+        </button>
+      </div>
+
+      <SelectField
+        label="Type"
+        hint="Changing the type clears the content and key below."
+        value={question.type}
+        options={Object.entries(QUESTION_TYPE_LABELS).map(([value, label]) => ({ value, label }))}
+        onChange={(type) => onChange(changeQuestionType(question, type as Question['type']))}
+      />
+      <TextField
+        label="Question"
+        multiline
+        hint={RICH_TEXT_HINT}
+        value={question.question}
+        onChange={(text) => onChange({ ...question, question: text })}
+      />
+
+      <div className="grid grid-cols-2 gap-4">
+        <SelectField
+          label="Skill"
+          value={question.skill}
+          options={Object.entries(SKILL_LABELS).map(([value, label]) => ({ value, label }))}
+          onChange={(skill) => onChange({ ...question, skill: skill as SEMFSkill })}
+        />
+        <NumberField
+          label="Points"
+          min={0.5}
+          step={0.5}
+          value={question.points}
+          onChange={(points) => onChange({ ...question, points: points ?? 0 })}
+        />
+        <SelectField
+          label="Target level"
+          value={question.targetLevel ?? ''}
+          options={[{ value: '', label: 'Not set' }, ...LEVELS.map(level => ({ value: level, label: level }))]}
+          onChange={(level) => onChange({ ...question, targetLevel: (level || undefined) as SEMFLevel | undefined })}
+        />
+        <TextField
+          label="Sub-skill"
+          value={question.subSkill ?? ''}
+          onChange={(subSkill) => onChange({ ...question, subSkill: subSkill || undefined })}
+        />
+        <NumberField
+          label="Time limit (seconds)"
+          hint="When shown on its own. Leave empty for the section's item time."
+          value={question.timeLimit}
+          onChange={(timeLimit) => onChange({ ...question, timeLimit })}
+        />
+      </div>
+
+      {staged && (
+        <SelectField
+          label="Module"
+          hint="Questions sharing a passage or recording must be in the same module."
+          value={question.module ?? ''}
+          options={[
+            { value: '', label: 'Not set' },
+            ...Object.entries(MODULE_LABELS).map(([value, label]) => ({ value, label }))
+          ]}
+          onChange={(module) => onChange({ ...question, module: (module || undefined) as StageModule | undefined })}
+        />
+      )}
+      {passages.length > 0 && (
+        <SelectField
+          label="Reading passage"
+          value={question.passageId ?? ''}
+          options={[
+            { value: '', label: 'None (shown on its own)' },
+            ...passages.map(passage => ({ value: passage.id, label: passage.title || passage.id }))
+          ]}
+          onChange={(passageId) => onChange({ ...question, passageId: passageId || undefined })}
+        />
+      )}
+      {stimuli.length > 0 && (
+        <SelectField
+          label="Recording"
+          value={stimulusId ?? ''}
+          options={[
+            { value: '', label: 'None' },
+            ...stimuli.map(stimulus => ({ value: stimulus.id, label: stimulus.title || stimulus.id }))
+          ]}
+          onChange={(id) => onStimulusChange(id || null)}
+        />
+      )}
+
+      <div className="border-t border-gray-200 pt-4 space-y-4">
+        <ContentEditor key={question.type} question={question} onChange={onChange} />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import React from 'react';
+import { AnswerValue, Question } from '../types/test';
+import { MultipleChoiceQuestion } from './MultipleChoiceQuestion';
+import { TextQuestion } from './TextQuestion';
+import { MultiFieldQuestion } from './MultiFieldQuestion';
+import { SentenceOrderingQuestion } from './SentenceOrderingQuestion';
+import { GapFillQuestion } from './GapFillQuestion';
+import { MatchingQuestion } from './MatchingQuestion';
+import { TrueFalseNotGivenQuestion } from './TrueFalseNotGivenQuestion';
+import { SpeakingQuestion } from './SpeakingQuestion';
+import { NoteCompletionQuestion } from './NoteCompletionQuestion';
+import { DictationQuestion } from './DictationQuestion';
+import { FlagButton } from './FlagButton';
+import { getFieldAnswers, getTextAnswer } from '../utils/answers';
+
+interface QuestionRendererProps {
+  question: Question;
+  answer: AnswerValue | undefined;
+  onAnswerChange: (questionId: number, answer: AnswerValue) => void;
+  questionNumber: number;
+  flagged?: boolean;
+  onToggleFlag?: (questionId: number) => void; // offers the flag button when given
+}
+
+// Test items are always in English and laid out left to right, whatever the instruction language
+export const QuestionRenderer: React.FC<QuestionRendererProps> = props => (
+  <div>
+    {props.onToggleFlag && (
+      <FlagButton flagged={!!props.flagged} onToggle={() => props.onToggleFlag?.(props.question.id)} />
+    )}
+    <div lang="en" dir="ltr">
+      <QuestionComponent {...props} />
+    </div>
+  </div>
+);
+
+// Picks the response component for a question's type
+const QuestionComponent: React.FC<QuestionRendererProps> = ({
+  question,
+  answer,
+  onAnswerChange,
+  questionNumber
+}) => {
+  switch (question.type) {
+    case 'multiple-choice':
+      return (
+        <MultipleChoiceQuestion
+          question={question}
+          selectedAnswer={getTextAnswer(answer)}
+          onAnswerChange={onAnswerChange}
+          questionNumber={questionNumber}
+        />
+      );
+    case 'sentence-ordering':
+      return (
+        <SentenceOrderingQuestion
+          question={question}
+          selectedAnswer={getTextAnswer(answer)}
+          onAnswerChange={onAnswerChange}
+          questionNumber={questionNumber}
+        />
+      );
+    case 'multi-field':
+      return (
+        <MultiFieldQuestion
+          question={question}
+          answers={getFieldAnswers(answer, question.fields?.length ?? 0)}
+          onAnswerChange={onAnswerChange}
+          questionNumber={questionNumber}
+        />
+      );
+    case 'gap-fill':
+      return (
+        <GapFillQuestion
+          question={question}
+          answers={getFieldAnswers(answer, question.cloze?.gaps.length ?? 0)}
+          onAnswerChange={onAnswerChange}
+          questionNumber={questionNumber}
+        />
+      );
+    case 'matching':
+      return (
+        <MatchingQuestion
+          question={question}
+          answers={getFieldAnswers(answer, question.matching?.prompts.length ?? 0)}
+          onAnswerChange={onAnswerChange}
+          questionNumber={questionNumber}
+        />
+      );
+    case 'true-false-not-given':
+      return (
+        <TrueFalseNotGivenQuestion
+          question={question}
+          selectedAnswer={getTextAnswer(answer)}
+          onAnswerChange={onAnswerChange}
+          questionNumber={questionNumber}
+        />
+      );
+    case 'speaking':
+      return (
+        <SpeakingQuestion
+          key={question.id}
+          question={question}
+          recordingId={getTextAnswer(answer)}
+          onAnswerChange={onAnswerChange}
+          questionNumber={questionNumber}
+        />
+      );
+    case 'note-completion':
+      return (
+        <NoteCompletionQuestion
+          question={question}
+          answers={getFieldAnswers(answer, question.fields?.length ?? 0)}
+          onAnswerChange={onAnswerChange}
+          questionNumber={questionNumber}
+        />
+      );
+    case 'dictation':
+      return (
+        <DictationQuestion
+          question={question}
+          answer={getTextAnswer(answer)}
+          onAnswerChange={onAnswerChange}
+          questionNumber={questionNumber}
+        />
+      );
+    default:
+      return (
+        <TextQuestion
+          question={question}
+          answer={getTextAnswer(answer)}
+          onAnswerChange={onAnswerChange}
+          questionNumber={questionNumber}
+        />
+      );
+  }
+};
@@ -1,5 +1,7 @@
 import React from 'react';
 import { Clock, AlertTriangle } from 'lucide-react';
+import { TimeAnnouncer } from './TimeAnnouncer';
+import { useI18n } from '../i18n/useI18n';
 
 interface QuestionTimerProps {
   timeLeft: number;
@@ -14,6 +16,7 @@ export const QuestionTimer: React.FC<QuestionTimerProps> = ({
   questionNumber, 
   totalQuestions 
 }) => {
+  const { common, test } = useI18n().messages;
   const progress = ((totalTime - timeLeft) / totalTime) * 100;
   const isWarning = timeLeft <= 10; // Last 10 seconds
   const isCritical = timeLeft <= 5; // Last 5 seconds
@@ -24,7 +27,7 @@ export const QuestionTimer: React.FC<QuestionTimerProps> = ({
         <div className="flex items-center gap-2">
           <Clock className={`w-5 h-5 ${isCritical ? 'text-red-500' : isWarning ? 'text-amber-500' : 'text-blue-600'}`} />
           <span className="text-sm font-medium text-gray-600">
-            Question {questionNumber} of {totalQuestions}
+            {test.questionOf(questionNumber, totalQuestions)}
           </span>
         </div>
         <div className="flex items-center gap-3">
@@ -32,7 +35,7 @@ export const QuestionTimer: React.FC<QuestionTimerProps> = ({
             <AlertTriangle className={`w-5 h-5 ${isCritical ? 'text-red-500' : 'text-amber-500'}`} />
           )}
           <div className={`text-2xl font-bold ${isCritical ? 'text-red-600' : isWarning ? 'text-amber-600' : 'text-blue-600'}`}>
-            {Math.floor(timeLeft / 60)}m {String(timeLeft % 60).padStart(2, '0')}s
+            {common.minutesSeconds(Math.floor(timeLeft / 60), String(timeLeft % 60).padStart(2, '0'))}
           </div>
         </div>
       </div>
@@ -44,6 +47,7 @@ export const QuestionTimer: React.FC<QuestionTimerProps> = ({
           style={{ width: `${progress}%` }}
         />
       </div>
+      <TimeAnnouncer timeLeft={timeLeft} totalTime={totalTime} />
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,223 @@
+import React, { useEffect, useState } from 'react';
+import { Mic, CheckCircle, Clock, Save } from 'lucide-react';
+import { Question, SpeakingRatings, TestAttempt } from '../types/test';
+import { getRecording, listAttempts, saveAttempt } from '../utils/attemptStore';
+import { SEMFScoringEngine } from '../utils/semfScoring';
+import { getTestForm } from '../data/testForms';
+import { getSpeakingRubric } from '../data/speakingRubric';
+import { getTextAnswer } from '../utils/answers';
+import { describeAccommodations, hasAccommodations } from '../utils/accommodations';
+import { RichText } from './RichText';
+
+const RecordingPlayer: React.FC<{ recordingId: string }> = ({ recordingId }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [missing, setMissing] = useState(false);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    getRecording(recordingId)
+      .then(recording => {
+        if (!recording) {
+          setMissing(true);
+          return;
+        }
+        objectUrl = URL.createObjectURL(recording.blob);
+        setUrl(objectUrl);
+      })
+      .catch(error => {
+        console.error('Error loading recording:', error);
+        setMissing(true);
+      });
+    return () => {
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [recordingId]);
+
+  if (missing) return <p className="text-sm text-red-600">The recording could not be found on this device.</p>;
+  if (!url) return <p className="text-sm text-gray-500">Loading recording...</p>;
+  return <audio controls src={url} className="w-full" />;
+};
+
+const getSpeakingQuestions = (attempt: TestAttempt): Question[] =>
+  getTestForm(attempt.formId).sections.flatMap(section =>
+    section.questions.filter(question => question.answerKey.method === 'rubric')
+  );
+
+const candidateName = (attempt: TestAttempt) =>
+  attempt.studentInfo ? `${attempt.studentInfo.firstName} ${attempt.studentInfo.lastName}` : 'Unnamed candidate';
+
+// Lists completed attempts stored in this browser and lets a rater score their speaking responses
+export const RaterDashboard: React.FC = () => {
+  const [attempts, setAttempts] = useState<TestAttempt[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<SpeakingRatings>({});
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    listAttempts()
+      .then(setAttempts)
+      .catch(error => console.error('Error loading attempts:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const selected = attempts.find(attempt => attempt.id === selectedId) ?? null;
+
+  const handleSelect = (attempt: TestAttempt) => {
+    setSelectedId(attempt.id);
+    setDraft(attempt.speakingRatings ?? {});
+    setSaved(false);
+  };
+
+  const handleBandChange = (questionId: number, criterionId: string, band: number) => {
+    setDraft(prev => ({ ...prev, [questionId]: { ...prev[questionId], [criterionId]: band } }));
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    if (!selected) return;
+    const updated: TestAttempt = { ...selected, speakingRatings: draft };
+    try {
+      await saveAttempt(updated);
+      setAttempts(prev => prev.map(attempt => (attempt.id === updated.id ? updated : attempt)));
+      setSaved(true);
+    } catch (error) {
+      console.error('Error saving ratings:', error);
+    }
+  };
+
+  const scoreAttempt = (attempt: TestAttempt, ratings = attempt.speakingRatings) =>
+    SEMFScoringEngine.scoreSubmission({ formId: attempt.formId, answers: attempt.answers, speakingRatings: ratings });
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white border-b border-gray-200 shadow-sm">
+        <div className="max-w-6xl mx-auto px-6 py-4 flex items-center gap-3">
+          <Mic className="w-6 h-6 text-blue-600" />
+          <h1 className="text-xl font-bold text-gray-800">SEMF Speaking Rating</h1>
+        </div>
+      </div>
+
+      <div className="max-w-6xl mx-auto px-6 py-8 grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Attempts */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 h-fit">
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Completed Attempts</h2>
+          {loading && <p className="text-sm text-gray-500">Loading...</p>}
+          {!loading && attempts.length === 0 && (
+            <p className="text-sm text-gray-500">No completed attempts are stored in this browser.</p>
+          )}
+          <div className="space-y-2">
+            {attempts.map(attempt => {
+              const result = scoreAttempt(attempt);
+              return (
+                <button
+                  key={attempt.id}
+                  type="button"
+                  onClick={() => handleSelect(attempt)}
+                  className={`w-full text-left p-3 rounded-lg border-2 transition-all duration-200 ${
+                    attempt.id === selectedId ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300'
+                  }`}
+                >
+                  <div className="font-medium text-gray-800">{candidateName(attempt)}</div>
+                  <div className="text-xs text-gray-500">
+                    {attempt.formId} • {new Date(attempt.completedAt).toLocaleString()}
+                  </div>
+                  {attempt.accommodations && hasAccommodations(attempt.accommodations) && (
+                    <div className="text-xs text-gray-500">{describeAccommodations(attempt.accommodations).join(', ')}</div>
+                  )}
+                  <div className={`text-xs font-medium mt-1 flex items-center gap-1 ${result.provisional ? 'text-amber-600' : 'text-green-600'}`}>
+                    {result.provisional ? <Clock className="w-3 h-3" /> : <CheckCircle className="w-3 h-3" />}
+                    {result.provisional ? 'Awaiting rating' : `Rated • SEMF ${result.overallLevel}`}
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Rating form */}
+        <div className="lg:col-span-2 space-y-6">
+          {!selected && (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8 text-center text-gray-500">
+              Select an attempt to rate its speaking responses.
+            </div>
+          )}
+
+          {selected && (
+            <>
+              {getSpeakingQuestions(selected).map((question, index) => {
+                const recordingId = getTextAnswer(selected.answers[question.id]);
+                const rubric = question.answerKey.method === 'rubric' ? getSpeakingRubric(question.answerKey.rubricId) : null;
+                return (
+                  <div key={question.id} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+                    <h3 className="text-lg font-medium text-gray-800 mb-4">
+                      <span className="text-blue-600 font-bold">Task {index + 1}.</span> <RichText text={question.question} inline />
+                    </h3>
+
+                    {recordingId ? (
+                      <>
+                        <RecordingPlayer recordingId={recordingId} />
+                        <div className="mt-6 space-y-4">
+                          {rubric?.criteria.map(criterion => {
+                            const band = draft[question.id]?.[criterion.id];
+                            return (
+                              <div key={criterion.id}>
+                                <div className="text-sm font-semibold text-gray-700 mb-2">{criterion.label}</div>
+                                <div className="flex gap-2">
+                                  {criterion.bands.map((descriptor, bandIndex) => (
+                                    <button
+                                      key={bandIndex}
+                                      type="button"
+                                      title={descriptor}
+                                      onClick={() => handleBandChange(question.id, criterion.id, bandIndex + 1)}
+                                      className={`w-10 h-10 rounded-lg border-2 font-semibold transition-all duration-200 ${
+                                        band === bandIndex + 1
+                                          ? 'border-blue-500 bg-blue-500 text-white'
+                                          : 'border-gray-200 text-gray-700 hover:border-gray-300'
+                                      }`}
+                                    >
+                                      {bandIndex + 1}
+                                    </button>
+                                  ))}
+                                </div>
+                                {band !== undefined && (
+                                  <p className="text-xs text-gray-500 mt-1">{criterion.bands[band - 1]}</p>
+                                )}
+                              </div>
+                            );
+                          })}
+                        </div>
+                      </>
+                    ) : (
+                      <p className="text-sm text-gray-500">No response was recorded for this task; it scores zero.</p>
+                    )}
+                  </div>
+                );
+              })}
+
+              <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 flex items-center justify-between">
+                {(() => {
+                  const result = scoreAttempt(selected, draft);
+                  return (
+                    <div className="text-gray-700">
+                      <span className="font-semibold">{candidateName(selected)}:</span> SEMF {result.overallLevel}
+                      {result.provisional && <span className="text-amber-600 ml-2">(provisional)</span>}
+                    </div>
+                  );
+                })()}
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  className="inline-flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors"
+                >
+                  <Save className="w-5 h-5" />
+                  {saved ? 'Saved' : 'Save Ratings'}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
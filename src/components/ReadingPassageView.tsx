@@ -1,58 +1,80 @@
-import React, { useEffect } from 'react';
+import React from 'react';
 import { BookOpen, ArrowRight, ArrowLeft } from 'lucide-react';
-import { Question } from '../types/test';
+import { Answers, AnswerValue, Passage, Question } from '../types/test';
 import { TextQuestion } from './TextQuestion';
+import { QuestionRenderer } from './QuestionRenderer';
+import { getTextAnswer } from '../utils/answers';
 import { QuestionTimer } from './QuestionTimer';
-import { useQuestionTimer } from '../hooks/useQuestionTimer';
-import { readingText } from '../data/testData';
+import { RichText } from './RichText';
+import { toPlainText } from '../utils/richText';
+import { NEXT_SHORTCUT, PREVIOUS_SHORTCUT } from '../hooks/useNavigationKeys';
+import { useI18n } from '../i18n/useI18n';
+import { FlagButton } from './FlagButton';
 
 interface ReadingPassageViewProps {
+  sectionTitle: string;
+  sectionInstructions?: string;
+  passage: Passage;
+  passageNumber: number;
+  totalPassages: number;
   questions: Question[];
-  answers: Record<number, string>;
-  onAnswerChange: (questionId: number, answer: string) => void;
+  answers: Answers;
+  onAnswerChange: (questionId: number, answer: AnswerValue) => void;
   onNext: () => void;
   onPrevious: () => void;
   canGoNext: boolean;
+  beforeReview?: boolean; // the review screen comes next
   canGoPrevious: boolean;
+  timeLimit: number; // seconds
+  timeLeft: number;
+  flagged?: number[];
+  onToggleFlag?: (questionId: number) => void;
 }
 
+const getPassageWordCount = (passage: Passage): number => {
+  const text = toPlainText(passage.body).trim();
+  return passage.wordCount ?? (text ? text.split(/\s+/).length : 0);
+};
+
 export const ReadingPassageView: React.FC<ReadingPassageViewProps> = ({
+  sectionTitle,
+  sectionInstructions,
+  passage,
+  passageNumber,
+  totalPassages,
   questions,
   answers,
   onAnswerChange,
   onNext,
   onPrevious,
   canGoNext,
-  canGoPrevious
+  beforeReview = false,
+  canGoPrevious,
+  timeLimit,
+  timeLeft,
+  flagged = [],
+  onToggleFlag
 }) => {
-  const timeLimit = 600; // 10 minutes = 600 seconds
-  
-  const { timeLeft, start, reset } = useQuestionTimer(timeLimit, () => {
-    // Auto-advance when time is up
-    if (canGoNext) {
-      onNext();
-    }
-  });
-
-  // Start timer when component loads
-  useEffect(() => {
-    reset(timeLimit);
-    start();
-  }, []);
+  const { common, test } = useI18n().messages;
+  const comprehensionQuestions = questions.filter(q => q.type !== 'essay');
+  const writingQuestions = questions.filter(q => q.type === 'essay');
 
   return (
     <div className="max-w-4xl mx-auto px-6 py-8">
       <div className="mb-6">
         <div className="text-center mb-4">
-          <h2 className="text-2xl font-bold text-gray-800 mb-2">Core Reading & Writing</h2>
-          <p className="text-gray-600">Part C: Reading Passage & Questions</p>
+          <h2 className="text-2xl font-bold text-gray-800 mb-2">{sectionTitle}</h2>
+          <p className="text-gray-600">{test.passageOf(passageNumber, totalPassages, passage.title)}</p>
+          {sectionInstructions && (
+            <RichText text={sectionInstructions} className="mt-3 text-sm text-gray-600" />
+          )}
         </div>
         
         <QuestionTimer
           timeLeft={timeLeft}
           totalTime={timeLimit}
-          questionNumber={1}
-          totalQuestions={1}
+          questionNumber={passageNumber}
+          totalQuestions={totalPassages}
         />
       </div>
 
@@ -61,51 +83,78 @@ export const ReadingPassageView: React.FC<ReadingPassageViewProps> = ({
         <div className="bg-purple-50 border border-purple-200 rounded-xl p-6">
           <div className="flex items-center gap-3 mb-4">
             <BookOpen className="w-6 h-6 text-purple-600" />
-            <h3 className="text-xl font-semibold text-purple-800">Reading Passage</h3>
+            <h3 className="text-xl font-semibold text-purple-800">{passage.title}</h3>
+            <span className="ms-auto text-sm text-purple-600">{test.wordCount(getPassageWordCount(passage))}</span>
           </div>
           <div className="bg-white rounded-lg p-6 border border-purple-200">
-            <p className="text-gray-700 leading-relaxed text-base">
-              {readingText}
-            </p>
+            <RichText text={passage.body} lang="en" dir="ltr" className="text-gray-700 leading-relaxed text-base" />
+            {passage.source && (
+              <p className="text-sm text-gray-500 italic mt-4">{test.source(passage.source)}</p>
+            )}
           </div>
         </div>
 
         {/* Questions */}
-        <div className="bg-white rounded-lg border border-gray-200 p-6">
-          <h3 className="text-xl font-semibold text-gray-800 mb-6">Reading Comprehension Questions</h3>
-          <div className="space-y-6">
-            {questions.slice(0, 3).map((question, index) => (
-              <TextQuestion
-                key={question.id}
-                question={question}
-                answer={answers[question.id] || ''}
-                onAnswerChange={onAnswerChange}
-                questionNumber={index + 1}
-              />
-            ))}
+        {comprehensionQuestions.length > 0 && (
+          <div className="bg-white rounded-lg border border-gray-200 p-6">
+            <h3 className="text-xl font-semibold text-gray-800 mb-6">{test.comprehensionQuestions}</h3>
+            <div className="space-y-6">
+              {comprehensionQuestions.map((question, index) => (
+                <QuestionRenderer
+                  key={question.id}
+                  question={question}
+                  answer={answers[question.id]}
+                  onAnswerChange={onAnswerChange}
+                  questionNumber={index + 1}
+                  flagged={flagged.includes(question.id)}
+                  onToggleFlag={onToggleFlag}
+                />
+              ))}
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Writing Section */}
-        <div className="bg-white rounded-lg border border-gray-200 p-6">
-          <h3 className="text-xl font-semibold text-gray-800 mb-6">Writing Response</h3>
-          <div className="space-y-6">
-            {questions.slice(3).map((question, index) => (
-              <TextQuestion
-                key={question.id}
-                question={question}
-                answer={answers[question.id] || ''}
-                onAnswerChange={onAnswerChange}
-                questionNumber={index + 1}
-              />
-            ))}
+        {writingQuestions.length > 0 && (
+          <div className="bg-white rounded-lg border border-gray-200 p-6">
+            <h3 className="text-xl font-semibold text-gray-800 mb-6">{test.writingResponse}</h3>
+            <div className="space-y-6">
+              {writingQuestions.map((question, index) => (
+                <div key={question.id}>
+                  {onToggleFlag && (
+                    <FlagButton flagged={flagged.includes(question.id)} onToggle={() => onToggleFlag(question.id)} />
+                  )}
+                  <div lang="en" dir="ltr">
+                    <TextQuestion
+                      question={question}
+                      answer={getTextAnswer(answers[question.id])}
+                      onAnswerChange={onAnswerChange}
+                      questionNumber={index + 1}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
           </div>
-        </div>
+        )}
       </div>
 
-      <div className="flex justify-end mt-8">
+      <div className="flex justify-between mt-8">
+        {canGoPrevious ? (
+          <button
+            onClick={onPrevious}
+            aria-keyshortcuts={PREVIOUS_SHORTCUT}
+            className="flex items-center gap-2 px-6 py-3 rounded-lg font-semibold bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 transition-all duration-200"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            {common.previous}
+          </button>
+        ) : (
+          <span />
+        )}
         <button
           onClick={onNext}
+          aria-keyshortcuts={NEXT_SHORTCUT}
           disabled={!canGoNext}
           className={`flex items-center gap-2 px-6 py-3 rounded-lg font-semibold transition-all duration-200 ${
             !canGoNext
@@ -113,7 +162,7 @@ export const ReadingPassageView: React.FC<ReadingPassageViewProps> = ({
               : 'bg-blue-600 hover:bg-blue-700 text-white shadow-md hover:shadow-lg'
           }`}
         >
-          Next
+          {beforeReview ? common.reviewAnswers : common.next}
           <ArrowRight className="w-5 h-5" />
         </button>
       </div>
@@ -3,25 +3,29 @@ import { BookOpen } from 'lucide-react';
 import { TextQuestion } from './TextQuestion';
 import { MultipleChoiceQuestion } from './MultipleChoiceQuestion';
 import { SentenceOrderingQuestion } from './SentenceOrderingQuestion';
-import { Question } from '../types/test';
-import { readingText } from '../data/testData';
+import { QuestionRenderer } from './QuestionRenderer';
+import { Answers, AnswerValue, Passage, Question } from '../types/test';
+import { getTextAnswer } from '../utils/answers';
+import { RichText } from './RichText';
 
 interface ReadingSectionProps {
+  passages: Passage[];
   questions: Question[];
-  answers: Record<number, string>;
-  onAnswerChange: (questionId: number, answer: string) => void;
+  answers: Answers;
+  onAnswerChange: (questionId: number, answer: AnswerValue) => void;
 }
 
 export const ReadingSection: React.FC<ReadingSectionProps> = ({
+  passages,
   questions,
   answers,
   onAnswerChange
 }) => {
   // Split questions into different parts
-  const storyQuestions = questions.slice(0, 15); // Questions 21-35 (story continuation)
-  const orderingQuestions = questions.slice(15, 20); // Questions 36-40 (sentence ordering)
-  const readingQuestions = questions.slice(20, 23); // Questions 41-43 (reading comprehension)
-  const writingQuestions = questions.slice(23); // Question 44 (essay)
+  const storyQuestions = questions.filter(q => q.type === 'multiple-choice' && q.passageId === undefined);
+  const orderingQuestions = questions.filter(q => q.type === 'sentence-ordering');
+  const passageQuestions = questions.filter(q => q.passageId !== undefined);
+  const writingQuestions = passageQuestions.filter(q => q.type === 'essay');
 
   return (
     <div className="space-y-8">
@@ -38,7 +42,7 @@ export const ReadingSection: React.FC<ReadingSectionProps> = ({
             <MultipleChoiceQuestion
               key={question.id}
               question={question}
-              selectedAnswer={answers[question.id] || ''}
+              selectedAnswer={getTextAnswer(answers[question.id])}
               onAnswerChange={onAnswerChange}
               questionNumber={index + 1}
             />
@@ -46,39 +50,36 @@ export const ReadingSection: React.FC<ReadingSectionProps> = ({
         </div>
       </div>
 
-      {/* Part B: Sentence Ordering */}
-      <div className="bg-white rounded-lg border border-gray-200 p-6">
-        <h3 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
-          <BookOpen className="w-5 h-5 text-purple-600" />
-          Part B: Reading Passage
-        </h3>
-        <div className="bg-purple-50 border border-purple-200 rounded-xl p-6">
-          <div className="flex items-center gap-3 mb-4">
-            <BookOpen className="w-6 h-6 text-purple-600" />
-            <h4 className="text-lg font-semibold text-purple-800">Reading Passage</h4>
+      {/* Part B: Reading Passages, each with its own comprehension questions */}
+      {passages.map(passage => (
+        <div key={passage.id} className="bg-white rounded-lg border border-gray-200 p-6">
+          <h3 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
+            <BookOpen className="w-5 h-5 text-purple-600" />
+            Part B: {passage.title}
+          </h3>
+          <div className="bg-purple-50 border border-purple-200 rounded-xl p-6 mb-6">
+            <div className="bg-white rounded-lg p-6 border border-purple-200">
+              <RichText text={passage.body} className="text-gray-700 leading-relaxed text-base" />
+              {passage.source && (
+                <p className="text-sm text-gray-500 italic mt-4">Source: {passage.source}</p>
+              )}
+            </div>
           </div>
-          <div className="bg-white rounded-lg p-6 border border-purple-200">
-            <p className="text-gray-700 leading-relaxed text-base">
-              {readingText}
-            </p>
+          <div className="space-y-6">
+            {passageQuestions
+              .filter(q => q.passageId === passage.id && q.type !== 'essay')
+              .map((question, index) => (
+                <QuestionRenderer
+                  key={question.id}
+                  question={question}
+                  answer={answers[question.id]}
+                  onAnswerChange={onAnswerChange}
+                  questionNumber={index + 1}
+                />
+              ))}
           </div>
         </div>
-      </div>
-
-      <div className="bg-white rounded-lg border border-gray-200 p-6">
-        <h3 className="text-xl font-semibold text-gray-800 mb-4">Part B: Reading Comprehension (10 minutes)</h3>
-        <div className="space-y-6">
-          {readingQuestions.map((question, index) => (
-            <TextQuestion
-              key={question.id}
-              question={question}
-              answer={answers[question.id] || ''}
-              onAnswerChange={onAnswerChange}
-              questionNumber={index + 21}
-            />
-          ))}
-        </div>
-      </div>
+      ))}
 
       {/* Part C: Writing Response */}
       <div className="bg-white rounded-lg border border-gray-200 p-6">
@@ -87,9 +88,9 @@ export const ReadingSection: React.FC<ReadingSectionProps> = ({
           <TextQuestion
             key={question.id}
             question={question}
-            answer={answers[question.id] || ''}
+            answer={getTextAnswer(answers[question.id])}
             onAnswerChange={onAnswerChange}
-            questionNumber={index + 24}
+            questionNumber={index + 1}
           />
         ))}
       </div>
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Flag, Lock, Send } from 'lucide-react';
+import { Answers, TestSection } from '../types/test';
+import { FlowScreen, getScreenQuestions } from '../utils/testFlow';
+import { hasAnswer } from '../utils/answers';
+import { useI18n } from '../i18n/useI18n';
+import { translateFormText } from '../i18n/locales';
+
+interface ReviewViewProps {
+  flow: FlowScreen[];
+  sections: TestSection[];
+  answers: Answers;
+  flagged: number[];
+  canGoTo: (position: number) => boolean; // whether the section's navigation policy and timers still allow a return
+  onGoTo: (position: number) => void;
+  onSubmit: () => void;
+}
+
+// The last screen: every question by section, marked answered, unanswered or flagged, with the final submission
+export const ReviewView: React.FC<ReviewViewProps> = ({ flow, sections, answers, flagged, canGoTo, onGoTo, onSubmit }) => {
+  const { messages } = useI18n();
+  const { review } = messages;
+  const [confirming, setConfirming] = useState(false);
+
+  // Questions in the order the candidate met them, with the screen that shows each one
+  const entries = flow.flatMap((screen, position) =>
+    getScreenQuestions(screen).map(question => ({
+      question,
+      position,
+      sectionIndex: screen.sectionIndex,
+      revisitable: canGoTo(position)
+    }))
+  );
+  const unansweredCount = entries.filter(entry => !hasAnswer(answers[entry.question.id])).length;
+
+  const handleSubmit = () => {
+    if (unansweredCount > 0 && !confirming) {
+      setConfirming(true);
+    } else {
+      onSubmit();
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto px-6 py-8">
+      <div className="text-center mb-8">
+        <h2 className="text-3xl font-bold text-gray-800 mb-3">{review.title}</h2>
+        <p className="text-gray-600">{review.intro}</p>
+      </div>
+
+      <div className="flex flex-wrap justify-center gap-6 mb-8 text-sm text-gray-600">
+        <span className="flex items-center gap-2">
+          <span className="w-4 h-4 rounded bg-green-100 border border-green-300" />
+          {review.answered}
+        </span>
+        <span className="flex items-center gap-2">
+          <span className="w-4 h-4 rounded bg-white border border-gray-300" />
+          {review.unanswered}
+        </span>
+        <span className="flex items-center gap-2">
+          <Flag className="w-4 h-4 fill-amber-500 text-amber-600" />
+          {review.flagged}
+        </span>
+      </div>
+
+      <div className="space-y-6">
+        {sections.map((section, sectionIndex) => {
+          const sectionEntries = entries.filter(entry => entry.sectionIndex === sectionIndex);
+          if (sectionEntries.length === 0) return null;
+          const answeredCount = sectionEntries.filter(entry => hasAnswer(answers[entry.question.id])).length;
+          const flaggedCount = sectionEntries.filter(entry => flagged.includes(entry.question.id)).length;
+
+          return (
+            <div key={section.id} className="bg-white rounded-xl border border-gray-200 shadow-sm p-6">
+              <div className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+                <h3 className="text-lg font-semibold text-gray-800">{translateFormText(messages, section.title)}</h3>
+                <span className="text-sm text-gray-600">
+                  {review.sectionSummary(answeredCount, sectionEntries.length, flaggedCount)}
+                </span>
+              </div>
+              <div className="grid grid-cols-5 sm:grid-cols-10 gap-2">
+                {sectionEntries.map((entry, index) => {
+                  const answered = hasAnswer(answers[entry.question.id]);
+                  const isFlagged = flagged.includes(entry.question.id);
+                  return (
+                    <button
+                      key={entry.question.id}
+                      type="button"
+                      onClick={() => onGoTo(entry.position)}
+                      disabled={!entry.revisitable}
+                      title={entry.revisitable ? undefined : review.locked}
+                      aria-label={`${review.goToQuestion(index + 1)}: ${answered ? review.answered : review.unanswered}${
+                        isFlagged ? `, ${review.flagged}` : ''
+                      }`}
+                      className={`relative h-11 rounded-lg border text-sm font-semibold transition-colors duration-200 ${
+                        answered ? 'bg-green-100 border-green-300 text-green-800' : 'bg-white border-gray-300 text-gray-700'
+                      } ${
+                        entry.revisitable ? 'hover:border-blue-500' : 'opacity-60 cursor-not-allowed'
+                      } ${isFlagged ? 'ring-2 ring-amber-400' : ''}`}
+                    >
+                      {index + 1}
+                      {isFlagged && <Flag className="absolute top-0.5 end-0.5 w-3 h-3 fill-amber-500 text-amber-600" />}
+                      {!entry.revisitable && <Lock className="absolute bottom-0.5 end-0.5 w-3 h-3 text-gray-500" />}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {confirming && (
+        <div className="mt-8 bg-amber-50 border border-amber-300 rounded-xl p-6 flex items-start gap-3">
+          <AlertTriangle className="w-6 h-6 text-amber-600 flex-shrink-0" />
+          <div className="flex-1">
+            <p className="text-amber-800 mb-4">{review.unansweredWarning(unansweredCount)}</p>
+            <div className="flex flex-wrap gap-3">
+              <button
+                type="button"
+                onClick={onSubmit}
+                className="px-5 py-2 rounded-lg font-semibold bg-amber-600 hover:bg-amber-700 text-white"
+              >
+                {review.submitAnyway}
+              </button>
+              <button
+                type="button"
+                onClick={() => setConfirming(false)}
+                className="px-5 py-2 rounded-lg font-semibold bg-white border border-gray-300 hover:bg-gray-50 text-gray-700"
+              >
+                {review.keepReviewing}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {!confirming && (
+        <div className="flex justify-end mt-8">
+          <button
+            type="button"
+            onClick={handleSubmit}
+            className="flex items-center gap-2 px-6 py-3 rounded-lg font-semibold bg-blue-600 hover:bg-blue-700 text-white shadow-md hover:shadow-lg transition-all duration-200"
+          >
+            {review.submit}
+            <Send className="w-5 h-5" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React from 'react';
+import { parseInline, parseRichText, RichBlock, RichInline } from '../utils/richText';
+
+interface RichTextProps {
+  text: string;
+  // Render inside a heading or label: paragraphs and list items become line breaks instead of blocks
+  inline?: boolean;
+  className?: string;
+  // Set when the text's language differs from the page's, e.g. English test content under translated instructions
+  lang?: string;
+  dir?: 'ltr' | 'rtl';
+}
+
+const renderInline = (nodes: RichInline[]): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={index}>{node.text}</React.Fragment>;
+      case 'bold':
+        return <strong key={index} className="font-bold">{renderInline(node.children)}</strong>;
+      case 'italic':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'underline':
+        return <u key={index}>{renderInline(node.children)}</u>;
+      case 'gap':
+        return <span key={index} role="img" aria-label="blank" className="inline-block w-20 mx-1 border-b-2 border-gray-500 align-baseline" />;
+      case 'break':
+        return <br key={index} />;
+    }
+  });
+
+const renderBlock = (block: RichBlock, index: number) => {
+  if (block.type === 'paragraph') return <p key={index}>{renderInline(block.children)}</p>;
+  const items = block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>);
+  return block.ordered ? (
+    <ol key={index} className="list-decimal ml-6 space-y-1">{items}</ol>
+  ) : (
+    <ul key={index} className="list-disc ml-6 space-y-1">{items}</ul>
+  );
+};
+
+// Flattens blocks into one line-broken run, numbering or bulleting list items as text
+const toInlineNodes = (blocks: RichBlock[]): RichInline[] =>
+  blocks.flatMap((block, index) => {
+    const separator: RichInline[] = index > 0 ? [{ type: 'break' }] : [];
+    if (block.type === 'paragraph') return [...separator, ...block.children];
+    return block.items.flatMap((item, itemIndex) => [
+      ...(index > 0 || itemIndex > 0 ? [{ type: 'break' } as const] : []),
+      { type: 'text', text: block.ordered ? `${itemIndex + 1}. ` : '• ' } as const,
+      ...item
+    ]);
+  });
+
+/**
+ * Shows form content written with the rich-text subset (see `RICH_TEXT_HINT`). Content is built
+ * from React elements only, so markup in the text can never inject HTML.
+ */
+export const RichText: React.FC<RichTextProps> = ({ text, inline, className, lang, dir }) => {
+  if (inline) {
+    const nodes = text.includes('\n') ? toInlineNodes(parseRichText(text)) : parseInline(text);
+    return <span className={className} lang={lang} dir={dir}>{renderInline(nodes)}</span>;
+  }
+  return (
+    <div className={`space-y-4 ${className ?? ''}`} lang={lang} dir={dir}>
+      {parseRichText(text).map(renderBlock)}
+    </div>
+  );
+};
@@ -0,0 +1,297 @@
+import React from 'react';
+import { BookOpen, Headphones, Plus, Trash2 } from 'lucide-react';
+import { ListeningStimulus, ModuleLevel, NavigationPolicy, Passage, ScoreRange, SectionStages, TestSection } from '../types/test';
+import { NumberField, SelectField, TextField } from './AuthoringFields';
+import { createBlankPassage, createBlankStimulus, MODULE_LABELS, NAVIGATION_LABELS, setStages } from '../utils/formAuthoring';
+import { RICH_TEXT_HINT } from '../utils/richText';
+
+interface SectionEditorProps {
+  section: TestSection;
+  onChange: (section: TestSection) => void;
+  onDelete: () => void;
+}
+
+// Section settings plus its reading passages and listening recordings
+export const SectionEditor: React.FC<SectionEditorProps> = ({ section, onChange, onDelete }) => {
+  const passages = section.passages ?? [];
+  const stimuli = section.stimuli ?? [];
+  const { stages } = section;
+
+  // Questions refer to their section and passage by id, so renames carry over to them
+  const renameSection = (id: string) =>
+    onChange({ ...section, id, questions: section.questions.map(question => ({ ...question, section: id })) });
+
+  const updatePassage = (index: number, passage: Passage) => {
+    const previousId = passages[index].id;
+    onChange({
+      ...section,
+      passages: passages.map((current, passageIndex) => (passageIndex === index ? passage : current)),
+      questions: section.questions.map(question =>
+        question.passageId === previousId ? { ...question, passageId: passage.id } : question
+      )
+    });
+  };
+
+  const removePassage = (index: number) => {
+    const removedId = passages[index].id;
+    onChange({
+      ...section,
+      passages: passages.filter((_, passageIndex) => passageIndex !== index),
+      questions: section.questions.map(question =>
+        question.passageId === removedId ? { ...question, passageId: undefined } : question
+      )
+    });
+  };
+
+  const updateStimulus = (index: number, stimulus: ListeningStimulus) =>
+    onChange({ ...section, stimuli: stimuli.map((current, stimulusIndex) => (stimulusIndex === index ? stimulus : current)) });
+
+  const updateStages = (stages: SectionStages) => onChange({ ...section, stages });
+
+  const updateScale = (current: SectionStages, level: ModuleLevel, scale: ScoreRange) =>
+    updateStages({ ...current, scales: { ...current.scales, [level]: scale } });
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-800">Section settings</h3>
+        <button
+          type="button"
+          onClick={onDelete}
+          className="inline-flex items-center gap-1 text-sm text-red-600 hover:text-red-700"
+        >
+          <Trash2 className="w-4 h-4" />
+          Delete section
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <TextField label="Section id" value={section.id} onChange={renameSection} />
+        <NumberField
+          label="Time limit (minutes)"
+          value={section.timeLimit}
+          onChange={(timeLimit) => onChange({ ...section, timeLimit: timeLimit ?? 0 })}
+        />
+      </div>
+      <TextField label="Title" value={section.title} onChange={(title) => onChange({ ...section, title })} />
+      <TextField
+        label="Instructions"
+        multiline
+        hint={RICH_TEXT_HINT}
+        value={section.instructions}
+        onChange={(instructions) => onChange({ ...section, instructions })}
+      />
+      <div className="grid grid-cols-2 gap-4">
+        <NumberField
+          label="Item time (seconds)"
+          hint="For each question shown on its own. Leave empty for 20 seconds."
+          value={section.timing?.item}
+          onChange={(item) => onChange({ ...section, timing: { ...section.timing, item } })}
+        />
+        <NumberField
+          label="Screen time (seconds)"
+          hint="For each passage or recording with its questions. Leave empty for 10 or 5 minutes."
+          value={section.timing?.screen}
+          onChange={(screen) => onChange({ ...section, timing: { ...section.timing, screen } })}
+        />
+      </div>
+      <SelectField
+        label="Going back"
+        hint="Whether candidates can return to this section's questions, with Previous or from the review screen."
+        value={section.navigation ?? 'forward-only'}
+        options={Object.entries(NAVIGATION_LABELS).map(([value, label]) => ({ value, label }))}
+        onChange={(navigation) => onChange({ ...section, navigation: navigation as NavigationPolicy })}
+      />
+      <div className="grid grid-cols-2 gap-4 items-end">
+        <label className="flex items-center gap-2 text-sm text-gray-700 pb-3">
+          <input
+            type="checkbox"
+            checked={section.flow?.intro ?? false}
+            onChange={(e) => onChange({ ...section, flow: { ...section.flow, intro: e.target.checked || undefined } })}
+          />
+          Show instructions screen first
+        </label>
+        <NumberField
+          label="Break after section (seconds)"
+          hint="Leave empty to go straight on to the next section."
+          value={section.flow?.breakAfter}
+          onChange={(breakAfter) => onChange({ ...section, flow: { ...section.flow, breakAfter } })}
+        />
+      </div>
+
+      {/* Multistage routing */}
+      <div className="border-t border-gray-200 pt-4 space-y-4">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={!!stages}
+            onChange={(e) => onChange(setStages(section, e.target.checked))}
+          />
+          Route candidates to an easier or harder module
+        </label>
+        {stages && (
+          <>
+            <p className="text-xs text-gray-500">
+              The routing module comes first; choose each question's module in the question editor.
+            </p>
+            <NumberField
+              label="Harder module from (% of routing points)"
+              min={1}
+              value={Math.round(stages.threshold * 100)}
+              onChange={(percent) => updateStages({ ...stages, threshold: (percent ?? 0) / 100 })}
+            />
+            {(['easier', 'harder'] as const).map(level => {
+              const scale = stages.scales[level];
+              return (
+                <div key={level} className="grid grid-cols-2 gap-4">
+                  <NumberField
+                    label={`${MODULE_LABELS[level]}: lowest score (0-50)`}
+                    value={scale.min}
+                    onChange={(min) => updateScale(stages, level, { ...scale, min: min ?? 0 })}
+                  />
+                  <NumberField
+                    label={`${MODULE_LABELS[level]}: highest score (0-50)`}
+                    value={scale.max}
+                    onChange={(max) => updateScale(stages, level, { ...scale, max: max ?? 0 })}
+                  />
+                </div>
+              );
+            })}
+          </>
+        )}
+      </div>
+
+      {/* Reading passages */}
+      <div className="border-t border-gray-200 pt-4 space-y-4">
+        <div className="flex items-center justify-between">
+          <h4 className="font-semibold text-gray-800 flex items-center gap-2">
+            <BookOpen className="w-5 h-5 text-purple-600" />
+            Reading passages
+          </h4>
+          <button
+            type="button"
+            onClick={() => onChange({ ...section, passages: [...passages, createBlankPassage(passages.length)] })}
+            className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+          >
+            <Plus className="w-4 h-4" />
+            Add passage
+          </button>
+        </div>
+        {passages.map((passage, index) => (
+          <div key={index} className="bg-purple-50 border border-purple-200 rounded-lg p-4 space-y-3">
+            <div className="grid grid-cols-2 gap-4">
+              <TextField label="Passage id" value={passage.id} onChange={(id) => updatePassage(index, { ...passage, id })} />
+              <NumberField
+                label="Time limit (seconds)"
+                hint="Leave empty for the section's screen time."
+                value={passage.timeLimit}
+                onChange={(timeLimit) => updatePassage(index, { ...passage, timeLimit })}
+              />
+            </div>
+            <TextField label="Title" value={passage.title} onChange={(title) => updatePassage(index, { ...passage, title })} />
+            <TextField
+              label="Text"
+              multiline
+              hint={RICH_TEXT_HINT}
+              value={passage.body}
+              onChange={(body) => updatePassage(index, { ...passage, body })}
+            />
+            <TextField
+              label="Source (optional)"
+              value={passage.source ?? ''}
+              onChange={(source) => updatePassage(index, { ...passage, source: source || undefined })}
+            />
+            <button
+              type="button"
+              onClick={() => removePassage(index)}
+              className="inline-flex items-center gap-1 text-sm text-red-600 hover:text-red-700"
+            >
+              <Trash2 className="w-4 h-4" />
+              Remove passage
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {/* Listening recordings */}
+      <div className="border-t border-gray-200 pt-4 space-y-4">
+        <div className="flex items-center justify-between">
+          <h4 className="font-semibold text-gray-800 flex items-center gap-2">
+            <Headphones className="w-5 h-5 text-green-600" />
+            Audio groups
+          </h4>
+          <button
+            type="button"
+            onClick={() => onChange({ ...section, stimuli: [...stimuli, createBlankStimulus(stimuli.length)] })}
+            className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+          >
+            <Plus className="w-4 h-4" />
+            Add recording
+          </button>
+        </div>
+        {stimuli.length > 0 && (
+          <p className="text-xs text-gray-500">
+            Every question in a section with recordings must be linked to one; pick its recording in the question editor.
+          </p>
+        )}
+        {stimuli.map((stimulus, index) => (
+          <div key={index} className="bg-green-50 border border-green-200 rounded-lg p-4 space-y-3">
+            <div className="grid grid-cols-2 gap-4">
+              <TextField label="Recording id" value={stimulus.id} onChange={(id) => updateStimulus(index, { ...stimulus, id })} />
+              <TextField
+                label="Audio file"
+                hint="Path under public/, e.g. /audio/travel-report.mp3"
+                value={stimulus.audioFile}
+                onChange={(audioFile) => updateStimulus(index, { ...stimulus, audioFile })}
+              />
+            </div>
+            <TextField label="Title" value={stimulus.title} onChange={(title) => updateStimulus(index, { ...stimulus, title })} />
+            <TextField
+              label="Description"
+              value={stimulus.description}
+              onChange={(description) => updateStimulus(index, { ...stimulus, description })}
+            />
+            <div className="grid grid-cols-2 gap-4 items-end">
+              <NumberField
+                label="Plays allowed"
+                min={1}
+                value={stimulus.playPolicy.maxPlays}
+                onChange={(maxPlays) => updateStimulus(index, { ...stimulus, playPolicy: { ...stimulus.playPolicy, maxPlays: maxPlays ?? 1 } })}
+              />
+              <NumberField
+                label="Time limit (seconds)"
+                hint="Leave empty for the section's screen time."
+                value={stimulus.timeLimit}
+                onChange={(timeLimit) => updateStimulus(index, { ...stimulus, timeLimit })}
+              />
+              <label className="flex items-center gap-2 text-sm text-gray-700 pb-3">
+                <input
+                  type="checkbox"
+                  checked={stimulus.playPolicy.revealQuestionsAfterPlay}
+                  onChange={(e) =>
+                    updateStimulus(index, {
+                      ...stimulus,
+                      playPolicy: { ...stimulus.playPolicy, revealQuestionsAfterPlay: e.target.checked }
+                    })
+                  }
+                />
+                Hide questions until played
+              </label>
+            </div>
+            <p className="text-xs text-gray-500">
+              Questions: {stimulus.questionIds.length > 0 ? stimulus.questionIds.join(', ') : 'none yet'}
+            </p>
+            <button
+              type="button"
+              onClick={() => onChange({ ...section, stimuli: stimuli.filter((_, stimulusIndex) => stimulusIndex !== index) })}
+              className="inline-flex items-center gap-1 text-sm text-red-600 hover:text-red-700"
+            >
+              <Trash2 className="w-4 h-4" />
+              Remove recording
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,33 @@
+import React from 'react';
+import { ArrowRight } from 'lucide-react';
+import { RichText } from './RichText';
+import { NEXT_SHORTCUT } from '../hooks/useNavigationKeys';
+import { useI18n } from '../i18n/useI18n';
+
+interface SectionIntroViewProps {
+  sectionTitle: string;
+  sectionInstructions: string;
+  onNext: () => void;
+}
+
+// A section's instructions on their own, before its first item; the candidate starts the section when ready
+export const SectionIntroView: React.FC<SectionIntroViewProps> = ({ sectionTitle, sectionInstructions, onNext }) => {
+  const { flow } = useI18n().messages;
+
+  return (
+    <div className="max-w-3xl mx-auto px-6 py-12">
+      <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-10 text-center">
+        <h2 className="text-3xl font-bold text-gray-800 mb-6">{sectionTitle}</h2>
+        <RichText text={sectionInstructions} className="text-lg text-gray-700 leading-relaxed mb-8" />
+        <button
+          onClick={onNext}
+          aria-keyshortcuts={NEXT_SHORTCUT}
+          className="inline-flex items-center gap-2 px-8 py-3 rounded-lg font-semibold bg-blue-600 hover:bg-blue-700 text-white shadow-md hover:shadow-lg transition-all duration-200"
+        >
+          {flow.startSection}
+          <ArrowRight className="w-5 h-5" />
+        </button>
+      </div>
+    </div>
+  );
+};
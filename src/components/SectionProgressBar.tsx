@@ -1,5 +1,7 @@
 import React from 'react';
-import { BookOpen, FileText, Headphones } from 'lucide-react';
+import { BookOpen, FileText, Headphones, Mic } from 'lucide-react';
+import { useI18n } from '../i18n/useI18n';
+import { translateFormText } from '../i18n/locales';
 
 interface SectionProgressBarProps {
   currentSection: number;
@@ -10,6 +12,7 @@ export const SectionProgressBar: React.FC<SectionProgressBarProps> = ({
   currentSection,
   totalSections
 }) => {
+  const { messages } = useI18n();
   const sections = [
     { 
       id: 'grammar-vocabulary', 
@@ -28,6 +31,12 @@ export const SectionProgressBar: React.FC<SectionProgressBarProps> = ({
       title: 'Core Listening', 
       icon: Headphones,
       color: 'green'
+    },
+    { 
+      id: 'speaking', 
+      title: 'Core Speaking', 
+      icon: Mic,
+      color: 'orange'
     }
   ];
 
@@ -62,10 +71,10 @@ export const SectionProgressBar: React.FC<SectionProgressBarProps> = ({
                     <div className={`font-medium transition-colors duration-300 ${
                       isActive ? 'text-gray-800' : 'text-gray-600'
                     }`}>
-                      {section.title}
+                      {translateFormText(messages, section.title)}
                     </div>
                     <div className="text-sm text-gray-500">
-                      Section {index + 1} of {totalSections}
+                      {messages.test.sectionOf(index + 1, totalSections)}
                     </div>
                   </div>
                 </div>
@@ -1,6 +1,8 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { GripVertical, ArrowUp, ArrowDown } from 'lucide-react';
 import { Question } from '../types/test';
+import { RichText } from './RichText';
+import { useI18n } from '../i18n/useI18n';
 
 interface SentenceOrderingQuestionProps {
   question: Question;
@@ -21,34 +23,18 @@ export const SentenceOrderingQuestion: React.FC<SentenceOrderingQuestionProps> =
   onAnswerChange,
   questionNumber
 }) => {
-  // Extract sentences from the question text
-  const extractSentences = (questionText: string): Sentence[] => {
-    const sentences: Sentence[] = [];
-    const matches = questionText.match(/\(([A-D])\)\s([^(]+?)(?=\s\([A-D]\)|$)/g);
-    
-    if (matches) {
-      matches.forEach(match => {
-        const letterMatch = match.match(/\(([A-D])\)/);
-        const textMatch = match.replace(/\([A-D]\)\s/, '').trim();
-        if (letterMatch && textMatch) {
-          sentences.push({
-            id: letterMatch[1],
-            letter: letterMatch[1],
-            text: textMatch
-          });
-        }
-      });
-    }
-    
-    return sentences;
-  };
-
-  const sentences = extractSentences(question.question);
+  const text = useI18n().messages.questions;
+  const ordering = question.ordering;
+  const sentences: Sentence[] = (ordering?.sentences ?? []).map(sentence => ({
+    id: sentence.letter,
+    letter: sentence.letter,
+    text: sentence.text
+  }));
   
   // Initialize ordered sentences from current answer or default order
   const getInitialOrder = (): Sentence[] => {
-    if (selectedAnswer && selectedAnswer.includes(',')) {
-      const answerOrder = selectedAnswer.split(', ');
+    if (selectedAnswer) {
+      const answerOrder = selectedAnswer.split(/\s*,\s*/);
       const reorderedSentences = answerOrder.map(letter => 
         sentences.find(s => s.letter === letter)
       ).filter(Boolean) as Sentence[];
@@ -65,24 +51,52 @@ export const SentenceOrderingQuestion: React.FC<SentenceOrderingQuestionProps> =
   const [touchStartY, setTouchStartY] = useState<number | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const draggedElementRef = useRef<HTMLDivElement | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  const listRef = useRef<HTMLDivElement | null>(null);
+  const itemRefs = useRef<Record<string, HTMLDivElement | null>>({});
+  const refocusRef = useRef<{ element: HTMLElement; sentenceId: string } | null>(null);
+
+  // Moving a sentence moves its element, which drops keyboard focus; put it back on the same control,
+  // or on the sentence itself when that control is now disabled at the top or bottom of the list
+  useEffect(() => {
+    const refocus = refocusRef.current;
+    refocusRef.current = null;
+    if (!refocus) return;
+    if (refocus.element instanceof HTMLButtonElement && refocus.element.disabled) {
+      itemRefs.current[refocus.sentenceId]?.focus();
+    } else {
+      refocus.element.focus();
+    }
+  }, [orderedSentences]);
 
   const updateAnswer = (newOrder: Sentence[]) => {
     const answerString = newOrder.map(s => s.letter).join(', ');
     onAnswerChange(question.id, answerString);
   };
 
-  // Move sentence up or down (mobile-friendly buttons)
+  // Move sentence up or down (arrow buttons, arrow keys and touch)
   const moveSentence = (index: number, direction: 'up' | 'down') => {
     const newOrder = [...orderedSentences];
     const targetIndex = direction === 'up' ? index - 1 : index + 1;
     
     if (targetIndex >= 0 && targetIndex < newOrder.length) {
       [newOrder[index], newOrder[targetIndex]] = [newOrder[targetIndex], newOrder[index]];
+      const active = document.activeElement;
+      if (active instanceof HTMLElement && listRef.current?.contains(active)) {
+        refocusRef.current = { element: active, sentenceId: newOrder[targetIndex].id };
+      }
       setOrderedSentences(newOrder);
       updateAnswer(newOrder);
+      setAnnouncement(text.moved(newOrder[targetIndex].letter, targetIndex + 1, newOrder.length));
     }
   };
 
+  const handleKeyDown = (e: React.KeyboardEvent, index: number) => {
+    if (e.target !== e.currentTarget || (e.key !== 'ArrowUp' && e.key !== 'ArrowDown')) return;
+    e.preventDefault();
+    moveSentence(index, e.key === 'ArrowUp' ? 'up' : 'down');
+  };
+
   // Desktop drag and drop handlers
   const handleDragStart = (e: React.DragEvent, sentenceId: string) => {
     setDraggedItem(sentenceId);
@@ -109,6 +123,7 @@ export const SentenceOrderingQuestion: React.FC<SentenceOrderingQuestionProps> =
 
     setOrderedSentences(newOrder);
     updateAnswer(newOrder);
+    setAnnouncement(text.moved(draggedSentence.letter, targetIndex + 1, newOrder.length));
     setDraggedItem(null);
     setIsDragging(false);
   };
@@ -174,26 +189,40 @@ export const SentenceOrderingQuestion: React.FC<SentenceOrderingQuestionProps> =
     setIsDragging(false);
   };
 
-  // Extract the main question text (before the sentences)
-  const mainQuestion = question.question.split('Order these sentences:')[0].trim();
-
   return (
     <div className="bg-white rounded-lg border border-gray-200 p-6 shadow-sm">
       <div className="mb-6">
         <h3 className="text-lg font-medium text-gray-800 mb-3">
-          <span className="text-green-600 font-bold">{questionNumber}.</span> {mainQuestion}
+          <span className="text-green-600 font-bold">{questionNumber}.</span> <RichText text={question.question} inline />
         </h3>
-        <p className="text-sm text-gray-600 mb-4">
-          <span className="hidden sm:inline">Drag and drop the sentences below to arrange them in the correct order:</span>
-          <span className="sm:hidden">Use the arrow buttons or drag to arrange the sentences in the correct order:</span>
-        </p>
+        {ordering?.topic && (
+          <p className="text-sm text-gray-700 mb-3">
+            <span className="font-semibold">{text.topic}</span> <RichText text={ordering.topic} inline />
+          </p>
+        )}
+        <p className="text-sm text-gray-600">{text.orderingButtons}</p>
+        <p id={`ordering-keys-${question.id}`} className="text-sm text-gray-600 mb-4">{text.orderingKeys}</p>
       </div>
 
-      <div className="space-y-3 mb-6">
+      {ordering?.firstSentence && (
+        <div className="mb-3 p-4 rounded-lg border-2 border-dashed border-gray-200 bg-gray-50 text-gray-700">
+          <span className="text-xs font-semibold uppercase text-gray-500 block mb-1">{text.firstSentence}</span>
+          <RichText text={ordering.firstSentence} inline />
+        </div>
+      )}
+
+      <div ref={listRef} role="list" className="space-y-3 mb-6">
         {orderedSentences.map((sentence, index) => (
           <div
             key={sentence.id}
-            ref={draggedItem === sentence.id ? draggedElementRef : null}
+            ref={element => {
+              itemRefs.current[sentence.id] = element;
+              if (draggedItem === sentence.id) draggedElementRef.current = element;
+            }}
+            role="listitem"
+            tabIndex={0}
+            aria-describedby={`ordering-keys-${question.id}`}
+            onKeyDown={(e) => handleKeyDown(e, index)}
             draggable
             onDragStart={(e) => handleDragStart(e, sentence.id)}
             onDragOver={handleDragOver}
@@ -202,7 +231,7 @@ export const SentenceOrderingQuestion: React.FC<SentenceOrderingQuestionProps> =
             onTouchStart={(e) => handleTouchStart(e, sentence.id)}
             onTouchMove={handleTouchMove}
             onTouchEnd={handleTouchEnd}
-            className={`flex items-center gap-3 p-4 rounded-lg border-2 transition-all duration-200 ${
+            className={`flex items-center gap-3 p-4 rounded-lg border-2 transition-all duration-200 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 ${
               draggedItem === sentence.id
                 ? 'border-blue-500 bg-blue-50 shadow-lg'
                 : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
@@ -212,11 +241,12 @@ export const SentenceOrderingQuestion: React.FC<SentenceOrderingQuestionProps> =
               userSelect: 'none'   // Prevent text selection during drag
             }}
           >
-            {/* Mobile arrow buttons */}
-            <div className="flex flex-col gap-1 sm:hidden">
+            {/* Arrow buttons */}
+            <div className="flex flex-col gap-1">
               <button
                 onClick={() => moveSentence(index, 'up')}
                 disabled={index === 0}
+                aria-label={text.moveUp(sentence.letter)}
                 className={`p-1 rounded ${
                   index === 0 
                     ? 'text-gray-300 cursor-not-allowed' 
@@ -229,6 +259,7 @@ export const SentenceOrderingQuestion: React.FC<SentenceOrderingQuestionProps> =
               <button
                 onClick={() => moveSentence(index, 'down')}
                 disabled={index === orderedSentences.length - 1}
+                aria-label={text.moveDown(sentence.letter)}
                 className={`p-1 rounded ${
                   index === orderedSentences.length - 1
                     ? 'text-gray-300 cursor-not-allowed'
@@ -240,14 +271,9 @@ export const SentenceOrderingQuestion: React.FC<SentenceOrderingQuestionProps> =
               </button>
             </div>
 
-            {/* Desktop drag handle and position */}
-            <div className="hidden sm:flex items-center gap-2 text-gray-400">
-              <GripVertical className="w-5 h-5" />
-              <span className="text-sm font-medium">{index + 1}</span>
-            </div>
-
-            {/* Mobile position indicator */}
-            <div className="sm:hidden text-gray-400">
+            {/* Drag handle and position */}
+            <div className="flex items-center gap-2 text-gray-400">
+              <GripVertical className="w-5 h-5 hidden sm:block" aria-hidden="true" />
               <span className="text-sm font-medium">{index + 1}</span>
             </div>
 
@@ -255,15 +281,26 @@ export const SentenceOrderingQuestion: React.FC<SentenceOrderingQuestionProps> =
               <span className="font-bold text-green-600 min-w-[24px] flex-shrink-0">
                 ({sentence.letter})
               </span>
-              <span className="text-gray-700 break-words">{sentence.text}</span>
+              <RichText text={sentence.text} inline className="text-gray-700 break-words" />
             </div>
           </div>
         ))}
+
+        {ordering?.lastSentence && (
+          <div className="p-4 rounded-lg border-2 border-dashed border-gray-200 bg-gray-50 text-gray-700">
+            <span className="text-xs font-semibold uppercase text-gray-500 block mb-1">{text.lastSentence}</span>
+            <RichText text={ordering.lastSentence} inline />
+          </div>
+        )}
+      </div>
+
+      <div role="status" aria-live="polite" className="sr-only">
+        {announcement}
       </div>
 
       {/* Current Answer Display */}
       <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
-        <div className="text-sm text-gray-600 mb-2">Your current order:</div>
+        <div className="text-sm text-gray-600 mb-2">{text.currentOrder}</div>
         <div className="font-mono text-lg font-bold text-gray-800">
           {orderedSentences.map(s => s.letter).join(', ')}
         </div>
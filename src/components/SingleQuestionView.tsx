@@ -1,23 +1,29 @@
-import React, { useEffect } from 'react';
+import React from 'react';
 import { ArrowRight, ArrowLeft } from 'lucide-react';
-import { Question } from '../types/test';
-import { MultipleChoiceQuestion } from './MultipleChoiceQuestion';
-import { TextQuestion } from './TextQuestion';
-import { SentenceOrderingQuestion } from './SentenceOrderingQuestion';
+import { AnswerValue, Question } from '../types/test';
+import { QuestionRenderer } from './QuestionRenderer';
 import { QuestionTimer } from './QuestionTimer';
-import { useQuestionTimer } from '../hooks/useQuestionTimer';
+import { RichText } from './RichText';
+import { NEXT_SHORTCUT, PREVIOUS_SHORTCUT } from '../hooks/useNavigationKeys';
+import { useI18n } from '../i18n/useI18n';
 
 interface SingleQuestionViewProps {
   question: Question;
   questionNumber: number;
   totalQuestions: number;
-  answer: string;
-  onAnswerChange: (questionId: number, answer: string) => void;
+  answer: AnswerValue;
+  onAnswerChange: (questionId: number, answer: AnswerValue) => void;
   onNext: () => void;
   onPrevious: () => void;
   canGoNext: boolean;
+  beforeReview?: boolean; // the review screen comes next
   canGoPrevious: boolean;
   sectionTitle: string;
+  sectionInstructions?: string;
+  timeLimit: number; // seconds
+  timeLeft: number;
+  flagged?: boolean;
+  onToggleFlag?: (questionId: number) => void;
 }
 
 export const SingleQuestionView: React.FC<SingleQuestionViewProps> = ({
@@ -29,76 +35,26 @@ export const SingleQuestionView: React.FC<SingleQuestionViewProps> = ({
   onNext,
   onPrevious,
   canGoNext,
+  beforeReview = false,
   canGoPrevious,
-  sectionTitle
+  sectionTitle,
+  sectionInstructions,
+  timeLimit,
+  timeLeft,
+  flagged,
+  onToggleFlag
 }) => {
-  // Determine time limit based on question type and section
-  const getTimeLimit = () => {
-    if (question.section === 'grammar-vocabulary') {
-      return 20; // 20 seconds for grammar/vocab
-    } else if (question.section === 'reading-writing') {
-      if (question.id >= 21 && question.id <= 35) {
-        return 45; // 45 seconds for story continuation
-      } else if (question.id >= 36 && question.id <= 40) {
-        return 75; // 1 minute 15 seconds for sentence ordering
-      }
-    }
-    return 20; // Default
-  };
-
-  const timeLimit = getTimeLimit();
-  
-  const { timeLeft, start, reset } = useQuestionTimer(timeLimit, () => {
-    // Auto-advance when time is up
-    if (canGoNext) {
-      onNext();
-    }
-  });
-
-  // Start timer when question loads
-  useEffect(() => {
-    reset(timeLimit);
-    start();
-  }, [question.id, timeLimit]);
-
-  const renderQuestion = () => {
-    if (question.type === 'sentence-ordering') {
-      // Sentence ordering questions
-      return (
-        <SentenceOrderingQuestion
-          question={question}
-          selectedAnswer={answer}
-          onAnswerChange={onAnswerChange}
-          questionNumber={questionNumber}
-        />
-      );
-    } else if (question.type === 'multiple-choice') {
-      return (
-        <MultipleChoiceQuestion
-          question={question}
-          selectedAnswer={answer}
-          onAnswerChange={onAnswerChange}
-          questionNumber={questionNumber}
-        />
-      );
-    } else {
-      return (
-        <TextQuestion
-          question={question}
-          answer={answer}
-          onAnswerChange={onAnswerChange}
-          questionNumber={questionNumber}
-        />
-      );
-    }
-  };
+  const { common, test } = useI18n().messages;
 
   return (
     <div className="max-w-4xl mx-auto px-6 py-8">
       <div className="mb-6">
         <div className="text-center mb-4">
           <h2 className="text-2xl font-bold text-gray-800 mb-2">{sectionTitle}</h2>
-          <p className="text-gray-600">Question {questionNumber} of {totalQuestions}</p>
+          <p className="text-gray-600">{test.questionOf(questionNumber, totalQuestions)}</p>
+          {sectionInstructions && (
+            <RichText text={sectionInstructions} className="mt-3 text-sm text-gray-600" />
+          )}
         </div>
         
         <QuestionTimer
@@ -110,12 +66,32 @@ export const SingleQuestionView: React.FC<SingleQuestionViewProps> = ({
       </div>
 
       <div className="mb-8">
-        {renderQuestion()}
+        <QuestionRenderer
+          question={question}
+          answer={answer}
+          onAnswerChange={onAnswerChange}
+          questionNumber={questionNumber}
+          flagged={flagged}
+          onToggleFlag={onToggleFlag}
+        />
       </div>
 
-      <div className="flex justify-end">
+      <div className="flex justify-between">
+        {canGoPrevious ? (
+          <button
+            onClick={onPrevious}
+            aria-keyshortcuts={PREVIOUS_SHORTCUT}
+            className="flex items-center gap-2 px-6 py-3 rounded-lg font-semibold bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 transition-all duration-200"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            {common.previous}
+          </button>
+        ) : (
+          <span />
+        )}
         <button
           onClick={onNext}
+          aria-keyshortcuts={NEXT_SHORTCUT}
           disabled={!canGoNext}
           className={`flex items-center gap-2 px-6 py-3 rounded-lg font-semibold transition-all duration-200 ${
             !canGoNext
@@ -123,7 +99,7 @@ export const SingleQuestionView: React.FC<SingleQuestionViewProps> = ({
               : 'bg-blue-600 hover:bg-blue-700 text-white shadow-md hover:shadow-lg'
           }`}
         >
-          {questionNumber === totalQuestions ? 'Next' : 'Next'}
+          {beforeReview ? common.reviewAnswers : common.next}
           <ArrowRight className="w-5 h-5" />
         </button>
       </div>
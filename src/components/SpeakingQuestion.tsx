@@ -0,0 +1,237 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Mic, Square, CheckCircle, AlertCircle } from 'lucide-react';
+import { Question } from '../types/test';
+import { getRecording, saveRecording } from '../utils/attemptStore';
+import { CountdownState, getDeadline, getTimeLeft, hasExpired, startCountdown, systemClock } from '../utils/countdown';
+import { useClock } from '../hooks/useClock';
+import { RichText } from './RichText';
+import { TimeAnnouncer } from './TimeAnnouncer';
+import { useI18n } from '../i18n/useI18n';
+
+interface SpeakingQuestionProps {
+  question: Question;
+  recordingId: string;
+  onAnswerChange: (questionId: number, answer: string) => void;
+  questionNumber: number;
+}
+
+type SpeakingPhase = 'preparing' | 'recording' | 'saving' | 'recorded' | 'unavailable';
+
+const formatSeconds = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+export const SpeakingQuestion: React.FC<SpeakingQuestionProps> = ({
+  question,
+  recordingId,
+  onAnswerChange,
+  questionNumber
+}) => {
+  const text = useI18n().messages.speaking;
+  const prepTime = question.speaking?.prepTime ?? 0;
+  const responseTime = question.speaking?.responseTime ?? 60;
+
+  const [phase, setPhase] = useState<SpeakingPhase>(recordingId ? 'recorded' : 'preparing');
+  const [countdown, setCountdown] = useState<CountdownState>(() => startCountdown(prepTime, systemClock()));
+  const [playbackUrl, setPlaybackUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const startingRef = useRef(false); // waiting on the microphone permission prompt
+  const unmountedRef = useRef(false);
+  const onAnswerChangeRef = useRef(onAnswerChange);
+  onAnswerChangeRef.current = onAnswerChange;
+
+  const startRecording = async () => {
+    // The permission prompt can take a while; the auto-start and "Start now" must not both open the microphone
+    if (recorderRef.current || startingRef.current) return;
+    startingRef.current = true;
+    try {
+      if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+        throw new Error('This browser cannot record audio.');
+      }
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      // The question was left while the prompt was open, so nothing would ever stop this recorder
+      if (unmountedRef.current) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+      const startedAt = Date.now();
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      // Save even if the candidate has already moved on; the answer lives in App state
+      recorder.onstop = async () => {
+        stream.getTracks().forEach(track => track.stop());
+        recorderRef.current = null;
+        const mimeType = recorder.mimeType || 'audio/webm';
+        const id = crypto.randomUUID();
+        try {
+          await saveRecording({
+            id,
+            questionId: question.id,
+            blob: new Blob(chunks, { type: mimeType }),
+            mimeType,
+            durationMs: Date.now() - startedAt,
+            recordedAt: new Date().toISOString()
+          });
+          onAnswerChangeRef.current(question.id, id);
+          setPhase('recorded');
+        } catch (saveError) {
+          console.error('Error saving recording:', saveError);
+          setError(text.saveFailed);
+          setPhase('unavailable');
+        }
+      };
+
+      recorderRef.current = recorder;
+      recorder.start();
+      setCountdown(startCountdown(responseTime, systemClock()));
+      setPhase('recording');
+    } catch (startError) {
+      console.error('Error starting recording:', startError);
+      setError(text.microphoneNeeded);
+      setPhase('unavailable');
+    } finally {
+      startingRef.current = false;
+    }
+  };
+
+  const stopRecording = () => {
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      setPhase('saving');
+      recorder.stop();
+    }
+  };
+
+  // Preparation and response countdowns; recording starts when preparation ends and stops when time is up
+  const onCountdownEndRef = useRef<() => void>(() => {});
+  onCountdownEndRef.current = phase === 'preparing' ? startRecording : stopRecording;
+
+  const counting = phase === 'preparing' || phase === 'recording';
+  const now = useClock(counting, getDeadline(countdown));
+  const timeLeft = getTimeLeft(countdown, now);
+  const expired = hasExpired(countdown, now);
+
+  useEffect(() => {
+    if (counting && expired) onCountdownEndRef.current();
+  }, [counting, expired]);
+
+  // Finish the recording if the question is left early
+  useEffect(() => {
+    unmountedRef.current = false;
+    return () => {
+      unmountedRef.current = true;
+      const recorder = recorderRef.current;
+      if (recorder && recorder.state !== 'inactive') recorder.stop();
+    };
+  }, []);
+
+  // Play back a saved response
+  useEffect(() => {
+    if (!recordingId) return;
+    let url: string | null = null;
+    getRecording(recordingId)
+      .then(recording => {
+        if (recording) {
+          url = URL.createObjectURL(recording.blob);
+          setPlaybackUrl(url);
+        }
+      })
+      .catch(loadError => console.error('Error loading recording:', loadError));
+    return () => {
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [recordingId]);
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 shadow-sm">
+      <div className="mb-6">
+        <h3 className="text-lg font-medium text-gray-800">
+          <span className="text-blue-600 font-bold">{questionNumber}.</span> <RichText text={question.question} inline />
+        </h3>
+      </div>
+
+      <TimeAnnouncer
+        timeLeft={counting ? timeLeft : countdown.limit}
+        totalTime={countdown.limit}
+        label={phase === 'preparing' ? text.preparation : text.recording}
+      />
+
+      {phase === 'preparing' && (
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-6 text-center">
+          <p className="text-blue-800 font-medium mb-2">{text.preparation}</p>
+          <p className="text-3xl font-bold text-blue-600 mb-4">{formatSeconds(timeLeft)}</p>
+          <p className="text-sm text-blue-700 mb-4">
+            {text.startsAutomatically(formatSeconds(responseTime))}
+          </p>
+          <button
+            type="button"
+            onClick={startRecording}
+            className="inline-flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors"
+          >
+            <Mic className="w-5 h-5" />
+            {text.startNow}
+          </button>
+        </div>
+      )}
+
+      {phase === 'recording' && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-6 text-center">
+          <p className="text-red-800 font-medium mb-2 flex items-center justify-center gap-2">
+            <span className="w-3 h-3 bg-red-500 rounded-full animate-pulse" />
+            {text.recording}
+          </p>
+          <p className="text-3xl font-bold text-red-600 mb-4">{formatSeconds(timeLeft)}</p>
+          <button
+            type="button"
+            onClick={stopRecording}
+            className="inline-flex items-center gap-2 px-6 py-3 bg-red-600 text-white rounded-lg font-semibold hover:bg-red-700 transition-colors"
+          >
+            <Square className="w-5 h-5" />
+            {text.finish}
+          </button>
+        </div>
+      )}
+
+      {phase === 'saving' && (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-6 text-center text-gray-600">
+          {text.saving}
+        </div>
+      )}
+
+      {phase === 'recorded' && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-6">
+          <p className="text-green-800 font-medium flex items-center gap-2 mb-3">
+            <CheckCircle className="w-5 h-5" />
+            {text.recorded}
+          </p>
+          {playbackUrl && <audio controls src={playbackUrl} className="w-full" />}
+        </div>
+      )}
+
+      {phase === 'unavailable' && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-6">
+          <p className="text-amber-800 flex items-center gap-2 mb-4">
+            <AlertCircle className="w-5 h-5 flex-shrink-0" />
+            {error}
+          </p>
+          <button
+            type="button"
+            onClick={() => {
+              setError(null);
+              startRecording();
+            }}
+            className="inline-flex items-center gap-2 px-6 py-3 bg-amber-600 text-white rounded-lg font-semibold hover:bg-amber-700 transition-colors"
+          >
+            <Mic className="w-5 h-5" />
+            {text.tryAgain}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Lock } from 'lucide-react';
+import { checkPasscode } from '../utils/staffAccess';
+
+// Set at build time from the output of `npm run staff -- passcode <passcode>`
+const STAFF_PASSCODE_HASH = import.meta.env.VITE_STAFF_PASSCODE_HASH;
+
+interface StaffGateProps {
+  title: string;
+  children: React.ReactNode;
+}
+
+/**
+ * Keeps a staff view closed until the staff passcode is entered. The view unlocks for this page
+ * only, so a reload or the next person at the device has to enter it again. A build without a
+ * passcode hash keeps the view closed.
+ */
+export const StaffGate: React.FC<StaffGateProps> = ({ title, children }) => {
+  const [passcode, setPasscode] = useState('');
+  const [unlocked, setUnlocked] = useState(false);
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (unlocked) return <>{children}</>;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!STAFF_PASSCODE_HASH) return;
+    setChecking(true);
+    try {
+      if (await checkPasscode(passcode, STAFF_PASSCODE_HASH)) {
+        setUnlocked(true);
+      } else {
+        setError('That passcode is not correct.');
+        setPasscode('');
+      }
+    } catch (error) {
+      console.error('Error checking the staff passcode:', error);
+      setError('The passcode could not be checked in this browser.');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-6">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+        <div className="flex items-center gap-3">
+          <Lock className="w-6 h-6 text-blue-600" />
+          <h1 className="text-xl font-bold text-gray-800">{title}</h1>
+        </div>
+        {!STAFF_PASSCODE_HASH ? (
+          <p className="text-sm text-gray-600">
+            Staff access is not set up in this build. Set VITE_STAFF_PASSCODE_HASH to the output of
+            <code className="mx-1">npm run staff -- passcode</code>and build again.
+          </p>
+        ) : (
+          <>
+            <label className="block text-sm font-medium text-gray-700">
+              Staff passcode
+              <input
+                type="password"
+                autoComplete="off"
+                autoFocus
+                value={passcode}
+                onChange={(e) => {
+                  setPasscode(e.target.value);
+                  setError(null);
+                }}
+                className="mt-1 w-full px-3 py-2 border-2 border-gray-300 rounded-lg focus:border-blue-500 focus:outline-none"
+              />
+            </label>
+            {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+            <button
+              type="submit"
+              disabled={checking || !passcode}
+              className="w-full px-6 py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              {checking ? 'Checking...' : 'Unlock'}
+            </button>
+          </>
+        )}
+      </form>
+    </div>
+  );
+};
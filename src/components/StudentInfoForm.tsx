@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { User, Mail, Calendar, Globe, BookOpen, GraduationCap, Car as IdCard } from 'lucide-react';
 import { StudentInfo } from '../types/test';
+import { useI18n } from '../i18n/useI18n';
 
 interface StudentInfoFormProps {
   onSubmit: (info: StudentInfo) => void;
@@ -17,24 +18,25 @@ export const StudentInfoForm: React.FC<StudentInfoFormProps> = ({ onSubmit }) =>
   });
 
   const [errors, setErrors] = useState<Partial<StudentInfo>>({});
+  const { common, studentInfo: text } = useI18n().messages;
 
   const validateForm = () => {
     const newErrors: Partial<StudentInfo> = {};
 
-    if (!formData.firstName.trim()) newErrors.firstName = 'First name is required';
-    if (!formData.lastName.trim()) newErrors.lastName = 'Last name is required';
+    if (!formData.firstName.trim()) newErrors.firstName = text.firstNameRequired;
+    if (!formData.lastName.trim()) newErrors.lastName = text.lastNameRequired;
     if (!formData.email.trim()) {
-      newErrors.email = 'Email is required';
+      newErrors.email = text.emailRequired;
     } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email)) {
-      newErrors.email = 'Please enter a valid email address';
+      newErrors.email = text.emailInvalid;
     }
     if (!formData.phoneNumber.trim()) {
-      newErrors.phoneNumber = 'Phone number is required';
+      newErrors.phoneNumber = text.phoneRequired;
     } else if (!/^[\+]?[1-9][\d]{0,15}$/.test(formData.phoneNumber.replace(/[\s\-\(\)]/g, ''))) {
-      newErrors.phoneNumber = 'Please enter a valid phone number';
+      newErrors.phoneNumber = text.phoneInvalid;
     }
-    if (!formData.level) newErrors.level = 'Please select your current level';
-    if (!formData.dateOfBirth) newErrors.dateOfBirth = 'Date of birth is required';
+    if (!formData.level) newErrors.level = text.levelRequired;
+    if (!formData.dateOfBirth) newErrors.dateOfBirth = text.dateOfBirthRequired;
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -62,7 +64,7 @@ export const StudentInfoForm: React.FC<StudentInfoFormProps> = ({ onSubmit }) =>
           <div className="flex items-center gap-2">
             <img 
               src="https://copilot.microsoft.com/th/id/BCO.1671fab5-16d2-493f-999e-daadcc92b63b.png" 
-              alt="Sha Bridge College Logo" 
+              alt={common.logoAlt} 
               className="w-12 h-12"
               onError={(e) => {
                 e.currentTarget.style.display = 'none';
@@ -71,8 +73,8 @@ export const StudentInfoForm: React.FC<StudentInfoFormProps> = ({ onSubmit }) =>
             />
             <GraduationCap className="w-8 h-8 text-blue-900 hidden" />
             <div>
-              <h1 className="text-xl font-bold text-gray-800">Sha Bridge College</h1>
-              <p className="text-sm text-gray-600">English Language Assessment</p>
+              <h1 className="text-xl font-bold text-gray-800">{common.college}</h1>
+              <p className="text-sm text-gray-600">{common.assessment}</p>
             </div>
           </div>
         </div>
@@ -83,8 +85,8 @@ export const StudentInfoForm: React.FC<StudentInfoFormProps> = ({ onSubmit }) =>
           <div className="inline-flex items-center justify-center w-20 h-20 bg-blue-100 rounded-full mb-6">
             <User className="w-10 h-10 text-blue-800" />
           </div>
-          <h1 className="text-3xl font-bold text-gray-800 mb-3">Student Information</h1>
-          <p className="text-lg text-gray-600">Please provide your details before beginning the assessment</p>
+          <h1 className="text-3xl font-bold text-gray-800 mb-3">{text.title}</h1>
+          <p className="text-lg text-gray-600">{text.subtitle}</p>
         </div>
 
         <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-8">
@@ -93,13 +95,13 @@ export const StudentInfoForm: React.FC<StudentInfoFormProps> = ({ onSubmit }) =>
             <div className="border-b border-gray-200 pb-6">
               <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
                 <User className="w-5 h-5 text-blue-600" />
-                Personal Information
+                {text.personal}
               </h2>
               
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
-                    First Name *
+                    {text.firstName}
                   </label>
                   <input
                     type="text"
@@ -108,14 +110,14 @@ export const StudentInfoForm: React.FC<StudentInfoFormProps> = ({ onSubmit }) =>
                     className={`w-full p-3 border-2 rounded-lg focus:ring-2 focus:ring-blue-500 transition-all duration-200 ${
                       errors.firstName ? 'border-red-300 focus:border-red-500' : 'border-gray-300 focus:border-blue-500'
                     }`}
-                    placeholder="Enter your first name"
+                    placeholder={text.firstNamePlaceholder}
                   />
                   {errors.firstName && <p className="text-red-500 text-sm mt-1">{errors.firstName}</p>}
                 </div>
 
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Last Name *
+                    {text.lastName}
                   </label>
                   <input
                     type="text"
@@ -124,14 +126,14 @@ export const StudentInfoForm: React.FC<StudentInfoFormProps> = ({ onSubmit }) =>
                     className={`w-full p-3 border-2 rounded-lg focus:ring-2 focus:ring-blue-500 transition-all duration-200 ${
                       errors.lastName ? 'border-red-300 focus:border-red-500' : 'border-gray-300 focus:border-blue-500'
                     }`}
-                    placeholder="Enter your last name"
+                    placeholder={text.lastNamePlaceholder}
                   />
                   {errors.lastName && <p className="text-red-500 text-sm mt-1">{errors.lastName}</p>}
                 </div>
 
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Date of Birth *
+                    {text.dateOfBirth}
                   </label>
                   <input
                     type="date"
@@ -146,7 +148,7 @@ export const StudentInfoForm: React.FC<StudentInfoFormProps> = ({ onSubmit }) =>
 
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Email Address *
+                    {text.email}
                   </label>
                   <input
                     type="email"
@@ -155,14 +157,14 @@ export const StudentInfoForm: React.FC<StudentInfoFormProps> = ({ onSubmit }) =>
                     className={`w-full p-3 border-2 rounded-lg focus:ring-2 focus:ring-blue-500 transition-all duration-200 ${
                       errors.email ? 'border-red-300 focus:border-red-500' : 'border-gray-300 focus:border-blue-500'
                     }`}
-                    placeholder="Enter your email address"
+                    placeholder={text.emailPlaceholder}
                   />
                   {errors.email && <p className="text-red-500 text-sm mt-1">{errors.email}</p>}
                 </div>
 
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Phone Number *
+                    {text.phone}
                   </label>
                   <input
                     type="tel"
@@ -171,7 +173,7 @@ export const StudentInfoForm: React.FC<StudentInfoFormProps> = ({ onSubmit }) =>
                     className={`w-full p-3 border-2 rounded-lg focus:ring-2 focus:ring-blue-500 transition-all duration-200 ${
                       errors.phoneNumber ? 'border-red-300 focus:border-red-500' : 'border-gray-300 focus:border-blue-500'
                     }`}
-                    placeholder="Enter your phone number"
+                    placeholder={text.phonePlaceholder}
                   />
                   {errors.phoneNumber && <p className="text-red-500 text-sm mt-1">{errors.phoneNumber}</p>}
                 </div>
@@ -182,13 +184,13 @@ export const StudentInfoForm: React.FC<StudentInfoFormProps> = ({ onSubmit }) =>
             <div className="border-b border-gray-200 pb-6">
               <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
                 <BookOpen className="w-5 h-5 text-blue-600" />
-                Assessment Information
+                {text.assessmentInfo}
               </h2>
               
               <div className="grid grid-cols-1 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Self-Assessed English Level *
+                    {text.selfLevel}
                   </label>
                   <select
                     value={formData.level}
@@ -197,13 +199,10 @@ export const StudentInfoForm: React.FC<StudentInfoFormProps> = ({ onSubmit }) =>
                       errors.level ? 'border-red-300 focus:border-red-500' : 'border-gray-300 focus:border-blue-500'
                     }`}
                   >
-                    <option value="">Select your level</option>
-                    <option value="beginner">Beginner (S1)</option>
-                    <option value="elementary">Elementary (S2)</option>
-                    <option value="intermediate">Intermediate (S3)</option>
-                    <option value="upper-intermediate">Upper Intermediate (S4)</option>
-                    <option value="advanced">Advanced (S5)</option>
-                    <option value="unsure">Not sure</option>
+                    <option value="">{text.selectLevel}</option>
+                    {Object.entries(text.levels).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
                   </select>
                   {errors.level && <p className="text-red-500 text-sm mt-1">{errors.level}</p>}
                 </div>
@@ -215,12 +214,11 @@ export const StudentInfoForm: React.FC<StudentInfoFormProps> = ({ onSubmit }) =>
               <div className="flex items-start gap-3">
                 <User className="w-6 h-6 text-amber-700 mt-1 flex-shrink-0" />
                 <div>
-                  <h3 className="text-lg font-semibold text-amber-800 mb-2">Important Notice</h3>
+                  <h3 className="text-lg font-semibold text-amber-800 mb-2">{text.noticeTitle}</h3>
                   <ul className="text-amber-700 space-y-1 text-sm">
-                    <li>• All information provided will be kept confidential</li>
-                    <li>• Your details will be used for test administration and results processing only</li>
-                    <li>• Ensure all information is accurate as it will appear on your certificate</li>
-                    <li>• You cannot change this information once the test begins</li>
+                    {text.notices.map(notice => (
+                      <li key={notice}>• {notice}</li>
+                    ))}
                   </ul>
                 </div>
               </div>
@@ -232,7 +230,7 @@ export const StudentInfoForm: React.FC<StudentInfoFormProps> = ({ onSubmit }) =>
                 type="submit"
                 className="bg-blue-800 hover:bg-blue-900 text-white font-bold py-4 px-12 rounded-xl transition-all duration-200 shadow-lg hover:shadow-xl transform hover:-translate-y-0.5 text-lg"
               >
-                Continue to Assessment
+                {text.submit}
               </button>
             </div>
           </form>
@@ -241,7 +239,7 @@ export const StudentInfoForm: React.FC<StudentInfoFormProps> = ({ onSubmit }) =>
         {/* Footer */}
         <div className="text-center mt-8">
           <p className="text-gray-500 text-sm">
-            Sha Bridge College Language Assessment Center • Confidential Testing Environment
+            {text.footer}
           </p>
         </div>
       </div>
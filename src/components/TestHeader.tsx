@@ -1,17 +1,39 @@
 import React from 'react';
 import { Clock, GraduationCap } from 'lucide-react';
+import { useI18n } from '../i18n/useI18n';
+import { Countdown } from '../hooks/useTestTiming';
+import { TimeAnnouncer } from './TimeAnnouncer';
 
 interface TestHeaderProps {
   currentSection: number;
   totalSections: number;
   sectionTitle: string;
+  testTime?: Countdown;
+  sectionTime?: Countdown;
 }
 
 export const TestHeader: React.FC<TestHeaderProps> = ({
   currentSection,
   totalSections,
-  sectionTitle
+  sectionTitle,
+  testTime,
+  sectionTime
 }) => {
+  const { common, test } = useI18n().messages;
+
+  const renderTime = (label: string, time: Countdown) => (
+    <div className="text-end">
+      <div className="text-sm text-gray-600 font-medium flex items-center justify-end gap-1">
+        <Clock className="w-4 h-4" />
+        {label}
+      </div>
+      <div className={`text-lg font-bold ${time.left <= 60 ? 'text-red-600' : time.left <= 300 ? 'text-amber-600' : 'text-gray-800'}`}>
+        {common.minutesSeconds(Math.floor(time.left / 60), String(time.left % 60).padStart(2, '0'))}
+      </div>
+      <TimeAnnouncer timeLeft={time.left} totalTime={time.limit} label={label} />
+    </div>
+  );
+
   return (
     <div className="bg-white border-b-2 border-blue-800 px-6 py-5 sticky top-0 z-10 shadow-lg">
       <div className="max-w-6xl mx-auto flex items-center justify-between">
@@ -19,7 +41,7 @@ export const TestHeader: React.FC<TestHeaderProps> = ({
           <div className="flex items-center gap-2">
             <img 
               src="https://copilot.microsoft.com/th/id/BCO.1671fab5-16d2-493f-999e-daadcc92b63b.png" 
-              alt="Sha Bridge College Logo" 
+              alt={common.logoAlt} 
               className="w-12 h-12" 
               onError={(e) => {
                 e.currentTarget.style.display = 'none';
@@ -28,19 +50,21 @@ export const TestHeader: React.FC<TestHeaderProps> = ({
             />
             <GraduationCap className="w-8 h-8 text-blue-900 hidden" />
             <div>
-              <h1 className="text-xl font-bold text-gray-800">Sha Bridge College</h1>
-              <p className="text-sm text-gray-600">English Proficiency Assessment</p>
+              <h1 className="text-xl font-bold text-gray-800">{common.college}</h1>
+              <p className="text-sm text-gray-600">{common.proficiencyAssessment}</p>
             </div>
           </div>
           <div className="hidden lg:flex items-center gap-3 text-gray-700">
-            <span className="text-lg font-medium">Section {currentSection + 1} of {totalSections}:</span>
+            <span className="text-lg font-medium">{test.sectionOf(currentSection + 1, totalSections)}:</span>
             <span className="text-lg font-bold text-blue-800">{sectionTitle}</span>
           </div>
         </div>
         
         <div className="flex items-center gap-6">
-          <div className="text-right">
-            <div className="text-sm text-gray-600 font-medium">Progress</div>
+          {sectionTime && renderTime(test.sectionTime, sectionTime)}
+          {testTime && renderTime(test.testTime, testTime)}
+          <div className="text-end">
+            <div className="text-sm text-gray-600 font-medium">{test.progress}</div>
             <div className="text-lg font-bold text-gray-800">{currentSection + 1}/{totalSections}</div>
           </div>
         </div>
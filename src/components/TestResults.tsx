@@ -1,19 +1,38 @@
 import React from 'react';
-import { Download, RotateCcw, GraduationCap, BookOpen, Headphones, PenTool, MessageSquare } from 'lucide-react';
-import { StudentInfo } from '../types/test';
+import { Download, RotateCcw, GraduationCap } from 'lucide-react';
+import { Accommodations, Answers, SEMFLevel, SEMFSkill, StudentInfo } from '../types/test';
 import { SEMFScoringEngine } from '../utils/semfScoring';
+import { getTestForm } from '../data/testForms';
+import { describeAccommodations } from '../utils/accommodations';
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
+import { useI18n } from '../i18n/useI18n';
 
 interface TestResultsProps {
-  answers: Record<number, string>;
+  formId: string;
+  answers: Answers;
   studentInfo: StudentInfo | null;
+  accommodations?: Accommodations;
   onRestart: () => void;
 }
 
-export const TestResults: React.FC<TestResultsProps> = ({ answers, studentInfo, onRestart }) => {
-  // Calculate actual scores based on correct answers
-  const semfResult = SEMFScoringEngine.calculateSEMFLevel(answers);
+const LEVEL_GUIDE: { level: SEMFLevel; min: number; max: number; dot: string; highlight: string }[] = [
+  { level: 'S1', min: 0, max: 15, dot: 'bg-red-500', highlight: 'border-red-400 bg-red-50' },
+  { level: 'S2', min: 16, max: 25, dot: 'bg-yellow-500', highlight: 'border-yellow-400 bg-yellow-50' },
+  { level: 'S3', min: 26, max: 33, dot: 'bg-teal-500', highlight: 'border-teal-400 bg-teal-50' },
+  { level: 'S4', min: 34, max: 42, dot: 'bg-blue-600', highlight: 'border-blue-400 bg-blue-50' },
+  { level: 'S5', min: 43, max: 50, dot: 'bg-purple-500', highlight: 'border-purple-400 bg-purple-50' }
+];
+
+export const TestResults: React.FC<TestResultsProps> = ({ formId, answers, studentInfo, accommodations = {}, onRestart }) => {
+  const { locale, messages } = useI18n();
+  const { common, results: text, report } = messages;
+  // Calculate actual scores against the key of the form that was taken; the summary is in the instruction language
+  const semfResult = SEMFScoringEngine.scoreSubmission({ formId, answers }, report);
+  const skillName = (skill: string) => report.skills[skill as SEMFSkill] ?? skill;
+  const selfLevel = (level: string) => messages.studentInfo.levels[level as keyof typeof messages.studentInfo.levels] ?? level;
+  const form = getTestForm(formId);
+  const accommodationsUsed = describeAccommodations(accommodations, messages.accommodations);
 
   const getSEMFLevelColor = (level: string) => {
     switch (level) {
@@ -27,6 +46,8 @@ export const TestResults: React.FC<TestResultsProps> = ({ answers, studentInfo,
   };
 
   const overallLevelColor = getSEMFLevelColor(semfResult.overallLevel);
+  const { rawScore: tieBreakerRaw, maxScore: tieBreakerMax } = semfResult.tieBreakerSkill;
+  const tieBreakerPercentage = tieBreakerMax > 0 ? Math.round((tieBreakerRaw / tieBreakerMax) * 100) : 0;
 
   const handleDownload = async () => {
     try {
@@ -88,7 +109,7 @@ export const TestResults: React.FC<TestResultsProps> = ({ answers, studentInfo,
       pdf.save(fileName);
     } catch (error) {
       console.error('Error generating PDF:', error);
-      alert('Error generating PDF. Please try again or check your browser permissions.');
+      alert(text.downloadFailed);
     }
   };
 
@@ -102,7 +123,7 @@ export const TestResults: React.FC<TestResultsProps> = ({ answers, studentInfo,
               <div className="flex items-center gap-6">
                 <img 
                   src="https://copilot.microsoft.com/th/id/BCO.1671fab5-16d2-493f-999e-daadcc92b63b.png" 
-                  alt="Sha Bridge College Logo" 
+                  alt={common.logoAlt} 
                   className="w-20 h-20 object-contain"
                   onError={(e) => {
                     e.currentTarget.style.display = 'none';
@@ -111,27 +132,28 @@ export const TestResults: React.FC<TestResultsProps> = ({ answers, studentInfo,
                 />
                 <GraduationCap className="w-16 h-16 text-blue-900 hidden" />
                 <div>
-                  <h1 className="text-3xl font-bold text-blue-900 mb-1">Sha Bridge College</h1>
-                  <p className="text-lg text-gray-700 font-medium">English Language Assessment Center</p>
-                  <p className="text-sm text-gray-600">Official SEMF Proficiency Report</p>
+                  <h1 className="text-3xl font-bold text-blue-900 mb-1">{common.college}</h1>
+                  <p className="text-lg text-gray-700 font-medium">{text.center}</p>
+                  <p className="text-sm text-gray-600">{text.reportTitle}</p>
                 </div>
               </div>
-              <div className="text-right">
-                <div className="text-sm text-gray-600 mb-1">Assessment Date</div>
-                <div className="text-lg font-bold text-gray-800">{new Date().toLocaleDateString('en-US', { 
+              <div className="text-end">
+                <div className="text-sm text-gray-600 mb-1">{text.assessmentDate}</div>
+                <div className="text-lg font-bold text-gray-800">{new Date().toLocaleDateString(locale.code, { 
                   year: 'numeric', 
                   month: 'long', 
                   day: 'numeric' 
                 })}</div>
-                <div className="text-sm text-gray-600 mt-1">Academic Year 2025</div>
+                <div className="text-sm text-gray-600 mt-1">{text.academicYear}</div>
+                <div className="text-sm text-gray-600 mt-1">{text.form(form.id)}</div>
               </div>
             </div>
           </div>
 
           {/* Main Header */}
           <div className="text-center mb-10">
-            <h2 className="text-4xl font-bold text-gray-800 mb-3">Assessment Complete!</h2>
-            <p className="text-xl text-gray-600">ShaBridge English Mastery Framework (SEMF) Results</p>
+            <h2 className="text-4xl font-bold text-gray-800 mb-3">{text.complete}</h2>
+            <p className="text-xl text-gray-600">{text.subtitle}</p>
           </div>
 
           {/* Main Score Display */}
@@ -143,40 +165,50 @@ export const TestResults: React.FC<TestResultsProps> = ({ answers, studentInfo,
               <div className="text-xl text-gray-600 max-w-2xl mx-auto">
                 {semfResult.descriptions[semfResult.overallLevel]}
               </div>
+              {semfResult.provisional && (
+                <p className="text-sm text-amber-700 mt-4 max-w-2xl mx-auto">
+                  {text.provisional}
+                </p>
+              )}
             </div>
 
             {/* Skills Summary */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-8">
               {semfResult.skills.map((skill) => {
-                const skillColor = getSEMFLevelColor(skill.level);
-                const maxScore = skill.skill === 'ReadingWriting' ? 24 : 12;
-                const percentage = Math.round((skill.rawScore / maxScore) * 100);
+                const skillColor = getSEMFLevelColor(skill.awaitingRating ? '' : skill.level);
+                const percentage = skill.maxScore > 0 ? Math.round((skill.rawScore / skill.maxScore) * 100) : 0;
                 
                 return (
                   <div key={skill.skill} className={`${skillColor.bgLight} ${skillColor.border} border-2 rounded-xl p-6`}>
                     <h3 className="text-lg font-bold text-gray-800 mb-2">
-                      {skill.skill.replace(/([A-Z])/g, ' $1').trim()}
+                      {skillName(skill.skill)}
                     </h3>
-                    <div className="flex items-center justify-between mb-3">
-                      <span className="text-gray-600">Score: {skill.rawScore}/{maxScore} ({percentage}%)</span>
-                      <span className={`font-bold text-lg ${skillColor.text}`}>SEMF {skill.level}</span>
-                    </div>
-                    <div className="text-sm text-gray-600">
-                      Normalized: {skill.normalizedScore}/50
-                      {skill.tieBreakerApplied && (
-                        <span className="ml-2 text-amber-600 font-medium">(Tie-breaker applied)</span>
-                      )}
-                    </div>
-                    
-                    {/* Performance bar */}
-                    <div className="mt-3">
-                      <div className="w-full bg-gray-200 rounded-full h-2">
-                        <div 
-                          className={`h-2 rounded-full transition-all duration-500 ${skillColor.bg}`}
-                          style={{ width: `${percentage}%` }}
-                        />
-                      </div>
-                    </div>
+                    {skill.awaitingRating ? (
+                      <div className="text-gray-600">{text.awaitingRating}</div>
+                    ) : (
+                      <>
+                        <div className="flex items-center justify-between mb-3">
+                          <span className="text-gray-600">{text.score(Math.round(skill.rawScore * 10) / 10, skill.maxScore, percentage)}</span>
+                          <span className={`font-bold text-lg ${skillColor.text}`}>SEMF {skill.level}</span>
+                        </div>
+                        <div className="text-sm text-gray-600">
+                          {text.normalized(skill.normalizedScore)}
+                          {skill.tieBreakerApplied && (
+                            <span className="ms-2 text-amber-600 font-medium">{text.tieBreakerApplied}</span>
+                          )}
+                        </div>
+
+                        {/* Performance bar */}
+                        <div className="mt-3">
+                          <div className="w-full bg-gray-200 rounded-full h-2">
+                            <div 
+                              className={`h-2 rounded-full transition-all duration-500 ${skillColor.bg}`}
+                              style={{ width: `${percentage}%` }}
+                            />
+                          </div>
+                        </div>
+                      </>
+                    )}
                   </div>
                 );
               })}
@@ -184,16 +216,21 @@ export const TestResults: React.FC<TestResultsProps> = ({ answers, studentInfo,
 
             {/* Tie-breaker Skill */}
             <div className="mt-6 bg-amber-50 border-2 border-amber-300 rounded-xl p-6">
-              <h3 className="text-lg font-bold text-amber-800 mb-2">Tie-breaker Skill</h3>
+              <h3 className="text-lg font-bold text-amber-800 mb-2">{text.tieBreakerTitle}</h3>
               <div className="text-amber-700 mb-2">
-                <span className="font-medium">{semfResult.tieBreakerSkill.skill.replace(/([A-Z])/g, ' $1').trim()}: </span>
-                {semfResult.tieBreakerSkill.rawScore}/20 ({Math.round((semfResult.tieBreakerSkill.rawScore/20)*100)}%)
+                <span className="font-medium">{skillName(semfResult.tieBreakerSkill.skill)}: </span>
+                {semfResult.tieBreakerSkill.rawScore}/{semfResult.tieBreakerSkill.maxScore} ({tieBreakerPercentage}%)
               </div>
               <div className="text-amber-700">
-                Normalized: {semfResult.tieBreakerSkill.normalizedScore}/50
+                {text.normalized(semfResult.tieBreakerSkill.normalizedScore)}
               </div>
+              {semfResult.tieBreakerSkill.ability && (
+                <div className="text-sm text-amber-700">
+                  {text.ability(semfResult.tieBreakerSkill.ability.theta, semfResult.tieBreakerSkill.ability.standardError)}
+                </div>
+              )}
               <p className="text-sm text-amber-600 mt-2">
-                Used to determine final level when scores are near boundaries
+                {text.tieBreakerNote}
               </p>
               
               {/* Performance bar for tie-breaker */}
@@ -201,7 +238,7 @@ export const TestResults: React.FC<TestResultsProps> = ({ answers, studentInfo,
                 <div className="w-full bg-gray-200 rounded-full h-2">
                   <div 
                     className="h-2 rounded-full bg-amber-500 transition-all duration-500"
-                    style={{ width: `${Math.round((semfResult.tieBreakerSkill.rawScore/20)*100)}%` }}
+                    style={{ width: `${tieBreakerPercentage}%` }}
                   />
                 </div>
               </div>
@@ -210,7 +247,7 @@ export const TestResults: React.FC<TestResultsProps> = ({ answers, studentInfo,
 
           {/* Detailed Performance Analysis */}
           <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-8 mb-8">
-            <h2 className="text-2xl font-bold text-gray-800 mb-6 text-center">Performance Analysis</h2>
+            <h2 className="text-2xl font-bold text-gray-800 mb-6 text-center">{text.analysis}</h2>
             
             <div className="bg-gray-50 border border-gray-200 rounded-lg p-6">
               <pre className="whitespace-pre-wrap text-sm text-gray-700 leading-relaxed font-sans">
@@ -222,15 +259,21 @@ export const TestResults: React.FC<TestResultsProps> = ({ answers, studentInfo,
           {/* Student Information Display */}
           {studentInfo && (
             <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-8 mb-8">
-              <h2 className="text-2xl font-bold text-gray-800 mb-6 text-center">Student Information</h2>
+              <h2 className="text-2xl font-bold text-gray-800 mb-6 text-center">{text.studentInfo}</h2>
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-6">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
-                  <div><span className="font-medium">Name:</span> {studentInfo.firstName} {studentInfo.lastName}</div>
-                  <div><span className="font-medium">Email:</span> {studentInfo.email}</div>
-                  <div><span className="font-medium">Phone:</span> {studentInfo.phoneNumber}</div>
-                  <div><span className="font-medium">Self-Assessed Level:</span> {studentInfo.level}</div>
-                  <div><span className="font-medium">Test Date:</span> {new Date().toLocaleDateString()}</div>
-                  <div><span className="font-medium">Assessment Type:</span> SEMF Core Skills</div>
+                  <div><span className="font-medium">{text.name}</span> {studentInfo.firstName} {studentInfo.lastName}</div>
+                  <div><span className="font-medium">{text.email}</span> {studentInfo.email}</div>
+                  <div><span className="font-medium">{text.phone}</span> {studentInfo.phoneNumber}</div>
+                  <div><span className="font-medium">{text.selfLevel}</span> {selfLevel(studentInfo.level)}</div>
+                  <div><span className="font-medium">{text.testDate}</span> {new Date().toLocaleDateString(locale.code)}</div>
+                  <div><span className="font-medium">{text.assessmentType}</span> {text.assessmentTypeValue}</div>
+                  <div><span className="font-medium">{text.testForm}</span> {form.title} (v{form.version})</div>
+                  {accommodationsUsed.length > 0 && (
+                    <div className="md:col-span-2">
+                      <span className="font-medium">{messages.accommodations.title}</span> {accommodationsUsed.join(', ')}
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -238,100 +281,38 @@ export const TestResults: React.FC<TestResultsProps> = ({ answers, studentInfo,
 
           {/* SEMF Level Guide */}
           <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-8 mb-8">
-            <h2 className="text-2xl font-bold text-gray-800 mb-8 text-center">SEMF Level Guide</h2>
+            <h2 className="text-2xl font-bold text-gray-800 mb-8 text-center">{text.levelGuide}</h2>
             
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {/* S1 */}
-              <div className={`border-2 rounded-xl p-6 transition-all ${
-                semfResult.overallLevel === 'S1' ? 'border-red-400 bg-red-50 shadow-lg' : 'border-gray-200 hover:shadow-md'
-              }`}>
-                <div className="flex items-center gap-3 mb-3">
-                  <div className="w-4 h-4 bg-red-500 rounded-full"></div>
-                  <span className="text-xl font-bold text-gray-800">S1</span>
-                </div>
-                <div className="text-gray-600">
-                  <div className="font-semibold text-lg">Basic User</div>
-                  <div className="text-sm">0-15 points</div>
-                  <div className="text-xs mt-2">Understands and uses simple expressions</div>
-                </div>
-              </div>
-
-              {/* S2 */}
-              <div className={`border-2 rounded-xl p-6 transition-all ${
-                semfResult.overallLevel === 'S2' ? 'border-yellow-400 bg-yellow-50 shadow-lg' : 'border-gray-200 hover:shadow-md'
-              }`}>
-                <div className="flex items-center gap-3 mb-3">
-                  <div className="w-4 h-4 bg-yellow-500 rounded-full"></div>
-                  <span className="text-xl font-bold text-gray-800">S2</span>
-                </div>
-                <div className="text-gray-600">
-                  <div className="font-semibold text-lg">Elementary User</div>
-                  <div className="text-sm">16-25 points</div>
-                  <div className="text-xs mt-2">Can handle short, routine exchanges</div>
-                </div>
-              </div>
-
-              {/* S3 */}
-              <div className={`border-2 rounded-xl p-6 transition-all ${
-                semfResult.overallLevel === 'S3' ? 'border-teal-400 bg-teal-50 shadow-lg' : 'border-gray-200 hover:shadow-md'
-              }`}>
-                <div className="flex items-center gap-3 mb-3">
-                  <div className="w-4 h-4 bg-teal-500 rounded-full"></div>
-                  <span className="text-xl font-bold text-gray-800">S3</span>
-                </div>
-                <div className="text-gray-600">
-                  <div className="font-semibold text-lg">Independent User</div>
-                  <div className="text-sm">26-33 points</div>
-                  <div className="text-xs mt-2">Can deal with most everyday situations</div>
-                </div>
-              </div>
-
-              {/* S4 */}
-              <div className={`border-2 rounded-xl p-6 transition-all ${
-                semfResult.overallLevel === 'S4' ? 'border-blue-400 bg-blue-50 shadow-lg' : 'border-gray-200 hover:shadow-md'
-              }`}>
-                <div className="flex items-center gap-3 mb-3">
-                  <div className="w-4 h-4 bg-blue-600 rounded-full"></div>
-                  <span className="text-xl font-bold text-gray-800">S4</span>
-                </div>
-                <div className="text-gray-600">
-                  <div className="font-semibold text-lg">Proficient User</div>
-                  <div className="text-sm">34-42 points</div>
-                  <div className="text-xs mt-2">Can interact fluently and spontaneously</div>
-                </div>
-              </div>
-
-              {/* S5 */}
-              <div className={`border-2 rounded-xl p-6 transition-all ${
-                semfResult.overallLevel === 'S5' ? 'border-purple-400 bg-purple-50 shadow-lg' : 'border-gray-200 hover:shadow-md'
-              }`}>
-                <div className="flex items-center gap-3 mb-3">
-                  <div className="w-4 h-4 bg-purple-500 rounded-full"></div>
-                  <span className="text-xl font-bold text-gray-800">S5</span>
-                </div>
-                <div className="text-gray-600">
-                  <div className="font-semibold text-lg">Mastery</div>
-                  <div className="text-sm">43-50 points</div>
-                  <div className="text-xs mt-2">Can express ideas precisely in complex situations</div>
+              {LEVEL_GUIDE.map(({ level, min, max, dot, highlight }) => (
+                <div key={level} className={`border-2 rounded-xl p-6 transition-all ${
+                  semfResult.overallLevel === level ? `${highlight} shadow-lg` : 'border-gray-200 hover:shadow-md'
+                }`}>
+                  <div className="flex items-center gap-3 mb-3">
+                    <div className={`w-4 h-4 ${dot} rounded-full`}></div>
+                    <span className="text-xl font-bold text-gray-800">{level}</span>
+                  </div>
+                  <div className="text-gray-600">
+                    <div className="font-semibold text-lg">{text.levelNames[level]}</div>
+                    <div className="text-sm">{text.points(min, max)}</div>
+                    <div className="text-xs mt-2">{text.levelSummaries[level]}</div>
+                  </div>
                 </div>
-              </div>
+              ))}
             </div>
           </div>
 
           {/* Footer */}
           <div className="bg-blue-50 border-2 border-blue-200 rounded-xl p-6 text-center">
             <div className="flex items-center justify-center gap-3 mb-3">
-              <img src="https://copilot.microsoft.com/th/id/BCO.1671fab5-16d2-493f-999e-daadcc92b63b.png" alt="Sha Bridge College Logo" className="w-6 h-6" onError={(e) => {
+              <img src="https://copilot.microsoft.com/th/id/BCO.1671fab5-16d2-493f-999e-daadcc92b63b.png" alt={common.logoAlt} className="w-6 h-6" onError={(e) => {
                 e.currentTarget.style.display = 'none';
                 e.currentTarget.nextElementSibling?.classList.remove('hidden');
               }} />
               <GraduationCap className="w-6 h-6 text-blue-900 hidden" />
-              <span className="text-lg font-bold text-blue-900">Sha Bridge College SEMF Assessment Center</span>
+              <span className="text-lg font-bold text-blue-900">{text.footerTitle}</span>
             </div>
-            <p className="text-blue-700">
-              This SEMF assessment provides an indication of your current English proficiency level using our proprietary framework.
-              For official certification or academic placement, please contact our Academic Affairs office.
-            </p>
+            <p className="text-blue-700">{text.footerNote}</p>
           </div>
         </div>
 
@@ -342,14 +323,14 @@ export const TestResults: React.FC<TestResultsProps> = ({ answers, studentInfo,
             className="flex items-center justify-center gap-3 bg-blue-600 hover:bg-blue-700 text-white font-bold py-4 px-8 rounded-xl transition-all duration-200 shadow-lg hover:shadow-xl transform hover:-translate-y-0.5"
           >
             <RotateCcw className="w-5 h-5" />
-            Take Test Again
+            {text.restart}
           </button>
           <button
             onClick={handleDownload}
             className="flex items-center justify-center gap-3 bg-gray-600 hover:bg-gray-700 text-white font-bold py-4 px-8 rounded-xl transition-all duration-200 shadow-lg hover:shadow-xl transform hover:-translate-y-0.5"
           >
             <Download className="w-5 h-5" />
-            Download SEMF Report
+            {text.download}
           </button>
         </div>
       </div>
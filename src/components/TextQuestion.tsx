@@ -1,5 +1,7 @@
 import React from 'react';
 import { Question } from '../types/test';
+import { RichText } from './RichText';
+import { useI18n } from '../i18n/useI18n';
 
 interface TextQuestionProps {
   question: Question;
@@ -14,6 +16,7 @@ export const TextQuestion: React.FC<TextQuestionProps> = ({
   onAnswerChange,
   questionNumber
 }) => {
+  const text = useI18n().messages.questions;
   const isEssay = question.type === 'essay';
   const wordCount = answer.trim() ? answer.trim().split(/\s+/).length : 0;
 
@@ -21,26 +24,26 @@ export const TextQuestion: React.FC<TextQuestionProps> = ({
     <div className="bg-white rounded-lg border border-gray-200 p-6 shadow-sm">
       <div className="mb-4">
         <h3 className="text-lg font-medium text-gray-800 mb-3">
-          <span className="text-blue-600 font-bold">{questionNumber}.</span> {question.question}
+          <span className="text-blue-600 font-bold">{questionNumber}.</span> <RichText text={question.question} inline />
         </h3>
       </div>
 
       {isEssay ? (
         <div className="space-y-4">
           <div className="flex items-center justify-between text-sm">
-            <span className="text-gray-600">Target: 100-150 words</span>
+            <span className="text-gray-600">{text.targetWords(100, 150)}</span>
             <span className={`font-medium ${
               wordCount >= 100 && wordCount <= 150 ? 'text-green-600' :
               wordCount > 150 ? 'text-amber-600' : 'text-gray-500'
             }`}>
-              {wordCount} words
+              {text.wordCount(wordCount)}
             </span>
           </div>
           <textarea
             value={answer}
             onChange={(e) => onAnswerChange(question.id, e.target.value)}
             className="w-full h-48 p-4 border-2 border-gray-300 rounded-lg focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all duration-200 resize-none"
-            placeholder="Write your paragraph here..."
+            placeholder={text.paragraphPlaceholder}
             spellcheck="false"
             autocorrect="off"
             autocapitalize="off"
@@ -48,48 +51,15 @@ export const TextQuestion: React.FC<TextQuestionProps> = ({
         </div>
       ) : (
         <div className="space-y-2">
-          {question.id === 26 || question.id === 27 ? (
-            <div className="space-y-3">
-              <input
-                type="text"
-                value={answer.split('|')[0] || ''}
-                onChange={(e) => {
-                  const parts = answer.split('|');
-                  parts[0] = e.target.value;
-                  onAnswerChange(question.id, parts.join('|'));
-                }}
-                className="w-full p-3 border-2 border-gray-300 rounded-lg focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all duration-200"
-                placeholder="(1) First answer..."
-                spellcheck="false"
-                autocorrect="off"
-                autocapitalize="off"
-              />
-              <input
-                type="text"
-                value={answer.split('|')[1] || ''}
-                onChange={(e) => {
-                  const parts = answer.split('|');
-                  parts[1] = e.target.value;
-                  onAnswerChange(question.id, parts.join('|'));
-                }}
-                className="w-full p-3 border-2 border-gray-300 rounded-lg focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all duration-200"
-                placeholder="(2) Second answer..."
-                spellcheck="false"
-                autocorrect="off"
-                autocapitalize="off"
-              />
-            </div>
-          ) : (
-            <textarea
-              value={answer}
-              onChange={(e) => onAnswerChange(question.id, e.target.value)}
-              className="w-full h-24 p-3 border-2 border-gray-300 rounded-lg focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all duration-200 resize-none"
-              placeholder="Write your answer here..."
-              spellcheck="false"
-              autocorrect="off"
-              autocapitalize="off"
-            />
-          )}
+          <textarea
+            value={answer}
+            onChange={(e) => onAnswerChange(question.id, e.target.value)}
+            className="w-full h-24 p-3 border-2 border-gray-300 rounded-lg focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all duration-200 resize-none"
+            placeholder={text.answerPlaceholder}
+            spellcheck="false"
+            autocorrect="off"
+            autocapitalize="off"
+          />
         </div>
       )}
     </div>
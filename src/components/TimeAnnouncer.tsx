@@ -0,0 +1,23 @@
+import React from 'react';
+import { useI18n } from '../i18n/useI18n';
+
+interface TimeAnnouncerProps {
+  timeLeft: number;
+  totalTime: number;
+  label?: string; // which timer, when a screen shows more than one
+}
+
+// Seconds left at which a warning is read out; only those shorter than the timer itself apply
+const WARNINGS = [300, 60, 10];
+
+// Tells screen-reader users that time is running low, once per warning rather than every second
+export const TimeAnnouncer: React.FC<TimeAnnouncerProps> = ({ timeLeft, totalTime, label }) => {
+  const { test } = useI18n().messages;
+  const warning = WARNINGS.filter(seconds => seconds < totalTime && timeLeft <= seconds).pop();
+
+  return (
+    <div role="status" aria-live={warning !== undefined && warning <= 10 ? 'assertive' : 'polite'} className="sr-only">
+      {warning !== undefined && test.timeWarning(warning, label)}
+    </div>
+  );
+};
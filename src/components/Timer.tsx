@@ -1,5 +1,7 @@
 import React from 'react';
 import { Clock } from 'lucide-react';
+import { TimeAnnouncer } from './TimeAnnouncer';
+import { useI18n } from '../i18n/useI18n';
 
 interface TimerProps {
   timeLeft: number;
@@ -7,6 +9,7 @@ interface TimerProps {
 }
 
 export const Timer: React.FC<TimerProps> = ({ timeLeft, totalTime }) => {
+  const { common, test } = useI18n().messages;
   const minutes = Math.floor(timeLeft / 60);
   const seconds = timeLeft % 60;
   const progress = ((totalTime - timeLeft) / totalTime) * 100;
@@ -19,10 +22,10 @@ export const Timer: React.FC<TimerProps> = ({ timeLeft, totalTime }) => {
       <div className="flex items-center justify-between mb-3">
         <div className="flex items-center gap-2">
           <Clock className={`w-5 h-5 ${isCritical ? 'text-red-500' : isWarning ? 'text-amber-500' : 'text-blue-600'}`} />
-          <span className="text-sm font-medium text-gray-600">Time Remaining</span>
+          <span className="text-sm font-medium text-gray-600">{test.timeRemaining}</span>
         </div>
         <div className={`text-2xl font-bold ${isCritical ? 'text-red-600' : isWarning ? 'text-amber-600' : 'text-blue-600'}`}>
-          {minutes}m {String(seconds).padStart(2, '0')}s
+          {common.minutesSeconds(minutes, String(seconds).padStart(2, '0'))}
         </div>
       </div>
       <div className="w-full bg-gray-200 rounded-full h-2">
@@ -33,6 +36,7 @@ export const Timer: React.FC<TimerProps> = ({ timeLeft, totalTime }) => {
           style={{ width: `${progress}%` }}
         />
       </div>
+      <TimeAnnouncer timeLeft={timeLeft} totalTime={totalTime} />
     </div>
   );
 };
\ No newline at end of file
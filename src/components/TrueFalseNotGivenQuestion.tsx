@@ -0,0 +1,53 @@
+import React from 'react';
+import { Question, TRUE_FALSE_NOT_GIVEN } from '../types/test';
+import { RichText } from './RichText';
+
+interface TrueFalseNotGivenQuestionProps {
+  question: Question;
+  selectedAnswer: string;
+  onAnswerChange: (questionId: number, answer: string) => void;
+  questionNumber: number;
+}
+
+export const TrueFalseNotGivenQuestion: React.FC<TrueFalseNotGivenQuestionProps> = ({
+  question,
+  selectedAnswer,
+  onAnswerChange,
+  questionNumber
+}) => {
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 shadow-sm">
+      <div className="mb-4">
+        <h3 className="text-lg font-medium text-gray-800">
+          <span className="text-blue-600 font-bold">{questionNumber}.</span> <RichText text={question.question} inline />
+        </h3>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        {TRUE_FALSE_NOT_GIVEN.map(value => {
+          const isSelected = selectedAnswer === value;
+          return (
+            <label
+              key={value}
+              className={`flex flex-1 items-center gap-3 p-3 rounded-lg border-2 cursor-pointer transition-all duration-200 ${
+                isSelected
+                  ? 'border-blue-500 bg-blue-50'
+                  : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              <input
+                type="radio"
+                name={`question-${question.id}`}
+                value={value}
+                checked={isSelected}
+                onChange={() => onAnswerChange(question.id, value)}
+                className="w-4 h-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+              />
+              <span className="text-gray-700">{value}</span>
+            </label>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
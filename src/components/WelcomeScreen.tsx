@@ -1,5 +1,7 @@
 import React, { useState } from 'react';
-import { BookOpen, Clock, Users, Shield, CheckCircle2, GraduationCap } from 'lucide-react';
+import { BookOpen, Clock, Users, Shield, CheckCircle2, GraduationCap, Languages } from 'lucide-react';
+import { useI18n } from '../i18n/useI18n';
+import { LOCALES, translateFormText } from '../i18n/locales';
 
 interface WelcomeScreenProps {
   onStart: () => void;
@@ -7,6 +9,9 @@ interface WelcomeScreenProps {
 
 export const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onStart }) => {
   const [agreed, setAgreed] = useState(false);
+  const { locale, messages, setLocale } = useI18n();
+  const { common, welcome } = messages;
+  const sectionTitle = (title: string) => translateFormText(messages, title);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-900 via-blue-800 to-indigo-900">
@@ -16,7 +21,7 @@ export const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onStart }) => {
           <div className="flex items-center gap-2">
             <img 
               src="https://copilot.microsoft.com/th/id/BCO.1671fab5-16d2-493f-999e-daadcc92b63b.png" 
-              alt="Sha Bridge College Logo" 
+              alt={common.logoAlt} 
               className="w-12 h-12"
               onError={(e) => {
                 e.currentTarget.style.display = 'none';
@@ -25,21 +30,42 @@ export const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onStart }) => {
             />
             <GraduationCap className="w-8 h-8 text-blue-900 hidden" />
             <div>
-              <h1 className="text-xl font-bold text-gray-800">Sha Bridge College</h1>
-              <p className="text-sm text-gray-600">English Language Assessment</p>
+              <h1 className="text-xl font-bold text-gray-800">{common.college}</h1>
+              <p className="text-sm text-gray-600">{common.assessment}</p>
             </div>
           </div>
         </div>
       </div>
 
+      <div className="max-w-5xl mx-auto px-6 pt-10">
+        <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100 flex flex-wrap items-center gap-4">
+          <Languages className="w-8 h-8 text-blue-900 flex-shrink-0" />
+          <div className="flex-1 min-w-[16rem]">
+            <label htmlFor="instruction-language" className="block text-lg font-bold text-gray-800">
+              {messages.language.label}
+            </label>
+            <p className="text-sm text-gray-600">{messages.language.hint}</p>
+          </div>
+          <select
+            id="instruction-language"
+            value={locale.code}
+            onChange={(e) => setLocale(e.target.value)}
+            className="px-4 py-3 border border-gray-300 rounded-lg text-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {LOCALES.map(option => (
+              <option key={option.code} value={option.code} lang={option.code} dir={option.dir}>
+                {option.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
       <div className="max-w-5xl mx-auto px-6 py-12">
         <div className="text-center mb-12">
           {/* Removed the center logo container */}
-          <h1 className="text-5xl font-bold text-white mb-6">Core Skills English Proficiency Test</h1>
-          <p className="text-xl text-blue-100 max-w-3xl mx-auto leading-relaxed">
-            A comprehensive assessment of your English language skills including grammar, vocabulary, 
-            listening, reading, and writing components designed to evaluate your academic readiness.
-          </p>
+          <h1 className="text-5xl font-bold text-white mb-6">{welcome.title}</h1>
+          <p className="text-xl text-blue-100 max-w-3xl mx-auto leading-relaxed">{welcome.intro}</p>
         </div>
 
         <div className="grid md:grid-cols-3 gap-8 mb-12">
@@ -47,70 +73,64 @@ export const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onStart }) => {
             <div className="w-16 h-16 bg-blue-100 rounded-xl flex items-center justify-center mb-6">
               <Clock className="w-8 h-8 text-blue-900" />
             </div>
-            <h3 className="text-xl font-bold text-gray-800 mb-3">60 Minutes Total</h3>
-            <p className="text-gray-600 leading-relaxed">
-              Three carefully timed sections with automatic progression and secure submission protocols
-            </p>
+            <h3 className="text-xl font-bold text-gray-800 mb-3">{welcome.totalTime(80)}</h3>
+            <p className="text-gray-600 leading-relaxed">{welcome.totalTimeBody}</p>
           </div>
 
           <div className="bg-white rounded-xl p-8 shadow-lg border border-gray-100">
             <div className="w-16 h-16 bg-green-100 rounded-xl flex items-center justify-center mb-6">
               <Users className="w-8 h-8 text-green-700" />
             </div>
-            <h3 className="text-xl font-bold text-gray-800 mb-3">3 Core Sections</h3>
-            <p className="text-gray-600 leading-relaxed">
-              Grammar & Vocabulary, Reading & Writing Assessment, Listening Comprehension
-            </p>
+            <h3 className="text-xl font-bold text-gray-800 mb-3">{welcome.sectionCount(4)}</h3>
+            <p className="text-gray-600 leading-relaxed">{welcome.sectionCountBody}</p>
           </div>
 
           <div className="bg-white rounded-xl p-8 shadow-lg border border-gray-100">
             <div className="w-16 h-16 bg-purple-100 rounded-xl flex items-center justify-center mb-6">
               <Shield className="w-8 h-8 text-purple-700" />
             </div>
-            <h3 className="text-xl font-bold text-gray-800 mb-3">Academic Integrity</h3>
-            <p className="text-gray-600 leading-relaxed">
-              Secure testing environment with comprehensive academic honesty protocols
-            </p>
+            <h3 className="text-xl font-bold text-gray-800 mb-3">{welcome.integrity}</h3>
+            <p className="text-gray-600 leading-relaxed">{welcome.integrityBody}</p>
           </div>
         </div>
 
         <div className="bg-white rounded-2xl shadow-xl border border-gray-200 p-10 mb-10">
-          <h2 className="text-3xl font-bold text-gray-800 mb-8 text-center">Test Structure & Requirements</h2>
+          <h2 className="text-3xl font-bold text-gray-800 mb-8 text-center">{welcome.structureTitle}</h2>
           
           <div className="space-y-8">
             <div className="flex items-start gap-6 p-6 bg-blue-50 rounded-xl border border-blue-200">
               <div className="w-12 h-12 bg-blue-900 text-white rounded-full flex items-center justify-center font-bold text-lg flex-shrink-0">1</div>
               <div className="flex-1">
-                <h3 className="text-xl font-bold text-gray-800 mb-2">Core Grammar & Vocabulary</h3>
-                <p className="text-blue-700 font-medium mb-3">20 minutes • 20 questions</p>
-                <p className="text-gray-700 leading-relaxed">
-                  Multiple choice assessment covering essential grammar structures and professional vocabulary. 
-                  Tests conditional forms, tenses, prepositions, and workplace terminology critical for academic and professional success.
-                </p>
+                <h3 className="text-xl font-bold text-gray-800 mb-2">{sectionTitle('Core Grammar & Vocabulary')}</h3>
+                <p className="text-blue-700 font-medium mb-3">{welcome.minutesQuestions(20, 20)}</p>
+                <p className="text-gray-700 leading-relaxed">{welcome.grammarBody}</p>
               </div>
             </div>
 
             <div className="flex items-start gap-6 p-6 bg-purple-50 rounded-xl border border-purple-200">
               <div className="w-12 h-12 bg-purple-700 text-white rounded-full flex items-center justify-center font-bold text-lg flex-shrink-0">2</div>
               <div className="flex-1">
-                <h3 className="text-xl font-bold text-gray-800 mb-2">Core Reading & Writing</h3>
-                <p className="text-purple-700 font-medium mb-3">35 minutes • 24 questions</p>
-                <p className="text-gray-700 leading-relaxed">
-                  Story continuation, sentence ordering, reading comprehension, and structured written responses 
-                  showcasing critical thinking and argumentation skills in academic and professional contexts.
-                </p>
+                <h3 className="text-xl font-bold text-gray-800 mb-2">{sectionTitle('Core Reading & Writing')}</h3>
+                <p className="text-purple-700 font-medium mb-3">{welcome.minutesQuestions(35, 27)}</p>
+                <p className="text-gray-700 leading-relaxed">{welcome.readingBody}</p>
               </div>
             </div>
 
             <div className="flex items-start gap-6 p-6 bg-green-50 rounded-xl border border-green-200">
               <div className="w-12 h-12 bg-green-700 text-white rounded-full flex items-center justify-center font-bold text-lg flex-shrink-0">3</div>
               <div className="flex-1">
-                <h3 className="text-xl font-bold text-gray-800 mb-2">Core Listening</h3>
-                <p className="text-green-700 font-medium mb-3">10 minutes • 12 questions</p>
-                <p className="text-gray-700 leading-relaxed">
-                  Listen to various audio recordings including library announcements, conversations, voicemails, and travel reports. 
-                  Demonstrate comprehension of key information, main ideas, and specific details in different contexts.
-                </p>
+                <h3 className="text-xl font-bold text-gray-800 mb-2">{sectionTitle('Core Listening')}</h3>
+                <p className="text-green-700 font-medium mb-3">{welcome.minutesQuestions(20, 14)}</p>
+                <p className="text-gray-700 leading-relaxed">{welcome.listeningBody}</p>
+              </div>
+            </div>
+
+            <div className="flex items-start gap-6 p-6 bg-orange-50 rounded-xl border border-orange-200">
+              <div className="w-12 h-12 bg-orange-600 text-white rounded-full flex items-center justify-center font-bold text-lg flex-shrink-0">4</div>
+              <div className="flex-1">
+                <h3 className="text-xl font-bold text-gray-800 mb-2">{sectionTitle('Core Speaking')}</h3>
+                <p className="text-orange-700 font-medium mb-3">{welcome.minutesTasks(6, 2)}</p>
+                <p className="text-gray-700 leading-relaxed">{welcome.speakingBody}</p>
               </div>
             </div>
           </div>
@@ -120,16 +140,13 @@ export const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onStart }) => {
           <div className="flex items-start gap-4">
             <Shield className="w-8 h-8 text-amber-700 mt-1 flex-shrink-0" />
             <div>
-              <h3 className="text-xl font-bold text-amber-800 mb-4">Sha Bridge College Academic Integrity Statement</h3>
+              <h3 className="text-xl font-bold text-amber-800 mb-4">{welcome.statementTitle}</h3>
               <div className="text-amber-800 space-y-3 leading-relaxed">
-                <p className="font-medium">By proceeding with this assessment, I hereby declare that:</p>
+                <p className="font-medium">{welcome.statementIntro}</p>
                 <ul className="list-disc list-inside space-y-2 ml-6 text-amber-700">
-                  <li>I will complete this test independently without assistance from others</li>
-                  <li>I will not use any unauthorized materials, including AI writing tools or translation software</li>
-                  <li>My responses will be my own original work and reflect my current English proficiency</li>
-                  <li>I understand that academic dishonesty may result in test invalidation and disciplinary action</li>
-                  <li>I will not share test content with others or discuss questions during or after the assessment</li>
-                  <li>I acknowledge that this test is being conducted under Sha Bridge College academic standards</li>
+                  {welcome.statementPoints.map(point => (
+                    <li key={point}>{point}</li>
+                  ))}
                 </ul>
               </div>
             </div>
@@ -146,7 +163,7 @@ export const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onStart }) => {
               className="w-6 h-6 text-blue-800 border-gray-300 rounded focus:ring-blue-500 focus:ring-2"
             />
             <label htmlFor="agree" className="text-white text-lg font-medium">
-              I have read and agree to the academic integrity statement and testing conditions
+              {welcome.agree}
             </label>
           </div>
 
@@ -162,16 +179,17 @@ export const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onStart }) => {
             {agreed ? (
               <span className="flex items-center gap-4">
                 <CheckCircle2 className="w-7 h-7" />
-                Begin English Proficiency Assessment
+                {welcome.begin}
               </span>
             ) : (
-              'Please accept the academic integrity terms to continue'
+              welcome.acceptFirst
             )}
           </button>
 
           <p className="text-blue-200 mt-6 text-sm">
-            Administered by Sha Bridge College • Academic Year 2025
+            {welcome.footer}
           </p>
+          <p className="text-blue-200 mt-2 text-sm">{welcome.keyboardHint}</p>
         </div>
       </div>
     </div>
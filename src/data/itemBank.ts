@@ -0,0 +1,234 @@
+import { BankItem, Question, TestForm } from '../types/test';
+import { testForm } from './testData';
+import { testFormB } from './testFormB';
+
+export const GRAMMAR_SUB_SKILLS = [
+  'conditionals',
+  'past-perfect',
+  'future-perfect',
+  'relative-clauses',
+  'gerunds-infinitives',
+  'subject-verb-agreement',
+  'passive',
+  'conjunctions',
+  'reported-speech',
+  'modal-verbs',
+  'comparatives'
+];
+
+export const VOCABULARY_SUB_SKILLS = ['synonyms', 'phrasal-verbs'];
+
+// Items written for the bank only; they have not appeared on a published form
+const newItems: BankItem[] = [
+  {
+    itemId: 'bank-g-001',
+    question: 'The report _________ before the deadline if the team works overtime.',
+    options: ['will finish', 'will be finished', 'finishes', 'is finishing'],
+    type: 'multiple-choice',
+    subSkill: 'passive',
+    difficulty: 0.7,
+    targetLevel: 'S3',
+    skill: 'GrammarVocabulary',
+    points: 1,
+    answerKey: { method: 'exact', value: 'B' }
+  },
+  {
+    itemId: 'bank-g-002',
+    question: 'If it _________ tomorrow, we will cancel the picnic.',
+    options: ['rains', 'will rain', 'rained', 'would rain'],
+    type: 'multiple-choice',
+    subSkill: 'conditionals',
+    difficulty: -1.0,
+    targetLevel: 'S2',
+    skill: 'GrammarVocabulary',
+    points: 1,
+    answerKey: { method: 'exact', value: 'A' }
+  },
+  {
+    itemId: 'bank-g-003',
+    question: 'The doctor _________ advice I followed was very experienced.',
+    options: ['who', 'whose', 'which', 'whom'],
+    type: 'multiple-choice',
+    subSkill: 'relative-clauses',
+    difficulty: 0.5,
+    targetLevel: 'S3',
+    skill: 'GrammarVocabulary',
+    points: 1,
+    answerKey: { method: 'exact', value: 'B' }
+  },
+  {
+    itemId: 'bank-g-004',
+    question: 'She told me that she _________ the film the week before.',
+    options: ['has seen', 'had seen', 'sees', 'will see'],
+    type: 'multiple-choice',
+    subSkill: 'reported-speech',
+    difficulty: 0.8,
+    targetLevel: 'S4',
+    skill: 'GrammarVocabulary',
+    points: 1,
+    answerKey: { method: 'exact', value: 'B' }
+  },
+  {
+    itemId: 'bank-g-005',
+    question: 'You _________ wear a helmet when riding a motorbike; it\'s the law.',
+    options: ['might', 'could', 'must', 'would'],
+    type: 'multiple-choice',
+    subSkill: 'modal-verbs',
+    difficulty: -0.7,
+    targetLevel: 'S2',
+    skill: 'GrammarVocabulary',
+    points: 1,
+    answerKey: { method: 'exact', value: 'C' }
+  },
+  {
+    itemId: 'bank-g-006',
+    question: 'This is _________ restaurant in town.',
+    options: ['the better', 'the best', 'best', 'more good'],
+    type: 'multiple-choice',
+    subSkill: 'comparatives',
+    difficulty: -1.2,
+    targetLevel: 'S1',
+    skill: 'GrammarVocabulary',
+    points: 1,
+    answerKey: { method: 'exact', value: 'B' }
+  },
+  {
+    itemId: 'bank-v-001',
+    question: 'The company will **recruit** ten new engineers this year.',
+    options: ['dismiss', 'hire', 'train', 'promote'],
+    type: 'multiple-choice',
+    subSkill: 'synonyms',
+    difficulty: -0.4,
+    targetLevel: 'S2',
+    skill: 'GrammarVocabulary',
+    points: 1,
+    answerKey: { method: 'exact', value: 'B' }
+  },
+  {
+    itemId: 'bank-v-002',
+    question: 'The evidence was **conclusive**, so the case was closed.',
+    options: ['weak', 'final and convincing', 'missing', 'surprising'],
+    type: 'multiple-choice',
+    subSkill: 'synonyms',
+    difficulty: 1.1,
+    targetLevel: 'S4',
+    skill: 'GrammarVocabulary',
+    points: 1,
+    answerKey: { method: 'exact', value: 'B' }
+  },
+  {
+    itemId: 'bank-v-003',
+    question: 'Please **notify** us if your address changes.',
+    options: ['inform', 'ask', 'visit', 'pay'],
+    type: 'multiple-choice',
+    subSkill: 'synonyms',
+    difficulty: -0.2,
+    targetLevel: 'S2',
+    skill: 'GrammarVocabulary',
+    points: 1,
+    answerKey: { method: 'exact', value: 'A' }
+  },
+  {
+    itemId: 'bank-v-004',
+    question: 'Her explanation was **lucid** and well organised.',
+    options: ['clear', 'long', 'boring', 'strange'],
+    type: 'multiple-choice',
+    subSkill: 'synonyms',
+    difficulty: 1.0,
+    targetLevel: 'S4',
+    skill: 'GrammarVocabulary',
+    points: 1,
+    answerKey: { method: 'exact', value: 'A' }
+  },
+  {
+    itemId: 'bank-v-005',
+    question: 'Demand for the product has **surged** this month.',
+    options: ['fallen slightly', 'stayed the same', 'risen sharply', 'disappeared'],
+    type: 'multiple-choice',
+    subSkill: 'synonyms',
+    difficulty: 0.4,
+    targetLevel: 'S3',
+    skill: 'GrammarVocabulary',
+    points: 1,
+    answerKey: { method: 'exact', value: 'C' }
+  },
+  {
+    itemId: 'bank-c-001',
+    question: 'Complete the text. Choose or type the missing word for each gap.',
+    type: 'gap-fill',
+    cloze: {
+      text: 'Last summer we [[1]] to Lisbon for a week. The city was much busier [[2]] we had expected, but we soon got used [[3]] the crowds.',
+      gaps: [{ options: ['go', 'went', 'have gone', 'were going'] }, {}, { options: ['to', 'with', 'at', 'for'] }]
+    },
+    subSkill: 'cloze',
+    difficulty: 0.2,
+    targetLevel: 'S3',
+    skill: 'GrammarVocabulary',
+    points: 1,
+    answerKey: { method: 'gaps', accept: [['went'], ['than'], ['to']] }
+  },
+  {
+    itemId: 'bank-m-001',
+    question: 'Match each paragraph to the best heading. There is one heading you do not need.',
+    type: 'matching',
+    matching: {
+      promptLabel: 'Paragraph',
+      prompts: [
+        'Many towns now run repair cafés, where volunteers fix broken toasters, bikes and clothes for free.',
+        'Supporters say the cafés keep useful items out of landfill and teach people practical skills.',
+        'Critics point out that some products are designed to be almost impossible to open or repair.'
+      ],
+      optionLabel: 'Heading',
+      options: ['Built not to be fixed', 'A growing community idea', 'The cost of new electronics', 'Benefits beyond the repair']
+    },
+    subSkill: 'matching-headings',
+    difficulty: 0.6,
+    targetLevel: 'S3',
+    skill: 'ReadingWriting',
+    points: 1,
+    answerKey: { method: 'matching', pairs: ['B', 'D', 'A'] }
+  },
+  {
+    itemId: 'bank-m-002',
+    question: 'Match each speaker to the opinion they express about working from home.',
+    type: 'matching',
+    matching: {
+      promptLabel: 'Speaker',
+      prompts: [
+        'Anna: "I get far more done without people stopping by my desk all day."',
+        'Ben: "Honestly, I miss chatting with colleagues over lunch."',
+        'Carla: "It really depends on the job - some tasks need a team in one room."'
+      ],
+      optionLabel: 'Opinion',
+      options: ['It is lonely', 'It is more productive', 'It suits some work better than others', 'It is too expensive']
+    },
+    subSkill: 'matching-opinions',
+    difficulty: -0.3,
+    targetLevel: 'S2',
+    skill: 'ReadingWriting',
+    points: 1,
+    answerKey: { method: 'matching', pairs: ['B', 'A', 'C'] }
+  }
+];
+
+// Tagged questions from the published forms join the bank under a form-scoped item id
+const fromForm = (form: TestForm): BankItem[] =>
+  form.sections.flatMap(section =>
+    section.questions.flatMap(question => {
+      const { subSkill, difficulty, targetLevel } = question;
+      if (subSkill === undefined || difficulty === undefined || targetLevel === undefined) return [];
+
+      const item: BankItem & Partial<Pick<Question, 'id' | 'section'>> = {
+        ...question,
+        itemId: `${form.id}/${question.id}`,
+        subSkill,
+        difficulty,
+        targetLevel
+      };
+      delete item.id;
+      delete item.section;
+      return [item];
+    })
+  );
+
+export const itemBank: BankItem[] = [...fromForm(testForm), ...fromForm(testFormB), ...newItems];
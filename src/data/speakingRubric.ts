@@ -0,0 +1,63 @@
+import { SpeakingRubric } from '../types/test';
+
+// Bands 1-5 line up with SEMF levels S1-S5
+export const semfSpeakingRubric: SpeakingRubric = {
+  id: 'semf-speaking-v1',
+  title: 'SEMF Speaking Rubric',
+  criteria: [
+    {
+      id: 'fluency',
+      label: 'Fluency & Coherence',
+      bands: [
+        'Long pauses; isolated words or memorised phrases.',
+        'Short, simple sentences with frequent hesitation; ideas loosely connected.',
+        'Keeps going with some hesitation; links ideas with common connectors.',
+        'Speaks at length with little effort; ideas are well organised.',
+        'Speaks fluently and naturally; develops ideas with precise structure.'
+      ]
+    },
+    {
+      id: 'range',
+      label: 'Range of Vocabulary & Grammar',
+      bands: [
+        'Very basic words and fixed expressions only.',
+        'Everyday vocabulary and simple structures.',
+        'Enough vocabulary for familiar topics; some complex structures attempted.',
+        'Wide vocabulary and a variety of complex structures.',
+        'Broad, flexible vocabulary and structures, used to express fine shades of meaning.'
+      ]
+    },
+    {
+      id: 'accuracy',
+      label: 'Accuracy',
+      bands: [
+        'Frequent errors make the message hard to follow.',
+        'Systematic basic errors, but the main point is clear.',
+        'Generally accurate in simple language; errors with complex forms.',
+        'Good control; occasional slips that do not affect meaning.',
+        'Consistently accurate, even in complex language.'
+      ]
+    },
+    {
+      id: 'pronunciation',
+      label: 'Pronunciation',
+      bands: [
+        'Often unintelligible.',
+        'Understandable with effort; strong first-language features.',
+        'Clearly intelligible; some mispronunciations.',
+        'Easy to understand; natural stress and intonation most of the time.',
+        'Effortless to understand; stress and intonation convey meaning precisely.'
+      ]
+    }
+  ]
+};
+
+export const speakingRubrics: SpeakingRubric[] = [semfSpeakingRubric];
+
+export const getSpeakingRubric = (rubricId: string): SpeakingRubric => {
+  const rubric = speakingRubrics.find(candidate => candidate.id === rubricId);
+  if (!rubric) {
+    throw new Error(`Unknown speaking rubric "${rubricId}"`);
+  }
+  return rubric;
+};
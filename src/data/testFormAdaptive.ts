@@ -0,0 +1,48 @@
+import { AdaptiveSettings, TestForm, TestSection } from '../types/test';
+import { loadTestForm } from '../utils/testFormSchema';
+import { toQuestion } from '../utils/formAssembler';
+import { testForm } from './testData';
+import { itemBank } from './itemBank';
+
+// The adaptive pilot sits Form A with a computer-adaptive grammar & vocabulary section: each
+// candidate is given the calibrated bank questions that tell most about them, and the section's
+// normalized score comes from the ability estimate rather than the share of points.
+
+// About 16 Rasch items bring the standard error down to 0.45 logits; abilities from -3 to 3 logits
+// span the 0-50 scale, so an average candidate lands at 25
+const ADAPTIVE: AdaptiveSettings = {
+  minItems: 10,
+  maxItems: 20,
+  targetStandardError: 0.45,
+  abilityRange: { min: -3, max: 3 }
+};
+
+// Bank questions are numbered after Form A's so ids stay unique across the form
+const FIRST_POOL_ID = 101;
+
+const adaptive = (sectionId: string): TestSection => {
+  const section = testForm.sections.find(candidate => candidate.id === sectionId);
+  if (!section) throw new Error(`Form A has no section "${sectionId}"`);
+  return {
+    ...section,
+    instructions:
+      'Answer each question. Each one is chosen from your answers so far, so you cannot go back to change an answer, and the section ends once your level is clear.',
+    navigation: 'forward-only',
+    adaptive: ADAPTIVE,
+    questions: itemBank
+      .filter(item => item.skill === 'GrammarVocabulary')
+      .map((item, index) => toQuestion(item, FIRST_POOL_ID + index, sectionId))
+  };
+};
+
+const formDefinition: TestForm = {
+  ...testForm,
+  id: 'semf-core-adaptive',
+  title: 'SEMF Core Skills - Adaptive Pilot',
+  version: '1.0.0',
+  sections: testForm.sections.map(section =>
+    section.id === 'grammar-vocabulary' ? adaptive('grammar-vocabulary') : section
+  )
+};
+
+export const testFormAdaptive = loadTestForm(formDefinition);
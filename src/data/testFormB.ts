@@ -0,0 +1,898 @@
+import { TestForm, TEST_FORM_SCHEMA_VERSION } from '../types/test';
+import { loadTestForm } from '../utils/testFormSchema';
+import { semfSpeakingRubric } from './speakingRubric';
+
+export const readingTextB = `Cities around the world are investing in cycling infrastructure. Dedicated bike lanes and bike-sharing schemes offer clear benefits: they reduce traffic congestion, lower air pollution, and encourage residents to lead healthier, more active lives. Nevertheless, the change is not without problems. Some shop owners worry that losing parking spaces will hurt their business, cyclists still face safety risks at busy junctions, and bad weather discourages many people from cycling all year round. City planners must therefore design transport networks that balance the needs of cyclists, drivers and pedestrians alike.`;
+
+// Parallel form to Form A: new grammar, vocabulary and reading content. The listening
+// section reuses the shared recordings with the questions and options re-ordered.
+const formDefinition: TestForm = {
+  schemaVersion: TEST_FORM_SCHEMA_VERSION,
+  id: 'semf-core-b',
+  title: 'SEMF Core Skills - Form B',
+  version: '1.0.0',
+  timeLimit: 80,
+  sections: [
+    {
+      id: 'grammar-vocabulary',
+      title: 'Core Grammar & Vocabulary',
+      timeLimit: 20,
+      instructions: 'Choose the best answer (A, B, C, or D) for each question.',
+      timing: { item: 20 },
+      navigation: 'locked-on-expiry',
+      questions: [
+        {
+          id: 1,
+          question: 'If she _________ earlier, she would have caught the train.',
+          options: ['left', 'had left', 'has left', 'would leave'],
+          type: 'multiple-choice',
+          section: 'grammar-vocabulary',
+          subSkill: 'conditionals',
+          difficulty: 0.8,
+          targetLevel: 'S4',
+          skill: 'GrammarVocabulary',
+          points: 1,
+          answerKey: { method: 'exact', value: 'B' }
+        },
+        {
+          id: 2,
+          question: 'The results _________ by the committee next week.',
+          options: ['announce', 'will be announced', 'announced', 'are announcing'],
+          type: 'multiple-choice',
+          section: 'grammar-vocabulary',
+          subSkill: 'passive',
+          difficulty: 0.2,
+          targetLevel: 'S3',
+          skill: 'GrammarVocabulary',
+          points: 1,
+          answerKey: { method: 'exact', value: 'B' }
+        },
+        {
+          id: 3,
+          question: 'This is the town _________ I grew up.',
+          options: ['which', 'who', 'where', 'whose'],
+          type: 'multiple-choice',
+          section: 'grammar-vocabulary',
+          subSkill: 'relative-clauses',
+          difficulty: -0.3,
+          targetLevel: 'S2',
+          skill: 'GrammarVocabulary',
+          points: 1,
+          answerKey: { method: 'exact', value: 'C' }
+        },
+        {
+          id: 4,
+          question: 'I\'m not used to _________ up so early.',
+          options: ['get', 'getting', 'got', 'be getting'],
+          type: 'multiple-choice',
+          section: 'grammar-vocabulary',
+          subSkill: 'gerunds-infinitives',
+          difficulty: 0.5,
+          targetLevel: 'S3',
+          skill: 'GrammarVocabulary',
+          points: 1,
+          answerKey: { method: 'exact', value: 'B' }
+        },
+        {
+          id: 5,
+          question: 'By next June, she _________ here for ten years.',
+          options: ['works', 'has worked', 'will have worked', 'is working'],
+          type: 'multiple-choice',
+          section: 'grammar-vocabulary',
+          subSkill: 'future-perfect',
+          difficulty: 1.0,
+          targetLevel: 'S4',
+          skill: 'GrammarVocabulary',
+          points: 1,
+          answerKey: { method: 'exact', value: 'C' }
+        },
+        {
+          id: 6,
+          question: 'Can you look _________ my cat while I am on holiday?',
+          options: ['for', 'after', 'up', 'into'],
+          type: 'multiple-choice',
+          section: 'grammar-vocabulary',
+          subSkill: 'phrasal-verbs',
+          difficulty: -0.5,
+          targetLevel: 'S2',
+          skill: 'GrammarVocabulary',
+          points: 1,
+          answerKey: { method: 'exact', value: 'B' }
+        },
+        {
+          id: 7,
+          question: 'Either my brother or my parents _________ going to pick you up.',
+          options: ['is', 'are', 'be', 'was'],
+          type: 'multiple-choice',
+          section: 'grammar-vocabulary',
+          subSkill: 'subject-verb-agreement',
+          difficulty: 0.9,
+          targetLevel: 'S4',
+          skill: 'GrammarVocabulary',
+          points: 1,
+          answerKey: { method: 'exact', value: 'B' }
+        },
+        {
+          id: 8,
+          question: 'The windows _________ every Friday by the cleaning staff.',
+          options: ['are cleaned', 'cleaned', 'are cleaning', 'clean'],
+          type: 'multiple-choice',
+          section: 'grammar-vocabulary',
+          subSkill: 'passive',
+          difficulty: -0.2,
+          targetLevel: 'S2',
+          skill: 'GrammarVocabulary',
+          points: 1,
+          answerKey: { method: 'exact', value: 'A' }
+        },
+        {
+          id: 9,
+          question: 'She kept working _________ she was feeling tired.',
+          options: ['because', 'although', 'unless', 'so'],
+          type: 'multiple-choice',
+          section: 'grammar-vocabulary',
+          subSkill: 'conjunctions',
+          difficulty: 0.1,
+          targetLevel: 'S3',
+          skill: 'GrammarVocabulary',
+          points: 1,
+          answerKey: { method: 'exact', value: 'B' }
+        },
+        {
+          id: 10,
+          question: 'He suggested _________ a taxi to the airport.',
+          options: ['to take', 'take', 'taking', 'took'],
+          type: 'multiple-choice',
+          section: 'grammar-vocabulary',
+          subSkill: 'gerunds-infinitives',
+          difficulty: 0.6,
+          targetLevel: 'S3',
+          skill: 'GrammarVocabulary',
+          points: 1,
+          answerKey: { method: 'exact', value: 'C' }
+        },
+        {
+          id: 11,
+          question: 'The company decided to **abandon** the project.',
+          options: ['start', 'give up', 'finish', 'support'],
+          type: 'multiple-choice',
+          section: 'grammar-vocabulary',
+          subSkill: 'synonyms',
+          difficulty: -0.2,
+          targetLevel: 'S2',
+          skill: 'GrammarVocabulary',
+          points: 1,
+          answerKey: { method: 'exact', value: 'B' }
+        },
+        {
+          id: 12,
+          question: 'The instructions were **concise** and easy to follow.',
+          options: ['long', 'brief and clear', 'confusing', 'old'],
+          type: 'multiple-choice',
+          section: 'grammar-vocabulary',
+          subSkill: 'synonyms',
+          difficulty: 0.3,
+          targetLevel: 'S3',
+          skill: 'GrammarVocabulary',
+          points: 1,
+          answerKey: { method: 'exact', value: 'B' }
+        },
+        {
+          id: 13,
+          question: 'She gave a **candid** answer about her mistakes.',
+          options: ['honest', 'rude', 'short', 'funny'],
+          type: 'multiple-choice',
+          section: 'grammar-vocabulary',
+          subSkill: 'synonyms',
+          difficulty: 0.9,
+          targetLevel: 'S4',
+          skill: 'GrammarVocabulary',
+          points: 1,
+          answerKey: { method: 'exact', value: 'A' }
+        },
+        {
+          id: 14,
+          question: 'Prices tend to **fluctuate** during the holiday season.',
+          options: ['fall', 'rise', 'change', 'stay'],
+          type: 'multiple-choice',
+          section: 'grammar-vocabulary',
+          subSkill: 'synonyms',
+          difficulty: 0.6,
+          targetLevel: 'S3',
+          skill: 'GrammarVocabulary',
+          points: 1,
+          answerKey: { method: 'exact', value: 'C' }
+        },
+        {
+          id: 15,
+          question: 'The new manager is very **approachable**.',
+          options: ['strict', 'easy to talk to', 'busy', 'experienced'],
+          type: 'multiple-choice',
+          section: 'grammar-vocabulary',
+          subSkill: 'synonyms',
+          difficulty: 0.1,
+          targetLevel: 'S3',
+          skill: 'GrammarVocabulary',
+          points: 1,
+          answerKey: { method: 'exact', value: 'B' }
+        },
+        {
+          id: 16,
+          question: 'We must **comply** with the safety regulations.',
+          options: ['argue', 'obey', 'change', 'ignore'],
+          type: 'multiple-choice',
+          section: 'grammar-vocabulary',
+          subSkill: 'synonyms',
+          difficulty: 0.4,
+          targetLevel: 'S3',
+          skill: 'GrammarVocabulary',
+          points: 1,
+          answerKey: { method: 'exact', value: 'B' }
+        },
+        {
+          id: 17,
+          question: 'Her contribution to the project was **invaluable**.',
+          options: ['worthless', 'extremely useful', 'expensive', 'small'],
+          type: 'multiple-choice',
+          section: 'grammar-vocabulary',
+          subSkill: 'synonyms',
+          difficulty: 1.1,
+          targetLevel: 'S4',
+          skill: 'GrammarVocabulary',
+          points: 1,
+          answerKey: { method: 'exact', value: 'B' }
+        },
+        {
+          id: 18,
+          question: 'The meeting was **adjourned** until Monday.',
+          options: ['cancelled', 'started', 'suspended', 'recorded'],
+          type: 'multiple-choice',
+          section: 'grammar-vocabulary',
+          subSkill: 'synonyms',
+          difficulty: 1.3,
+          targetLevel: 'S4',
+          skill: 'GrammarVocabulary',
+          points: 1,
+          answerKey: { method: 'exact', value: 'C' }
+        },
+        {
+          id: 19,
+          question: 'The lecture was so **tedious** that several students fell asleep.',
+          options: ['exciting', 'boring', 'short', 'difficult'],
+          type: 'multiple-choice',
+          section: 'grammar-vocabulary',
+          subSkill: 'synonyms',
+          difficulty: -0.8,
+          targetLevel: 'S2',
+          skill: 'GrammarVocabulary',
+          points: 1,
+          answerKey: { method: 'exact', value: 'B' }
+        },
+        {
+          id: 20,
+          question: 'The team made a **tentative** plan for the weekend.',
+          options: ['final', 'detailed', 'not yet certain', 'secret'],
+          type: 'multiple-choice',
+          section: 'grammar-vocabulary',
+          subSkill: 'synonyms',
+          difficulty: 1.0,
+          targetLevel: 'S4',
+          skill: 'GrammarVocabulary',
+          points: 1,
+          answerKey: { method: 'exact', value: 'C' }
+        }
+      ]
+    },
+    {
+      id: 'reading-writing',
+      title: 'Core Reading & Writing',
+      timeLimit: 35,
+      instructions: 'Read the text carefully and answer all questions. Write your answers in the spaces provided.',
+      navigation: 'locked-on-expiry',
+      passages: [
+        {
+          id: 'city-cycling',
+          title: 'Cycling in the City',
+          body: readingTextB,
+          timeLimit: 600
+        }
+      ],
+      questions: [
+        {
+          id: 21,
+          question: 'Tom had practised his speech for weeks. As he walked onto the stage and looked at the audience, his hands began to shake...',
+          options: ['He realised he had come to the wrong building.', 'He took a deep breath and started to speak slowly.', 'The audience left before he said a word.', 'He decided to sing a song instead.'],
+          type: 'multiple-choice',
+          section: 'reading-writing',
+          skill: 'ReadingWriting',
+          timeLimit: 45,
+          points: 1,
+          answerKey: { method: 'exact', value: 'B' }
+        },
+        {
+          id: 22,
+          question: 'The restaurant was fully booked, and the waiter told Priya there would be a forty-minute wait for a table...',
+          options: ['She put her name on the list and went for a short walk.', 'The waiter offered her the chef\'s job.', 'She was given a table immediately.', 'The restaurant closed down that evening.'],
+          type: 'multiple-choice',
+          section: 'reading-writing',
+          skill: 'ReadingWriting',
+          timeLimit: 45,
+          points: 1,
+          answerKey: { method: 'exact', value: 'A' }
+        },
+        {
+          id: 23,
+          question: 'Carlos had forgotten his umbrella at home. By the time he left the office, rain was pouring down...',
+          options: ['He enjoyed the sunshine on the way home.', 'He held his bag over his head and ran to the bus stop.', 'He decided to sleep at the office for a week.', 'The rain stopped the moment he looked at it.'],
+          type: 'multiple-choice',
+          section: 'reading-writing',
+          skill: 'ReadingWriting',
+          timeLimit: 45,
+          points: 1,
+          answerKey: { method: 'exact', value: 'B' }
+        },
+        {
+          id: 24,
+          question: 'The little boy had lost sight of his mother in the crowded shopping centre. He looked around, but all he could see were strangers...',
+          options: ['He went home by himself on the train.', 'He bought a new toy with his pocket money.', 'A security guard noticed him crying and came over to help.', 'He was happy to be alone at last.'],
+          type: 'multiple-choice',
+          section: 'reading-writing',
+          skill: 'ReadingWriting',
+          timeLimit: 45,
+          points: 1,
+          answerKey: { method: 'exact', value: 'C' }
+        },
+        {
+          id: 25,
+          question: 'Nadia had applied for dozens of jobs without success. One morning, an email arrived with the subject line "Interview Invitation"...',
+          options: ['She deleted it without opening it.', 'She read it twice, hardly believing her eyes, and started to prepare.', 'She had already decided to become a pilot.', 'The email was addressed to her neighbour\'s dog.'],
+          type: 'multiple-choice',
+          section: 'reading-writing',
+          skill: 'ReadingWriting',
+          timeLimit: 45,
+          points: 1,
+          answerKey: { method: 'exact', value: 'B' }
+        },
+        {
+          id: 26,
+          question: 'The power went out in the middle of the evening. The whole apartment was suddenly dark and silent...',
+          options: ['Jake felt his way to the kitchen drawer to find a torch.', 'The television continued playing his favourite show.', 'He decided to paint the living room.', 'The lights were brighter than ever.'],
+          type: 'multiple-choice',
+          section: 'reading-writing',
+          skill: 'ReadingWriting',
+          timeLimit: 45,
+          points: 1,
+          answerKey: { method: 'exact', value: 'A' }
+        },
+        {
+          id: 27,
+          question: 'Grandma\'s recipe book was falling apart. Many of the pages were stained, and some of the writing had faded...',
+          options: ['The family threw it away without a second thought.', 'Her granddaughter decided to copy the recipes into a new notebook.', 'The recipes were all for frozen pizza.', 'Grandma had never cooked in her life.'],
+          type: 'multiple-choice',
+          section: 'reading-writing',
+          skill: 'ReadingWriting',
+          timeLimit: 45,
+          points: 1,
+          answerKey: { method: 'exact', value: 'B' }
+        },
+        {
+          id: 28,
+          question: 'The train stopped suddenly between two stations. After ten minutes, a voice came over the speaker...',
+          options: ['"Welcome aboard the flight to Paris."', '"We apologise for the delay, which is due to a signal problem ahead."', '"Please enjoy the swimming pool in carriage four."', '"This train has now arrived at its final destination."'],
+          type: 'multiple-choice',
+          section: 'reading-writing',
+          skill: 'ReadingWriting',
+          timeLimit: 45,
+          points: 1,
+          answerKey: { method: 'exact', value: 'B' }
+        },
+        {
+          id: 29,
+          question: 'Ahmed had been training for the chess tournament for months. In the final game, his opponent made an unexpected move...',
+          options: ['Ahmed stared at the board, thinking carefully about his response.', 'Ahmed decided to play football instead.', 'The chess pieces suddenly disappeared.', 'His opponent was a famous singer.'],
+          type: 'multiple-choice',
+          section: 'reading-writing',
+          skill: 'ReadingWriting',
+          timeLimit: 45,
+          points: 1,
+          answerKey: { method: 'exact', value: 'A' }
+        },
+        {
+          id: 30,
+          question: 'The puppy had chewed through one of Lucy\'s new shoes while she was at work...',
+          options: ['She was delighted and bought the puppy a medal.', 'She sighed, picked up the pieces, and decided to buy the puppy some chew toys.', 'The shoe repaired itself overnight.', 'She moved to another country to get away from the puppy.'],
+          type: 'multiple-choice',
+          section: 'reading-writing',
+          skill: 'ReadingWriting',
+          timeLimit: 45,
+          points: 1,
+          answerKey: { method: 'exact', value: 'B' }
+        },
+        {
+          id: 31,
+          question: 'The museum guide warned the visitors not to touch the ancient vase. A moment later, a child reached out towards it...',
+          options: ['The vase turned into gold.', 'The guide quickly stepped forward and gently stopped the child.', 'The visitors started a football match in the gallery.', 'The museum had no vases at all.'],
+          type: 'multiple-choice',
+          section: 'reading-writing',
+          skill: 'ReadingWriting',
+          timeLimit: 45,
+          points: 1,
+          answerKey: { method: 'exact', value: 'B' }
+        },
+        {
+          id: 32,
+          question: 'Elena was halfway through her presentation when her laptop screen went completely black...',
+          options: ['The audience had already gone home.', 'Her laptop started to play music loudly.', 'She stayed calm and continued, explaining her points without the slides.', 'She had never given a presentation before in her life.'],
+          type: 'multiple-choice',
+          section: 'reading-writing',
+          skill: 'ReadingWriting',
+          timeLimit: 45,
+          points: 1,
+          answerKey: { method: 'exact', value: 'C' }
+        },
+        {
+          id: 33,
+          question: 'The hikers realised they had taken the wrong path. The sun was setting, and the trail ahead was getting narrower...',
+          options: ['They decided to build a house and stay there.', 'The path led directly to their front door.', 'They checked the map, turned around, and headed back the way they had come.', 'They were sure they were on the right path.'],
+          type: 'multiple-choice',
+          section: 'reading-writing',
+          skill: 'ReadingWriting',
+          timeLimit: 45,
+          points: 1,
+          answerKey: { method: 'exact', value: 'C' }
+        },
+        {
+          id: 34,
+          question: 'For the first time in years, the whole family had gathered for dinner. Everyone was talking and laughing when the doorbell rang...',
+          options: ['Nobody in the family had ever met each other.', 'It was the uncle they thought could not come, holding a large cake.', 'The house was empty and silent.', 'They all left to go to a different party.'],
+          type: 'multiple-choice',
+          section: 'reading-writing',
+          skill: 'ReadingWriting',
+          timeLimit: 45,
+          points: 1,
+          answerKey: { method: 'exact', value: 'B' }
+        },
+        {
+          id: 35,
+          question: 'Mia opened the letter from the university. Her hands trembled as she unfolded the single sheet of paper...',
+          options: ['She used it to make a paper aeroplane without reading it.', 'The letter was written in a language nobody could read.', 'She had never applied to any university.', 'A smile spread across her face as she read the word "Congratulations".'],
+          type: 'multiple-choice',
+          section: 'reading-writing',
+          skill: 'ReadingWriting',
+          timeLimit: 45,
+          points: 1,
+          answerKey: { method: 'exact', value: 'D' }
+        },
+        {
+          id: 36,
+          question: 'Put the sentences in the correct order to form a logical paragraph.',
+          ordering: {
+            topic: 'Moving to a New City',
+            firstSentence: 'When I moved to Manchester for work, I didn\'t know anyone there.',
+            sentences: [
+              { letter: 'A', text: 'Within a few months, the city felt like home.' },
+              { letter: 'B', text: 'At first, I spent most evenings alone in my small flat.' },
+              { letter: 'C', text: 'Then a colleague invited me to join her weekend running club.' },
+              { letter: 'D', text: 'Through the club, I slowly made a group of good friends.' }
+            ]
+          },
+          type: 'sentence-ordering',
+          section: 'reading-writing',
+          skill: 'ReadingWriting',
+          timeLimit: 75,
+          points: 1,
+          answerKey: { method: 'ordering', sequence: ['B', 'C', 'D', 'A'] }
+        },
+        {
+          id: 37,
+          question: 'Put the sentences in the correct order to form a logical paragraph.',
+          ordering: {
+            topic: 'Baking Bread',
+            firstSentence: 'Last weekend, I tried baking my own bread for the first time.',
+            sentences: [
+              { letter: 'A', text: 'Then I left the dough to rise in a warm place for an hour.' },
+              { letter: 'B', text: 'I started by mixing flour, yeast, salt and warm water in a large bowl.' },
+              { letter: 'C', text: 'Next, I kneaded the dough for about ten minutes until it was smooth.' },
+              { letter: 'D', text: 'Finally, I baked it in a hot oven until it turned golden brown.' }
+            ]
+          },
+          type: 'sentence-ordering',
+          section: 'reading-writing',
+          skill: 'ReadingWriting',
+          timeLimit: 75,
+          points: 1,
+          answerKey: { method: 'ordering', sequence: ['B', 'C', 'A', 'D'] }
+        },
+        {
+          id: 38,
+          question: 'Put the sentences in the correct order to form a logical paragraph.',
+          ordering: {
+            topic: 'A Job Interview',
+            firstSentence: 'Sam arrived at the office twenty minutes before his interview.',
+            sentences: [
+              { letter: 'A', text: 'When his name was called, he walked in and greeted the panel confidently.' },
+              { letter: 'B', text: 'While he waited, he read through his notes one last time.' },
+              { letter: 'C', text: 'A week later, he received a phone call offering him the position.' },
+              { letter: 'D', text: 'The interview lasted an hour, and he answered every question carefully.' }
+            ]
+          },
+          type: 'sentence-ordering',
+          section: 'reading-writing',
+          skill: 'ReadingWriting',
+          timeLimit: 75,
+          points: 1,
+          answerKey: { method: 'ordering', sequence: ['B', 'A', 'D', 'C'] }
+        },
+        {
+          id: 39,
+          question: 'Put the sentences in the correct order to form a logical paragraph.',
+          ordering: {
+            topic: 'A Community Garden',
+            firstSentence: 'There used to be an empty, rubbish-filled lot at the end of our street.',
+            sentences: [
+              { letter: 'A', text: 'Today, it is a colourful garden where neighbours grow vegetables together.' },
+              { letter: 'B', text: 'One spring, a few residents decided to clean it up.' },
+              { letter: 'C', text: 'They asked the council for permission and collected donations for seeds and tools.' },
+              { letter: 'D', text: 'Every weekend, more people came to help with digging and planting.' }
+            ]
+          },
+          type: 'sentence-ordering',
+          section: 'reading-writing',
+          skill: 'ReadingWriting',
+          timeLimit: 75,
+          points: 1,
+          answerKey: { method: 'ordering', sequence: ['B', 'C', 'D', 'A'] }
+        },
+        {
+          id: 40,
+          question: 'Put the sentences in the correct order to form a logical paragraph.',
+          ordering: {
+            topic: 'Learning to Swim',
+            firstSentence: 'My father never learned to swim as a child.',
+            sentences: [
+              { letter: 'A', text: 'At sixty, he finally signed up for lessons at the local pool.' },
+              { letter: 'B', text: 'The first few lessons were difficult, and he was nervous in the water.' },
+              { letter: 'C', text: 'Last summer, he swam across the lake near our house for the first time.' },
+              { letter: 'D', text: 'With patience and practice, he slowly became more confident.' }
+            ]
+          },
+          type: 'sentence-ordering',
+          section: 'reading-writing',
+          skill: 'ReadingWriting',
+          timeLimit: 75,
+          points: 1,
+          answerKey: { method: 'ordering', sequence: ['A', 'B', 'D', 'C'] }
+        },
+        {
+          id: 41,
+          question: 'List two benefits of cycling infrastructure mentioned in the text.',
+          type: 'multi-field',
+          fields: [{ label: 'Benefit 1' }, { label: 'Benefit 2' }],
+          section: 'reading-writing',
+          passageId: 'city-cycling',
+          skill: 'ReadingWriting',
+          points: 1,
+          answerKey: {
+            method: 'fields',
+            accept: [
+              ['congestion', 'traffic'],
+              ['pollution', 'air quality', 'cleaner air'],
+              ['health', 'active', 'exercise', 'fitness']
+            ],
+            distinct: true
+          }
+        },
+        {
+          id: 42,
+          question: 'List two problems mentioned in the text.',
+          type: 'multi-field',
+          fields: [{ label: 'Problem 1' }, { label: 'Problem 2' }],
+          section: 'reading-writing',
+          passageId: 'city-cycling',
+          skill: 'ReadingWriting',
+          points: 1,
+          answerKey: {
+            method: 'fields',
+            accept: [
+              ['parking', 'business', 'shop'],
+              ['safety', 'junction', 'danger', 'accident'],
+              ['weather', 'rain', 'winter', 'cold']
+            ],
+            distinct: true
+          }
+        },
+        {
+          id: 43,
+          question: 'What must city planners do according to the final sentence?',
+          type: 'text',
+          section: 'reading-writing',
+          passageId: 'city-cycling',
+          skill: 'ReadingWriting',
+          points: 1,
+          answerKey: {
+            method: 'keywords',
+            keywords: ['balance', 'needs', 'cyclists', 'drivers', 'pedestrians', 'design'],
+            minMatches: 2,
+            minLength: 20
+          }
+        },
+        {
+          id: 44,
+          question: 'Based on the text above, write a short paragraph (approx. 100-150 words) arguing for or against giving more city space to cyclists. Use your own ideas to support your argument.',
+          type: 'essay',
+          section: 'reading-writing',
+          passageId: 'city-cycling',
+          skill: 'ReadingWriting',
+          points: 1,
+          answerKey: {
+            method: 'essay',
+            minWords: 80,
+            maxWords: 200,
+            anyOf: ['advantage', 'disadvantage', 'benefit', 'problem', 'challenge']
+          }
+        },
+        // True/False/Not Given statements on the passage (57-59)
+        {
+          id: 57,
+          question: 'Bike-sharing schemes can help to improve air quality in cities.',
+          type: 'true-false-not-given',
+          section: 'reading-writing',
+          passageId: 'city-cycling',
+          skill: 'ReadingWriting',
+          points: 1,
+          answerKey: { method: 'exact', value: 'True' }
+        },
+        {
+          id: 58,
+          question: 'Every shop owner supports the new bike lanes.',
+          type: 'true-false-not-given',
+          section: 'reading-writing',
+          passageId: 'city-cycling',
+          skill: 'ReadingWriting',
+          points: 1,
+          answerKey: { method: 'exact', value: 'False' }
+        },
+        {
+          id: 59,
+          question: 'The number of cycling accidents has fallen in cities with bike lanes.',
+          type: 'true-false-not-given',
+          section: 'reading-writing',
+          passageId: 'city-cycling',
+          skill: 'ReadingWriting',
+          points: 1,
+          answerKey: { method: 'exact', value: 'Not Given' }
+        }
+      ]
+    },
+    {
+      id: 'listening',
+      title: 'Core Listening',
+      timeLimit: 20,
+      instructions: 'You will hear a short audio recording ONCE. Then, answer the questions.',
+      timing: { screen: 300 },
+      navigation: 'forward-only',
+      stimuli: [
+        {
+          id: 'library',
+          title: 'Library Announcement',
+          audioFile: '/audio/library-announcement.mp3',
+          description: 'You will hear a library announcement about a heating system issue.',
+          playPolicy: { maxPlays: 2, revealQuestionsAfterPlay: true },
+          questionIds: [45, 46, 47]
+        },
+        {
+          id: 'museum',
+          title: 'Museum Announcement',
+          audioFile: '/audio/museum-announcement.mp3',
+          description: 'You will hear a museum announcement about closing time.',
+          playPolicy: { maxPlays: 2, revealQuestionsAfterPlay: true },
+          questionIds: [48, 49, 50, 62]
+        },
+        {
+          id: 'voicemail',
+          title: 'Voicemail Message',
+          audioFile: '/audio/voicemail-message.mp3',
+          description: 'You will hear a voicemail message from a veterinary clinic.',
+          playPolicy: { maxPlays: 2, revealQuestionsAfterPlay: true },
+          questionIds: [51, 52, 53]
+        },
+        {
+          id: 'travel',
+          title: 'Travel Report',
+          audioFile: '/audio/travel-report.mp3',
+          description: 'You will hear a radio travel report about traffic conditions.',
+          playPolicy: { maxPlays: 2, revealQuestionsAfterPlay: true },
+          questionIds: [54, 55, 56, 63]
+        }
+      ],
+      questions: [
+        {
+          id: 45,
+          question: 'What are listeners encouraged to do?',
+          options: ['Move to a different floor of the library.', 'Help the maintenance staff fix the problem.', 'Complain at the front desk.', 'Go home and come back later.'],
+          type: 'multiple-choice',
+          section: 'listening',
+          skill: 'Listening',
+          points: 1,
+          answerKey: { method: 'exact', value: 'A' }
+        },
+        {
+          id: 46,
+          question: 'Where is the problem located?',
+          options: ['On the second floor.', 'In all study carrels.', 'On the ground floor.', 'On the first floor.'],
+          type: 'multiple-choice',
+          section: 'listening',
+          skill: 'Listening',
+          points: 1,
+          answerKey: { method: 'exact', value: 'A' }
+        },
+        {
+          id: 47,
+          question: 'What is the main purpose of this announcement?',
+          options: ['To advertise study carrels.', 'To announce the library\'s closing hours.', 'To inform people about a problem with the heating.', 'To introduce new library staff.'],
+          type: 'multiple-choice',
+          section: 'listening',
+          skill: 'Listening',
+          points: 1,
+          answerKey: { method: 'exact', value: 'C' }
+        },
+        {
+          id: 48,
+          question: 'What are visitors asked to do?',
+          options: ['Return any borrowed equipment.', 'Purchase tickets for their next visit.', 'Wait by the exhibition rooms.', 'Move to the second floor.'],
+          type: 'multiple-choice',
+          section: 'listening',
+          skill: 'Listening',
+          points: 1,
+          answerKey: { method: 'exact', value: 'A' }
+        },
+        {
+          id: 49,
+          question: 'According to the announcement, when is the museum open?',
+          options: ['From Tuesday to Sunday.', 'For thirty more minutes today.', 'Every day from ten to five.', 'On weekends only.'],
+          type: 'multiple-choice',
+          section: 'listening',
+          skill: 'Listening',
+          points: 1,
+          answerKey: { method: 'exact', value: 'A' }
+        },
+        {
+          id: 50,
+          question: 'What is the main purpose of this announcement?',
+          options: ['To announce a new exhibition.', 'To welcome new visitors to the museum.', 'To inform visitors that the museum is closing shortly.', 'To advertise the museum\'s opening hours.'],
+          type: 'multiple-choice',
+          section: 'listening',
+          skill: 'Listening',
+          points: 1,
+          answerKey: { method: 'exact', value: 'C' }
+        },
+        {
+          id: 51,
+          question: 'What is the reason for the call?',
+          options: ['To give test results.', 'To schedule vaccinations for a pet.', 'To inform about changed opening hours.', 'To cancel an appointment.'],
+          type: 'multiple-choice',
+          section: 'listening',
+          skill: 'Listening',
+          points: 1,
+          answerKey: { method: 'exact', value: 'A' }
+        },
+        {
+          id: 52,
+          question: 'What should Mrs. Davies do next?',
+          options: ['Wait for another call next week.', 'Bring Bailey in for surgery.', 'Visit the clinic immediately.', 'Call back to make an appointment.'],
+          type: 'multiple-choice',
+          section: 'listening',
+          skill: 'Listening',
+          points: 1,
+          answerKey: { method: 'exact', value: 'D' }
+        },
+        {
+          id: 53,
+          question: 'Who is leaving the message?',
+          options: ['A dog trainer.', 'Mrs. Davies.', 'A receptionist from a vet\'s office.', 'A doctor from a hospital.'],
+          type: 'multiple-choice',
+          section: 'listening',
+          skill: 'Listening',
+          points: 1,
+          answerKey: { method: 'exact', value: 'C' }
+        },
+        {
+          id: 54,
+          question: 'What is the cause of the problem?',
+          options: ['Bad weather.', 'An accident.', 'A public event.', 'Roadworks.'],
+          type: 'multiple-choice',
+          section: 'listening',
+          skill: 'Listening',
+          points: 1,
+          answerKey: { method: 'exact', value: 'B' }
+        },
+        {
+          id: 55,
+          question: 'What are drivers recommended to do?',
+          options: ['Use the train instead.', 'Drive towards the city centre.', 'Wait in their cars patiently.', 'Take a different road.'],
+          type: 'multiple-choice',
+          section: 'listening',
+          skill: 'Listening',
+          points: 1,
+          answerKey: { method: 'exact', value: 'D' }
+        },
+        {
+          id: 56,
+          question: 'What is the main problem reported?',
+          options: ['There are no alternative routes.', 'A train has been cancelled.', 'There is heavy traffic on a motorway.', 'All city centre roads are closed.'],
+          type: 'multiple-choice',
+          section: 'listening',
+          skill: 'Listening',
+          points: 1,
+          answerKey: { method: 'exact', value: 'C' }
+        },
+        // Note completion, answered from the recordings above with tolerant marking (62-63)
+        {
+          id: 62,
+          question: 'Complete the visitor notes.',
+          type: 'note-completion',
+          fields: [{ label: 'Open on these days' }, { label: 'Before leaving, return' }],
+          section: 'listening',
+          skill: 'Listening',
+          points: 1,
+          answerKey: {
+            method: 'tolerant',
+            accept: [
+              ['Tuesday to Sunday', 'Tuesday-Sunday', 'Tuesdays to Sundays', 'Tues to Sun'],
+              ['borrowed equipment', 'equipment', 'the equipment']
+            ]
+          }
+        },
+        {
+          id: 63,
+          question: 'Complete the travel notes.',
+          type: 'note-completion',
+          fields: [{ label: 'Cause of the delay' }, { label: 'Advice to drivers' }],
+          section: 'listening',
+          skill: 'Listening',
+          points: 1,
+          answerKey: {
+            method: 'tolerant',
+            accept: [
+              ['accident', 'an accident', 'a crash', 'crash', 'collision'],
+              ['take a different road', 'use a different road', 'take another road', 'use another route', 'take an alternative route', 'different route', 'alternative route', 'another route']
+            ]
+          }
+        }
+      ]
+    },
+    {
+      id: 'speaking',
+      title: 'Core Speaking',
+      timeLimit: 6,
+      instructions: 'Read each task and use the preparation time to plan your answer. Recording starts automatically when preparation time ends.',
+      navigation: 'forward-only',
+      questions: [
+        {
+          id: 60,
+          question: 'Describe a journey you remember well. Say where you went, how you travelled and what made it memorable.',
+          type: 'speaking',
+          speaking: { prepTime: 30, responseTime: 60 },
+          section: 'speaking',
+          targetLevel: 'S2',
+          skill: 'Speaking',
+          points: 5,
+          answerKey: { method: 'rubric', rubricId: semfSpeakingRubric.id }
+        },
+        {
+          id: 61,
+          question: 'Some people say that cities should ban cars from their centres. Do you agree? Give reasons and examples to support your opinion.',
+          type: 'speaking',
+          speaking: { prepTime: 60, responseTime: 120 },
+          section: 'speaking',
+          targetLevel: 'S4',
+          skill: 'Speaking',
+          points: 5,
+          answerKey: { method: 'rubric', rubricId: semfSpeakingRubric.id }
+        }
+      ]
+    }
+  ]
+};
+
+export const testFormB = loadTestForm(formDefinition);
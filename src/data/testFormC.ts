@@ -0,0 +1,48 @@
+import { FormBlueprint } from '../types/test';
+import { assembleForm } from '../utils/formAssembler';
+import { GRAMMAR_SUB_SKILLS, VOCABULARY_SUB_SKILLS, itemBank } from './itemBank';
+import { testForm } from './testData';
+
+// Form C draws its grammar & vocabulary section from the item bank. Reading & writing,
+// listening and speaking are shared with Form A until the bank covers those skills.
+export const formCBlueprint: FormBlueprint = {
+  id: 'semf-core-c',
+  title: 'SEMF Core Skills - Form C',
+  version: '1.0.0',
+  seed: 20251,
+  timeLimit: 80,
+  sections: [
+    {
+      kind: 'assembled',
+      id: 'grammar-vocabulary',
+      title: 'Core Grammar & Vocabulary',
+      timeLimit: 20,
+      instructions: 'Choose the best answer (A, B, C, or D) for each question.',
+      timing: { item: 20 },
+      navigation: 'locked-on-expiry',
+      skill: 'GrammarVocabulary',
+      rules: [
+        {
+          label: 'Grammar',
+          count: 10,
+          subSkills: GRAMMAR_SUB_SKILLS,
+          spreadBy: 'subSkill',
+          minDistinct: 6
+        },
+        {
+          label: 'Vocabulary',
+          count: 10,
+          subSkills: VOCABULARY_SUB_SKILLS,
+          targetLevels: ['S2', 'S3', 'S4'],
+          spreadBy: 'targetLevel',
+          minDistinct: 3
+        }
+      ]
+    },
+    { kind: 'fixed', section: testForm.sections[1] },
+    { kind: 'fixed', section: testForm.sections[2] },
+    { kind: 'fixed', section: testForm.sections[3] }
+  ]
+};
+
+export const testFormC = assembleForm(formCBlueprint, itemBank);
@@ -0,0 +1,57 @@
+import { SectionStages, StageModule, TestForm, TestSection } from '../types/test';
+import { loadTestForm } from '../utils/testFormSchema';
+import { testFormB } from './testFormB';
+
+// Form D sits Form B's content as a multistage test. Reading & writing and listening open with a
+// short routing module, and the share of it answered correctly decides whether the easier or the
+// harder module follows. Grammar & vocabulary and speaking are Form B's as they stand.
+
+// The easier path tops out at S3 and the harder one starts at S2, so the two overlap where the
+// routing decision is least certain
+const STAGES: SectionStages = {
+  threshold: 0.6,
+  scales: { easier: { min: 0, max: 33 }, harder: { min: 16, max: 50 } }
+};
+
+const staged = (sectionId: string, modules: Record<StageModule, number[]>): TestSection => {
+  const section = testFormB.sections.find(candidate => candidate.id === sectionId);
+  if (!section) throw new Error(`Form B has no section "${sectionId}"`);
+  const moduleOf = (questionId: number) =>
+    (Object.keys(modules) as StageModule[]).find(module => modules[module].includes(questionId));
+  return {
+    ...section,
+    stages: STAGES,
+    questions: section.questions.map(question => ({ ...question, module: moduleOf(question.id) }))
+  };
+};
+
+const formDefinition: TestForm = {
+  ...testFormB,
+  id: 'semf-core-d',
+  title: 'SEMF Core Skills - Form D (multistage)',
+  version: '1.0.0',
+  sections: testFormB.sections.map(section => {
+    switch (section.id) {
+      // Story continuation routes; the easier module stays at sentence level while the harder one
+      // moves on to the reading passage and the argument built on it
+      case 'reading-writing':
+        return staged('reading-writing', {
+          routing: [21, 22, 23, 24, 25, 26, 27],
+          easier: [28, 29, 30, 31, 32, 33, 34, 35, 36, 37, 38],
+          harder: [39, 40, 41, 42, 43, 44, 57, 58, 59]
+        });
+      // The library announcement routes; the voicemail has multiple-choice questions only, while the
+      // museum and travel recordings add note completion
+      case 'listening':
+        return staged('listening', {
+          routing: [45, 46, 47],
+          easier: [51, 52, 53],
+          harder: [48, 49, 50, 62, 54, 55, 56, 63]
+        });
+      default:
+        return section;
+    }
+  })
+};
+
+export const testFormD = loadTestForm(formDefinition);
@@ -0,0 +1,23 @@
+import { TestForm } from '../types/test';
+import { testForm } from './testData';
+import { testFormB } from './testFormB';
+import { testFormC } from './testFormC';
+import { testFormD } from './testFormD';
+import { testFormAdaptive } from './testFormAdaptive';
+
+// Every parallel form that can be assigned to a candidate
+export const testForms: TestForm[] = [testForm, testFormB, testFormC];
+
+// Forms on trial: scored, resumed and exported like the others, but only sat when an administrator assigns one
+export const pilotForms: TestForm[] = [testFormD, testFormAdaptive];
+
+// Every form a candidate may be sitting or have sat
+export const registeredForms: TestForm[] = [...testForms, ...pilotForms];
+
+export const getTestForm = (formId: string): TestForm => {
+  const form = registeredForms.find(f => f.id === formId);
+  if (!form) {
+    throw new Error(`Unknown test form "${formId}"`);
+  }
+  return form;
+};
@@ -0,0 +1,33 @@
+import { useEffect, useState } from 'react';
+import { Clock, systemClock } from '../utils/countdown';
+
+/**
+ * The current clock reading, refreshed every second while active, as soon as the page is shown
+ * again and exactly at the next deadline. Browsers throttle timers in background tabs, so the
+ * ticks only drive the display; the time left is always worked out from the clock itself.
+ */
+export const useClock = (active: boolean, deadline?: number, clock: Clock = systemClock): number => {
+  const [now, setNow] = useState(clock);
+
+  useEffect(() => {
+    if (!active) return;
+    const tick = () => setNow(clock());
+    tick();
+    const interval = setInterval(tick, 1000);
+    document.addEventListener('visibilitychange', tick);
+    window.addEventListener('focus', tick);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', tick);
+      window.removeEventListener('focus', tick);
+    };
+  }, [active, clock]);
+
+  useEffect(() => {
+    if (!active || deadline === undefined) return;
+    const timeout = setTimeout(() => setNow(clock()), Math.max(0, deadline - clock()));
+    return () => clearTimeout(timeout);
+  }, [active, deadline, clock]);
+
+  return now;
+};
@@ -0,0 +1,28 @@
+import { useEffect, useRef } from 'react';
+
+// Announced on the Next and Previous buttons through aria-keyshortcuts
+export const NEXT_SHORTCUT = 'Alt+N';
+export const PREVIOUS_SHORTCUT = 'Alt+P';
+
+/**
+ * Moves between screens from the keyboard with Alt+N and Alt+P, wherever focus is. The
+ * physical key is read rather than the character, since Alt changes the character on macOS.
+ * Leave a handler out when that move is not allowed.
+ */
+export const useNavigationKeys = (onNext?: () => void, onPrevious?: () => void) => {
+  const handlersRef = useRef({ onNext, onPrevious });
+  handlersRef.current = { onNext, onPrevious };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!event.altKey || event.ctrlKey || event.metaKey || event.repeat) return;
+      const { onNext: next, onPrevious: previous } = handlersRef.current;
+      const handler = event.code === 'KeyN' ? next : event.code === 'KeyP' ? previous : undefined;
+      if (!handler) return;
+      event.preventDefault();
+      handler();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+};
@@ -1,62 +0,0 @@
-import { useState, useEffect, useRef } from 'react';
-
-export const useQuestionTimer = (timeLimit: number, onTimeUp?: () => void) => {
-  const [timeLeft, setTimeLeft] = useState(timeLimit);
-  const [isActive, setIsActive] = useState(false);
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
-  const onTimeUpRef = useRef(onTimeUp);
-
-  // Update the ref when onTimeUp changes
-  useEffect(() => {
-    onTimeUpRef.current = onTimeUp;
-  }, [onTimeUp]);
-
-  const start = () => {
-    setIsActive(true);
-  };
-
-  const pause = () => {
-    setIsActive(false);
-  };
-
-  const reset = (newTimeLimit?: number) => {
-    setIsActive(false);
-    setTimeLeft(newTimeLimit || timeLimit);
-  };
-
-  useEffect(() => {
-    if (isActive && timeLeft > 0) {
-      intervalRef.current = setInterval(() => {
-        setTimeLeft((time) => {
-          if (time <= 1) {
-            setIsActive(false);
-            // Use setTimeout to avoid race conditions
-            setTimeout(() => {
-              onTimeUpRef.current?.();
-            }, 0);
-            return 0;
-          }
-          return time - 1;
-        });
-      }, 1000);
-    } else {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
-    }
-
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
-    };
-  }, [isActive, timeLeft]);
-
-  return {
-    timeLeft,
-    isActive,
-    start,
-    pause,
-    reset
-  };
-};
\ No newline at end of file
@@ -0,0 +1,180 @@
+import { useEffect, useRef } from 'react';
+import { TestForm } from '../types/test';
+import {
+  FlowEvent,
+  FlowScreen,
+  FlowState,
+  getNavigationPolicy,
+  getScreenTimeLimit,
+  getSectionTimeUsed,
+  getTestTimeUsed
+} from '../utils/testFlow';
+import { getSectionTimeLimit } from '../utils/timing';
+import {
+  Clock,
+  CountdownEvent,
+  CountdownState,
+  extendCountdown,
+  getCountdownEvents,
+  getDeadline,
+  getTimeLeft,
+  hasExpired,
+  pauseCountdown,
+  startCountdown,
+  systemClock
+} from '../utils/countdown';
+import { useClock } from './useClock';
+
+// Seconds allowed and seconds still left
+export interface Countdown {
+  limit: number;
+  left: number;
+}
+
+export interface TestTiming {
+  test?: Countdown;
+  section?: Countdown;
+  screen?: Countdown;
+}
+
+export type TimingLevel = keyof TestTiming;
+
+// A countdown pausing (the test's during a break), resuming, being extended or running out
+export interface TimingEvent {
+  type: CountdownEvent;
+  level: TimingLevel;
+  left: number; // seconds
+}
+
+const TIMING_LEVELS: TimingLevel[] = ['test', 'section', 'screen'];
+
+type ExpiryEvent = Extract<FlowEvent, { type: 'next' | 'sectionEnd' | 'end' }>;
+
+interface TestTimingOptions {
+  form: TestForm | null;
+  flow: FlowScreen[];
+  flowState: FlowState;
+  timeUsed: Record<number, number>; // seconds spent on each screen before the current visit, by flow position
+  screenEnteredAt: number; // clock reading when the current visit began
+  active: boolean;
+  onExpire: (event: ExpiryEvent) => void;
+  extensions?: Partial<Record<TimingLevel, number>>; // seconds added to each level's limit during the sitting
+  onTimingEvent?: (event: TimingEvent) => void;
+  clock?: Clock;
+}
+
+// One level's countdown, running since the current screen was shown unless that screen does not count towards it
+const countdownFrom = (
+  limit: number | undefined,
+  spentSeconds: number,
+  enteredAt: number,
+  running: boolean,
+  extension = 0
+): CountdownState | undefined => {
+  if (limit === undefined) return undefined;
+  const state = extendCountdown(startCountdown(limit, enteredAt, spentSeconds), extension);
+  return running ? state : pauseCountdown(state, enteredAt);
+};
+
+/**
+ * The one clock for a sitting. Works out what is left of the current screen's, section's and
+ * whole test's time from the seconds already spent, and raises the flow event for whichever
+ * runs out first, and reports every pause, resume, extension and expiry to onTimingEvent.
+ * Once the candidate has reached the review screen, a free section stays open
+ * past its own limit; a section that locks on expiry never does.
+ */
+export const useTestTiming = ({
+  form,
+  flow,
+  flowState,
+  timeUsed,
+  screenEnteredAt,
+  active,
+  onExpire,
+  extensions = {},
+  onTimingEvent,
+  clock = systemClock
+}: TestTimingOptions): TestTiming => {
+  const onExpireRef = useRef(onExpire);
+  const onTimingEventRef = useRef(onTimingEvent);
+  const previousRef = useRef<{
+    countdowns: Partial<Record<TimingLevel, CountdownState>>;
+    owners: Record<TimingLevel, number | undefined>;
+    now: number;
+  } | null>(null);
+
+  useEffect(() => {
+    onExpireRef.current = onExpire;
+    onTimingEventRef.current = onTimingEvent;
+  }, [onExpire, onTimingEvent]);
+
+  const { position, reviewing } = flowState;
+  const screen = flow[position];
+  const inSection = !!screen && screen.kind !== 'break' && screen.kind !== 'review';
+  const section = form && screen ? form.sections[screen.sectionIndex] : undefined;
+
+  // The whole test's clock stops for breaks; a section's only runs on its own screens
+  const countdowns = {
+    test: countdownFrom(
+      form?.timeLimit ? form.timeLimit * 60 : undefined,
+      getTestTimeUsed(flow, timeUsed),
+      screenEnteredAt,
+      screen?.kind !== 'break',
+      extensions.test
+    ),
+    section:
+      section && inSection && (!reviewing || getNavigationPolicy(section) === 'locked-on-expiry')
+        ? countdownFrom(
+            getSectionTimeLimit(section),
+            getSectionTimeUsed(flow, screen.sectionIndex, timeUsed),
+            screenEnteredAt,
+            true,
+            extensions.section
+          )
+        : undefined,
+    screen: screen
+      ? countdownFrom(getScreenTimeLimit(screen), timeUsed[position] ?? 0, screenEnteredAt, true, extensions.screen)
+      : undefined
+  };
+
+  const deadlines = Object.values(countdowns)
+    .map(state => state && getDeadline(state))
+    .filter((deadline): deadline is number => deadline !== undefined);
+  const now = useClock(active, deadlines.length > 0 ? Math.min(...deadlines) : undefined, clock);
+
+  const view = (state?: CountdownState): Countdown | undefined =>
+    state && { limit: state.limit, left: getTimeLeft(state, now) };
+  const timing: TestTiming = { test: view(countdowns.test), section: view(countdowns.section), screen: view(countdowns.screen) };
+
+  const runOut = (state?: CountdownState) => !!state && hasExpired(state, now);
+  const expired: ExpiryEvent['type'] | undefined = runOut(countdowns.test)
+    ? 'end'
+    : runOut(countdowns.section)
+      ? 'sectionEnd'
+      : runOut(countdowns.screen)
+        ? 'next'
+        : undefined;
+
+  useEffect(() => {
+    if (active && expired) onExpireRef.current({ type: expired });
+  }, [active, expired, position]);
+
+  // Compared with the countdowns as they stood at the last render, so each change is reported once.
+  // A section's or screen's countdown is only compared with its own, never the one it took over from.
+  const owners = { test: 0, section: screen?.sectionIndex, screen: position };
+  useEffect(() => {
+    const previous = previousRef.current;
+    previousRef.current = { countdowns, owners, now };
+    if (!active) return;
+    TIMING_LEVELS.forEach(level => {
+      const state = countdowns[level];
+      if (!state) return;
+      const before = previous?.owners[level] === owners[level] ? previous.countdowns[level] : undefined;
+      getCountdownEvents(before, previous?.now ?? now, state, now).forEach(type =>
+        onTimingEventRef.current?.({ type, level, left: getTimeLeft(state, now) })
+      );
+    });
+  });
+
+  return timing;
+};
@@ -1,53 +0,0 @@
-import { useState, useEffect, useRef } from 'react';
-
-export const useTimer = (initialTime: number, onTimeUp?: () => void) => {
-  const [timeLeft, setTimeLeft] = useState(initialTime);
-  const [isActive, setIsActive] = useState(false);
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
-
-  const start = () => {
-    setIsActive(true);
-  };
-
-  const pause = () => {
-    setIsActive(false);
-  };
-
-  const reset = () => {
-    setIsActive(false);
-    setTimeLeft(initialTime);
-  };
-
-  useEffect(() => {
-    if (isActive && timeLeft > 0) {
-      intervalRef.current = setInterval(() => {
-        setTimeLeft((time) => {
-          if (time <= 1) {
-            setIsActive(false);
-            onTimeUp?.();
-            return 0;
-          }
-          return time - 1;
-        });
-      }, 1000);
-    } else {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
-    }
-
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
-    };
-  }, [isActive, timeLeft]);
-
-  return {
-    timeLeft,
-    isActive,
-    start,
-    pause,
-    reset
-  };
-};
\ No newline at end of file
@@ -0,0 +1,31 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { getLocale, loadLocale, saveLocale } from './locales';
+import { I18nContext } from './useI18n';
+
+/**
+ * Supplies the candidate's instruction language to the test UI and keeps the page's lang and dir in
+ * step with it. Test content is marked up as English wherever it is shown.
+ */
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState(loadLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale.code;
+    document.documentElement.dir = locale.dir;
+  }, [locale]);
+
+  const value = useMemo(
+    () => ({
+      locale,
+      messages: locale.messages,
+      setLocale: (code: string) => {
+        const next = getLocale(code);
+        saveLocale(next);
+        setLocaleState(next);
+      }
+    }),
+    [locale]
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
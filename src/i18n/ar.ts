@@ -0,0 +1,300 @@
+import { Messages } from './en';
+
+export const ar: Messages = {
+  language: {
+    label: 'لغة التعليمات',
+    hint: 'تظهر التعليمات والأزرار بهذه اللغة. أسئلة الاختبار باللغة الإنجليزية دائمًا.'
+  },
+
+  common: {
+    college: 'كلية شا بريدج',
+    logoAlt: 'شعار كلية شا بريدج',
+    assessment: 'تقييم اللغة الإنجليزية',
+    proficiencyAssessment: 'تقييم الكفاءة في اللغة الإنجليزية',
+    next: 'التالي',
+    previous: 'السابق',
+    reviewAnswers: 'مراجعة الإجابات',
+    minutesSeconds: (minutes, seconds) => `${minutes} د ${seconds} ث`
+  },
+
+  welcome: {
+    title: 'اختبار المهارات الأساسية في اللغة الإنجليزية',
+    intro:
+      'تقييم شامل لمهاراتك في اللغة الإنجليزية يشمل القواعد والمفردات والاستماع والقراءة والكتابة والمحادثة، صُمّم لقياس جاهزيتك الأكاديمية.',
+    totalTime: minutes => `${minutes} دقيقة إجمالًا`,
+    totalTimeBody: 'أربعة أقسام محددة الوقت بدقة مع انتقال تلقائي وتسليم آمن للإجابات',
+    sectionCount: count => `${count} أقسام أساسية`,
+    sectionCountBody: 'القواعد والمفردات، القراءة والكتابة، الاستماع، المحادثة',
+    integrity: 'النزاهة الأكاديمية',
+    integrityBody: 'بيئة اختبار آمنة وفق قواعد شاملة للأمانة الأكاديمية',
+    structureTitle: 'هيكل الاختبار ومتطلباته',
+    minutesQuestions: (minutes, questions) => `${minutes} دقيقة • ${questions} سؤالًا`,
+    minutesTasks: (minutes, tasks) => `${minutes} دقيقة • ${tasks} مهام`,
+    grammarBody:
+      'أسئلة اختيار من متعدد تغطي التراكيب النحوية الأساسية والمفردات المهنية، مثل الجمل الشرطية والأزمنة وحروف الجر ومصطلحات بيئة العمل اللازمة للنجاح الأكاديمي والمهني.',
+    readingBody:
+      'إكمال القصص وترتيب الجمل وفهم المقروء وكتابة إجابات منظمة تُظهر التفكير النقدي ومهارات الحِجاج في السياقات الأكاديمية والمهنية.',
+    listeningBody:
+      'استمع إلى تسجيلات متنوعة مثل إعلانات المكتبة والمحادثات والرسائل الصوتية وتقارير السفر، وأظهر فهمك للمعلومات الأساسية والأفكار الرئيسية والتفاصيل المحددة في سياقات مختلفة.',
+    speakingBody:
+      'اقرأ المطلوب، واستخدم وقت التحضير للتخطيط، ثم سجّل إجابتك الشفهية باستخدام الميكروفون. يقيّم مقيّمون مدرَّبون الإجابات وفق معايير المحادثة في إطار SEMF.',
+    statementTitle: 'إقرار النزاهة الأكاديمية لكلية شا بريدج',
+    statementIntro: 'بمتابعة هذا التقييم، أُقرّ بما يلي:',
+    statementPoints: [
+      'سأُكمل هذا الاختبار بمفردي دون مساعدة من الآخرين',
+      'لن أستخدم أي مواد غير مصرّح بها، بما في ذلك أدوات الكتابة بالذكاء الاصطناعي أو برامج الترجمة',
+      'ستكون إجاباتي من عملي الأصلي وتعكس مستواي الحالي في اللغة الإنجليزية',
+      'أفهم أن الإخلال بالأمانة الأكاديمية قد يؤدي إلى إلغاء الاختبار واتخاذ إجراءات تأديبية',
+      'لن أشارك محتوى الاختبار مع الآخرين ولن أناقش الأسئلة أثناء التقييم أو بعده',
+      'أُقرّ بأن هذا الاختبار يُجرى وفق المعايير الأكاديمية لكلية شا بريدج'
+    ],
+    agree: 'قرأتُ إقرار النزاهة الأكاديمية وشروط الاختبار وأوافق عليها',
+    begin: 'ابدأ تقييم الكفاءة في اللغة الإنجليزية',
+    acceptFirst: 'يُرجى قبول شروط النزاهة الأكاديمية للمتابعة',
+    footer: 'تديره كلية شا بريدج • العام الأكاديمي 2025',
+    keyboardHint: 'لوحة المفاتيح: Alt+N للانتقال إلى الشاشة التالية، وAlt+P للعودة إلى السابقة، ومفاتيح الحروف لاختيار إجابات الاختيار من متعدد.'
+  },
+
+  studentInfo: {
+    title: 'بيانات الطالب',
+    subtitle: 'يُرجى إدخال بياناتك قبل بدء التقييم',
+    personal: 'البيانات الشخصية',
+    firstName: 'الاسم الأول *',
+    lastName: 'اسم العائلة *',
+    dateOfBirth: 'تاريخ الميلاد *',
+    email: 'البريد الإلكتروني *',
+    phone: 'رقم الهاتف *',
+    firstNamePlaceholder: 'أدخل اسمك الأول',
+    lastNamePlaceholder: 'أدخل اسم العائلة',
+    emailPlaceholder: 'أدخل بريدك الإلكتروني',
+    phonePlaceholder: 'أدخل رقم هاتفك',
+    firstNameRequired: 'الاسم الأول مطلوب',
+    lastNameRequired: 'اسم العائلة مطلوب',
+    emailRequired: 'البريد الإلكتروني مطلوب',
+    emailInvalid: 'يُرجى إدخال بريد إلكتروني صحيح',
+    phoneRequired: 'رقم الهاتف مطلوب',
+    phoneInvalid: 'يُرجى إدخال رقم هاتف صحيح',
+    levelRequired: 'يُرجى اختيار مستواك الحالي',
+    dateOfBirthRequired: 'تاريخ الميلاد مطلوب',
+    assessmentInfo: 'بيانات التقييم',
+    selfLevel: 'مستواك في اللغة الإنجليزية حسب تقديرك *',
+    selectLevel: 'اختر مستواك',
+    levels: {
+      beginner: 'مبتدئ (S1)',
+      elementary: 'أساسي (S2)',
+      intermediate: 'متوسط (S3)',
+      'upper-intermediate': 'فوق المتوسط (S4)',
+      advanced: 'متقدم (S5)',
+      unsure: 'لست متأكدًا'
+    },
+    noticeTitle: 'تنبيه مهم',
+    notices: [
+      'ستُعامل جميع البيانات المقدَّمة بسرية تامة',
+      'ستُستخدم بياناتك لإدارة الاختبار ومعالجة النتائج فقط',
+      'تأكد من صحة جميع البيانات لأنها ستظهر في شهادتك',
+      'لا يمكنك تعديل هذه البيانات بعد بدء الاختبار'
+    ],
+    submit: 'المتابعة إلى التقييم',
+    footer: 'مركز تقييم اللغات في كلية شا بريدج • بيئة اختبار سرية'
+  },
+
+  test: {
+    sectionOf: (section, total) => `القسم ${section} من ${total}`,
+    progress: 'التقدم',
+    questionOf: (question, total) => `السؤال ${question} من ${total}`,
+    timeRemaining: 'الوقت المتبقي',
+    timeWarning: (seconds, label) =>
+      `${label ? `${label}: ` : ''}${
+        seconds === 60 ? 'تبقّت دقيقة واحدة' : seconds > 60 ? `تبقّى ${seconds / 60} دقائق` : `تبقّى ${seconds} ثوانٍ`
+      }`,
+    sectionTime: 'وقت القسم',
+    testTime: 'وقت الاختبار',
+    passageOf: (passage, total, title) => `نص القراءة ${passage} من ${total}: ${title}`,
+    wordCount: words => `${words} كلمة`,
+    source: source => `المصدر: ${source}`,
+    comprehensionQuestions: 'أسئلة فهم المقروء',
+    writingResponse: 'الإجابة الكتابية',
+    recordingOf: (recording, total, title) => `التسجيل ${recording} من ${total}: ${title}`
+  },
+
+  flow: {
+    startSection: 'ابدأ القسم',
+    breakTitle: 'استراحة',
+    breakBody: time => `خذ قسطًا قصيرًا من الراحة. سيستأنف الاختبار تلقائيًا بعد ${time}.`,
+    upNext: section => `التالي: ${section}`,
+    continueNow: 'المتابعة الآن'
+  },
+
+  review: {
+    title: 'راجع إجاباتك',
+    intro: 'راجع كل قسم قبل التسليم. اختر سؤالًا للعودة إليه. لا يمكن تغيير الأسئلة المقفلة، إما لانتهاء وقتها أو لأن قسمها لا يسمح بالرجوع.',
+    answered: 'تمت الإجابة',
+    unanswered: 'بلا إجابة',
+    flagged: 'معلّم',
+    flagForReview: 'علّم للمراجعة',
+    locked: 'لم يعد بالإمكان تغيير هذا السؤال',
+    sectionSummary: (answered, total, flagged) => `تمت الإجابة عن ${answered} من ${total} • ${flagged} معلّمة`,
+    goToQuestion: question => `السؤال ${question}`,
+    submit: 'تسليم الاختبار',
+    unansweredWarning: count => `لديك ${count} من الأسئلة بلا إجابة. بعد التسليم لا يمكنك تغيير إجاباتك.`,
+    submitAnyway: 'التسليم على أي حال',
+    keepReviewing: 'متابعة المراجعة'
+  },
+
+  listening: {
+    playLimit: maxPlays =>
+      `يمكنك تشغيل التسجيل ${maxPlays === 1 ? 'مرة واحدة' : `حتى ${maxPlays} مرات`}. لا يمكن إيقاف التسجيل مؤقتًا بعد بدئه.`,
+    playing: 'جارٍ التشغيل...',
+    noPlaysLeft: 'لم يتبقَّ أي تشغيل',
+    play: remaining => `تشغيل التسجيل (المتبقي: ${remaining})`,
+    reset: 'إعادة',
+    resetLabel: 'إعادة: إرجاع التسجيل إلى البداية',
+    position: 'موضع التشغيل',
+    positionOf: (current, duration) => `${current} من ${duration}`,
+    cannotPause: 'التسجيل قيد التشغيل (لا يمكن إيقافه مؤقتًا)',
+    playsUsed: (used, maxPlays) => `مرات التشغيل المستخدمة: ${used} من ${maxPlays}`,
+    playFirst: 'يُرجى تشغيل التسجيل أولًا لعرض الأسئلة'
+  },
+
+  questions: {
+    answerPlaceholder: 'اكتب إجابتك هنا...',
+    paragraphPlaceholder: 'اكتب فقرتك هنا...',
+    targetWords: (min, max) => `المطلوب: ${min}-${max} كلمة`,
+    wordCount: words => `${words} كلمة`,
+    dictationHint: 'اكتب الجملة كما تسمعها تمامًا.',
+    dictationLabel: question => `الإملاء ${question}`,
+    dictationPlaceholder: 'اكتب ما تسمعه...',
+    gapLabel: gap => `الفراغ ${gap}`,
+    chooseOption: optionLabel => `اختر ${optionLabel}...`,
+    topic: 'الموضوع:',
+    orderingButtons: 'استخدم أزرار الأسهم أو السحب لترتيب الجمل بالترتيب الصحيح:',
+    orderingKeys: 'باستخدام لوحة المفاتيح، اختر جملة واضغط على السهم لأعلى أو لأسفل لنقلها.',
+    moveUp: letter => `نقل الجملة ${letter} إلى الأعلى`,
+    moveDown: letter => `نقل الجملة ${letter} إلى الأسفل`,
+    moved: (letter, position, total) => `أصبحت الجملة ${letter} في الموضع ${position} من ${total}.`,
+    optionKeys: 'اضغط على مفتاح الحرف لاختيار ذلك الخيار.',
+    firstSentence: 'الجملة الأولى',
+    lastSentence: 'الجملة الأخيرة',
+    currentOrder: 'ترتيبك الحالي:'
+  },
+
+  speaking: {
+    preparation: 'وقت التحضير',
+    startsAutomatically: responseTime =>
+      `يبدأ التسجيل تلقائيًا عند انتهاء وقت التحضير. سيكون لديك ${responseTime} للتحدث.`,
+    startNow: 'ابدأ التسجيل الآن',
+    recording: 'جارٍ التسجيل',
+    finish: 'إنهاء التسجيل',
+    saving: 'جارٍ حفظ تسجيلك...',
+    recorded: 'تم تسجيل إجابتك وسيقيّمها أحد المقيّمين.',
+    tryAgain: 'حاول مرة أخرى',
+    saveFailed: 'تعذّر حفظ تسجيلك.',
+    microphoneNeeded: 'يلزم الوصول إلى الميكروفون لتسجيل إجابتك. يُرجى السماح بالوصول وطلب المساعدة من المراقب.'
+  },
+
+  results: {
+    reportTitle: 'تقرير الكفاءة الرسمي وفق إطار SEMF',
+    center: 'مركز تقييم اللغة الإنجليزية',
+    assessmentDate: 'تاريخ التقييم',
+    academicYear: 'العام الأكاديمي 2025',
+    form: formId => `النموذج: ${formId}`,
+    complete: 'اكتمل التقييم!',
+    subtitle: 'نتائج إطار شا بريدج لإتقان اللغة الإنجليزية (SEMF)',
+    provisional:
+      'مستوى مبدئي: إجاباتك الشفهية بانتظار التقييم. يُعتمد المستوى النهائي بعد تقييمها وقد يكون أقل.',
+    awaitingRating: 'بانتظار التقييم',
+    score: (score, maxScore, percent) => `الدرجة: ${score}/${maxScore} (${percent}٪)`,
+    normalized: score => `الدرجة المعيارية: ${score}/50`,
+    ability: (theta, standardError) =>
+      `تقدير القدرة التكيفي: ${theta.toFixed(2)} لوجيت (الخطأ المعياري ${standardError.toFixed(2)})`,
+    tieBreakerApplied: '(طُبّق معيار الترجيح)',
+    tieBreakerTitle: 'مهارة الترجيح',
+    tieBreakerNote: 'تُستخدم لتحديد المستوى النهائي عندما تقترب الدرجات من حدود المستويات',
+    analysis: 'تحليل الأداء',
+    studentInfo: 'بيانات الطالب',
+    name: 'الاسم:',
+    email: 'البريد الإلكتروني:',
+    phone: 'الهاتف:',
+    selfLevel: 'المستوى حسب تقديرك:',
+    testDate: 'تاريخ الاختبار:',
+    assessmentType: 'نوع التقييم:',
+    assessmentTypeValue: 'المهارات الأساسية وفق SEMF',
+    testForm: 'نموذج الاختبار:',
+    levelGuide: 'دليل مستويات SEMF',
+    levelNames: {
+      S1: 'مستخدم مبتدئ',
+      S2: 'مستخدم أساسي',
+      S3: 'مستخدم مستقل',
+      S4: 'مستخدم كفء',
+      S5: 'إتقان'
+    },
+    levelSummaries: {
+      S1: 'يفهم التعبيرات البسيطة ويستخدمها',
+      S2: 'يستطيع التعامل مع المحادثات القصيرة والمعتادة',
+      S3: 'يستطيع التعامل مع معظم المواقف اليومية',
+      S4: 'يستطيع التواصل بطلاقة وتلقائية',
+      S5: 'يستطيع التعبير عن الأفكار بدقة في المواقف المعقدة'
+    },
+    points: (min, max) => `${min}-${max} نقطة`,
+    footerTitle: 'مركز تقييم SEMF في كلية شا بريدج',
+    footerNote:
+      'يقدّم تقييم SEMF هذا مؤشرًا على مستواك الحالي في اللغة الإنجليزية وفق إطارنا الخاص. للحصول على شهادة رسمية أو تحديد مستوى أكاديمي، يُرجى التواصل مع مكتب الشؤون الأكاديمية.',
+    restart: 'إعادة الاختبار',
+    download: 'تنزيل تقرير SEMF',
+    downloadFailed: 'حدث خطأ أثناء إنشاء ملف PDF. يُرجى المحاولة مرة أخرى أو التحقق من أذونات المتصفح.'
+  },
+
+  accommodations: {
+    title: 'الترتيبات الخاصة:',
+    extraTime: multiplier => `وقت ممدَّد (×${multiplier})`,
+    extraPlays: plays => `مرات تشغيل إضافية لكل تسجيل: ${plays}`,
+    largePrint: 'خط كبير',
+    highContrast: 'تباين عالٍ',
+    restBreaks: minutes => `استراحات مدتها ${minutes} دقيقة بين الأقسام`
+  },
+
+  report: {
+    skills: {
+      GrammarVocabulary: 'القواعد والمفردات',
+      ReadingWriting: 'القراءة والكتابة',
+      Listening: 'الاستماع',
+      Speaking: 'المحادثة'
+    },
+    levelDescriptions: {
+      S1: 'مستخدم مبتدئ - يفهم التعبيرات البسيطة ويستخدمها.',
+      S2: 'مستخدم أساسي - يستطيع التعامل مع المحادثات القصيرة والمعتادة.',
+      S3: 'مستخدم مستقل - يستطيع التعامل مع معظم المواقف اليومية.',
+      S4: 'مستخدم كفء - يستطيع التواصل بطلاقة وتلقائية.',
+      S5: 'إتقان - يستطيع التعبير عن الأفكار بدقة في المواقف المعقدة.'
+    },
+    overallLevel: (level, provisional) =>
+      `المستوى العام وفق SEMF: ${level}${provisional ? ' (مبدئي حتى تقييم المحادثة)' : ''}`,
+    breakdown: 'تفاصيل الأداء:',
+    awaitingRating: 'بانتظار التقييم',
+    completion: 'نسبة إكمال الاختبار',
+    recommendations: {
+      S1: 'التوصيات: ركّز على بناء المفردات الأساسية والتراكيب البسيطة للجمل والتعبيرات اليومية، وتدرّب على الاستماع إلى كلام بطيء وواضح.',
+      S2: 'التوصيات: وسّع مفرداتك للمواقف الشائعة، وتدرّب على أزمنة الماضي والمستقبل، وطوّر مهارات المحادثة الأساسية.',
+      S3: 'التوصيات: ادرس التراكيب النحوية المعقدة والمفردات الأكاديمية، وتدرّب على التعبير عن آرائك كتابةً بوضوح.',
+      S4: 'التوصيات: حسّن استخدامك للقواعد المتقدمة، ووسّع مفرداتك المهنية، وتدرّب على التعبير الدقيق في الموضوعات المعقدة.',
+      S5: 'التوصيات: حافظ على مستواك بقراءة نصوص معقدة والكتابة الأكاديمية والتواصل في السياقات المهنية.'
+    },
+    keepPracticing: 'واصل التدريب لتحسين مستواك في اللغة الإنجليزية.'
+  },
+
+  formText: {
+    'Core Grammar & Vocabulary': 'القواعد والمفردات الأساسية',
+    'Core Reading & Writing': 'القراءة والكتابة الأساسية',
+    'Core Listening': 'الاستماع الأساسي',
+    'Core Speaking': 'المحادثة الأساسية',
+    'Choose the best answer (A, B, C, or D) for each question.': 'اختر أفضل إجابة (A أو B أو C أو D) لكل سؤال.',
+    'Read the text carefully and answer all questions. Write your answers in the spaces provided.':
+      'اقرأ النص بعناية وأجب عن جميع الأسئلة. اكتب إجاباتك في الأماكن المخصصة.',
+    'You will hear a short audio recording ONCE. Then, answer the questions.':
+      'ستستمع إلى تسجيل صوتي قصير مرة واحدة فقط. ثم أجب عن الأسئلة.',
+    'Read each task and use the preparation time to plan your answer. Recording starts automatically when preparation time ends.':
+      'اقرأ كل مهمة واستخدم وقت التحضير للتخطيط لإجابتك. يبدأ التسجيل تلقائيًا عند انتهاء وقت التحضير.',
+    'Answer each question. Each one is chosen from your answers so far, so you cannot go back to change an answer, and the section ends once your level is clear.':
+      'أجب عن كل سؤال. يُختار كل سؤال بناءً على إجاباتك السابقة، لذا لا يمكنك الرجوع لتغيير إجابة، وينتهي القسم عندما يتضح مستواك.'
+  }
+};
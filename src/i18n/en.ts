@@ -0,0 +1,294 @@
+import { SEMFLevel, SEMFSkill } from '../types/test';
+
+// The source catalog: every other language provides the same keys, checked by the Messages type
+export const en = {
+  language: {
+    label: 'Instruction language',
+    hint: 'Instructions and buttons are shown in this language. Test questions are always in English.'
+  },
+
+  common: {
+    college: 'Sha Bridge College',
+    logoAlt: 'Sha Bridge College Logo',
+    assessment: 'English Language Assessment',
+    proficiencyAssessment: 'English Proficiency Assessment',
+    next: 'Next',
+    previous: 'Previous',
+    reviewAnswers: 'Review Answers',
+    minutesSeconds: (minutes: number, seconds: string) => `${minutes}m ${seconds}s`
+  },
+
+  welcome: {
+    title: 'Core Skills English Proficiency Test',
+    intro:
+      'A comprehensive assessment of your English language skills including grammar, vocabulary, listening, reading, writing, and speaking components designed to evaluate your academic readiness.',
+    totalTime: (minutes: number) => `${minutes} Minutes Total`,
+    totalTimeBody: 'Four carefully timed sections with automatic progression and secure submission protocols',
+    sectionCount: (count: number) => `${count} Core Sections`,
+    sectionCountBody: 'Grammar & Vocabulary, Reading & Writing Assessment, Listening Comprehension, Speaking',
+    integrity: 'Academic Integrity',
+    integrityBody: 'Secure testing environment with comprehensive academic honesty protocols',
+    structureTitle: 'Test Structure & Requirements',
+    minutesQuestions: (minutes: number, questions: number) => `${minutes} minutes • ${questions} questions`,
+    minutesTasks: (minutes: number, tasks: number) => `${minutes} minutes • ${tasks} tasks`,
+    grammarBody:
+      'Multiple choice assessment covering essential grammar structures and professional vocabulary. Tests conditional forms, tenses, prepositions, and workplace terminology critical for academic and professional success.',
+    readingBody:
+      'Story continuation, sentence ordering, reading comprehension, and structured written responses showcasing critical thinking and argumentation skills in academic and professional contexts.',
+    listeningBody:
+      'Listen to various audio recordings including library announcements, conversations, voicemails, and travel reports. Demonstrate comprehension of key information, main ideas, and specific details in different contexts.',
+    speakingBody:
+      'Read a prompt, use the preparation time to plan, then record a spoken answer with your microphone. Responses are scored by trained raters against the SEMF speaking rubric.',
+    statementTitle: 'Sha Bridge College Academic Integrity Statement',
+    statementIntro: 'By proceeding with this assessment, I hereby declare that:',
+    statementPoints: [
+      'I will complete this test independently without assistance from others',
+      'I will not use any unauthorized materials, including AI writing tools or translation software',
+      'My responses will be my own original work and reflect my current English proficiency',
+      'I understand that academic dishonesty may result in test invalidation and disciplinary action',
+      'I will not share test content with others or discuss questions during or after the assessment',
+      'I acknowledge that this test is being conducted under Sha Bridge College academic standards'
+    ],
+    agree: 'I have read and agree to the academic integrity statement and testing conditions',
+    begin: 'Begin English Proficiency Assessment',
+    acceptFirst: 'Please accept the academic integrity terms to continue',
+    footer: 'Administered by Sha Bridge College • Academic Year 2025',
+    keyboardHint: 'Keyboard: Alt+N goes to the next screen, Alt+P to the previous one, and the letter keys choose multiple-choice options.'
+  },
+
+  studentInfo: {
+    title: 'Student Information',
+    subtitle: 'Please provide your details before beginning the assessment',
+    personal: 'Personal Information',
+    firstName: 'First Name *',
+    lastName: 'Last Name *',
+    dateOfBirth: 'Date of Birth *',
+    email: 'Email Address *',
+    phone: 'Phone Number *',
+    firstNamePlaceholder: 'Enter your first name',
+    lastNamePlaceholder: 'Enter your last name',
+    emailPlaceholder: 'Enter your email address',
+    phonePlaceholder: 'Enter your phone number',
+    firstNameRequired: 'First name is required',
+    lastNameRequired: 'Last name is required',
+    emailRequired: 'Email is required',
+    emailInvalid: 'Please enter a valid email address',
+    phoneRequired: 'Phone number is required',
+    phoneInvalid: 'Please enter a valid phone number',
+    levelRequired: 'Please select your current level',
+    dateOfBirthRequired: 'Date of birth is required',
+    assessmentInfo: 'Assessment Information',
+    selfLevel: 'Self-Assessed English Level *',
+    selectLevel: 'Select your level',
+    levels: {
+      beginner: 'Beginner (S1)',
+      elementary: 'Elementary (S2)',
+      intermediate: 'Intermediate (S3)',
+      'upper-intermediate': 'Upper Intermediate (S4)',
+      advanced: 'Advanced (S5)',
+      unsure: 'Not sure'
+    },
+    noticeTitle: 'Important Notice',
+    notices: [
+      'All information provided will be kept confidential',
+      'Your details will be used for test administration and results processing only',
+      'Ensure all information is accurate as it will appear on your certificate',
+      'You cannot change this information once the test begins'
+    ],
+    submit: 'Continue to Assessment',
+    footer: 'Sha Bridge College Language Assessment Center • Confidential Testing Environment'
+  },
+
+  test: {
+    sectionOf: (section: number, total: number) => `Section ${section} of ${total}`,
+    progress: 'Progress',
+    questionOf: (question: number, total: number) => `Question ${question} of ${total}`,
+    timeRemaining: 'Time Remaining',
+    timeWarning: (seconds: number, label?: string) =>
+      `${label ? `${label}: ` : ''}${
+        seconds >= 60 ? `${seconds / 60} ${seconds === 60 ? 'minute' : 'minutes'}` : `${seconds} seconds`
+      } left`,
+    sectionTime: 'Section time',
+    testTime: 'Test time',
+    passageOf: (passage: number, total: number, title: string) => `Reading Passage ${passage} of ${total}: ${title}`,
+    wordCount: (words: number) => `${words} words`,
+    source: (source: string) => `Source: ${source}`,
+    comprehensionQuestions: 'Reading Comprehension Questions',
+    writingResponse: 'Writing Response',
+    recordingOf: (recording: number, total: number, title: string) => `Recording ${recording} of ${total}: ${title}`
+  },
+
+  flow: {
+    startSection: 'Start section',
+    breakTitle: 'Break',
+    breakBody: (time: string) => `Take a short rest. The test continues automatically in ${time}.`,
+    upNext: (section: string) => `Next: ${section}`,
+    continueNow: 'Continue now'
+  },
+  review: {
+    title: 'Review Your Answers',
+    intro: 'Check each section before you submit. Select a question to go back to it. Locked questions can no longer be changed, either because their time has run out or because their section does not allow going back.',
+    answered: 'Answered',
+    unanswered: 'Unanswered',
+    flagged: 'Flagged',
+    flagForReview: 'Flag for review',
+    locked: 'This question can no longer be changed',
+    sectionSummary: (answered: number, total: number, flagged: number) =>
+      `${answered} of ${total} answered • ${flagged} flagged`,
+    goToQuestion: (question: number) => `Question ${question}`,
+    submit: 'Submit Test',
+    unansweredWarning: (count: number) =>
+      `You have ${count} unanswered ${count === 1 ? 'question' : 'questions'}. Once you submit, you cannot change your answers.`,
+    submitAnyway: 'Submit anyway',
+    keepReviewing: 'Keep reviewing'
+  },
+
+  listening: {
+    playLimit: (maxPlays: number) =>
+      `You can play the audio up to ${maxPlays} ${maxPlays === 1 ? 'time' : 'times'}. Once started, the audio cannot be paused.`,
+    playing: 'Playing...',
+    noPlaysLeft: 'No Plays Remaining',
+    play: (remaining: number) => `Play Audio (${remaining} ${remaining === 1 ? 'play' : 'plays'} remaining)`,
+    reset: 'Reset',
+    resetLabel: 'Reset: rewind the recording to the start',
+    position: 'Playback position',
+    positionOf: (current: string, duration: string) => `${current} of ${duration}`,
+    cannotPause: 'Audio is playing (cannot be paused)',
+    playsUsed: (used: number, maxPlays: number) => `Plays used: ${used} of ${maxPlays}`,
+    playFirst: 'Please play the audio first to access the questions'
+  },
+
+  questions: {
+    answerPlaceholder: 'Write your answer here...',
+    paragraphPlaceholder: 'Write your paragraph here...',
+    targetWords: (min: number, max: number) => `Target: ${min}-${max} words`,
+    wordCount: (words: number) => `${words} words`,
+    dictationHint: 'Write the sentence exactly as you hear it.',
+    dictationLabel: (question: number) => `Dictation ${question}`,
+    dictationPlaceholder: 'Type what you hear...',
+    gapLabel: (gap: number) => `Gap ${gap}`,
+    chooseOption: (optionLabel: string) => `Choose ${optionLabel.toLowerCase()}...`,
+    topic: 'Topic:',
+    orderingButtons: 'Use the arrow buttons or drag to arrange the sentences in the correct order:',
+    orderingKeys: 'With the keyboard, select a sentence and press the up or down arrow key to move it.',
+    moveUp: (letter: string) => `Move sentence ${letter} up`,
+    moveDown: (letter: string) => `Move sentence ${letter} down`,
+    moved: (letter: string, position: number, total: number) => `Sentence ${letter} moved to position ${position} of ${total}.`,
+    optionKeys: 'Press a letter key to choose that option.',
+    firstSentence: 'First sentence',
+    lastSentence: 'Last sentence',
+    currentOrder: 'Your current order:'
+  },
+
+  speaking: {
+    preparation: 'Preparation time',
+    startsAutomatically: (responseTime: string) =>
+      `Recording starts automatically when preparation time ends. You will have ${responseTime} to speak.`,
+    startNow: 'Start Recording Now',
+    recording: 'Recording',
+    finish: 'Finish Recording',
+    saving: 'Saving your recording...',
+    recorded: 'Your response has been recorded and will be scored by a rater.',
+    tryAgain: 'Try Again',
+    saveFailed: 'Your recording could not be saved.',
+    microphoneNeeded: 'Microphone access is needed to record your answer. Please allow access and ask the invigilator for help.'
+  },
+
+  results: {
+    reportTitle: 'Official SEMF Proficiency Report',
+    center: 'English Language Assessment Center',
+    assessmentDate: 'Assessment Date',
+    academicYear: 'Academic Year 2025',
+    form: (formId: string) => `Form: ${formId}`,
+    complete: 'Assessment Complete!',
+    subtitle: 'ShaBridge English Mastery Framework (SEMF) Results',
+    provisional:
+      'Provisional level: your speaking responses are awaiting a rater. The final level is confirmed once they are scored and may be lower.',
+    awaitingRating: 'Awaiting rating',
+    score: (score: number, maxScore: number, percent: number) => `Score: ${score}/${maxScore} (${percent}%)`,
+    normalized: (score: number) => `Normalized: ${score}/50`,
+    ability: (theta: number, standardError: number) =>
+      `Adaptive ability estimate: ${theta.toFixed(2)} logits (standard error ${standardError.toFixed(2)})`,
+    tieBreakerApplied: '(Tie-breaker applied)',
+    tieBreakerTitle: 'Tie-breaker Skill',
+    tieBreakerNote: 'Used to determine final level when scores are near boundaries',
+    analysis: 'Performance Analysis',
+    studentInfo: 'Student Information',
+    name: 'Name:',
+    email: 'Email:',
+    phone: 'Phone:',
+    selfLevel: 'Self-Assessed Level:',
+    testDate: 'Test Date:',
+    assessmentType: 'Assessment Type:',
+    assessmentTypeValue: 'SEMF Core Skills',
+    testForm: 'Test Form:',
+    levelGuide: 'SEMF Level Guide',
+    levelNames: {
+      S1: 'Basic User',
+      S2: 'Elementary User',
+      S3: 'Independent User',
+      S4: 'Proficient User',
+      S5: 'Mastery'
+    } as Record<SEMFLevel, string>,
+    levelSummaries: {
+      S1: 'Understands and uses simple expressions',
+      S2: 'Can handle short, routine exchanges',
+      S3: 'Can deal with most everyday situations',
+      S4: 'Can interact fluently and spontaneously',
+      S5: 'Can express ideas precisely in complex situations'
+    } as Record<SEMFLevel, string>,
+    points: (min: number, max: number) => `${min}-${max} points`,
+    footerTitle: 'Sha Bridge College SEMF Assessment Center',
+    footerNote:
+      'This SEMF assessment provides an indication of your current English proficiency level using our proprietary framework. For official certification or academic placement, please contact our Academic Affairs office.',
+    restart: 'Take Test Again',
+    download: 'Download SEMF Report',
+    downloadFailed: 'Error generating PDF. Please try again or check your browser permissions.'
+  },
+
+  // Adjustments granted to a candidate, as listed on the results report
+  accommodations: {
+    title: 'Accommodations:',
+    extraTime: (multiplier: number) => `Extended time (×${multiplier})`,
+    extraPlays: (plays: number) => `${plays} extra ${plays === 1 ? 'play' : 'plays'} of each recording`,
+    largePrint: 'Large print',
+    highContrast: 'High contrast',
+    restBreaks: (minutes: number) => `${minutes}-minute rest breaks between sections`
+  },
+
+  // Wording of the level descriptions and the written summary produced by SEMFScoringEngine
+  report: {
+    skills: {
+      GrammarVocabulary: 'Grammar & Vocabulary',
+      ReadingWriting: 'Reading & Writing',
+      Listening: 'Listening',
+      Speaking: 'Speaking'
+    } as Record<SEMFSkill, string>,
+    levelDescriptions: {
+      S1: 'Basic user - understands and uses simple expressions.',
+      S2: 'Elementary user - can handle short, routine exchanges.',
+      S3: 'Independent user - can deal with most everyday situations.',
+      S4: 'Proficient user - can interact fluently and spontaneously.',
+      S5: 'Mastery - can express ideas precisely in complex situations.'
+    } as Record<SEMFLevel, string>,
+    overallLevel: (level: string, provisional: boolean) =>
+      `Overall SEMF Level: ${level}${provisional ? ' (provisional until speaking is rated)' : ''}`,
+    breakdown: 'Performance Breakdown:',
+    awaitingRating: 'awaiting rating',
+    completion: 'Test Completion',
+    recommendations: {
+      S1: 'Recommendations: Focus on basic vocabulary building, simple sentence structures, and everyday expressions. Practice listening to slow, clear speech.',
+      S2: 'Recommendations: Expand vocabulary for common situations, practice past and future tenses, and work on basic conversation skills.',
+      S3: 'Recommendations: Study complex grammar structures, academic vocabulary, and practice expressing opinions clearly in writing.',
+      S4: 'Recommendations: Refine advanced grammar usage, expand professional vocabulary, and practice nuanced expression in complex topics.',
+      S5: 'Recommendations: Maintain proficiency through exposure to complex texts, academic writing, and professional communication contexts.'
+    } as Record<SEMFLevel, string>,
+    keepPracticing: 'Continue practicing to improve your English proficiency.'
+  },
+
+  // Section titles and instructions from the published forms, keyed by their English text; text
+  // without an entry (e.g. a new form's instructions) is shown in English
+  formText: {} as Record<string, string>
+};
+
+export type Messages = typeof en;
@@ -0,0 +1,301 @@
+import { Messages } from './en';
+
+export const es: Messages = {
+  language: {
+    label: 'Idioma de las instrucciones',
+    hint: 'Las instrucciones y los botones se muestran en este idioma. Las preguntas del examen siempre están en inglés.'
+  },
+
+  common: {
+    college: 'Sha Bridge College',
+    logoAlt: 'Logotipo de Sha Bridge College',
+    assessment: 'Evaluación de Lengua Inglesa',
+    proficiencyAssessment: 'Evaluación de Dominio del Inglés',
+    next: 'Siguiente',
+    previous: 'Anterior',
+    reviewAnswers: 'Revisar respuestas',
+    minutesSeconds: (minutes, seconds) => `${minutes} min ${seconds} s`
+  },
+
+  welcome: {
+    title: 'Examen de Competencias Básicas de Inglés',
+    intro:
+      'Una evaluación completa de sus competencias en inglés, con gramática, vocabulario, comprensión auditiva, lectura, escritura y expresión oral, diseñada para valorar su preparación académica.',
+    totalTime: minutes => `${minutes} minutos en total`,
+    totalTimeBody: 'Cuatro secciones cronometradas con avance automático y envío seguro de respuestas',
+    sectionCount: count => `${count} secciones principales`,
+    sectionCountBody: 'Gramática y vocabulario, lectura y escritura, comprensión auditiva y expresión oral',
+    integrity: 'Integridad académica',
+    integrityBody: 'Entorno de examen seguro con normas completas de honestidad académica',
+    structureTitle: 'Estructura y requisitos del examen',
+    minutesQuestions: (minutes, questions) => `${minutes} minutos • ${questions} preguntas`,
+    minutesTasks: (minutes, tasks) => `${minutes} minutos • ${tasks} tareas`,
+    grammarBody:
+      'Preguntas de opción múltiple sobre estructuras gramaticales esenciales y vocabulario profesional: condicionales, tiempos verbales, preposiciones y terminología del ámbito laboral, claves para el éxito académico y profesional.',
+    readingBody:
+      'Continuación de historias, ordenación de oraciones, comprensión lectora y respuestas escritas estructuradas que demuestran pensamiento crítico y capacidad de argumentación en contextos académicos y profesionales.',
+    listeningBody:
+      'Escuche diversas grabaciones, como avisos de biblioteca, conversaciones, mensajes de voz e informes de viaje. Demuestre que comprende la información clave, las ideas principales y los detalles concretos en distintos contextos.',
+    speakingBody:
+      'Lea la consigna, use el tiempo de preparación para planificar y grabe su respuesta oral con el micrófono. Las respuestas las califican evaluadores formados según la rúbrica de expresión oral del SEMF.',
+    statementTitle: 'Declaración de Integridad Académica de Sha Bridge College',
+    statementIntro: 'Al continuar con esta evaluación, declaro que:',
+    statementPoints: [
+      'Realizaré este examen de forma individual, sin ayuda de otras personas',
+      'No utilizaré materiales no autorizados, incluidas herramientas de escritura con IA o programas de traducción',
+      'Mis respuestas serán originales y reflejarán mi nivel actual de inglés',
+      'Entiendo que la deshonestidad académica puede anular el examen y dar lugar a medidas disciplinarias',
+      'No compartiré el contenido del examen ni comentaré las preguntas durante ni después de la evaluación',
+      'Reconozco que este examen se realiza conforme a las normas académicas de Sha Bridge College'
+    ],
+    agree: 'He leído y acepto la declaración de integridad académica y las condiciones del examen',
+    begin: 'Comenzar la evaluación de inglés',
+    acceptFirst: 'Acepte los términos de integridad académica para continuar',
+    footer: 'Administrado por Sha Bridge College • Curso académico 2025',
+    keyboardHint: 'Teclado: Alt+N pasa a la pantalla siguiente, Alt+P vuelve a la anterior y las teclas de letra eligen las opciones de respuesta múltiple.'
+  },
+
+  studentInfo: {
+    title: 'Datos del estudiante',
+    subtitle: 'Indique sus datos antes de comenzar la evaluación',
+    personal: 'Datos personales',
+    firstName: 'Nombre *',
+    lastName: 'Apellidos *',
+    dateOfBirth: 'Fecha de nacimiento *',
+    email: 'Correo electrónico *',
+    phone: 'Número de teléfono *',
+    firstNamePlaceholder: 'Escriba su nombre',
+    lastNamePlaceholder: 'Escriba sus apellidos',
+    emailPlaceholder: 'Escriba su correo electrónico',
+    phonePlaceholder: 'Escriba su número de teléfono',
+    firstNameRequired: 'El nombre es obligatorio',
+    lastNameRequired: 'Los apellidos son obligatorios',
+    emailRequired: 'El correo electrónico es obligatorio',
+    emailInvalid: 'Escriba un correo electrónico válido',
+    phoneRequired: 'El número de teléfono es obligatorio',
+    phoneInvalid: 'Escriba un número de teléfono válido',
+    levelRequired: 'Seleccione su nivel actual',
+    dateOfBirthRequired: 'La fecha de nacimiento es obligatoria',
+    assessmentInfo: 'Datos de la evaluación',
+    selfLevel: 'Nivel de inglés autoevaluado *',
+    selectLevel: 'Seleccione su nivel',
+    levels: {
+      beginner: 'Principiante (S1)',
+      elementary: 'Elemental (S2)',
+      intermediate: 'Intermedio (S3)',
+      'upper-intermediate': 'Intermedio alto (S4)',
+      advanced: 'Avanzado (S5)',
+      unsure: 'No estoy seguro/a'
+    },
+    noticeTitle: 'Aviso importante',
+    notices: [
+      'Toda la información facilitada se tratará de forma confidencial',
+      'Sus datos se usarán solo para administrar el examen y procesar los resultados',
+      'Compruebe que los datos son correctos, ya que aparecerán en su certificado',
+      'No podrá modificar estos datos una vez comenzado el examen'
+    ],
+    submit: 'Continuar a la evaluación',
+    footer: 'Centro de Evaluación Lingüística de Sha Bridge College • Entorno de examen confidencial'
+  },
+
+  test: {
+    sectionOf: (section, total) => `Sección ${section} de ${total}`,
+    progress: 'Progreso',
+    questionOf: (question, total) => `Pregunta ${question} de ${total}`,
+    timeRemaining: 'Tiempo restante',
+    timeWarning: (seconds, label) =>
+      `${label ? `${label}: ` : ''}${
+        seconds === 60 ? 'queda 1 minuto' : seconds > 60 ? `quedan ${seconds / 60} minutos` : `quedan ${seconds} segundos`
+      }`,
+    sectionTime: 'Tiempo de la sección',
+    testTime: 'Tiempo del examen',
+    passageOf: (passage, total, title) => `Texto de lectura ${passage} de ${total}: ${title}`,
+    wordCount: words => `${words} palabras`,
+    source: source => `Fuente: ${source}`,
+    comprehensionQuestions: 'Preguntas de comprensión lectora',
+    writingResponse: 'Respuesta escrita',
+    recordingOf: (recording, total, title) => `Grabación ${recording} de ${total}: ${title}`
+  },
+
+  flow: {
+    startSection: 'Comenzar la sección',
+    breakTitle: 'Descanso',
+    breakBody: time => `Descanse un momento. El examen continúa automáticamente en ${time}.`,
+    upNext: section => `A continuación: ${section}`,
+    continueNow: 'Continuar ahora'
+  },
+
+  review: {
+    title: 'Revise sus respuestas',
+    intro: 'Revise cada sección antes de entregar. Seleccione una pregunta para volver a ella. Las preguntas bloqueadas ya no se pueden cambiar, porque se agotó su tiempo o porque su sección no permite volver atrás.',
+    answered: 'Respondida',
+    unanswered: 'Sin responder',
+    flagged: 'Marcada',
+    flagForReview: 'Marcar para revisar',
+    locked: 'Esta pregunta ya no se puede cambiar',
+    sectionSummary: (answered, total, flagged) => `${answered} de ${total} respondidas • ${flagged} marcadas`,
+    goToQuestion: question => `Pregunta ${question}`,
+    submit: 'Entregar examen',
+    unansweredWarning: count =>
+      `Tiene ${count} ${count === 1 ? 'pregunta sin responder' : 'preguntas sin responder'}. Una vez entregado, no podrá cambiar sus respuestas.`,
+    submitAnyway: 'Entregar de todos modos',
+    keepReviewing: 'Seguir revisando'
+  },
+
+  listening: {
+    playLimit: maxPlays =>
+      `Puede reproducir el audio hasta ${maxPlays} ${maxPlays === 1 ? 'vez' : 'veces'}. Una vez iniciado, el audio no se puede pausar.`,
+    playing: 'Reproduciendo...',
+    noPlaysLeft: 'No quedan reproducciones',
+    play: remaining => `Reproducir audio (${remaining === 1 ? 'queda 1 reproducción' : `quedan ${remaining} reproducciones`})`,
+    reset: 'Reiniciar',
+    resetLabel: 'Reiniciar: volver al principio de la grabación',
+    position: 'Posición de reproducción',
+    positionOf: (current, duration) => `${current} de ${duration}`,
+    cannotPause: 'El audio se está reproduciendo (no se puede pausar)',
+    playsUsed: (used, maxPlays) => `Reproducciones usadas: ${used} de ${maxPlays}`,
+    playFirst: 'Reproduzca el audio para ver las preguntas'
+  },
+
+  questions: {
+    answerPlaceholder: 'Escriba su respuesta aquí...',
+    paragraphPlaceholder: 'Escriba su párrafo aquí...',
+    targetWords: (min, max) => `Objetivo: ${min}-${max} palabras`,
+    wordCount: words => `${words} palabras`,
+    dictationHint: 'Escriba la oración exactamente como la oye.',
+    dictationLabel: question => `Dictado ${question}`,
+    dictationPlaceholder: 'Escriba lo que oye...',
+    gapLabel: gap => `Hueco ${gap}`,
+    chooseOption: optionLabel => `Elija: ${optionLabel}...`,
+    topic: 'Tema:',
+    orderingButtons: 'Use los botones de flecha o arrastre las oraciones para ordenarlas correctamente:',
+    orderingKeys: 'Con el teclado, seleccione una oración y pulse la flecha arriba o abajo para moverla.',
+    moveUp: letter => `Subir la oración ${letter}`,
+    moveDown: letter => `Bajar la oración ${letter}`,
+    moved: (letter, position, total) => `La oración ${letter} está ahora en la posición ${position} de ${total}.`,
+    optionKeys: 'Pulse la tecla de una letra para elegir esa opción.',
+    firstSentence: 'Primera oración',
+    lastSentence: 'Última oración',
+    currentOrder: 'Su orden actual:'
+  },
+
+  speaking: {
+    preparation: 'Tiempo de preparación',
+    startsAutomatically: responseTime =>
+      `La grabación empieza automáticamente al terminar el tiempo de preparación. Tendrá ${responseTime} para hablar.`,
+    startNow: 'Empezar a grabar ahora',
+    recording: 'Grabando',
+    finish: 'Terminar la grabación',
+    saving: 'Guardando su grabación...',
+    recorded: 'Su respuesta se ha grabado y la calificará un evaluador.',
+    tryAgain: 'Intentar de nuevo',
+    saveFailed: 'No se ha podido guardar su grabación.',
+    microphoneNeeded: 'Se necesita acceso al micrófono para grabar su respuesta. Permita el acceso y pida ayuda al supervisor.'
+  },
+
+  results: {
+    reportTitle: 'Informe oficial de dominio SEMF',
+    center: 'Centro de Evaluación de Lengua Inglesa',
+    assessmentDate: 'Fecha de la evaluación',
+    academicYear: 'Curso académico 2025',
+    form: formId => `Modelo: ${formId}`,
+    complete: '¡Evaluación completada!',
+    subtitle: 'Resultados del ShaBridge English Mastery Framework (SEMF)',
+    provisional:
+      'Nivel provisional: sus respuestas orales están pendientes de un evaluador. El nivel final se confirma cuando se califican y puede ser inferior.',
+    awaitingRating: 'Pendiente de calificación',
+    score: (score, maxScore, percent) => `Puntuación: ${score}/${maxScore} (${percent} %)`,
+    normalized: score => `Normalizada: ${score}/50`,
+    ability: (theta, standardError) =>
+      `Habilidad estimada (adaptativa): ${theta.toFixed(2)} logits (error estándar ${standardError.toFixed(2)})`,
+    tieBreakerApplied: '(Se aplicó el desempate)',
+    tieBreakerTitle: 'Competencia de desempate',
+    tieBreakerNote: 'Determina el nivel final cuando la puntuación está cerca de un límite',
+    analysis: 'Análisis de resultados',
+    studentInfo: 'Datos del estudiante',
+    name: 'Nombre:',
+    email: 'Correo electrónico:',
+    phone: 'Teléfono:',
+    selfLevel: 'Nivel autoevaluado:',
+    testDate: 'Fecha del examen:',
+    assessmentType: 'Tipo de evaluación:',
+    assessmentTypeValue: 'Competencias básicas SEMF',
+    testForm: 'Modelo de examen:',
+    levelGuide: 'Guía de niveles SEMF',
+    levelNames: {
+      S1: 'Usuario básico',
+      S2: 'Usuario elemental',
+      S3: 'Usuario independiente',
+      S4: 'Usuario competente',
+      S5: 'Maestría'
+    },
+    levelSummaries: {
+      S1: 'Comprende y usa expresiones sencillas',
+      S2: 'Puede desenvolverse en intercambios breves y habituales',
+      S3: 'Puede afrontar la mayoría de las situaciones cotidianas',
+      S4: 'Puede interactuar con fluidez y espontaneidad',
+      S5: 'Puede expresar ideas con precisión en situaciones complejas'
+    },
+    points: (min, max) => `${min}-${max} puntos`,
+    footerTitle: 'Centro de Evaluación SEMF de Sha Bridge College',
+    footerNote:
+      'Esta evaluación SEMF ofrece una indicación de su nivel actual de inglés según nuestro marco propio. Para una certificación oficial o una ubicación académica, póngase en contacto con la Oficina de Asuntos Académicos.',
+    restart: 'Repetir el examen',
+    download: 'Descargar el informe SEMF',
+    downloadFailed: 'Error al generar el PDF. Inténtelo de nuevo o revise los permisos del navegador.'
+  },
+
+  accommodations: {
+    title: 'Adaptaciones:',
+    extraTime: multiplier => `Tiempo ampliado (×${multiplier})`,
+    extraPlays: plays => `${plays} ${plays === 1 ? 'reproducción adicional' : 'reproducciones adicionales'} de cada grabación`,
+    largePrint: 'Letra grande',
+    highContrast: 'Alto contraste',
+    restBreaks: minutes => `Descansos de ${minutes} minutos entre secciones`
+  },
+
+  report: {
+    skills: {
+      GrammarVocabulary: 'Gramática y vocabulario',
+      ReadingWriting: 'Lectura y escritura',
+      Listening: 'Comprensión auditiva',
+      Speaking: 'Expresión oral'
+    },
+    levelDescriptions: {
+      S1: 'Usuario básico: comprende y usa expresiones sencillas.',
+      S2: 'Usuario elemental: puede desenvolverse en intercambios breves y habituales.',
+      S3: 'Usuario independiente: puede afrontar la mayoría de las situaciones cotidianas.',
+      S4: 'Usuario competente: puede interactuar con fluidez y espontaneidad.',
+      S5: 'Maestría: puede expresar ideas con precisión en situaciones complejas.'
+    },
+    overallLevel: (level, provisional) =>
+      `Nivel SEMF global: ${level}${provisional ? ' (provisional hasta que se califique la expresión oral)' : ''}`,
+    breakdown: 'Desglose de resultados:',
+    awaitingRating: 'pendiente de calificación',
+    completion: 'Examen completado',
+    recommendations: {
+      S1: 'Recomendaciones: amplíe el vocabulario básico, practique estructuras de oraciones sencillas y expresiones cotidianas, y escuche habla lenta y clara.',
+      S2: 'Recomendaciones: amplíe el vocabulario para situaciones habituales, practique los tiempos pasados y futuros, y trabaje la conversación básica.',
+      S3: 'Recomendaciones: estudie estructuras gramaticales complejas y vocabulario académico, y practique expresar opiniones con claridad por escrito.',
+      S4: 'Recomendaciones: perfeccione el uso de la gramática avanzada, amplíe el vocabulario profesional y practique matices de expresión en temas complejos.',
+      S5: 'Recomendaciones: mantenga su nivel leyendo textos complejos, escribiendo textos académicos y comunicándose en contextos profesionales.'
+    },
+    keepPracticing: 'Siga practicando para mejorar su nivel de inglés.'
+  },
+
+  formText: {
+    'Core Grammar & Vocabulary': 'Gramática y vocabulario básicos',
+    'Core Reading & Writing': 'Lectura y escritura básicas',
+    'Core Listening': 'Comprensión auditiva básica',
+    'Core Speaking': 'Expresión oral básica',
+    'Choose the best answer (A, B, C, or D) for each question.': 'Elija la mejor respuesta (A, B, C o D) para cada pregunta.',
+    'Read the text carefully and answer all questions. Write your answers in the spaces provided.':
+      'Lea el texto con atención y responda a todas las preguntas. Escriba sus respuestas en los espacios indicados.',
+    'You will hear a short audio recording ONCE. Then, answer the questions.':
+      'Escuchará una grabación breve UNA SOLA VEZ. Después, responda a las preguntas.',
+    'Read each task and use the preparation time to plan your answer. Recording starts automatically when preparation time ends.':
+      'Lea cada tarea y use el tiempo de preparación para planificar su respuesta. La grabación empieza automáticamente al terminar el tiempo de preparación.',
+    'Answer each question. Each one is chosen from your answers so far, so you cannot go back to change an answer, and the section ends once your level is clear.':
+      'Responda a cada pregunta. Cada una se elige según sus respuestas anteriores, por lo que no puede volver atrás para cambiar una respuesta, y la sección termina cuando su nivel está claro.'
+  }
+};
@@ -0,0 +1,43 @@
+import { en, Messages } from './en';
+import { es } from './es';
+import { ar } from './ar';
+
+export interface Locale {
+  code: string;
+  name: string; // in its own language, as candidates look for it in the picker
+  dir: 'ltr' | 'rtl';
+  messages: Messages;
+}
+
+export const LOCALES: Locale[] = [
+  { code: 'en', name: 'English', dir: 'ltr', messages: en },
+  { code: 'es', name: 'Español', dir: 'ltr', messages: es },
+  { code: 'ar', name: 'العربية', dir: 'rtl', messages: ar }
+];
+
+export const DEFAULT_LOCALE = LOCALES[0];
+
+const STORAGE_KEY = 'semf.locale';
+
+export const getLocale = (code: string | null | undefined): Locale =>
+  LOCALES.find(locale => locale.code === code) ?? DEFAULT_LOCALE;
+
+// The language chosen on this device last time, so a shared test machine keeps the centre's usual choice
+export const loadLocale = (): Locale => {
+  try {
+    return getLocale(localStorage.getItem(STORAGE_KEY));
+  } catch {
+    return DEFAULT_LOCALE;
+  }
+};
+
+export const saveLocale = (locale: Locale): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, locale.code);
+  } catch {
+    // Storage can be unavailable in private windows; the choice then lasts for this visit only
+  }
+};
+
+// Section titles and instructions come from the form; translated where the catalog has them
+export const translateFormText = (messages: Messages, text: string): string => messages.formText[text] ?? text;
@@ -0,0 +1,17 @@
+import { createContext, useContext } from 'react';
+import { DEFAULT_LOCALE, Locale } from './locales';
+import { Messages } from './en';
+
+export interface I18nContextValue {
+  locale: Locale;
+  messages: Messages;
+  setLocale: (code: string) => void;
+}
+
+export const I18nContext = createContext<I18nContextValue>({
+  locale: DEFAULT_LOCALE,
+  messages: DEFAULT_LOCALE.messages,
+  setLocale: () => undefined
+});
+
+export const useI18n = (): I18nContextValue => useContext(I18nContext);
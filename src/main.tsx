@@ -1,10 +1,38 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import { RaterDashboard } from './components/RaterDashboard';
+import { AuthoringStudio } from './components/AuthoringStudio';
+import { AccommodationsDesk } from './components/AccommodationsDesk';
+import { StaffGate } from './components/StaffGate';
+import { I18nProvider } from './i18n/I18nProvider';
 import './index.css';
 
+// Raters open the app with ?rater to score stored speaking responses; test designers use ?author;
+// administrators grant a candidate's accommodations with ?accommodations before the sitting, behind
+// the staff passcode so a candidate at the same browser cannot grant their own.
+// Staff tools stay in English; only the candidate's test is shown in their instruction language.
+const params = new URLSearchParams(window.location.search);
+
+const renderView = () => {
+  if (params.has('rater')) return <RaterDashboard />;
+  if (params.has('author')) return <AuthoringStudio />;
+  if (params.has('accommodations')) {
+    return (
+      <StaffGate title="SEMF Accommodations">
+        <AccommodationsDesk />
+      </StaffGate>
+    );
+  }
+  return (
+    <I18nProvider>
+      <App />
+    </I18nProvider>
+  );
+};
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {renderView()}
   </StrictMode>
 );
@@ -1,24 +1,270 @@
+export type SEMFSkill = 'GrammarVocabulary' | 'ReadingWriting' | 'Listening' | 'Speaking';
+
+export type SEMFLevel = 'S1' | 'S2' | 'S3' | 'S4' | 'S5';
+
+// How a question's response is checked against its key
+export type AnswerKey =
+  | { method: 'exact'; value: string } // MCQ letter, case-insensitive
+  | { method: 'ordering'; sequence: string[] } // e.g. ['B', 'C', 'D', 'A']
+  | { method: 'keywords'; keywords: string[]; minMatches: number; minLength: number }
+  | { method: 'essay'; minWords: number; maxWords: number; anyOf: string[] }
+  // Each field earns an equal share of the points when it names one of the accepted ideas
+  // (an idea is a list of interchangeable keywords). With `distinct`, an idea counts once.
+  | { method: 'fields'; accept: string[][]; distinct: boolean }
+  | { method: 'gaps'; accept: string[][] } // accepted answers for each gap, in gap order
+  | { method: 'matching'; pairs: string[] } // option letter for each prompt, in prompt order
+  | { method: 'rubric'; rubricId: string } // scored by a rater against a SEMF rubric
+  // Typed listening answers, forgiving case, punctuation and small misspellings
+  | { method: 'tolerant'; accept: string[][] } // accepted answers for each field, in field order
+  | { method: 'dictation'; text: string }; // the dictated sentence; each word reproduced earns a share
+
+export type ScoringMethod = AnswerKey['method'];
+
+// A labelled input of a multi-field or note-completion question, e.g. "Advantage 1" or "Appointment day"
+export interface ResponseField {
+  label: string;
+  placeholder?: string;
+}
+
+export interface OrderingSentence {
+  letter: string; // label shown to the candidate and used in the answer key, e.g. 'A'
+  text: string;
+}
+
+// The content of a sentence-ordering item; the candidate orders `sentences` between the fixed ones
+export interface SentenceOrderingContent {
+  topic: string;
+  firstSentence: string;
+  sentences: OrderingSentence[]; // 3-8 sentences, listed in the order they are first shown
+  lastSentence?: string;
+}
+
+// A gap in a cloze text: a dropdown when options are given, otherwise typed
+export interface ClozeGap {
+  options?: string[];
+}
+
+export interface ClozeContent {
+  text: string; // gaps are marked [[1]], [[2]], ... and refer to `gaps` by position
+  gaps: ClozeGap[];
+}
+
+// Prompts (e.g. paragraphs or speakers) are each matched to one lettered option (e.g. headings or opinions)
+export interface MatchingContent {
+  promptLabel: string; // e.g. 'Paragraph'
+  prompts: string[];
+  optionLabel: string; // e.g. 'Heading'
+  options: string[]; // lettered A, B, C... like multiple-choice options; may include distractors
+}
+
+// A spoken response: the prompt is shown for `prepTime` seconds, then recorded for up to `responseTime`
+export interface SpeakingTask {
+  prepTime: number;
+  responseTime: number;
+}
+
+export interface RubricCriterion {
+  id: string;
+  label: string;
+  bands: string[]; // descriptor for each band, lowest first; band n is bands[n - 1]
+}
+
+export interface SpeakingRubric {
+  id: string;
+  title: string;
+  criteria: RubricCriterion[];
+}
+
+export const TRUE_FALSE_NOT_GIVEN = ['True', 'False', 'Not Given'] as const;
+
 export interface Question {
   id: number;
   question: string;
   options?: string[];
-  type: 'multiple-choice' | 'text' | 'essay' | 'sentence-ordering';
+  type:
+    | 'multiple-choice'
+    | 'text'
+    | 'multi-field'
+    | 'essay'
+    | 'sentence-ordering'
+    | 'gap-fill'
+    | 'matching'
+    | 'true-false-not-given'
+    | 'speaking'
+    | 'note-completion'
+    | 'dictation';
   section: string;
-  audioFile?: string;
+  passageId?: string; // reading passage this question is answered from
+  module?: StageModule; // required in a section with stages
+  timeLimit?: number; // seconds when shown on its own; overrides the section's timing.item
+  ordering?: SentenceOrderingContent; // required for sentence-ordering questions
+  fields?: ResponseField[]; // required for multi-field and note-completion questions
+  cloze?: ClozeContent; // required for gap-fill questions
+  matching?: MatchingContent; // required for matching questions
+  speaking?: SpeakingTask; // required for speaking questions
+  // Item-bank metadata used for blueprint assembly
+  subSkill?: string; // e.g. 'conditionals', 'passive', 'synonyms'
+  difficulty?: number; // estimated difficulty in logits (0 = average, higher = harder)
+  discrimination?: number; // 2PL slope for adaptive selection; 1 (the Rasch model) when not set
+  targetLevel?: SEMFLevel;
+  skill: SEMFSkill;
+  points: number;
+  answerKey: AnswerKey;
+}
+
+export interface PlayPolicy {
+  maxPlays: number;
+  revealQuestionsAfterPlay: boolean; // hide the questions until the recording has been started
+}
+
+export interface Passage {
+  id: string;
+  title: string;
+  body: string;
+  source?: string;
+  wordCount?: number; // computed from the body when omitted
+  timeLimit?: number; // seconds for the passage and its questions
+}
+
+// A listening recording and the questions that are answered from it
+export interface ListeningStimulus {
+  id: string;
+  title: string;
+  audioFile: string; // path under public/, e.g. '/audio/travel-report.mp3'
+  description: string;
+  playPolicy: PlayPolicy;
+  questionIds: number[];
+  timeLimit?: number; // seconds for the recording and its questions; overrides the section's timing.screen
+}
+
+// Extra screens around a section's items; without them the section opens on its first item
+export interface SectionFlow {
+  intro?: boolean; // show the title and instructions on a screen of their own before the first item
+  breakAfter?: number; // seconds of rest offered after the section; the candidate may continue sooner
+}
+
+// Default time limits in seconds for a section's screens, used where an item, passage or recording sets none
+export interface SectionTiming {
+  item?: number; // each question shown on its own
+  screen?: number; // each reading passage or listening recording with its questions
+}
+
+// How candidates may return to a section's screens, whether with Previous or from the review screen:
+// 'free' at any time, 'forward-only' never, 'locked-on-expiry' until the section's time limit has been used up
+export type NavigationPolicy = 'free' | 'forward-only' | 'locked-on-expiry';
+
+// Multistage sections open with a short routing module; the share of its points a candidate earns
+// decides whether the easier or the harder second module follows
+export type ModuleLevel = 'easier' | 'harder';
+
+export type StageModule = 'routing' | ModuleLevel;
+
+// A span of the 0-50 scale that skill scores are normalized to
+export interface ScoreRange {
+  min: number;
+  max: number;
+}
+
+export interface SectionStages {
+  threshold: number; // share of the routing module's points, from 0 to 1, that leads to the harder module
+  scales: Record<ModuleLevel, ScoreRange>; // where each path's scores land on the 0-50 scale
+}
+
+// An adaptive section treats its questions as a calibrated pool and gives each candidate the one most
+// informative at their current ability estimate, until the estimate is precise enough or enough items are given
+export interface AdaptiveSettings {
+  minItems: number;
+  maxItems: number;
+  targetStandardError: number; // logits; stop once the estimate is this precise and minItems are given
+  abilityRange: { min: number; max: number }; // the abilities in logits that map to 0 and 50 on the normalized scale
 }
 
 export interface TestSection {
   id: string;
   title: string;
-  timeLimit: number; // in minutes
+  timeLimit: number; // in minutes; the section closes when it runs out
   instructions: string;
+  timing?: SectionTiming;
+  passages?: Passage[]; // reading passages, presented in this order after the section's other questions
+  stimuli?: ListeningStimulus[]; // listening recordings, presented in this order
+  flow?: SectionFlow;
+  navigation?: NavigationPolicy; // forward-only when not set
+  stages?: SectionStages; // route candidates through a routing module to an easier or harder one
+  adaptive?: AdaptiveSettings; // select questions one at a time from the section's calibrated pool
   questions: Question[];
 }
 
+export const TEST_FORM_SCHEMA_VERSION = 1;
+
+export interface TestForm {
+  schemaVersion: number;
+  id: string;
+  title: string;
+  version: string;
+  timeLimit?: number; // minutes for the whole sitting, breaks excluded; no overall cap when not set
+  sections: TestSection[];
+}
+
+// A tagged question in the item bank; ids and section are assigned when a form is assembled
+export interface BankItem extends Omit<Question, 'id' | 'section'> {
+  itemId: string;
+  subSkill: string;
+  difficulty: number;
+  targetLevel: SEMFLevel;
+}
+
+export interface BlueprintRule {
+  label: string;
+  count: number;
+  subSkills?: string[];
+  targetLevels?: SEMFLevel[];
+  spreadBy?: 'subSkill' | 'targetLevel'; // distribute picks evenly across distinct values
+  minDistinct?: number; // e.g. 10 grammar items across at least 6 sub-skills
+}
+
+export type SectionBlueprint =
+  | { kind: 'fixed'; section: TestSection }
+  | {
+      kind: 'assembled';
+      id: string;
+      title: string;
+      timeLimit: number;
+      instructions: string;
+      timing?: SectionTiming;
+      navigation?: NavigationPolicy;
+      skill: SEMFSkill;
+      rules: BlueprintRule[];
+    };
+
+export interface FormBlueprint {
+  id: string;
+  title: string;
+  version: string;
+  seed: number; // fixed seed so the same blueprint always assembles the same form
+  timeLimit?: number; // minutes, as on TestForm
+  sections: SectionBlueprint[];
+}
+
+// A response: an option letter or free text, one entry per field, gap or matching prompt,
+// or the id of a stored recording for a speaking question
+export type AnswerValue = string | string[];
+
+export type Answers = Record<number, AnswerValue>;
+
+// Rater bands for each speaking question, keyed by question id and then by rubric criterion id
+export type SpeakingRatings = Record<number, Record<string, number>>;
+
+// A candidate's responses, tied to the form they were given so they are scored against the right key
+export interface TestSubmission {
+  formId: string;
+  answers: Answers;
+  speakingRatings?: SpeakingRatings;
+}
+
 export interface TestState {
   currentSection: number;
   currentQuestion: number;
-  answers: Record<number, string>;
+  answers: Answers;
   timeLeft: number;
   isActive: boolean;
   isComplete: boolean;
@@ -31,4 +277,61 @@ export interface StudentInfo {
   phoneNumber: string;
   level: string;
   dateOfBirth: string;
-}
\ No newline at end of file
+}
+
+// Adjustments granted to a candidate with documented needs, set by an administrator before the test starts
+export interface Accommodations {
+  timeMultiplier?: number; // e.g. 1.25 or 1.5, applied to every time limit
+  extraPlays?: number; // on top of each recording's own play limit
+  largePrint?: boolean;
+  highContrast?: boolean;
+  restBreak?: number; // seconds of rest after each section
+}
+
+// A completed sitting, kept in the browser so its speaking recordings can be rated later
+export interface TestAttempt {
+  id: string;
+  formId: string;
+  studentInfo: StudentInfo | null;
+  answers: Answers;
+  completedAt: string; // ISO timestamp
+  speakingRatings?: SpeakingRatings;
+  events?: NavigationEvent[]; // not kept for attempts saved before the log existed
+  accommodations?: Accommodations;
+}
+
+// An attempt still being sat, saved after every change so a refresh or crash can pick it up again
+export interface TestSession {
+  id: string; // the attempt id
+  formId: string;
+  studentInfo: StudentInfo | null;
+  position: number; // flow position
+  reviewing: boolean;
+  answers: Answers;
+  flagged: number[];
+  timeUsed: Record<number, number>; // seconds on each screen before the current visit, by flow position
+  screenEnteredAt: number; // Date.now() when the current visit began, so time away from the page still counts
+  playCounts: Record<string, number>; // by recording id
+  events: NavigationEvent[];
+  accommodations?: Accommodations; // not kept by sessions saved before accommodations existed
+  updatedAt: string; // ISO timestamp
+}
+
+// One move between screens of an attempt, with the policy of the section the candidate was leaving
+export interface NavigationEvent {
+  at: string; // ISO timestamp
+  type: 'next' | 'previous' | 'goTo' | 'sectionEnd' | 'end' | 'resume'; // resume: the page was reloaded mid-attempt
+  from: number; // flow positions
+  to: number | 'complete';
+  sectionId: string;
+  navigation: NavigationPolicy;
+}
+
+export interface SpeakingRecording {
+  id: string; // stored as the answer to the speaking question
+  questionId: number;
+  blob: Blob;
+  mimeType: string;
+  durationMs: number;
+  recordedAt: string; // ISO timestamp
+}
@@ -0,0 +1,85 @@
+import { Accommodations, TestForm } from '../types/test';
+import { DEFAULT_ITEM_TIME_LIMIT, getPassageTimeLimit, getRecordingTimeLimit } from './timing';
+import { en, Messages } from '../i18n/en';
+
+export type AccommodationMessages = Messages['accommodations'];
+
+export const hasAccommodations = (accommodations: Accommodations): boolean =>
+  Object.values(accommodations).some(value => value !== undefined && value !== false);
+
+const positive = (value: number | undefined): number | undefined =>
+  value !== undefined && Number.isFinite(value) && value > 0 ? value : undefined;
+
+/**
+ * Drops anything missing or out of range from what an administrator entered, so a slip of the
+ * keyboard never takes time away: a multiplier must be above 1, extra plays are whole numbers
+ * and the rest break is a positive number of seconds.
+ */
+export const cleanAccommodations = (accommodations: Accommodations): Accommodations => {
+  const timeMultiplier = positive(accommodations.timeMultiplier);
+  const extraPlays = positive(accommodations.extraPlays);
+  const restBreak = positive(accommodations.restBreak);
+  return {
+    timeMultiplier: timeMultiplier && timeMultiplier > 1 ? timeMultiplier : undefined,
+    extraPlays: extraPlays && Math.floor(extraPlays),
+    largePrint: accommodations.largePrint || undefined,
+    highContrast: accommodations.highContrast || undefined,
+    restBreak: restBreak && Math.round(restBreak)
+  };
+};
+
+/**
+ * The form as this candidate sits it: every time limit stretched by the multiplier, extra
+ * plays on each recording and a rest break after every section but the last. Defaults are
+ * resolved before stretching so that levels the form leaves out are extended too. Breaks
+ * are rest rather than test time, so the multiplier leaves them alone.
+ */
+export const applyAccommodations = (form: TestForm, accommodations: Accommodations): TestForm => {
+  if (!hasAccommodations(accommodations)) return form;
+  const { timeMultiplier = 1, extraPlays = 0, restBreak } = accommodations;
+  const stretch = (seconds: number) => Math.round(seconds * timeMultiplier);
+
+  return {
+    ...form,
+    timeLimit: form.timeLimit && form.timeLimit * timeMultiplier,
+    sections: form.sections.map((section, index) => ({
+      ...section,
+      timeLimit: section.timeLimit * timeMultiplier,
+      timing: {
+        item: stretch(section.timing?.item ?? DEFAULT_ITEM_TIME_LIMIT),
+        screen: section.timing?.screen && stretch(section.timing.screen)
+      },
+      passages: section.passages?.map(passage => ({ ...passage, timeLimit: stretch(getPassageTimeLimit(passage, section)) })),
+      stimuli: section.stimuli?.map(stimulus => ({
+        ...stimulus,
+        timeLimit: stretch(getRecordingTimeLimit(stimulus, section)),
+        playPolicy: { ...stimulus.playPolicy, maxPlays: stimulus.playPolicy.maxPlays + extraPlays }
+      })),
+      questions: section.questions.map(question => ({
+        ...question,
+        timeLimit: question.timeLimit && stretch(question.timeLimit),
+        speaking: question.speaking && {
+          ...question.speaking,
+          prepTime: stretch(question.speaking.prepTime),
+          responseTime: stretch(question.speaking.responseTime)
+        }
+      })),
+      flow:
+        restBreak && index < form.sections.length - 1
+          ? { ...section.flow, breakAfter: Math.max(section.flow?.breakAfter ?? 0, restBreak) }
+          : section.flow
+    }))
+  };
+};
+
+// One line per accommodation, for the results report and the rater dashboard
+export const describeAccommodations = (
+  { timeMultiplier, extraPlays, largePrint, highContrast, restBreak }: Accommodations,
+  text: AccommodationMessages = en.accommodations
+): string[] => [
+  ...(timeMultiplier ? [text.extraTime(timeMultiplier)] : []),
+  ...(extraPlays ? [text.extraPlays(extraPlays)] : []),
+  ...(largePrint ? [text.largePrint] : []),
+  ...(highContrast ? [text.highContrast] : []),
+  ...(restBreak ? [text.restBreaks(Math.round(restBreak / 6) / 10)] : [])
+];
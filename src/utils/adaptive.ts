@@ -0,0 +1,87 @@
+import { AdaptiveSettings, Question, TestSection } from '../types/test';
+
+// An ability estimate in logits, with its standard error and the number of responses it rests on
+export interface AbilityEstimate {
+  theta: number;
+  standardError: number;
+  items: number;
+}
+
+// The questions each section puts to the candidate, by section index: those on the route through a
+// multistage section or those an adaptive one selected; undefined where the section gives every question
+export type Paths = (Question[] | undefined)[];
+
+export interface AdaptiveResponse {
+  question: Question;
+  correct: boolean;
+}
+
+// Abilities the estimate is worked out over, in logits, and the step between them
+const THETA_MIN = -4;
+const THETA_MAX = 4;
+const THETA_STEP = 0.05;
+const THETA_GRID = Array.from(
+  { length: Math.round((THETA_MAX - THETA_MIN) / THETA_STEP) + 1 },
+  (_, index) => THETA_MIN + index * THETA_STEP
+);
+
+// Chance of a correct response at an ability under the 2PL model; the Rasch model when the item sets no slope
+export const probabilityCorrect = (theta: number, question: Question): number =>
+  1 / (1 + Math.exp(-(question.discrimination ?? 1) * (theta - (question.difficulty ?? 0))));
+
+// How much a response to the item tells about an ability near theta
+export const itemInformation = (theta: number, question: Question): number => {
+  const p = probabilityCorrect(theta, question);
+  return (question.discrimination ?? 1) ** 2 * p * (1 - p);
+};
+
+/**
+ * The expected a posteriori ability given a set of responses, with a standard normal prior so a
+ * candidate who gets everything right or wrong still has a finite estimate. The standard error is
+ * the spread of the posterior; with no responses it is the prior's, 1 logit.
+ */
+export const estimateAbility = (responses: AdaptiveResponse[]): AbilityEstimate => {
+  const weights = THETA_GRID.map(theta =>
+    responses.reduce((weight, { question, correct }) => {
+      const p = probabilityCorrect(theta, question);
+      return weight * (correct ? p : 1 - p);
+    }, Math.exp(-(theta * theta) / 2))
+  );
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  const theta = THETA_GRID.reduce((sum, value, index) => sum + value * weights[index], 0) / total;
+  const variance = THETA_GRID.reduce((sum, value, index) => sum + (value - theta) ** 2 * weights[index], 0) / total;
+  return { theta, standardError: Math.sqrt(variance), items: responses.length };
+};
+
+const isFinished = (settings: AdaptiveSettings, estimate: AbilityEstimate): boolean =>
+  estimate.items >= settings.maxItems ||
+  (estimate.items >= settings.minItems && estimate.standardError <= settings.targetStandardError);
+
+/**
+ * The questions an adaptive section gives, in order: each is the remaining pool question most
+ * informative at the ability estimated from the responses before it, the earlier one in the pool
+ * on a tie. Questions not answered yet count as wrong, so the sequence is fixed by the answers
+ * given so far and only the questions after the candidate's last answer change as they go on.
+ */
+export const getAdaptiveQuestions = (section: TestSection, isCorrect: (question: Question) => boolean): Question[] => {
+  const settings = section.adaptive;
+  if (!settings) return section.questions;
+
+  const given: AdaptiveResponse[] = [];
+  while (given.length < section.questions.length) {
+    const estimate = estimateAbility(given);
+    if (isFinished(settings, estimate)) break;
+    const remaining = section.questions.filter(question => !given.some(response => response.question === question));
+    const next = remaining.reduce((best, question) =>
+      itemInformation(estimate.theta, question) > itemInformation(estimate.theta, best) ? question : best
+    );
+    given.push({ question: next, correct: isCorrect(next) });
+  }
+  return given.map(response => response.question);
+};
+
+// Where an ability falls on the 0-50 normalized scale, held inside it at the ends of the range
+export const abilityToScale = (theta: number, settings: AdaptiveSettings): number => {
+  const { min, max } = settings.abilityRange;
+  return Math.min(Math.max(((theta - min) / (max - min)) * 50, 0), 50);
+};
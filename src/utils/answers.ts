@@ -0,0 +1,13 @@
+import { AnswerValue } from '../types/test';
+
+// The response to a single-input question (option letter, ordering or free text)
+export const getTextAnswer = (value: AnswerValue | undefined): string =>
+  typeof value === 'string' ? value : '';
+
+// The responses to a multi-field question, padded to one entry per field
+export const getFieldAnswers = (value: AnswerValue | undefined, fieldCount: number): string[] =>
+  Array.from({ length: fieldCount }, (_, index) => (Array.isArray(value) ? value[index] ?? '' : ''));
+
+// Whether the candidate has responded at all; a multi-field question counts once any field is filled in
+export const hasAnswer = (value: AnswerValue | undefined): boolean =>
+  Array.isArray(value) ? value.some(entry => entry.trim() !== '') : !!value?.trim();
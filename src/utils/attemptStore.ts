@@ -0,0 +1,97 @@
+import { Accommodations, SpeakingRecording, TestAttempt, TestSession } from '../types/test';
+
+const DB_NAME = 'semf-attempts';
+const DB_VERSION = 3;
+const ATTEMPTS = 'attempts';
+const RECORDINGS = 'recordings';
+const SESSIONS = 'sessions';
+const GRANTS = 'grants';
+const ACCOMMODATIONS_GRANT = 'accommodations';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ATTEMPTS)) db.createObjectStore(ATTEMPTS, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(RECORDINGS)) db.createObjectStore(RECORDINGS, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(SESSIONS)) db.createObjectStore(SESSIONS, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(GRANTS)) db.createObjectStore(GRANTS, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = makeRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const saveAttempt = async (attempt: TestAttempt): Promise<void> => {
+  await runRequest(ATTEMPTS, 'readwrite', store => store.put(attempt));
+};
+
+export const getAttempt = (id: string): Promise<TestAttempt | undefined> =>
+  runRequest(ATTEMPTS, 'readonly', store => store.get(id));
+
+// Completed attempts, most recent first
+export const listAttempts = async (): Promise<TestAttempt[]> => {
+  const attempts = await runRequest<TestAttempt[]>(ATTEMPTS, 'readonly', store => store.getAll());
+  return attempts.sort((a, b) => b.completedAt.localeCompare(a.completedAt));
+};
+
+export const saveRecording = async (recording: SpeakingRecording): Promise<void> => {
+  await runRequest(RECORDINGS, 'readwrite', store => store.put(recording));
+};
+
+export const getRecording = (id: string): Promise<SpeakingRecording | undefined> =>
+  runRequest(RECORDINGS, 'readonly', store => store.get(id));
+
+export const saveSession = async (session: TestSession): Promise<void> => {
+  await runRequest(SESSIONS, 'readwrite', store => store.put(session));
+};
+
+// The attempt in progress on this device, if any; the most recently saved one wins
+export const loadSession = async (): Promise<TestSession | undefined> => {
+  const sessions = await runRequest<TestSession[]>(SESSIONS, 'readonly', store => store.getAll());
+  return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0];
+};
+
+export const clearSession = async (id: string): Promise<void> => {
+  await runRequest(SESSIONS, 'readwrite', store => store.delete(id));
+};
+
+// Accommodations an administrator has granted for the next sitting on this device
+export const saveAccommodationsGrant = async (accommodations: Accommodations): Promise<void> => {
+  await runRequest(GRANTS, 'readwrite', store => store.put({ id: ACCOMMODATIONS_GRANT, accommodations }));
+};
+
+export const loadAccommodationsGrant = async (): Promise<Accommodations> => {
+  const grant = await runRequest<{ accommodations: Accommodations } | undefined>(GRANTS, 'readonly', store =>
+    store.get(ACCOMMODATIONS_GRANT)
+  );
+  return grant?.accommodations ?? {};
+};
+
+export const clearAccommodationsGrant = async (): Promise<void> => {
+  await runRequest(GRANTS, 'readwrite', store => store.delete(ACCOMMODATIONS_GRANT));
+};
@@ -0,0 +1,11 @@
+const GAP_MARKER = /\[\[(\d+)\]\]/g;
+
+/**
+ * Splits a cloze text into its literal parts and gap references. Gap markers are
+ * 1-based in the text ("[[1]]") and returned as 0-based indexes into `gaps`.
+ */
+export const splitClozeText = (text: string): Array<string | number> =>
+  text
+    .split(GAP_MARKER)
+    .map((part, index) => (index % 2 === 1 ? Number(part) - 1 : part))
+    .filter(part => part !== '');
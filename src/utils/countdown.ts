@@ -0,0 +1,62 @@
+// Milliseconds on some clock. The app reads Date.now, which unlike performance.now still means
+// something after a reload, so a resumed attempt carries on from the same deadlines.
+export type Clock = () => number;
+
+export const systemClock: Clock = () => Date.now();
+
+// A countdown kept as a deadline rather than a counter ticked down once a second, so timers that
+// a background tab or sleeping laptop fires late cannot stretch it
+export interface CountdownState {
+  limit: number; // seconds, including any extensions
+  spent: number; // milliseconds used before the current run
+  runningSince: number | null; // clock reading when the current run began; null while paused
+}
+
+export const startCountdown = (limit: number, now: number, spentSeconds = 0): CountdownState => ({
+  limit,
+  spent: spentSeconds * 1000,
+  runningSince: now
+});
+
+export const pauseCountdown = (state: CountdownState, now: number): CountdownState =>
+  state.runningSince === null ? state : { ...state, spent: getSpent(state, now), runningSince: null };
+
+export const resumeCountdown = (state: CountdownState, now: number): CountdownState =>
+  state.runningSince === null ? { ...state, runningSince: now } : state;
+
+export const extendCountdown = (state: CountdownState, seconds: number): CountdownState => ({
+  ...state,
+  limit: state.limit + seconds
+});
+
+// Milliseconds used so far; a clock reading from before the run began counts as none
+export const getSpent = (state: CountdownState, now: number): number =>
+  state.spent + (state.runningSince === null ? 0 : Math.max(0, now - state.runningSince));
+
+// Whole seconds left, rounded up so the display reaches 0 only when time has run out
+export const getTimeLeft = (state: CountdownState, now: number): number =>
+  Math.max(0, Math.ceil(state.limit - getSpent(state, now) / 1000));
+
+export const hasExpired = (state: CountdownState, now: number): boolean => getTimeLeft(state, now) === 0;
+
+// The clock reading at which the countdown runs out, or undefined while it is paused
+export const getDeadline = (state: CountdownState): number | undefined =>
+  state.runningSince === null ? undefined : state.runningSince + state.limit * 1000 - state.spent;
+
+export type CountdownEvent = 'pause' | 'resume' | 'extend' | 'expire';
+
+// What happened to a countdown between two readings of it, each taken at its own clock reading.
+// Expiry is reported once, on the first reading that finds the time run out.
+export const getCountdownEvents = (
+  previous: CountdownState | undefined,
+  previousNow: number,
+  next: CountdownState,
+  now: number
+): CountdownEvent[] => {
+  const events: CountdownEvent[] = [];
+  if (previous && previous.runningSince !== null && next.runningSince === null) events.push('pause');
+  if (previous && previous.runningSince === null && next.runningSince !== null) events.push('resume');
+  if (previous && next.limit > previous.limit) events.push('extend');
+  if (hasExpired(next, now) && !(previous && hasExpired(previous, previousNow))) events.push('expire');
+  return events;
+};
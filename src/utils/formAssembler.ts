@@ -0,0 +1,170 @@
+import {
+  BankItem,
+  BlueprintRule,
+  FormBlueprint,
+  Question,
+  SectionBlueprint,
+  TestForm,
+  TestSection,
+  TEST_FORM_SCHEMA_VERSION
+} from '../types/test';
+import { loadTestForm } from './testFormSchema';
+
+export class BlueprintAssemblyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BlueprintAssemblyError';
+  }
+}
+
+// Small deterministic PRNG (mulberry32) so a blueprint + seed always yields the same form
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+const matchesRule = (item: BankItem, rule: BlueprintRule) =>
+  (!rule.subSkills || rule.subSkills.includes(item.subSkill)) &&
+  (!rule.targetLevels || rule.targetLevels.includes(item.targetLevel));
+
+/**
+ * Picks items for one blueprint rule. With `spreadBy`, items are drawn round-robin
+ * from each distinct sub-skill or level so no single one dominates the section.
+ */
+export const selectItems = (
+  bank: BankItem[],
+  rule: BlueprintRule,
+  random: () => number,
+  exclude: Set<string> = new Set()
+): BankItem[] => {
+  const candidates = shuffle(
+    bank.filter(item => !exclude.has(item.itemId) && matchesRule(item, rule)),
+    random
+  );
+  if (candidates.length < rule.count) {
+    throw new BlueprintAssemblyError(
+      `Rule "${rule.label}" needs ${rule.count} items but the bank only has ${candidates.length} matching items`
+    );
+  }
+
+  let selected: BankItem[];
+  if (rule.spreadBy) {
+    const key = rule.spreadBy;
+    const groups = new Map<string, BankItem[]>();
+    candidates.forEach(item => {
+      groups.set(item[key], [...(groups.get(item[key]) ?? []), item]);
+    });
+
+    selected = [];
+    const queues = [...groups.values()];
+    while (selected.length < rule.count) {
+      for (const queue of queues) {
+        const next = queue.shift();
+        if (next && selected.length < rule.count) selected.push(next);
+      }
+    }
+
+    const distinct = new Set(selected.map(item => item[key])).size;
+    if (rule.minDistinct && distinct < rule.minDistinct) {
+      throw new BlueprintAssemblyError(
+        `Rule "${rule.label}" covers ${distinct} distinct ${key} values; the blueprint requires ${rule.minDistinct}`
+      );
+    }
+  } else {
+    selected = candidates.slice(0, rule.count);
+  }
+
+  // Present easier items first within each rule
+  return selected.sort((a, b) => a.difficulty - b.difficulty);
+};
+
+export const toQuestion = (item: BankItem, id: number, sectionId: string): Question => {
+  const question: Question & { itemId?: string } = { ...item, id, section: sectionId };
+  delete question.itemId;
+  return question;
+};
+
+const buildSection = (
+  blueprint: SectionBlueprint,
+  bank: BankItem[],
+  random: () => number,
+  used: Set<string>,
+  firstId: number
+): TestSection => {
+  if (blueprint.kind === 'fixed') {
+    // Renumber the questions and keep anything that links to them by id pointing at the new ids
+    const newIds = new Map(blueprint.section.questions.map((question, index) => [question.id, firstId + index]));
+    const renumber = (id: number) => newIds.get(id) ?? id;
+    return {
+      ...blueprint.section,
+      stimuli: blueprint.section.stimuli?.map(stimulus => ({
+        ...stimulus,
+        questionIds: stimulus.questionIds.map(renumber)
+      })),
+      questions: blueprint.section.questions.map(question => ({ ...question, id: renumber(question.id) }))
+    };
+  }
+
+  const items: BankItem[] = [];
+  blueprint.rules.forEach(rule => {
+    const picked = selectItems(
+      bank.filter(item => item.skill === blueprint.skill),
+      rule,
+      random,
+      used
+    );
+    picked.forEach(item => used.add(item.itemId));
+    items.push(...picked);
+  });
+
+  return {
+    id: blueprint.id,
+    title: blueprint.title,
+    timeLimit: blueprint.timeLimit,
+    instructions: blueprint.instructions,
+    ...(blueprint.timing ? { timing: blueprint.timing } : {}),
+    ...(blueprint.navigation ? { navigation: blueprint.navigation } : {}),
+    questions: items.map((item, index) => toQuestion(item, firstId + index, blueprint.id))
+  };
+};
+
+/**
+ * Builds a complete, validated test form from a blueprint. Question ids are
+ * numbered sequentially across the whole form, so nobody has to hand-edit them.
+ */
+export const assembleForm = (blueprint: FormBlueprint, bank: BankItem[]): TestForm => {
+  const random = createSeededRandom(blueprint.seed);
+  const used = new Set<string>();
+  const sections: TestSection[] = [];
+  let nextId = 1;
+
+  blueprint.sections.forEach(sectionBlueprint => {
+    const section = buildSection(sectionBlueprint, bank, random, used, nextId);
+    nextId += section.questions.length;
+    sections.push(section);
+  });
+
+  return loadTestForm({
+    schemaVersion: TEST_FORM_SCHEMA_VERSION,
+    id: blueprint.id,
+    title: blueprint.title,
+    version: blueprint.version,
+    ...(blueprint.timeLimit ? { timeLimit: blueprint.timeLimit } : {}),
+    sections
+  });
+};
@@ -0,0 +1,72 @@
+import { TestForm } from '../types/test';
+import { checkFormLink } from './staffAccess';
+
+export type FormAssignmentStrategy = 'random' | 'round-robin' | 'admin';
+
+export interface FormAssignmentOptions {
+  strategy: FormAssignmentStrategy;
+  adminFormId?: string; // required for the 'admin' strategy
+}
+
+const ROTATION_STORAGE_KEY = 'semf-form-rotation';
+
+const nextRotationIndex = (formCount: number): number => {
+  try {
+    const last = parseInt(localStorage.getItem(ROTATION_STORAGE_KEY) ?? '-1', 10);
+    const next = Number.isNaN(last) ? 0 : (last + 1) % formCount;
+    localStorage.setItem(ROTATION_STORAGE_KEY, String(next));
+    return next;
+  } catch {
+    // Storage can be unavailable (private mode); fall back to the first form
+    return 0;
+  }
+};
+
+/**
+ * Picks the form a candidate will sit. Round-robin rotates through the forms on
+ * this device, so it suits a shared exam-room machine; random suits remote candidates.
+ */
+export const assignTestForm = (
+  forms: TestForm[],
+  { strategy, adminFormId }: FormAssignmentOptions,
+  random: () => number = Math.random
+): TestForm => {
+  if (forms.length === 0) {
+    throw new Error('No test forms available to assign');
+  }
+
+  switch (strategy) {
+    case 'admin': {
+      const form = forms.find(f => f.id === adminFormId);
+      if (!form) {
+        throw new Error(`Test form "${adminFormId}" chosen by the administrator does not exist`);
+      }
+      return form;
+    }
+    case 'round-robin':
+      return forms[nextRotationIndex(forms.length)];
+    case 'random':
+    default:
+      return forms[Math.floor(random() * forms.length)];
+  }
+};
+
+/**
+ * Reads the assignment policy from the page URL, e.g. `?assign=round-robin`. Defaults to random
+ * assignment. An administrator's choice such as `?form=semf-core-b&sig=...` only counts when staff
+ * signed it with `npm run staff -- link`; otherwise a candidate could pick their own form.
+ */
+export const getAssignmentFromUrl = async (
+  search: string = window.location.search,
+  publicKey: string | undefined = import.meta.env.VITE_FORM_LINK_PUBLIC_KEY
+): Promise<FormAssignmentOptions> => {
+  const params = new URLSearchParams(search);
+  const adminFormId = params.get('form');
+  if (adminFormId) {
+    if (publicKey && (await checkFormLink(adminFormId, params.get('sig') ?? '', publicKey))) {
+      return { strategy: 'admin', adminFormId };
+    }
+    console.warn(`Ignoring the form "${adminFormId}" in the link: it was not signed by staff`);
+  }
+  return { strategy: params.get('assign') === 'round-robin' ? 'round-robin' : 'random' };
+};
@@ -0,0 +1,196 @@
+import {
+  ListeningStimulus,
+  NavigationPolicy,
+  Passage,
+  Question,
+  SectionStages,
+  SEMFSkill,
+  StageModule,
+  TestForm,
+  TestSection,
+  TEST_FORM_SCHEMA_VERSION
+} from '../types/test';
+import { loadTestForm, TestFormValidationError } from './testFormSchema';
+import { semfSpeakingRubric } from '../data/speakingRubric';
+
+export const QUESTION_TYPE_LABELS: Record<Question['type'], string> = {
+  'multiple-choice': 'Multiple choice',
+  'true-false-not-given': 'True / False / Not Given',
+  'text': 'Short answer',
+  'multi-field': 'Multi-field short answer',
+  'essay': 'Essay',
+  'sentence-ordering': 'Sentence ordering',
+  'gap-fill': 'Gap fill (cloze)',
+  'matching': 'Matching',
+  'note-completion': 'Note completion',
+  'dictation': 'Dictation',
+  'speaking': 'Speaking task'
+};
+
+export const SKILL_LABELS: Record<SEMFSkill, string> = {
+  GrammarVocabulary: 'Grammar & Vocabulary',
+  ReadingWriting: 'Reading & Writing',
+  Listening: 'Listening',
+  Speaking: 'Speaking'
+};
+
+export const NAVIGATION_LABELS: Record<NavigationPolicy, string> = {
+  'forward-only': 'Forward only',
+  'free': 'Free within the section',
+  'locked-on-expiry': 'Free until the section time runs out'
+};
+
+export const MODULE_LABELS: Record<StageModule, string> = {
+  routing: 'Routing module',
+  easier: 'Easier module',
+  harder: 'Harder module'
+};
+
+// Starting point for a new multistage section: the harder module from 60% of the routing points,
+// with the two paths overlapping on the S2-S3 part of the scale
+const DEFAULT_STAGES: SectionStages = {
+  threshold: 0.6,
+  scales: { easier: { min: 0, max: 33 }, harder: { min: 16, max: 50 } }
+};
+
+// Turns stages on with every question in the routing module to begin with, or off with the module tags cleared
+export const setStages = (section: TestSection, enabled: boolean): TestSection => ({
+  ...section,
+  stages: enabled ? DEFAULT_STAGES : undefined,
+  questions: section.questions.map(question => ({ ...question, module: enabled ? question.module ?? 'routing' : undefined }))
+});
+
+export const optionLetter = (index: number): string => String.fromCharCode(65 + index);
+
+// The type-specific parts of a question, reset whenever its type changes
+type QuestionContent = Pick<Question, 'options' | 'ordering' | 'fields' | 'cloze' | 'matching' | 'speaking' | 'answerKey'>;
+
+const blankContent = (type: Question['type']): QuestionContent => {
+  switch (type) {
+    case 'multiple-choice':
+      return { options: [], answerKey: { method: 'exact', value: 'A' } };
+    case 'true-false-not-given':
+      return { answerKey: { method: 'exact', value: 'True' } };
+    case 'text':
+      return { answerKey: { method: 'keywords', keywords: [], minMatches: 1, minLength: 1 } };
+    case 'essay':
+      return { answerKey: { method: 'essay', minWords: 50, maxWords: 150, anyOf: [] } };
+    case 'multi-field':
+      return { fields: [], answerKey: { method: 'fields', accept: [], distinct: true } };
+    case 'note-completion':
+      return { fields: [], answerKey: { method: 'tolerant', accept: [] } };
+    case 'dictation':
+      return { answerKey: { method: 'dictation', text: '' } };
+    case 'sentence-ordering':
+      return {
+        ordering: { topic: '', firstSentence: '', sentences: [] },
+        answerKey: { method: 'ordering', sequence: [] }
+      };
+    case 'gap-fill':
+      return { cloze: { text: '', gaps: [] }, answerKey: { method: 'gaps', accept: [] } };
+    case 'matching':
+      return {
+        matching: { promptLabel: 'Paragraph', prompts: [], optionLabel: 'Heading', options: [] },
+        answerKey: { method: 'matching', pairs: [] }
+      };
+    case 'speaking':
+      return {
+        speaking: { prepTime: 30, responseTime: 60 },
+        answerKey: { method: 'rubric', rubricId: semfSpeakingRubric.id }
+      };
+  }
+};
+
+export const createQuestion = (id: number, type: Question['type'], section: string, skill: SEMFSkill): Question => ({
+  id,
+  question: '',
+  type,
+  section,
+  skill,
+  points: type === 'speaking' ? 5 : 1,
+  ...blankContent(type)
+});
+
+// Keeps the question's identity, stem and scoring weight but starts its content and key afresh
+export const changeQuestionType = (question: Question, type: Question['type']): Question => ({
+  id: question.id,
+  question: question.question,
+  type,
+  section: question.section,
+  passageId: question.passageId,
+  module: question.module,
+  subSkill: question.subSkill,
+  difficulty: question.difficulty,
+  targetLevel: question.targetLevel,
+  skill: question.skill,
+  points: question.points,
+  ...blankContent(type)
+});
+
+export const createBlankSection = (index: number): TestSection => ({
+  id: `section-${index + 1}`,
+  title: `Section ${index + 1}`,
+  timeLimit: 10,
+  instructions: '',
+  questions: []
+});
+
+export const createBlankPassage = (index: number): Passage => ({
+  id: `passage-${index + 1}`,
+  title: '',
+  body: ''
+});
+
+export const createBlankStimulus = (index: number): ListeningStimulus => ({
+  id: `recording-${index + 1}`,
+  title: '',
+  audioFile: '/audio/',
+  description: '',
+  playPolicy: { maxPlays: 2, revealQuestionsAfterPlay: false },
+  questionIds: []
+});
+
+export const createBlankForm = (): TestForm => ({
+  schemaVersion: TEST_FORM_SCHEMA_VERSION,
+  id: 'new-form',
+  title: 'New SEMF Form',
+  version: '1.0',
+  sections: [createBlankSection(0)]
+});
+
+export const nextQuestionId = (form: TestForm): number =>
+  form.sections.reduce((max, section) => Math.max(max, ...section.questions.map(question => question.id)), 0) + 1;
+
+export const findStimulusFor = (section: TestSection, questionId: number): ListeningStimulus | undefined =>
+  section.stimuli?.find(stimulus => stimulus.questionIds.includes(questionId));
+
+// Moves a question to a different recording of its section, or out of all of them
+export const assignToStimulus = (section: TestSection, questionId: number, stimulusId: string | null): TestSection => ({
+  ...section,
+  stimuli: section.stimuli?.map(stimulus => {
+    const questionIds = stimulus.questionIds.filter(id => id !== questionId);
+    return { ...stimulus, questionIds: stimulus.id === stimulusId ? [...questionIds, questionId] : questionIds };
+  })
+});
+
+export const removeQuestion = (section: TestSection, questionId: number): TestSection => ({
+  ...assignToStimulus(section, questionId, null),
+  questions: section.questions.filter(question => question.id !== questionId)
+});
+
+// Lists what the runtime loader would reject, so the studio can show it before export
+export const getFormIssues = (form: TestForm): string[] => {
+  try {
+    loadTestForm(form);
+    return [];
+  } catch (error) {
+    if (error instanceof TestFormValidationError) return error.issues;
+    throw error;
+  }
+};
+
+/**
+ * Serializes a draft as a form file that `loadTestForm` accepts.
+ * Throws a TestFormValidationError when the draft is not ready to export.
+ */
+export const exportTestForm = (form: TestForm): string => `${JSON.stringify(loadTestForm(form), null, 2)}\n`;
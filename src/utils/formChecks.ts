@@ -0,0 +1,153 @@
+import { ModuleLevel, Question, SEMFSkill, TestForm } from '../types/test';
+import { loadTestForm, TestFormValidationError } from './testFormSchema';
+import { SEMFInput, SEMFScoringEngine } from './semfScoring';
+import { buildSectionScreens, getScreenTimeLimit } from './testFlow';
+import { getSectionTimeLimit } from './timing';
+import { getPathQuestions } from './multistage';
+
+// Skills the overall level and its tie-breaker are computed from; each needs points to score against
+const SCORED_SKILLS: SEMFSkill[] = ['GrammarVocabulary', 'ReadingWriting', 'Listening'];
+
+const AUDIO_PREFIX = '/audio/';
+
+export interface PathTotal {
+  route: ModuleLevel;
+  questions: number;
+  points: number;
+}
+
+export interface SectionTotal {
+  sectionId: string;
+  questions: number;
+  points: number;
+  skills: SEMFSkill[];
+  paths?: PathTotal[]; // what each route through a multistage section adds up to
+  adaptive?: { minItems: number; maxItems: number }; // how many of an adaptive section's bank a candidate is given
+}
+
+export interface FormCheckReport {
+  formId: string;
+  errors: string[];
+  warnings: string[];
+  sections: SectionTotal[];
+  // The denominators scoring will use, counting every module of a multistage section and the whole bank of an
+  // adaptive one although its skills are placed by the ability estimate; null when the form failed the schema
+  maxScores: SEMFInput | null;
+}
+
+export interface FormCheckOptions {
+  // Whether a stimulus audio path such as '/audio/travel-report.mp3' exists; the audio check is skipped without it
+  audioExists?: (audioFile: string) => boolean;
+}
+
+const checkAudio = (form: TestForm, audioExists: (audioFile: string) => boolean, errors: string[]) => {
+  form.sections.forEach(section => {
+    section.stimuli?.forEach(stimulus => {
+      const label = `Stimulus "${stimulus.id}"`;
+      if (!stimulus.audioFile.startsWith(AUDIO_PREFIX)) {
+        errors.push(`${label}: audio file "${stimulus.audioFile}" is not under ${AUDIO_PREFIX}`);
+      } else if (!audioExists(stimulus.audioFile)) {
+        errors.push(`${label}: audio file "${stimulus.audioFile}" does not exist`);
+      }
+    });
+  });
+};
+
+const sumPoints = (questions: Question[]) => questions.reduce((sum, question) => sum + question.points, 0);
+
+const getSectionTotals = (form: TestForm): SectionTotal[] =>
+  form.sections.map(section => ({
+    sectionId: section.id,
+    questions: section.questions.length,
+    points: sumPoints(section.questions),
+    skills: [...new Set(section.questions.map(question => question.skill))],
+    ...(section.stages && {
+      paths: (['easier', 'harder'] as const).map(route => {
+        const questions = getPathQuestions(section, route);
+        return { route, questions: questions.length, points: sumPoints(questions) };
+      })
+    }),
+    ...(section.adaptive && {
+      adaptive: { minItems: section.adaptive.minItems, maxItems: section.adaptive.maxItems }
+    })
+  }));
+
+// Scoring groups points by each question's skill, so sections and skills have to line up
+const checkTotals = (sections: SectionTotal[], maxScores: SEMFInput, errors: string[], warnings: string[]) => {
+  SCORED_SKILLS.filter(skill => maxScores[skill] <= 0).forEach(skill =>
+    errors.push(`no questions score ${skill}, so every candidate would be placed at S1 for it`)
+  );
+  sections
+    .filter(section => section.skills.length > 1)
+    .forEach(section =>
+      warnings.push(`${section.sectionId}: questions are scored under ${section.skills.join(', ')}, so the section total (${section.points}) is split across skills`)
+    );
+  sections
+    .filter(section => section.questions === 0)
+    .forEach(section => warnings.push(`${section.sectionId}: section has no questions`));
+};
+
+// Screens that may use more time between them than their section allows leave the last ones unseen when a
+// candidate takes the full time on the first; a multistage section is checked along each of its routes, and
+// an adaptive one on the longest items it could give
+const checkScreenTime = (form: TestForm, warnings: string[]) => {
+  form.sections.forEach((section, index) => {
+    const sectionLimit = getSectionTimeLimit(section);
+    if (sectionLimit === undefined) return;
+    const screenTime = Math.max(
+      ...(section.stages ? (['easier', 'harder'] as const) : [undefined]).map(route => {
+        const limits = buildSectionScreens(section, index, true, route && getPathQuestions(section, route)).map(
+          screen => getScreenTimeLimit(screen) ?? 0
+        );
+        const counted = section.adaptive ? limits.sort((a, b) => b - a).slice(0, section.adaptive.maxItems) : limits;
+        return counted.reduce((total, limit) => total + limit, 0);
+      })
+    );
+    if (screenTime > sectionLimit) {
+      warnings.push(`${section.id}: its screens allow ${screenTime}s between them but the section closes after ${sectionLimit}s`);
+    }
+  });
+};
+
+// A multistage section puts its skills on the scale of the module taken, which would also stretch
+// the points any other section scores under the same skill, and an adaptive section places its skills
+// by the ability estimate alone, which would leave them out
+const checkStages = (form: TestForm, errors: string[]) => {
+  form.sections
+    .filter(section => section.stages || section.adaptive)
+    .forEach(section => {
+      const kind = section.stages ? 'multistage' : 'adaptive';
+      const skills = new Set(section.questions.map(question => question.skill));
+      form.sections
+        .filter(other => other !== section && other.questions.some(question => skills.has(question.skill)))
+        .forEach(other => errors.push(`${other.id}: scores a skill of the ${kind} section "${section.id}"`));
+    });
+};
+
+/**
+ * Checks a form's content beyond what the runtime loader needs: the schema (ids, keys, option
+ * ranges, ordering permutations), that its recordings exist, that each section's screens fit
+ * in its time limit, and that its section totals agree with the denominators the scoring engine
+ * divides by. The content checks run once the form passes the schema.
+ */
+export const checkTestForm = (raw: unknown, options: FormCheckOptions = {}): FormCheckReport => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  let form: TestForm;
+  try {
+    form = loadTestForm(raw);
+  } catch (error) {
+    if (!(error instanceof TestFormValidationError)) throw error;
+    return { formId: error.formId, errors: error.issues, warnings, sections: [], maxScores: null };
+  }
+
+  if (options.audioExists) checkAudio(form, options.audioExists, errors);
+  const sections = getSectionTotals(form);
+  const maxScores = SEMFScoringEngine.getMaxScores(form.sections);
+  checkTotals(sections, maxScores, errors, warnings);
+  checkScreenTime(form, warnings);
+  checkStages(form, errors);
+
+  return { formId: form.id, errors, warnings, sections, maxScores };
+};
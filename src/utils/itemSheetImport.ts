@@ -0,0 +1,209 @@
+import { Question, SEMFLevel, SEMFSkill, TestForm, TestSection } from '../types/test';
+import { GRAMMAR_SUB_SKILLS, VOCABULARY_SUB_SKILLS } from '../data/itemBank';
+import { nextQuestionId, optionLetter } from './formAuthoring';
+import { SheetRows } from './spreadsheet';
+
+const LEVELS: SEMFLevel[] = ['S1', 'S2', 'S3', 'S4', 'S5'];
+const OPTION_COUNT = 4;
+const KNOWN_SUB_SKILLS = [...GRAMMAR_SUB_SKILLS, ...VOCABULARY_SUB_SKILLS];
+
+// Header spellings item writers use, compared without case, spaces or punctuation
+const COLUMNS = {
+  stem: ['stem', 'question', 'item'],
+  A: ['a', 'optiona'],
+  B: ['b', 'optionb'],
+  C: ['c', 'optionc'],
+  D: ['d', 'optiond'],
+  key: ['key', 'answer', 'correct', 'correctanswer'],
+  subSkill: ['subskill'],
+  level: ['level', 'targetlevel', 'semflevel'],
+  difficulty: ['difficulty', 'logit'],
+  points: ['points', 'score']
+};
+
+type Column = keyof typeof COLUMNS;
+
+const REQUIRED_COLUMNS: Column[] = ['stem', 'A', 'B', 'C', 'D', 'key'];
+
+export interface SheetIssue {
+  row: number; // spreadsheet row number, counting the header as row 1
+  message: string;
+}
+
+// An item read from a sheet; its id is given when it is applied to a form
+export interface SheetItem {
+  row: number;
+  question: Omit<Question, 'id' | 'section'>;
+}
+
+export interface ItemSheet {
+  items: SheetItem[];
+  errors: SheetIssue[];
+  warnings: SheetIssue[];
+}
+
+export interface ItemUpdate {
+  before: Question;
+  after: Question;
+  changes: string[];
+}
+
+export interface ItemSheetDiff {
+  added: SheetItem[];
+  updated: ItemUpdate[];
+  unchanged: Question[];
+  untouched: Question[]; // questions in the section that the sheet does not mention; they are kept
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z]/g, '');
+
+// Stems match regardless of case and spacing, so a re-exported sheet finds the items it came from
+export const normalizeStem = (stem: string) => stem.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const findColumns = (header: string[]): Partial<Record<Column, number>> =>
+  Object.fromEntries(
+    (Object.keys(COLUMNS) as Column[])
+      .map(column => [column, header.findIndex(cell => COLUMNS[column].includes(normalizeHeader(cell)))] as const)
+      .filter(([, index]) => index >= 0)
+  );
+
+/**
+ * Reads multiple-choice items from a sheet with a header row: stem, options A–D and key, plus
+ * optional sub-skill, level, difficulty and points columns. Rows with problems are reported by
+ * row number and left out of `items`.
+ */
+export const parseItemSheet = (rows: SheetRows, skill: SEMFSkill): ItemSheet => {
+  const errors: SheetIssue[] = [];
+  const warnings: SheetIssue[] = [];
+  const items: SheetItem[] = [];
+
+  const headerIndex = rows.findIndex(row => row.some(cell => cell.trim() !== ''));
+  const columns = findColumns(headerIndex >= 0 ? rows[headerIndex] : []);
+  const missing = REQUIRED_COLUMNS.filter(column => columns[column] === undefined);
+  if (headerIndex < 0 || missing.length > 0) {
+    errors.push({ row: headerIndex + 1, message: `the header row needs ${missing.join(', ')} columns` });
+    return { items, errors, warnings };
+  }
+
+  const stemRows = new Map<string, number>();
+  rows.slice(headerIndex + 1).forEach((cells, offset) => {
+    const row = headerIndex + offset + 2;
+    const cell = (column: Column) => {
+      const index = columns[column];
+      return index === undefined ? '' : (cells[index] ?? '').trim();
+    };
+    if (cells.every(value => value.trim() === '')) return;
+
+    const rowErrors: string[] = [];
+    const stem = cell('stem');
+    const options = (['A', 'B', 'C', 'D'] as const).map(cell);
+    const key = cell('key').toUpperCase();
+    const level = cell('level').toUpperCase();
+    const difficulty = cell('difficulty');
+    const points = cell('points');
+    const subSkill = cell('subSkill').toLowerCase().replace(/\s+/g, '-');
+
+    if (!stem) rowErrors.push('no stem');
+    const given = options.filter(option => option !== '').length;
+    if (given < OPTION_COUNT) {
+      const blank = options.map((option, index) => (option ? null : optionLetter(index))).filter(Boolean);
+      rowErrors.push(`${given} options; option ${blank.join(', ')} is empty`);
+    }
+    if (!key) rowErrors.push('no key');
+    else if (!/^[A-D]$/.test(key)) rowErrors.push(`key "${cell('key')}" is not one of A-D`);
+    if (level && !LEVELS.includes(level as SEMFLevel)) rowErrors.push(`level "${cell('level')}" is not one of ${LEVELS.join(', ')}`);
+    if (difficulty && !Number.isFinite(Number(difficulty))) rowErrors.push(`difficulty "${difficulty}" is not a number`);
+    if (points && !(Number(points) > 0)) rowErrors.push(`points "${points}" is not a positive number`);
+
+    const firstRow = stemRows.get(normalizeStem(stem));
+    if (stem && firstRow !== undefined) rowErrors.push(`same stem as row ${firstRow}`);
+    else if (stem) stemRows.set(normalizeStem(stem), row);
+
+    if (rowErrors.length > 0) {
+      rowErrors.forEach(message => errors.push({ row, message }));
+      return;
+    }
+    if (subSkill && !KNOWN_SUB_SKILLS.includes(subSkill)) {
+      warnings.push({ row, message: `sub-skill "${subSkill}" is not one the item bank uses` });
+    }
+    if (!level) warnings.push({ row, message: 'no level, so blueprint assembly cannot place this item' });
+
+    items.push({
+      row,
+      question: {
+        question: stem,
+        options,
+        type: 'multiple-choice',
+        ...(subSkill ? { subSkill } : {}),
+        ...(difficulty ? { difficulty: Number(difficulty) } : {}),
+        ...(level ? { targetLevel: level as SEMFLevel } : {}),
+        skill,
+        points: points ? Number(points) : 1,
+        answerKey: { method: 'exact', value: key }
+      }
+    });
+  });
+
+  return { items, errors, warnings };
+};
+
+const describeChanges = (before: Question, after: Question): string[] => {
+  const changes: string[] = [];
+  const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+  if (before.question !== after.question) changes.push('stem wording');
+  if (!same(before.options, after.options)) changes.push('options');
+  if (!same(before.answerKey, after.answerKey)) changes.push('key');
+  if (before.subSkill !== after.subSkill) changes.push('sub-skill');
+  if (before.targetLevel !== after.targetLevel) changes.push('level');
+  if (before.difficulty !== after.difficulty) changes.push('difficulty');
+  if (before.points !== after.points) changes.push('points');
+  return changes;
+};
+
+/**
+ * Compares sheet items with a section's questions by stem. A matching question is updated in
+ * place and keeps its id; any other item is added at the end of the section.
+ */
+export const diffItemSheet = (section: TestSection, items: SheetItem[]): ItemSheetDiff => {
+  const byStem = new Map(section.questions.map(question => [normalizeStem(question.question), question]));
+  const diff: ItemSheetDiff = { added: [], updated: [], unchanged: [], untouched: [] };
+  const matched = new Set<number>();
+
+  items.forEach(item => {
+    const before = byStem.get(normalizeStem(item.question.question));
+    if (!before) {
+      diff.added.push(item);
+      return;
+    }
+    matched.add(before.id);
+    // Content the sheet has no column for, such as a passage link, stays as it was
+    const after: Question = {
+      ...before,
+      ...item.question,
+      subSkill: item.question.subSkill ?? before.subSkill,
+      difficulty: item.question.difficulty ?? before.difficulty,
+      targetLevel: item.question.targetLevel ?? before.targetLevel
+    };
+    const changes = describeChanges(before, after);
+    if (changes.length > 0) diff.updated.push({ before, after, changes });
+    else diff.unchanged.push(before);
+  });
+
+  diff.untouched = section.questions.filter(question => !matched.has(question.id));
+  return diff;
+};
+
+export const applyItemSheet = (form: TestForm, sectionId: string, diff: ItemSheetDiff): TestForm => {
+  let id = nextQuestionId(form);
+  const updates = new Map(diff.updated.map(update => [update.before.id, update.after]));
+  const added: Question[] = diff.added.map(item => ({ ...item.question, id: id++, section: sectionId }));
+
+  return {
+    ...form,
+    sections: form.sections.map(section =>
+      section.id === sectionId
+        ? { ...section, questions: [...section.questions.map(question => updates.get(question.id) ?? question), ...added] }
+        : section
+    )
+  };
+};
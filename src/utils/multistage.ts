@@ -0,0 +1,21 @@
+import { ModuleLevel, Question, SectionStages, StageModule, TestSection } from '../types/test';
+
+// The second-stage module each section leads to, by section index; undefined for linear sections
+export type Routes = (ModuleLevel | undefined)[];
+
+export const getModuleQuestions = (section: TestSection, module: StageModule): Question[] =>
+  section.questions.filter(question => question.module === module);
+
+// The harder module from the threshold up, so a candidate exactly on it is given the benefit
+export const chooseModule = (stages: SectionStages, points: number, maxPoints: number): ModuleLevel =>
+  maxPoints > 0 && points / maxPoints >= stages.threshold ? 'harder' : 'easier';
+
+/**
+ * The questions a candidate meets in a section: the routing module followed by the module it
+ * led to. Linear sections, and staged ones when no route is given (e.g. when previewing a form
+ * being authored), keep every question.
+ */
+export const getPathQuestions = (section: TestSection, route?: ModuleLevel): Question[] =>
+  section.stages && route
+    ? [...getModuleQuestions(section, 'routing'), ...getModuleQuestions(section, route)]
+    : section.questions;
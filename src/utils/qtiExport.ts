@@ -0,0 +1,389 @@
+import { strToU8, zipSync } from 'fflate';
+import { Passage, Question, TestForm, TestSection, TRUE_FALSE_NOT_GIVEN } from '../types/test';
+import { el, qti, QtiVersion, serializeXml, XmlElement, XmlNode } from './qtiXml';
+import { splitClozeText } from './cloze';
+import { optionLetter } from './formAuthoring';
+import {
+  AUDIO_DIR,
+  BODY_CLASSES,
+  isSemfOnlyKey,
+  ItemMetadata,
+  itemIdentifier,
+  MANIFEST_FILE,
+  MAP_RESPONSE_TEMPLATE,
+  MATCH_CORRECT_TEMPLATE,
+  QTI_NAMESPACES,
+  RESOURCE_TYPES,
+  responseIdentifier,
+  SEMF_METADATA_NAMESPACE,
+  TEST_FILE,
+  TestMetadata,
+  TFNG_IDENTIFIERS
+} from './qtiPackage';
+
+export interface QtiExportOptions {
+  version: QtiVersion;
+  // Contents of a stimulus audio file such as '/audio/travel-report.mp3', or undefined when it is missing
+  readAudio: (audioFile: string) => Uint8Array | undefined;
+}
+
+export interface QtiExportResult {
+  zip: Uint8Array;
+  warnings: string[];
+}
+
+interface ItemParts {
+  declarations: XmlElement[];
+  body: XmlNode[];
+  template?: 'match' | 'map';
+}
+
+const basename = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+const audioPath = (audioFile: string) => `${AUDIO_DIR}/${basename(audioFile)}`;
+const passagePath = (passage: Passage, version: QtiVersion) => `passages/${passage.id}.${version === '3.0' ? 'xml' : 'html'}`;
+const passageIdentifier = (passage: Passage) => `passage-${passage.id}`;
+
+const values = (list: string[]) => list.map(value => qti('value', {}, [value]));
+
+const response = (
+  identifier: string,
+  cardinality: 'single' | 'multiple' | 'ordered',
+  baseType: 'identifier' | 'string' | 'pair' | 'file',
+  correct: string[] = [],
+  mapping: string[] = []
+) =>
+  qti('responseDeclaration', { identifier, cardinality, baseType }, [
+    ...(correct.length > 0 ? [qti('correctResponse', {}, values(correct))] : []),
+    ...(mapping.length > 0
+      ? [qti('mapping', { defaultValue: 0 }, mapping.map(mapKey => qti('mapEntry', { mapKey, mappedValue: 1, caseSensitive: false })))]
+      : [])
+  ]);
+
+const stem = (question: Question) => el('div', { class: BODY_CLASSES.stem }, [question.question]);
+const prompt = (question: Question) => qti('prompt', {}, [question.question]);
+
+const labelledEntries = (question: Question) =>
+  (question.fields ?? []).map((field, index) =>
+    el('p', {}, [
+      el('span', { class: BODY_CLASSES.fieldLabel }, [field.label]),
+      ' ',
+      qti('textEntryInteraction', { responseIdentifier: responseIdentifier(index), placeholderText: field.placeholder })
+    ])
+  );
+
+// Maps each SEMF question type onto the closest standard interaction
+const buildInteraction = (question: Question): ItemParts => {
+  const key = question.answerKey;
+  switch (question.type) {
+    case 'multiple-choice': {
+      const options = question.options ?? [];
+      return {
+        declarations: [response('RESPONSE', 'single', 'identifier', key.method === 'exact' ? [key.value.toUpperCase()] : [])],
+        body: [
+          qti('choiceInteraction', { responseIdentifier: 'RESPONSE', shuffle: false, maxChoices: 1 }, [
+            prompt(question),
+            ...options.map((option, index) => qti('simpleChoice', { identifier: optionLetter(index) }, [option]))
+          ])
+        ],
+        template: 'match'
+      };
+    }
+
+    case 'true-false-not-given': {
+      const correct = key.method === 'exact' ? TFNG_IDENTIFIERS[TRUE_FALSE_NOT_GIVEN.findIndex(value => value === key.value)] : undefined;
+      return {
+        declarations: [response('RESPONSE', 'single', 'identifier', correct ? [correct] : [])],
+        body: [
+          qti('choiceInteraction', { responseIdentifier: 'RESPONSE', shuffle: false, maxChoices: 1 }, [
+            prompt(question),
+            ...TRUE_FALSE_NOT_GIVEN.map((label, index) => qti('simpleChoice', { identifier: TFNG_IDENTIFIERS[index] }, [label]))
+          ])
+        ],
+        template: 'match'
+      };
+    }
+
+    case 'sentence-ordering': {
+      const ordering = question.ordering ?? { topic: '', firstSentence: '', sentences: [] };
+      return {
+        declarations: [response('RESPONSE', 'ordered', 'identifier', key.method === 'ordering' ? key.sequence : [])],
+        body: [
+          ...(ordering.topic ? [el('p', { class: BODY_CLASSES.topic }, [ordering.topic])] : []),
+          el('p', { class: BODY_CLASSES.firstSentence }, [ordering.firstSentence]),
+          qti('orderInteraction', { responseIdentifier: 'RESPONSE', shuffle: false }, [
+            prompt(question),
+            ...ordering.sentences.map(sentence => qti('simpleChoice', { identifier: sentence.letter }, [sentence.text]))
+          ]),
+          ...(ordering.lastSentence ? [el('p', { class: BODY_CLASSES.lastSentence }, [ordering.lastSentence])] : [])
+        ],
+        template: 'match'
+      };
+    }
+
+    case 'matching': {
+      const matching = question.matching ?? { promptLabel: '', prompts: [], optionLabel: '', options: [] };
+      const pairs = key.method === 'matching' ? key.pairs : [];
+      return {
+        declarations: [
+          response('RESPONSE', 'multiple', 'pair', pairs.map((letter, index) => `PROMPT_${index + 1} OPTION_${letter}`))
+        ],
+        body: [
+          qti('associateInteraction', { responseIdentifier: 'RESPONSE', shuffle: false, maxAssociations: matching.prompts.length }, [
+            prompt(question),
+            ...matching.prompts.map((text, index) => qti('simpleAssociableChoice', { identifier: `PROMPT_${index + 1}`, matchMax: 1 }, [text])),
+            ...matching.options.map((text, index) =>
+              qti('simpleAssociableChoice', { identifier: `OPTION_${optionLetter(index)}`, matchMax: matching.prompts.length }, [text])
+            )
+          ])
+        ],
+        template: 'match'
+      };
+    }
+
+    case 'gap-fill': {
+      const cloze = question.cloze ?? { text: '', gaps: [] };
+      const accept = key.method === 'gaps' ? key.accept : [];
+      const choiceId = (gapIndex: number, optionIndex: number) => `GAP_${gapIndex + 1}_${optionLetter(optionIndex)}`;
+      return {
+        declarations: cloze.gaps.map(({ options }, index) => {
+          const answers = accept[index] ?? [];
+          return options
+            ? response(responseIdentifier(index), 'single', 'identifier', answers.map(answer => choiceId(index, options.indexOf(answer))))
+            : response(responseIdentifier(index), 'single', 'string', answers.slice(0, 1), answers);
+        }),
+        body: [
+          stem(question),
+          el(
+            'div',
+            { class: BODY_CLASSES.cloze },
+            splitClozeText(cloze.text).map(part => {
+              if (typeof part === 'string') return part;
+              const options = cloze.gaps[part]?.options;
+              if (!options) return qti('textEntryInteraction', { responseIdentifier: responseIdentifier(part) });
+              return qti(
+                'inlineChoiceInteraction',
+                { responseIdentifier: responseIdentifier(part), shuffle: false },
+                options.map((option, optionIndex) => qti('inlineChoice', { identifier: choiceId(part, optionIndex) }, [option]))
+              );
+            })
+          )
+        ]
+      };
+    }
+
+    case 'note-completion': {
+      const accept = key.method === 'tolerant' ? key.accept : [];
+      return {
+        declarations: (question.fields ?? []).map((_, index) =>
+          response(responseIdentifier(index), 'single', 'string', (accept[index] ?? []).slice(0, 1), accept[index] ?? [])
+        ),
+        body: [stem(question), ...labelledEntries(question)]
+      };
+    }
+
+    case 'multi-field': {
+      // Any field may give any accepted idea, so each field maps every keyword
+      const keywords = key.method === 'fields' ? key.accept.flat() : [];
+      return {
+        declarations: (question.fields ?? []).map((_, index) => response(responseIdentifier(index), 'single', 'string', [], keywords)),
+        body: [stem(question), ...labelledEntries(question)]
+      };
+    }
+
+    case 'dictation':
+      return {
+        declarations: [response('RESPONSE', 'single', 'string', key.method === 'dictation' ? [key.text] : [])],
+        body: [qti('extendedTextInteraction', { responseIdentifier: 'RESPONSE', expectedLines: 2 }, [prompt(question)])]
+      };
+
+    case 'speaking':
+      return {
+        declarations: [response('RESPONSE', 'single', 'file')],
+        body: [qti('uploadInteraction', { responseIdentifier: 'RESPONSE', type: 'audio/*' }, [prompt(question)])]
+      };
+
+    case 'essay':
+      return {
+        declarations: [response('RESPONSE', 'single', 'string')],
+        body: [qti('extendedTextInteraction', { responseIdentifier: 'RESPONSE', expectedLines: 12 }, [prompt(question)])]
+      };
+
+    default:
+      // Short answers: an exact answer fits a text entry, a keyword key a free-text box
+      return key.method === 'exact'
+        ? {
+            declarations: [response('RESPONSE', 'single', 'string', [key.value], [key.value])],
+            body: [stem(question), el('p', {}, [qti('textEntryInteraction', { responseIdentifier: 'RESPONSE' })])],
+            template: 'map'
+          }
+        : {
+            declarations: [response('RESPONSE', 'single', 'string')],
+            body: [qti('extendedTextInteraction', { responseIdentifier: 'RESPONSE', expectedLines: 3 }, [prompt(question)])]
+          };
+  }
+};
+
+const buildItem = (question: Question, section: TestSection, version: QtiVersion): XmlElement => {
+  const { declarations, body, template } = buildInteraction(question);
+  const passage = section.passages?.find(candidate => candidate.id === question.passageId);
+  const stimulus = section.stimuli?.find(candidate => candidate.questionIds.includes(question.id));
+
+  const media: XmlNode[] = [];
+  if (stimulus) {
+    media.push(el('p', {}, [el('object', { data: `../${audioPath(stimulus.audioFile)}`, type: 'audio/mpeg' }, [stimulus.title])]));
+  }
+  if (passage && version === '2.1') {
+    media.push(el('div', {}, [el('object', { data: `../${passagePath(passage, version)}`, type: 'text/html' }, [passage.title])]));
+  }
+
+  return qti('assessmentItem', { xmlns: QTI_NAMESPACES[version].item, identifier: itemIdentifier(question.id), title: `Question ${question.id}`, adaptive: false, timeDependent: false }, [
+    ...declarations,
+    qti('outcomeDeclaration', { identifier: 'SCORE', cardinality: 'single', baseType: 'float' }),
+    qti('outcomeDeclaration', { identifier: 'MAXSCORE', cardinality: 'single', baseType: 'float' }, [
+      qti('defaultValue', {}, values([String(question.points)]))
+    ]),
+    ...(passage && version === '3.0'
+      ? [qti('assessmentStimulusRef', { identifier: passageIdentifier(passage), href: `../${passagePath(passage, version)}`, title: passage.title })]
+      : []),
+    qti('itemBody', {}, [...media, ...body]),
+    ...(template
+      ? [qti('responseProcessing', { template: (template === 'match' ? MATCH_CORRECT_TEMPLATE : MAP_RESPONSE_TEMPLATE)[version] })]
+      : [])
+  ]);
+};
+
+const buildPassage = (passage: Passage, version: QtiVersion): XmlElement => {
+  const paragraphs = passage.body.split(/\n\s*\n/).map(paragraph => el('p', {}, [paragraph]));
+  return version === '3.0'
+    ? qti('assessmentStimulus', { xmlns: QTI_NAMESPACES[version].item, identifier: passageIdentifier(passage), title: passage.title }, [
+        qti('stimulusBody', {}, paragraphs)
+      ])
+    : el('html', { xmlns: 'http://www.w3.org/1999/xhtml' }, [
+        el('head', {}, [el('title', {}, [passage.title])]),
+        el('body', {}, paragraphs)
+      ]);
+};
+
+const buildTest = (form: TestForm, version: QtiVersion): XmlElement =>
+  qti('assessmentTest', { xmlns: QTI_NAMESPACES[version].item, identifier: form.id, title: form.title }, [
+    ...(form.timeLimit ? [qti('timeLimits', { maxTime: form.timeLimit * 60 })] : []),
+    qti('testPart', { identifier: 'part-1', navigationMode: 'linear', submissionMode: 'individual' },
+      form.sections.map(section => {
+        const instructions = [el('p', {}, [section.instructions])];
+        return qti('assessmentSection', { identifier: section.id, title: section.title, visible: true }, [
+          qti('timeLimits', { maxTime: section.timeLimit * 60 }),
+          qti('rubricBlock', { view: 'candidate' }, version === '3.0' ? [qti('contentBody', {}, instructions)] : instructions),
+          ...section.questions.map(question =>
+            qti(
+              'assessmentItemRef',
+              { identifier: itemIdentifier(question.id), href: `items/${itemIdentifier(question.id)}.xml` },
+              question.timeLimit ? [qti('timeLimits', { maxTime: question.timeLimit })] : []
+            )
+          )
+        ]);
+      })
+    )
+  ]);
+
+const getItemMetadata = (question: Question): ItemMetadata => ({
+  type: question.type,
+  skill: question.skill,
+  subSkill: question.subSkill,
+  difficulty: question.difficulty,
+  discrimination: question.discrimination,
+  targetLevel: question.targetLevel,
+  module: question.module,
+  key: isSemfOnlyKey(question.answerKey) ? question.answerKey : undefined,
+  speaking: question.speaking,
+  matchingLabels: question.matching
+    ? { promptLabel: question.matching.promptLabel, optionLabel: question.matching.optionLabel }
+    : undefined
+});
+
+const getTestMetadata = (form: TestForm): TestMetadata => ({
+  formId: form.id,
+  version: form.version,
+  sections: form.sections.map(section => ({
+    id: section.id,
+    passages: (section.passages ?? []).map(passage => ({
+      id: passage.id,
+      source: passage.source,
+      wordCount: passage.wordCount,
+      timeLimit: passage.timeLimit
+    })),
+    stimuli: (section.stimuli ?? []).map(stimulus => ({ ...stimulus, audioFile: audioPath(stimulus.audioFile) })),
+    timing: section.timing,
+    flow: section.flow,
+    navigation: section.navigation,
+    stages: section.stages,
+    adaptive: section.adaptive
+  }))
+});
+
+const semfMetadata = (name: 'item' | 'test', data: ItemMetadata | TestMetadata) =>
+  el('metadata', {}, [el(`semf:${name}`, { 'xmlns:semf': SEMF_METADATA_NAMESPACE }, [JSON.stringify(data)])]);
+
+/**
+ * Packages a form as an IMS QTI content package (a zip with a manifest, one XML file per item,
+ * passages and audio). SEMF details QTI cannot express travel as JSON in the manifest metadata
+ * so `importQtiPackage` can rebuild the form exactly.
+ */
+export const exportQtiPackage = (form: TestForm, options: QtiExportOptions): QtiExportResult => {
+  const { version } = options;
+  const warnings: string[] = [];
+  const files: Record<string, Uint8Array> = {};
+  const resources: XmlElement[] = [];
+  const write = (path: string, root: XmlElement) => {
+    files[path] = strToU8(serializeXml(root, version));
+  };
+
+  const audioFiles = new Set(form.sections.flatMap(section => (section.stimuli ?? []).map(stimulus => stimulus.audioFile)));
+  audioFiles.forEach(audioFile => {
+    const contents = options.readAudio(audioFile);
+    if (!contents) {
+      warnings.push(`audio file "${audioFile}" could not be read and is not in the package`);
+      return;
+    }
+    const path = audioPath(audioFile);
+    files[path] = contents;
+    resources.push(el('resource', { identifier: `audio-${basename(audioFile).replace(/\W/g, '-')}`, type: 'webcontent', href: path }, [el('file', { href: path })]));
+  });
+
+  form.sections.forEach(section => {
+    section.passages?.forEach(passage => {
+      const path = passagePath(passage, version);
+      write(path, buildPassage(passage, version));
+      resources.push(el('resource', { identifier: passageIdentifier(passage), type: RESOURCE_TYPES[version].stimulus, href: path }, [el('file', { href: path })]));
+    });
+    section.questions.forEach(question => {
+      const path = `items/${itemIdentifier(question.id)}.xml`;
+      write(path, buildItem(question, section, version));
+      resources.push(
+        el('resource', { identifier: itemIdentifier(question.id), type: RESOURCE_TYPES[version].item, href: path }, [
+          semfMetadata('item', getItemMetadata(question)),
+          el('file', { href: path })
+        ])
+      );
+    });
+  });
+
+  write(TEST_FILE, buildTest(form, version));
+  resources.unshift(
+    el('resource', { identifier: 'assessment-test', type: RESOURCE_TYPES[version].test, href: TEST_FILE }, [
+      semfMetadata('test', getTestMetadata(form)),
+      el('file', { href: TEST_FILE }),
+      ...form.sections.flatMap(section => section.questions.map(question => el('dependency', { identifierref: itemIdentifier(question.id) })))
+    ])
+  );
+
+  write(
+    MANIFEST_FILE,
+    el('manifest', { xmlns: QTI_NAMESPACES[version].manifest, identifier: `manifest-${form.id}` }, [
+      el('metadata', {}, [el('schema', {}, [`QTI Package`]), el('schemaversion', {}, [version])]),
+      el('organizations'),
+      el('resources', {}, resources)
+    ])
+  );
+
+  return { zip: zipSync(files), warnings };
+};
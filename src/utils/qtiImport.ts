@@ -0,0 +1,481 @@
+import { strFromU8, unzipSync } from 'fflate';
+import {
+  AnswerKey,
+  ListeningStimulus,
+  Passage,
+  Question,
+  TestForm,
+  TestSection,
+  TEST_FORM_SCHEMA_VERSION,
+  TRUE_FALSE_NOT_GIVEN
+} from '../types/test';
+import { childElements, el, find, findAll, parseXml, textOf, XmlElement, XmlNode } from './qtiXml';
+import { optionLetter } from './formAuthoring';
+import { semfSpeakingRubric } from '../data/speakingRubric';
+import { BODY_CLASSES, ItemMetadata, MANIFEST_FILE, SectionMetadata, TestMetadata } from './qtiPackage';
+
+export interface QtiImportResult {
+  form: TestForm;
+  media: Record<string, Uint8Array>; // audio to copy into public/audio, keyed by file name
+  warnings: string[];
+}
+
+interface ManifestResource {
+  identifier: string;
+  type: string;
+  href: string;
+  metadata?: unknown;
+}
+
+interface DeclaredResponse {
+  correct: string[];
+  mapping: string[];
+}
+
+interface ImportedItem {
+  question: Question;
+  audio?: string; // package path, e.g. 'audio/travel-report.mp3'
+  passage?: Passage;
+}
+
+const GAP_INTERACTIONS = ['textEntryInteraction', 'inlineChoiceInteraction'];
+const AUDIO_FILE = /\.(mp3|m4a|wav|ogg)$/i;
+
+const unique = (list: string[]) => [...new Set(list)];
+const clean = (text: string) => text.replace(/\s+/g, ' ').trim();
+const hasClass = (element: XmlElement, className: string) => (element.attrs.class ?? '').split(/\s+/).includes(className);
+const descendants = (element: XmlElement): XmlElement[] =>
+  childElements(element).flatMap(child => [child, ...descendants(child)]);
+const findByClass = (element: XmlElement, className: string) =>
+  descendants(element).find(candidate => hasClass(candidate, className));
+const findGaps = (element: XmlElement) => descendants(element).filter(candidate => GAP_INTERACTIONS.includes(candidate.name));
+
+// Resolves a link in a package file against that file's folder, e.g. items/ + ../audio/a.mp3
+const resolvePath = (from: string, href: string) => {
+  const parts = from.split('/').slice(0, -1);
+  href.split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part !== '.' && part !== '') parts.push(part);
+  });
+  return parts.join('/');
+};
+
+const basename = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+const readJsonMetadata = (resource: XmlElement): unknown => {
+  const metadata = childElements(resource).find(child => child.name === 'metadata');
+  const semf = metadata && childElements(metadata).find(child => child.name.startsWith('semf:'));
+  if (!semf) return undefined;
+  try {
+    return JSON.parse(textOf(semf));
+  } catch {
+    return undefined;
+  }
+};
+
+const readManifest = (files: Record<string, Uint8Array>): ManifestResource[] => {
+  const manifest = files[MANIFEST_FILE];
+  if (!manifest) throw new Error(`The package has no ${MANIFEST_FILE}`);
+  return findAll(parseXml(strFromU8(manifest)), 'resource').map(resource => ({
+    identifier: resource.attrs.identifier ?? '',
+    type: resource.attrs.type ?? '',
+    href: resource.attrs.href ?? '',
+    metadata: readJsonMetadata(resource)
+  }));
+};
+
+const readResponses = (item: XmlElement): Map<string, DeclaredResponse> =>
+  new Map(
+    findAll(item, 'responseDeclaration').map(declaration => {
+      const correctResponse = find(declaration, 'correctResponse');
+      return [
+        declaration.attrs.identifier,
+        {
+          correct: correctResponse ? findAll(correctResponse, 'value').map(value => textOf(value).trim()) : [],
+          mapping: findAll(declaration, 'mapEntry').map(entry => entry.attrs.mapKey ?? '')
+        }
+      ];
+    })
+  );
+
+const readPoints = (item: XmlElement): number => {
+  const maxScore = findAll(item, 'outcomeDeclaration').find(declaration => declaration.attrs.identifier === 'MAXSCORE');
+  const value = maxScore && find(maxScore, 'value');
+  const points = value ? Number(textOf(value)) : NaN;
+  return Number.isFinite(points) && points > 0 ? points : 1;
+};
+
+const readParagraphs = (element: XmlElement) => {
+  const paragraphs = findAll(element, 'p').map(paragraph => textOf(paragraph).trim());
+  return paragraphs.length > 0 ? paragraphs.join('\n\n') : textOf(element).trim();
+};
+
+// A reading passage linked from the item, as a QTI 3.0 stimulus or a QTI 2.1 HTML object
+const readPassage = (item: XmlElement, itemPath: string, files: Record<string, Uint8Array>, resources: ManifestResource[]): Passage | undefined => {
+  const stimulusRef = find(item, 'assessmentStimulusRef');
+  const htmlObject = findAll(item, 'object').find(object => object.attrs.type === 'text/html');
+  const href = stimulusRef?.attrs.href ?? htmlObject?.attrs.data;
+  if (!href) return undefined;
+
+  const path = resolvePath(itemPath, href);
+  const contents = files[path];
+  if (!contents) return undefined;
+  const root = parseXml(strFromU8(contents));
+  const identifier = stimulusRef?.attrs.identifier ?? resources.find(resource => resource.href === path)?.identifier ?? basename(path).replace(/\.\w+$/, '');
+  const body = find(root, 'stimulusBody') ?? find(root, 'body') ?? root;
+  const titleElement = find(root, 'title');
+  const title = root.attrs.title ?? (titleElement ? textOf(titleElement).trim() : identifier);
+  return { id: identifier.replace(/^passage-/, ''), title, body: readParagraphs(body) };
+};
+
+const inferType = (body: XmlElement, responses: Map<string, DeclaredResponse>): Question['type'] => {
+  const has = (name: string) => findAll(body, name).length > 0;
+  if (has('uploadInteraction')) return 'speaking';
+  if (has('orderInteraction')) return 'sentence-ordering';
+  if (has('associateInteraction') || has('matchInteraction')) return 'matching';
+  if (has('choiceInteraction')) {
+    const labels = findAll(body, 'simpleChoice').map(choice => clean(textOf(choice)).toLowerCase());
+    const tfng = TRUE_FALSE_NOT_GIVEN.map(label => label.toLowerCase());
+    return labels.length === tfng.length && labels.every(label => tfng.includes(label)) ? 'true-false-not-given' : 'multiple-choice';
+  }
+  if (has('extendedTextInteraction')) {
+    const interaction = find(body, 'extendedTextInteraction')!;
+    return responses.get(interaction.attrs.responseIdentifier)?.correct.length ? 'dictation' : 'essay';
+  }
+  if (findByClass(body, BODY_CLASSES.fieldLabel)) return 'note-completion';
+  const gaps = findGaps(body);
+  return gaps.length === 1 && gaps[0].name === 'textEntryInteraction' ? 'text' : 'gap-fill';
+};
+
+// Writes a gap's container out as cloze text, numbering the gaps [[1]], [[2]], ... in reading order
+const readCloze = (container: XmlElement, gapElements: XmlElement[]): string => {
+  const render = (node: XmlNode): string => {
+    if (typeof node === 'string') return node;
+    if (GAP_INTERACTIONS.includes(node.name)) return `[[${gapElements.indexOf(node) + 1}]]`;
+    return node.children.map(render).join('');
+  };
+  return container.children.map(render).join('').trim();
+};
+
+// The label a text entry sits next to: the SEMF label span, or the rest of its paragraph
+const readFieldLabel = (body: XmlElement, entry: XmlElement): string => {
+  const parent = [body, ...descendants(body)].find(candidate => candidate.children.includes(entry));
+  if (!parent) return '';
+  const span = childElements(parent).find(child => hasClass(child, BODY_CLASSES.fieldLabel));
+  return clean(textOf(span ?? { ...parent, children: parent.children.filter(child => child !== entry) })).replace(/:$/, '');
+};
+
+const readStem = (body: XmlElement): string => {
+  const promptElement = find(body, 'prompt');
+  if (promptElement) return textOf(promptElement).trim();
+  const stemElement = findByClass(body, BODY_CLASSES.stem);
+  return stemElement ? textOf(stemElement).trim() : '';
+};
+
+const readItem = (
+  itemPath: string,
+  files: Record<string, Uint8Array>,
+  resources: ManifestResource[],
+  metadata: ItemMetadata | undefined,
+  id: number,
+  sectionId: string,
+  warnings: string[]
+): ImportedItem => {
+  const item = parseXml(strFromU8(files[itemPath]));
+  const body = find(item, 'itemBody') ?? item;
+  const responses = readResponses(item);
+  const responseOf = (interaction: XmlElement | undefined) =>
+    responses.get(interaction?.attrs.responseIdentifier ?? '') ?? { correct: [], mapping: [] };
+  const label = `Question ${id} (${basename(itemPath)})`;
+  const type = metadata?.type ?? inferType(body, responses);
+
+  const audioObject = findAll(body, 'object').find(object => object.attrs.type?.startsWith('audio/') || AUDIO_FILE.test(object.attrs.data ?? ''));
+  const audio = audioObject ? resolvePath(itemPath, audioObject.attrs.data) : undefined;
+  const passage = readPassage(item, itemPath, files, resources);
+
+  const question: Question = {
+    id,
+    question: readStem(body),
+    type,
+    section: sectionId,
+    passageId: passage?.id,
+    module: metadata?.module,
+    subSkill: metadata?.subSkill,
+    difficulty: metadata?.difficulty,
+    discrimination: metadata?.discrimination,
+    targetLevel: metadata?.targetLevel,
+    skill: metadata?.skill ?? (type === 'speaking' ? 'Speaking' : audio ? 'Listening' : 'ReadingWriting'),
+    points: readPoints(item),
+    answerKey: { method: 'exact', value: '' }
+  };
+  const missingKey = (fallback: AnswerKey): AnswerKey => {
+    warnings.push(`${label}: the package has no SEMF scoring details for this ${type} item; review its key`);
+    return fallback;
+  };
+
+  switch (type) {
+    case 'multiple-choice':
+    case 'true-false-not-given': {
+      const interaction = find(body, 'choiceInteraction');
+      const choices = interaction ? findAll(interaction, 'simpleChoice') : [];
+      const correctIndex = choices.findIndex(choice => choice.attrs.identifier === responseOf(interaction).correct[0]);
+      if (type === 'multiple-choice') {
+        question.options = choices.map(choice => clean(textOf(choice)));
+        question.answerKey = { method: 'exact', value: correctIndex >= 0 ? optionLetter(correctIndex) : '' };
+      } else {
+        const correctLabel = correctIndex >= 0 ? clean(textOf(choices[correctIndex])).toLowerCase() : '';
+        question.answerKey = { method: 'exact', value: TRUE_FALSE_NOT_GIVEN.find(value => value.toLowerCase() === correctLabel) ?? '' };
+      }
+      break;
+    }
+
+    case 'sentence-ordering': {
+      const interaction = find(body, 'orderInteraction');
+      const choices = interaction ? findAll(interaction, 'simpleChoice') : [];
+      // Keep single-letter identifiers; otherwise letter the sentences in the order they are listed
+      const keepLetters = choices.every(choice => /^[A-Z]$/.test(choice.attrs.identifier ?? ''));
+      const letterFor = (identifier: string) =>
+        keepLetters ? identifier : optionLetter(choices.findIndex(choice => choice.attrs.identifier === identifier));
+      const paragraph = (className: string) => {
+        const element = findByClass(body, className);
+        return element ? clean(textOf(element)) : undefined;
+      };
+      question.ordering = {
+        topic: paragraph(BODY_CLASSES.topic) ?? '',
+        firstSentence: paragraph(BODY_CLASSES.firstSentence) ?? '',
+        sentences: choices.map(choice => ({ letter: letterFor(choice.attrs.identifier), text: clean(textOf(choice)) })),
+        lastSentence: paragraph(BODY_CLASSES.lastSentence)
+      };
+      question.answerKey = { method: 'ordering', sequence: responseOf(interaction).correct.map(letterFor) };
+      break;
+    }
+
+    case 'matching': {
+      const interaction = find(body, 'associateInteraction') ?? find(body, 'matchInteraction');
+      const pairs = responseOf(interaction).correct.map(pair => pair.split(/\s+/));
+      let prompts: XmlElement[];
+      let options: XmlElement[];
+      if (interaction?.name === 'matchInteraction') {
+        [prompts = [], options = []] = findAll(interaction, 'simpleMatchSet').map(set => findAll(set, 'simpleAssociableChoice'));
+      } else {
+        // Associate choices come in one pool: the first member of each correct pair is a prompt
+        const choices = interaction ? findAll(interaction, 'simpleAssociableChoice') : [];
+        const promptIds = new Set(pairs.map(([first]) => first));
+        const isPrompt = (choice: XmlElement) =>
+          choice.attrs.identifier.startsWith('PROMPT_') || (!choice.attrs.identifier.startsWith('OPTION_') && promptIds.has(choice.attrs.identifier));
+        prompts = choices.filter(isPrompt);
+        options = choices.filter(choice => !isPrompt(choice));
+      }
+      const optionFor = (promptId: string) => {
+        const pair = pairs.find(candidate => candidate.includes(promptId));
+        const optionId = pair?.find(member => member !== promptId);
+        const index = options.findIndex(option => option.attrs.identifier === optionId);
+        return index >= 0 ? optionLetter(index) : '';
+      };
+      question.matching = {
+        promptLabel: metadata?.matchingLabels?.promptLabel ?? 'Item',
+        prompts: prompts.map(prompt => clean(textOf(prompt))),
+        optionLabel: metadata?.matchingLabels?.optionLabel ?? 'Option',
+        options: options.map(option => clean(textOf(option)))
+      };
+      question.answerKey = { method: 'matching', pairs: prompts.map(prompt => optionFor(prompt.attrs.identifier)) };
+      break;
+    }
+
+    case 'gap-fill': {
+      const gapElements = findGaps(body);
+      // Without the SEMF cloze marker, the text is the innermost block that holds every gap
+      const container =
+        findByClass(body, BODY_CLASSES.cloze) ??
+        descendants(body).reverse().find(candidate => findGaps(candidate).length === gapElements.length) ??
+        body;
+      question.cloze = {
+        text: readCloze(container, gapElements),
+        gaps: gapElements.map(gap =>
+          gap.name === 'inlineChoiceInteraction' ? { options: findAll(gap, 'inlineChoice').map(choice => clean(textOf(choice))) } : {}
+        )
+      };
+      question.answerKey = {
+        method: 'gaps',
+        accept: gapElements.map(gap => {
+          const declared = responseOf(gap);
+          if (gap.name === 'textEntryInteraction') return unique([...declared.correct, ...declared.mapping]);
+          return findAll(gap, 'inlineChoice')
+            .filter(choice => declared.correct.includes(choice.attrs.identifier))
+            .map(choice => clean(textOf(choice)));
+        })
+      };
+      break;
+    }
+
+    case 'note-completion':
+    case 'multi-field': {
+      const entries = findAll(body, 'textEntryInteraction');
+      question.fields = entries.map(entry => ({
+        label: readFieldLabel(body, entry),
+        ...(entry.attrs.placeholderText ? { placeholder: entry.attrs.placeholderText } : {})
+      }));
+      if (type === 'note-completion') {
+        question.answerKey = {
+          method: 'tolerant',
+          accept: entries.map(entry => unique([...responseOf(entry).correct, ...responseOf(entry).mapping]))
+        };
+      } else {
+        question.answerKey = metadata?.key ?? missingKey({ method: 'fields', accept: [], distinct: true });
+      }
+      break;
+    }
+
+    case 'dictation':
+      question.answerKey = { method: 'dictation', text: responseOf(find(body, 'extendedTextInteraction')).correct[0] ?? '' };
+      break;
+
+    case 'speaking':
+      question.speaking = metadata?.speaking ?? { prepTime: 30, responseTime: 60 };
+      question.answerKey = metadata?.key ?? { method: 'rubric', rubricId: semfSpeakingRubric.id };
+      break;
+
+    case 'essay':
+      question.answerKey = metadata?.key ?? missingKey({ method: 'essay', minWords: 0, maxWords: 1000, anyOf: [] });
+      break;
+
+    case 'text': {
+      const entry = find(body, 'textEntryInteraction');
+      question.answerKey =
+        metadata?.key ??
+        (entry ? { method: 'exact', value: responseOf(entry).correct[0] ?? '' } : missingKey({ method: 'keywords', keywords: [], minMatches: 1, minLength: 1 }));
+      break;
+    }
+  }
+
+  return { question, audio, passage };
+};
+
+// Packages without SEMF metadata get one recording per distinct audio file, in the order first used
+const groupByAudio = (items: ImportedItem[]): ListeningStimulus[] =>
+  unique(items.flatMap(item => (item.audio ? [item.audio] : []))).map(audio => ({
+    id: basename(audio).replace(/\.\w+$/, ''),
+    title: basename(audio),
+    audioFile: `/audio/${basename(audio)}`,
+    description: '',
+    playPolicy: { maxPlays: 2, revealQuestionsAfterPlay: false },
+    questionIds: items.filter(item => item.audio === audio).map(item => item.question.id)
+  }));
+
+// Seconds from an element's own timeLimits, not one belonging to something inside it
+const readMaxTime = (element: XmlElement | undefined): number | undefined => {
+  const maxTime = Number(element && childElements(element).find(child => child.name === 'timeLimits')?.attrs.maxTime);
+  return Number.isFinite(maxTime) && maxTime > 0 ? maxTime : undefined;
+};
+
+const buildSection = (
+  element: XmlElement,
+  items: ImportedItem[],
+  metadata: SectionMetadata | undefined
+): TestSection => {
+  const maxTime = readMaxTime(element);
+  const rubric = find(element, 'rubricBlock');
+  const passages = unique(items.flatMap(item => (item.passage ? [item.passage.id] : []))).map(id => {
+    const passage = items.find(item => item.passage?.id === id)!.passage!;
+    const details = metadata?.passages.find(candidate => candidate.id === id);
+    return { ...passage, ...details };
+  });
+  const stimuli = metadata
+    ? metadata.stimuli.map(stimulus => ({ ...stimulus, audioFile: `/audio/${basename(stimulus.audioFile)}` }))
+    : groupByAudio(items);
+
+  return {
+    id: element.attrs.identifier,
+    title: element.attrs.title ?? element.attrs.identifier,
+    timeLimit: maxTime ? Math.round(maxTime / 60) : 10,
+    instructions: rubric ? clean(textOf(rubric)) : '',
+    ...(metadata?.timing ? { timing: metadata.timing } : {}),
+    ...(passages.length > 0 ? { passages } : {}),
+    ...(stimuli.length > 0 ? { stimuli } : {}),
+    ...(metadata?.flow ? { flow: metadata.flow } : {}),
+    ...(metadata?.navigation ? { navigation: metadata.navigation } : {}),
+    ...(metadata?.stages ? { stages: metadata.stages } : {}),
+    ...(metadata?.adaptive ? { adaptive: metadata.adaptive } : {}),
+    questions: items.map(item => item.question)
+  };
+};
+
+/**
+ * Reads an IMS QTI 2.1 or 3.0 content package into a form. SEMF packages (from `exportQtiPackage`)
+ * come back exactly; other packages are mapped by interaction type and may need their keys reviewed.
+ * The result is not validated, so check it with `checkTestForm` before use.
+ */
+export const importQtiPackage = (zip: Uint8Array): QtiImportResult => {
+  const files = unzipSync(zip);
+  const resources = readManifest(files);
+  const warnings: string[] = [];
+  const media: Record<string, Uint8Array> = {};
+
+  const testResource = resources.find(resource => resource.type.includes('_test_'));
+  const testMetadata = testResource?.metadata as TestMetadata | undefined;
+  const testRoot = testResource && files[testResource.href] ? parseXml(strFromU8(files[testResource.href])) : undefined;
+
+  // Leaf sections hold the item references; a package without a test becomes a single section
+  const sectionElements = testRoot
+    ? findAll(testRoot, 'assessmentSection').filter(section => childElements(section).some(child => child.name === 'assessmentItemRef'))
+    : [];
+  const sectionRefs = testRoot
+    ? sectionElements.map(section => ({
+        element: section,
+        refs: childElements(section)
+          .filter(child => child.name === 'assessmentItemRef')
+          .map(ref => ({ href: resolvePath(testResource!.href, ref.attrs.href), timeLimit: readMaxTime(ref) }))
+      }))
+    : [{
+        element: el('assessmentSection', { identifier: 'section-1', title: 'Section 1' }),
+        refs: resources
+          .filter(resource => resource.type.includes('_item_'))
+          .map(resource => ({ href: resource.href, timeLimit: undefined }))
+      }];
+
+  const usedIds = new Set<number>();
+  let nextId = 1;
+  const takeId = (href: string) => {
+    const match = /item-(\d+)\.xml$/.exec(href);
+    const wanted = match ? Number(match[1]) : undefined;
+    if (wanted !== undefined && !usedIds.has(wanted)) {
+      usedIds.add(wanted);
+      return wanted;
+    }
+    while (usedIds.has(nextId)) nextId++;
+    usedIds.add(nextId);
+    return nextId;
+  };
+
+  const sections = sectionRefs.map(({ element, refs }) => {
+    const sectionId = element.attrs.identifier;
+    const items = refs
+      .filter(({ href }) => {
+        if (files[href]) return true;
+        warnings.push(`item file "${href}" is missing from the package`);
+        return false;
+      })
+      .map(({ href, timeLimit }) => {
+        const resource = resources.find(candidate => candidate.href === href);
+        const item = readItem(href, files, resources, resource?.metadata as ItemMetadata | undefined, takeId(href), sectionId, warnings);
+        return timeLimit ? { ...item, question: { ...item.question, timeLimit } } : item;
+      });
+    items.forEach(({ audio }) => {
+      if (!audio) return;
+      if (files[audio]) media[basename(audio)] = files[audio];
+      else warnings.push(`audio file "${audio}" is missing from the package`);
+    });
+    return buildSection(element, items, testMetadata?.sections.find(section => section.id === sectionId));
+  });
+
+  const testTime = readMaxTime(testRoot);
+  const form: TestForm = {
+    schemaVersion: TEST_FORM_SCHEMA_VERSION,
+    id: testMetadata?.formId ?? testRoot?.attrs.identifier ?? 'imported-form',
+    title: testRoot?.attrs.title ?? 'Imported form',
+    version: testMetadata?.version ?? '1.0',
+    ...(testTime ? { timeLimit: Math.round(testTime / 60) } : {}),
+    sections
+  };
+  return { form, media, warnings };
+};
@@ -0,0 +1,101 @@
+import {
+  AdaptiveSettings,
+  AnswerKey,
+  ListeningStimulus,
+  NavigationPolicy,
+  Passage,
+  Question,
+  SectionFlow,
+  SectionStages,
+  SectionTiming,
+  SEMFLevel,
+  SEMFSkill,
+  SpeakingTask,
+  StageModule
+} from '../types/test';
+import { QtiVersion } from './qtiXml';
+
+export const QTI_NAMESPACES: Record<QtiVersion, { item: string; manifest: string }> = {
+  '2.1': {
+    item: 'http://www.imsglobal.org/xsd/imsqti_v2p1',
+    manifest: 'http://www.imsglobal.org/xsd/imscp_v1p1'
+  },
+  '3.0': {
+    item: 'http://www.imsglobal.org/xsd/imsqtiasi_v3p0',
+    manifest: 'http://www.imsglobal.org/xsd/qti/qtiv3p0/imscp_v1p1'
+  }
+};
+
+export const RESOURCE_TYPES: Record<QtiVersion, { item: string; test: string; stimulus: string }> = {
+  '2.1': { item: 'imsqti_item_xmlv2p1', test: 'imsqti_test_xmlv2p1', stimulus: 'webcontent' },
+  '3.0': { item: 'imsqti_item_xmlv3p0', test: 'imsqti_test_xmlv3p0', stimulus: 'imsqti_stimulus_xmlv3p0' }
+};
+
+export const MATCH_CORRECT_TEMPLATE: Record<QtiVersion, string> = {
+  '2.1': 'http://www.imsglobal.org/question/qti_v2p1/rptemplates/match_correct',
+  '3.0': 'https://purl.imsglobal.org/spec/qti/v3p0/rptemplates/match_correct.xml'
+};
+
+export const MAP_RESPONSE_TEMPLATE: Record<QtiVersion, string> = {
+  '2.1': 'http://www.imsglobal.org/question/qti_v2p1/rptemplates/map_response',
+  '3.0': 'https://purl.imsglobal.org/spec/qti/v3p0/rptemplates/map_response.xml'
+};
+
+// Namespace of the SEMF metadata written into the manifest next to each resource
+export const SEMF_METADATA_NAMESPACE = 'https://shabridge.college/xsd/semf-qti/v1';
+
+export const MANIFEST_FILE = 'imsmanifest.xml';
+export const TEST_FILE = 'assessment-test.xml';
+export const AUDIO_DIR = 'audio';
+
+// Choice identifiers for true/false/not given items, in TRUE_FALSE_NOT_GIVEN order
+export const TFNG_IDENTIFIERS = ['TRUE', 'FALSE', 'NOT_GIVEN'];
+
+// Class names that mark SEMF content inside an item body so it can be read back on import
+export const BODY_CLASSES = {
+  stem: 'semf-question',
+  topic: 'semf-topic',
+  firstSentence: 'semf-first-sentence',
+  lastSentence: 'semf-last-sentence',
+  fieldLabel: 'semf-field-label',
+  cloze: 'semf-cloze'
+};
+
+export const itemIdentifier = (questionId: number) => `item-${questionId}`;
+export const responseIdentifier = (index: number) => `RESPONSE_${index + 1}`;
+
+// Key details QTI has no standard place for, e.g. keyword lists or essay length bands
+export type SemfOnlyKey = Extract<AnswerKey, { method: 'keywords' | 'essay' | 'fields' | 'rubric' }>;
+
+export const isSemfOnlyKey = (key: AnswerKey): key is SemfOnlyKey =>
+  key.method === 'keywords' || key.method === 'essay' || key.method === 'fields' || key.method === 'rubric';
+
+export interface ItemMetadata {
+  type: Question['type'];
+  skill: SEMFSkill;
+  subSkill?: string;
+  difficulty?: number;
+  discrimination?: number;
+  targetLevel?: SEMFLevel;
+  module?: StageModule;
+  key?: SemfOnlyKey;
+  speaking?: SpeakingTask;
+  matchingLabels?: { promptLabel: string; optionLabel: string };
+}
+
+export interface SectionMetadata {
+  id: string;
+  passages: Omit<Passage, 'title' | 'body'>[]; // titles and text travel in the stimulus files
+  stimuli: ListeningStimulus[]; // audioFile is the package path, e.g. 'audio/travel-report.mp3'
+  timing?: SectionTiming;
+  flow?: SectionFlow;
+  navigation?: NavigationPolicy;
+  stages?: SectionStages;
+  adaptive?: AdaptiveSettings;
+}
+
+export interface TestMetadata {
+  formId: string;
+  version: string;
+  sections: SectionMetadata[];
+}
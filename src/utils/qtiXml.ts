@@ -0,0 +1,104 @@
+import { XMLParser } from 'fast-xml-parser';
+
+export type QtiVersion = '2.1' | '3.0';
+
+export interface XmlElement {
+  name: string; // QTI element names are kept in their QTI 2.1 camelCase spelling, e.g. 'choiceInteraction'
+  attrs: Record<string, string>;
+  children: XmlNode[];
+  qti?: boolean; // spelled qti-kebab-case when written as QTI 3.0
+}
+
+export type XmlNode = XmlElement | string;
+
+const kebabToCamel = (name: string) => name.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+const camelToKebab = (name: string) => name.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+
+type Attrs = Record<string, string | number | boolean | undefined>;
+
+const toAttrs = (attrs: Attrs): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(attrs)
+      .filter((entry): entry is [string, string | number | boolean] => entry[1] !== undefined)
+      .map(([name, value]) => [name, String(value)])
+  );
+
+// A QTI element, written as <choiceInteraction> in 2.1 and <qti-choice-interaction> in 3.0
+export const qti = (name: string, attrs: Attrs = {}, children: XmlNode[] = []): XmlElement => ({
+  name,
+  attrs: toAttrs(attrs),
+  children,
+  qti: true
+});
+
+// An element spelled the same in every version, e.g. HTML content or the content package manifest
+export const el = (name: string, attrs: Attrs = {}, children: XmlNode[] = []): XmlElement => ({
+  name,
+  attrs: toAttrs(attrs),
+  children
+});
+
+const escapeText = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+const escapeAttr = (text: string) => escapeText(text).replace(/"/g, '&quot;');
+
+const serializeNode = (node: XmlNode, version: QtiVersion): string => {
+  if (typeof node === 'string') return escapeText(node);
+  const spell = (name: string) => (node.qti && version === '3.0' ? camelToKebab(name) : name);
+  const name = node.qti && version === '3.0' ? `qti-${camelToKebab(node.name)}` : node.name;
+  const attrs = Object.entries(node.attrs)
+    .map(([attr, value]) => ` ${spell(attr)}="${escapeAttr(value)}"`)
+    .join('');
+  if (node.children.length === 0) return `<${name}${attrs}/>`;
+  return `<${name}${attrs}>${node.children.map(child => serializeNode(child, version)).join('')}</${name}>`;
+};
+
+export const serializeXml = (root: XmlElement, version: QtiVersion): string =>
+  `<?xml version="1.0" encoding="UTF-8"?>\n${serializeNode(root, version)}\n`;
+
+const parser = new XMLParser({
+  preserveOrder: true,
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  trimValues: false,
+  parseTagValue: false,
+  parseAttributeValue: false,
+  ignoreDeclaration: true,
+  ignorePiTags: true
+});
+
+type ParsedEntry = Record<string, unknown>;
+
+// Reads the parser's ordered output into elements, renaming QTI 3.0 names to their 2.1 spelling
+const toNode = (entry: ParsedEntry): XmlNode | null => {
+  if ('#text' in entry) return String(entry['#text']);
+  const rawName = Object.keys(entry).find(key => key !== ':@');
+  if (!rawName) return null;
+  const isQti3 = rawName.startsWith('qti-');
+  const rawAttrs = (entry[':@'] ?? {}) as Record<string, string>;
+  return {
+    name: isQti3 ? kebabToCamel(rawName.slice(4)) : rawName,
+    attrs: Object.fromEntries(Object.entries(rawAttrs).map(([attr, value]) => [isQti3 ? kebabToCamel(attr) : attr, value])),
+    children: ((entry[rawName] ?? []) as ParsedEntry[]).map(toNode).filter((node): node is XmlNode => node !== null)
+  };
+};
+
+export const parseXml = (text: string): XmlElement => {
+  const root = (parser.parse(text) as ParsedEntry[]).map(toNode).find((node): node is XmlElement => typeof node !== 'string' && node !== null);
+  if (!root) throw new Error('XML document has no root element');
+  return root;
+};
+
+export const childElements = (element: XmlElement): XmlElement[] =>
+  element.children.filter((child): child is XmlElement => typeof child !== 'string');
+
+export const findAll = (element: XmlElement, name: string): XmlElement[] =>
+  childElements(element).flatMap(child => [...(child.name === name ? [child] : []), ...findAll(child, name)]);
+
+export const find = (element: XmlElement, name: string): XmlElement | undefined =>
+  childElements(element).reduce<XmlElement | undefined>(
+    (found, child) => found ?? (child.name === name ? child : find(child, name)),
+    undefined
+  );
+
+export const textOf = (node: XmlNode): string =>
+  typeof node === 'string' ? node : node.children.map(textOf).join('');
@@ -0,0 +1,133 @@
+// The markup form content may use in stems, options, passages and instructions. Anything else,
+// including HTML tags, is shown as typed; nothing is ever rendered as HTML.
+export const RICH_TEXT_HINT = '**bold**, *italic*, ++underline++, ___ for a blank; a blank line starts a paragraph and lines starting "- " or "1. " make a list';
+
+export type RichInline =
+  | { type: 'text'; text: string }
+  | { type: 'bold' | 'italic' | 'underline'; children: RichInline[] }
+  | { type: 'gap' }
+  | { type: 'break' };
+
+export type RichBlock =
+  | { type: 'paragraph'; children: RichInline[] }
+  | { type: 'list'; ordered: boolean; items: RichInline[][] };
+
+const DELIMITERS = [
+  { marker: '**', type: 'bold' },
+  { marker: '++', type: 'underline' },
+  { marker: '*', type: 'italic' }
+] as const;
+
+const ESCAPABLE = '\\*+_';
+const GAP = /^_{3,}/;
+const BULLET_ITEM = /^\s*[-*]\s+/;
+const NUMBERED_ITEM = /^\s*\d+[.)]\s+/;
+
+const isSpace = (char: string | undefined) => char === undefined || /\s/.test(char);
+
+// The closing marker must follow a non-space, so "2 * 3 * 4" stays as typed; '*' skips over '**' pairs
+const findClose = (text: string, from: number, marker: string): number => {
+  for (let index = from; index < text.length; index++) {
+    if (text[index] === '\\') {
+      index++;
+    } else if (marker === '*' && text.startsWith('**', index)) {
+      index++;
+    } else if (text.startsWith(marker, index) && !isSpace(text[index - 1])) {
+      return index;
+    }
+  }
+  return -1;
+};
+
+export const parseInline = (text: string): RichInline[] => {
+  const nodes: RichInline[] = [];
+  let plain = '';
+  const flush = () => {
+    if (plain) nodes.push({ type: 'text', text: plain });
+    plain = '';
+  };
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (char === '\\' && ESCAPABLE.includes(text[index + 1] ?? '')) {
+      plain += text[++index];
+      continue;
+    }
+    if (char === '\n') {
+      flush();
+      nodes.push({ type: 'break' });
+      continue;
+    }
+    const gap = GAP.exec(text.slice(index));
+    if (gap) {
+      flush();
+      nodes.push({ type: 'gap' });
+      index += gap[0].length - 1;
+      continue;
+    }
+    const delimiter = DELIMITERS.find(({ marker }) => text.startsWith(marker, index) && !isSpace(text[index + marker.length]));
+    const close = delimiter ? findClose(text, index + delimiter.marker.length, delimiter.marker) : -1;
+    if (delimiter && close > index + delimiter.marker.length) {
+      flush();
+      nodes.push({ type: delimiter.type, children: parseInline(text.slice(index + delimiter.marker.length, close)) });
+      index = close + delimiter.marker.length - 1;
+      continue;
+    }
+    // An unmatched '**' stays as typed rather than opening italics
+    plain += delimiter ? delimiter.marker : char;
+    if (delimiter) index += delimiter.marker.length - 1;
+  }
+  flush();
+  return nodes;
+};
+
+/**
+ * Splits text into paragraphs (separated by a blank line) and lists (consecutive lines starting
+ * "- ", "* " or "1. "). Single line breaks inside a paragraph are kept.
+ */
+export const parseRichText = (text: string): RichBlock[] =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n[ \t]*\n/)
+    .flatMap(chunk => {
+      const blocks: RichBlock[] = [];
+      let lines: string[] = [];
+      const flushParagraph = () => {
+        if (lines.some(line => line.trim())) blocks.push({ type: 'paragraph', children: parseInline(lines.join('\n').trim()) });
+        lines = [];
+      };
+      chunk.split('\n').forEach(line => {
+        const ordered = NUMBERED_ITEM.test(line);
+        if (!ordered && !BULLET_ITEM.test(line)) {
+          lines.push(line);
+          return;
+        }
+        flushParagraph();
+        const item = parseInline(line.replace(ordered ? NUMBERED_ITEM : BULLET_ITEM, '').trim());
+        const previous = blocks[blocks.length - 1];
+        if (previous?.type === 'list' && previous.ordered === ordered) previous.items.push(item);
+        else blocks.push({ type: 'list', ordered, items: [item] });
+      });
+      flushParagraph();
+      return blocks;
+    });
+
+const inlineToPlainText = (nodes: RichInline[]): string =>
+  nodes
+    .map(node => {
+      if (node.type === 'text') return node.text;
+      if (node.type === 'gap') return '_____';
+      if (node.type === 'break') return '\n';
+      return inlineToPlainText(node.children);
+    })
+    .join('');
+
+// The text without markup, for places that cannot show formatting such as <option> labels
+export const toPlainText = (text: string): string =>
+  parseRichText(text)
+    .map(block =>
+      block.type === 'paragraph'
+        ? inlineToPlainText(block.children)
+        : block.items.map((item, index) => `${block.ordered ? `${index + 1}.` : '-'} ${inlineToPlainText(item)}`).join('\n')
+    )
+    .join('\n\n');
@@ -1,38 +1,56 @@
-export interface SEMFInput {
-  GrammarVocabulary: number;
-  ReadingWriting: number;
-  Listening: number;
-}
+import {
+  Answers,
+  AnswerValue,
+  ModuleLevel,
+  Question,
+  SEMFLevel,
+  SEMFSkill,
+  ScoreRange,
+  SpeakingRatings,
+  TestForm,
+  TestSection,
+  TestSubmission
+} from '../types/test';
+import { testForm, testSections } from '../data/testData';
+import { getTestForm } from '../data/testForms';
+import { getSpeakingRubric } from '../data/speakingRubric';
+import { dictationAccuracy, matchesTolerantly } from './tolerantMatch';
+import { chooseModule, getModuleQuestions, getPathQuestions, Routes } from './multistage';
+import { abilityToScale, AbilityEstimate, estimateAbility, getAdaptiveQuestions, Paths } from './adaptive';
+import { en, Messages } from '../i18n/en';
+
+// The wording of level descriptions and the summary, in the candidate's instruction language
+export type ReportMessages = Messages['report'];
+
+export type SEMFInput = Record<SEMFSkill, number>;
 
 export interface SEMFSkillResult {
   skill: string;
   rawScore: number;
+  maxScore: number;
   normalizedScore: number;
   level: string;
   tieBreakerApplied: boolean;
+  awaitingRating?: boolean; // speaking responses not yet scored by a rater; the level is left out of the overall level
 }
 
 export interface SEMFResult {
+  formId: string;
   skills: SEMFSkillResult[];
   tieBreakerSkill: {
     skill: string;
     rawScore: number;
+    maxScore: number;
     normalizedScore: number;
+    ability?: AbilityEstimate; // when the skill was tested adaptively, the estimate its normalized score comes from
   };
   overallLevel: string;
+  provisional: boolean; // true while rater-scored responses are still awaiting a rating
   descriptions: Record<string, string>;
   summary: string;
 }
 
 export class SEMFScoringEngine {
-  private static readonly LEVEL_DESCRIPTIONS = {
-    S1: "Basic user - understands and uses simple expressions.",
-    S2: "Elementary user - can handle short, routine exchanges.",
-    S3: "Independent user - can deal with most everyday situations.",
-    S4: "Proficient user - can interact fluently and spontaneously.",
-    S5: "Mastery - can express ideas precisely in complex situations."
-  };
-
   private static readonly LEVEL_CUTOFFS = {
     S1: { min: 0, max: 15 },
     S2: { min: 16, max: 25 },
@@ -41,124 +59,240 @@ export class SEMFScoringEngine {
     S5: { min: 43, max: 50 }
   };
 
-  // Correct answers for validation
-  private static readonly CORRECT_ANSWERS = {
-    // Grammar & Vocabulary (Questions 1-20)
-    1: 'B', 2: 'A', 3: 'C', 4: 'B', 5: 'C',
-    6: 'C', 7: 'B', 8: 'A', 9: 'C', 10: 'A',
-    11: 'B', 12: 'B', 13: 'C', 14: 'C', 15: 'C',
-    16: 'B', 17: 'B', 18: 'B', 19: 'C', 20: 'B',
-    
-    // Story Continuation (Questions 21-35)
-    21: 'C', 22: 'C', 23: 'B', 24: 'D', 25: 'B',
-    26: 'C', 27: 'B', 28: 'B', 29: 'B', 30: 'B',
-    31: 'B', 32: 'B', 33: 'C', 34: 'A', 35: 'C',
-    
-    // Sentence Ordering (Questions 36-40)
-    36: 'B, C, D, A', 37: 'C, B, A, D', 38: 'A, C, D, B',
-    39: 'B, C, D, A', 40: 'C, B, D, A',
-    
-    // Listening (Questions 45-56)
-    45: 'B', 46: 'B', 47: 'C', 48: 'B', 49: 'B', 50: 'C',
-    51: 'B', 52: 'B', 53: 'B', 54: 'B', 55: 'C', 56: 'B'
-  };
+  private static readonly FULL_SCALE: ScoreRange = { min: 0, max: 50 };
 
-  // Keywords for text answer validation
-  private static readonly TEXT_ANSWER_KEYWORDS = {
-    41: ['flexibility', 'commute', 'talent', 'global', 'reduced', 'access'], // Reading advantages
-    42: ['isolation', 'culture', 'security', 'challenges', 'difficulties'], // Reading challenges
-    43: ['maximize', 'benefits', 'mitigate', 'drawbacks', 'strategies', 'developing'] // Main goal
-  };
+  // Score a single response against the answer key carried on the question
+  static scoreQuestion(question: Question, answer: AnswerValue | undefined): number {
+    const key = question.answerKey;
+    const parts = Array.isArray(answer) ? answer : [];
+    switch (key.method) {
+      case 'fields':
+        return this.scoreFields(key.accept, key.distinct, parts, question);
 
-  static calculateActualScores(answers: Record<number, string>): SEMFInput {
-    let grammarScore = 0;
-    let readingWritingScore = 0;
-    let listeningScore = 0;
-
-    // Score Grammar & Vocabulary (Questions 1-20)
-    for (let i = 1; i <= 20; i++) {
-      const userAnswer = answers[i]?.trim().toUpperCase();
-      const correctAnswer = this.CORRECT_ANSWERS[i as keyof typeof this.CORRECT_ANSWERS];
-      if (userAnswer === correctAnswer) {
-        grammarScore++;
+      case 'gaps': {
+        // Each gap earns an equal share of the points; case and extra spacing are ignored
+        const correctGaps = key.accept.filter((accepted, index) =>
+          accepted.some(value => this.normalizeText(value) === this.normalizeText(parts[index] ?? ''))
+        ).length;
+        return (question.points * correctGaps) / key.accept.length;
       }
-    }
 
-    // Score Reading & Writing section
-    // Story Continuation (Questions 21-35) - 15 questions
-    for (let i = 21; i <= 35; i++) {
-      const userAnswer = answers[i]?.trim().toUpperCase();
-      const correctAnswer = this.CORRECT_ANSWERS[i as keyof typeof this.CORRECT_ANSWERS];
-      if (userAnswer === correctAnswer) {
-        readingWritingScore++;
+      case 'matching': {
+        // Each prompt matched to the right option earns an equal share of the points
+        const correctPairs = key.pairs.filter((letter, index) => parts[index] === letter).length;
+        return (question.points * correctPairs) / key.pairs.length;
       }
-    }
 
-    // Sentence Ordering (Questions 36-40) - 5 questions
-    for (let i = 36; i <= 40; i++) {
-      const userAnswer = answers[i]?.trim();
-      const correctAnswer = this.CORRECT_ANSWERS[i as keyof typeof this.CORRECT_ANSWERS];
-      if (userAnswer === correctAnswer) {
-        readingWritingScore++;
+      case 'tolerant': {
+        // Each field earns an equal share of the points when it matches an accepted answer
+        const correctFields = key.accept.filter((accepted, index) =>
+          accepted.some(value => matchesTolerantly(parts[index] ?? '', value))
+        ).length;
+        return (question.points * correctFields) / key.accept.length;
       }
+
+      case 'rubric':
+        return 0; // rater-scored; see scoreRating
     }
 
-    // Text Questions (Questions 41-43) - 3 questions, 1 point each
-    for (let i = 41; i <= 43; i++) {
-      const userAnswer = answers[i]?.toLowerCase() || '';
-      const keywords = this.TEXT_ANSWER_KEYWORDS[i as keyof typeof this.TEXT_ANSWER_KEYWORDS];
-      
-      // Award point if answer contains at least 2 relevant keywords and is substantial
-      const keywordMatches = keywords.filter(keyword => 
-        userAnswer.includes(keyword.toLowerCase())
-      ).length;
-      
-      if (keywordMatches >= 2 && userAnswer.length >= 20) {
-        readingWritingScore++;
+    const response = typeof answer === 'string' ? answer.trim() : '';
+    if (!response) return 0;
+
+    switch (key.method) {
+      case 'exact':
+        return response.toUpperCase() === key.value.toUpperCase() ? question.points : 0;
+
+      case 'ordering': {
+        const order = response.split(/\s*,\s*/);
+        return order.length === key.sequence.length && key.sequence.every((letter, index) => order[index] === letter)
+          ? question.points
+          : 0;
       }
-    }
 
-    // Essay Question (Question 44) - 1 point
-    const essayAnswer = answers[44]?.trim() || '';
-    const wordCount = essayAnswer ? essayAnswer.split(/\s+/).length : 0;
-    
-    // Award point for essay if it meets basic criteria
-    if (wordCount >= 80 && wordCount <= 200 && essayAnswer.length > 0) {
-      // Check for basic argument structure
-      const hasArgument = essayAnswer.toLowerCase().includes('advantage') || 
-                         essayAnswer.toLowerCase().includes('disadvantage') ||
-                         essayAnswer.toLowerCase().includes('benefit') ||
-                         essayAnswer.toLowerCase().includes('challenge');
-      
-      if (hasArgument) {
-        readingWritingScore++;
+      case 'keywords': {
+        // Award points if answer contains enough relevant keywords and is substantial
+        const lowered = response.toLowerCase();
+        const keywordMatches = key.keywords.filter(keyword =>
+          lowered.includes(keyword.toLowerCase())
+        ).length;
+        return keywordMatches >= key.minMatches && response.length >= key.minLength ? question.points : 0;
       }
-    }
 
-    // Score Listening (Questions 45-56)
-    for (let i = 45; i <= 56; i++) {
-      const userAnswer = answers[i]?.trim().toUpperCase();
-      const correctAnswer = this.CORRECT_ANSWERS[i as keyof typeof this.CORRECT_ANSWERS];
-      if (userAnswer === correctAnswer) {
-        listeningScore++;
+      case 'dictation':
+        return question.points * dictationAccuracy(response, key.text);
+
+      case 'essay': {
+        // Award points if the essay meets the length band and shows basic argument structure
+        const wordCount = response.split(/\s+/).length;
+        if (wordCount < key.minWords || wordCount > key.maxWords) return 0;
+        const lowered = response.toLowerCase();
+        const hasArgument = key.anyOf.some(word => lowered.includes(word.toLowerCase()));
+        return hasArgument ? question.points : 0;
       }
     }
+  }
 
-    return {
-      GrammarVocabulary: grammarScore,
-      ReadingWriting: readingWritingScore,
-      Listening: listeningScore
-    };
+  // Maximum attainable raw score per skill, derived from the points on each question
+  static getMaxScores(sections: TestSection[] = testSections): SEMFInput {
+    const maxScores: SEMFInput = { GrammarVocabulary: 0, ReadingWriting: 0, Listening: 0, Speaking: 0 };
+    sections.forEach(section => {
+      section.questions.forEach(question => {
+        maxScores[question.skill] += question.points;
+      });
+    });
+    return maxScores;
+  }
+
+  private static normalizeText(text: string): string {
+    return text.trim().toLowerCase().replace(/\s+/g, ' ');
+  }
+
+  // Each field of a multi-field response is marked on its own and earns an equal share of the points
+  private static scoreFields(accept: string[][], distinct: boolean, responses: string[], question: Question): number {
+    const fieldCount = question.fields?.length ?? responses.length;
+    if (fieldCount === 0) return 0;
+
+    const used = new Set<number>();
+    let correctFields = 0;
+    responses.slice(0, fieldCount).forEach(response => {
+      const lowered = response.trim().toLowerCase();
+      if (!lowered) return;
+      const idea = accept.findIndex((keywords, index) =>
+        !(distinct && used.has(index)) && keywords.some(keyword => lowered.includes(keyword.toLowerCase()))
+      );
+      if (idea !== -1) {
+        used.add(idea);
+        correctFields++;
+      }
+    });
+    return (question.points * correctFields) / fieldCount;
+  }
+
+  // A rater's bands for a rubric-scored question, as a share of its points
+  static scoreRating(question: Question, rating: Record<string, number> | undefined): number {
+    if (question.answerKey.method !== 'rubric' || !rating) return 0;
+    const { criteria } = getSpeakingRubric(question.answerKey.rubricId);
+    const maxBand = Math.max(...criteria.map(criterion => criterion.bands.length));
+    const total = criteria.reduce((sum, criterion) => sum + (rating[criterion.id] ?? 0), 0);
+    return (question.points * total) / (criteria.length * maxBand);
+  }
+
+  // Rubric-scored questions with a recorded response that a rater has not fully scored yet
+  static getUnratedQuestions(answers: Answers, sections: TestSection[], ratings: SpeakingRatings = {}): Question[] {
+    return sections.flatMap(section =>
+      section.questions.filter(question => {
+        if (question.answerKey.method !== 'rubric' || !answers[question.id]) return false;
+        const rating = ratings[question.id];
+        const { criteria } = getSpeakingRubric(question.answerKey.rubricId);
+        return !rating || criteria.some(criterion => rating[criterion.id] === undefined);
+      })
+    );
+  }
+
+  static calculateActualScores(
+    answers: Answers,
+    sections: TestSection[] = testSections,
+    ratings: SpeakingRatings = {}
+  ): SEMFInput {
+    const scores: SEMFInput = { GrammarVocabulary: 0, ReadingWriting: 0, Listening: 0, Speaking: 0 };
+
+    sections.forEach(section => {
+      section.questions.forEach(question => {
+        scores[question.skill] +=
+          question.answerKey.method === 'rubric'
+            ? this.scoreRating(question, ratings[question.id])
+            : this.scoreQuestion(question, answers[question.id]);
+      });
+    });
+
+    return scores;
+  }
+
+  // The module a candidate's routing answers lead to in a section with stages; undefined for a linear section
+  static getRoute(section: TestSection, answers: Answers): ModuleLevel | undefined {
+    if (!section.stages) return undefined;
+    const routing = getModuleQuestions(section, 'routing');
+    const points = routing.reduce((total, question) => total + this.scoreQuestion(question, answers[question.id]), 0);
+    const maxPoints = routing.reduce((total, question) => total + question.points, 0);
+    return chooseModule(section.stages, points, maxPoints);
+  }
+
+  static getRoutes(form: TestForm, answers: Answers): Routes {
+    return form.sections.map(section => this.getRoute(section, answers));
+  }
+
+  // Whether an automatically marked response earned the question's full points, as adaptive selection needs
+  static isCorrect(question: Question, answer: AnswerValue | undefined): boolean {
+    return this.scoreQuestion(question, answer) >= question.points;
+  }
+
+  // The questions a section puts to the candidate given their answers so far; undefined for a linear section
+  static getPath(section: TestSection, answers: Answers): Question[] | undefined {
+    if (section.adaptive) return getAdaptiveQuestions(section, question => this.isCorrect(question, answers[question.id]));
+    const route = this.getRoute(section, answers);
+    return route && getPathQuestions(section, route);
+  }
+
+  static getPaths(form: TestForm, answers: Answers): Paths {
+    return form.sections.map(section => this.getPath(section, answers));
+  }
+
+  // The ability an adaptive section's responses point to; undefined for other sections
+  static getAbility(section: TestSection, path: Question[] | undefined, answers: Answers): AbilityEstimate | undefined {
+    if (!section.adaptive) return undefined;
+    return estimateAbility(
+      (path ?? []).map(question => ({ question, correct: this.isCorrect(question, answers[question.id]) }))
+    );
+  }
+
+  static scoreSubmission(submission: TestSubmission, report: ReportMessages = en.report): SEMFResult {
+    return this.calculateSEMFLevel(submission.answers, getTestForm(submission.formId), submission.speakingRatings, report);
   }
 
-  static calculateSEMFLevel(answers: Record<number, string>): SEMFResult {
-    // Calculate actual scores based on correct answers
-    const rawScores = this.calculateActualScores(answers);
+  static calculateSEMFLevel(
+    answers: Answers,
+    form: TestForm = testForm,
+    ratings: SpeakingRatings = {},
+    report: ReportMessages = en.report
+  ): SEMFResult {
+    // Only the questions on the candidate's route through multistage sections, and those adaptive sections gave, count
+    const routes = this.getRoutes(form, answers);
+    const paths = this.getPaths(form, answers);
+    const sections = form.sections.map((section, index) => {
+      const path = paths[index];
+      return path ? { ...section, questions: path } : section;
+    });
 
-    // Step 1: Normalize scores to 0-50 scale
-    const grammarVocabNorm = (rawScores.GrammarVocabulary / 20) * 50;
-    const readingWritingNorm = (rawScores.ReadingWriting / 24) * 50;
-    const listeningNorm = (rawScores.Listening / 12) * 50;
+    // Calculate actual scores based on the answer keys in the form and any rater scores
+    const rawScores = this.calculateActualScores(answers, sections, ratings);
+    const maxScores = this.getMaxScores(sections);
+    const awaitingRating = this.getUnratedQuestions(answers, sections, ratings).length > 0;
+
+    // Step 1: Normalize scores to 0-50 scale. A skill tested in a multistage section lands on the span
+    // of the scale its module covers, so full marks on the easier module cannot match the harder one.
+    // One tested adaptively is placed by its ability estimate, since candidates answered different items.
+    const getAdaptiveAbility = (skill: SEMFSkill) => {
+      const index = form.sections.findIndex(section => section.adaptive && section.questions.some(q => q.skill === skill));
+      const section = form.sections[index];
+      const ability = section && this.getAbility(section, paths[index], answers);
+      return section?.adaptive && ability ? { settings: section.adaptive, ability } : undefined;
+    };
+    const getScale = (skill: SEMFSkill): ScoreRange => {
+      const index = form.sections.findIndex(section => section.stages && section.questions.some(q => q.skill === skill));
+      const stages = form.sections[index]?.stages;
+      const route = routes[index];
+      return stages && route ? stages.scales[route] : this.FULL_SCALE;
+    };
+    const normalize = (skill: SEMFSkill) => {
+      const adaptive = getAdaptiveAbility(skill);
+      if (adaptive) return abilityToScale(adaptive.ability.theta, adaptive.settings);
+      const { min, max } = getScale(skill);
+      return maxScores[skill] > 0 ? min + (rawScores[skill] / maxScores[skill]) * (max - min) : 0;
+    };
+    const grammarVocabNorm = normalize('GrammarVocabulary');
+    const readingWritingNorm = normalize('ReadingWriting');
+    const listeningNorm = normalize('Listening');
+    const speakingNorm = normalize('Speaking');
 
     // Step 2: Map normalized scores to SEMF levels
     const mapToLevel = (normalizedScore: number): string => {
@@ -206,6 +340,8 @@ export class SEMFScoringEngine {
     // Calculate levels for main skills
     const readingWritingResult = applyTieBreaker(readingWritingNorm, grammarVocabNorm);
     const listeningResult = applyTieBreaker(listeningNorm, grammarVocabNorm);
+    const speakingResult = applyTieBreaker(speakingNorm, grammarVocabNorm);
+    const hasSpeaking = maxScores.Speaking > 0;
 
     // Step 4: Determine overall level (lowest skill method)
     const levelToNumber = (level: string): number => {
@@ -214,7 +350,11 @@ export class SEMFScoringEngine {
 
     const readingWritingNumber = levelToNumber(readingWritingResult.level);
     const listeningNumber = levelToNumber(listeningResult.level);
-    const overallNumber = Math.min(readingWritingNumber, listeningNumber);
+    // Speaking counts once every recorded response has been rated
+    const speakingCounts = hasSpeaking && !awaitingRating;
+    const overallNumber = speakingCounts
+      ? Math.min(readingWritingNumber, listeningNumber, levelToNumber(speakingResult.level))
+      : Math.min(readingWritingNumber, listeningNumber);
     const overallLevel = `S${overallNumber}`;
 
     // Step 5: Build result object
@@ -222,6 +362,7 @@ export class SEMFScoringEngine {
       {
         skill: "ReadingWriting",
         rawScore: rawScores.ReadingWriting,
+        maxScore: maxScores.ReadingWriting,
         normalizedScore: Math.round(readingWritingNorm * 10) / 10,
         level: readingWritingResult.level,
         tieBreakerApplied: readingWritingResult.tieBreakerApplied
@@ -229,60 +370,62 @@ export class SEMFScoringEngine {
       {
         skill: "Listening",
         rawScore: rawScores.Listening,
+        maxScore: maxScores.Listening,
         normalizedScore: Math.round(listeningNorm * 10) / 10,
         level: listeningResult.level,
         tieBreakerApplied: listeningResult.tieBreakerApplied
       }
     ];
+    if (hasSpeaking) {
+      skills.push({
+        skill: "Speaking",
+        rawScore: rawScores.Speaking,
+        maxScore: maxScores.Speaking,
+        normalizedScore: Math.round(speakingNorm * 10) / 10,
+        level: speakingResult.level,
+        tieBreakerApplied: speakingResult.tieBreakerApplied,
+        awaitingRating
+      });
+    }
 
+    const grammarVocabAbility = getAdaptiveAbility('GrammarVocabulary')?.ability;
     const tieBreakerSkill = {
       skill: "GrammarVocabulary",
       rawScore: rawScores.GrammarVocabulary,
-      normalizedScore: Math.round(grammarVocabNorm * 10) / 10
+      maxScore: maxScores.GrammarVocabulary,
+      normalizedScore: Math.round(grammarVocabNorm * 10) / 10,
+      ...(grammarVocabAbility && { ability: grammarVocabAbility })
     };
 
     // Get descriptions for levels present
     const levelsPresent = new Set([readingWritingResult.level, listeningResult.level, overallLevel]);
+    if (speakingCounts) levelsPresent.add(speakingResult.level);
     const descriptions: Record<string, string> = {};
     levelsPresent.forEach(level => {
-      descriptions[level] = this.LEVEL_DESCRIPTIONS[level as keyof typeof this.LEVEL_DESCRIPTIONS];
+      descriptions[level] = report.levelDescriptions[level as SEMFLevel];
     });
 
     // Generate detailed feedback based on actual performance
     const getDetailedFeedback = (level: string, scores: SEMFInput): string => {
       const totalAnswered = Object.keys(answers).length;
-      const totalPossible = 56; // Total questions in test
+      const totalPossible = sections.reduce((total, section) => total + section.questions.length, 0);
       const completionRate = (totalAnswered / totalPossible) * 100;
       
-      let feedback = `Overall SEMF Level: ${level}\n\n`;
+      let feedback = `${report.overallLevel(level, hasSpeaking && awaitingRating)}\n\n`;
       
       // Performance breakdown
-      feedback += `Performance Breakdown:\n`;
-      feedback += `• Grammar & Vocabulary: ${scores.GrammarVocabulary}/20 (${Math.round((scores.GrammarVocabulary/20)*100)}%)\n`;
-      feedback += `• Reading & Writing: ${scores.ReadingWriting}/24 (${Math.round((scores.ReadingWriting/24)*100)}%)\n`;
-      feedback += `• Listening: ${scores.Listening}/12 (${Math.round((scores.Listening/12)*100)}%)\n`;
-      feedback += `• Test Completion: ${Math.round(completionRate)}%\n\n`;
+      feedback += `${report.breakdown}\n`;
+      const percent = (score: number, max: number) => (max > 0 ? Math.round((score / max) * 100) : 0);
+      const line = (skill: SEMFSkill) =>
+        `• ${report.skills[skill]}: ${scores[skill]}/${maxScores[skill]} (${percent(scores[skill], maxScores[skill])}%)\n`;
+      feedback += line('GrammarVocabulary') + line('ReadingWriting') + line('Listening');
+      if (hasSpeaking) {
+        feedback += awaitingRating ? `• ${report.skills.Speaking}: ${report.awaitingRating}\n` : line('Speaking');
+      }
+      feedback += `• ${report.completion}: ${Math.round(completionRate)}%\n\n`;
       
       // Level-specific recommendations
-      switch (level) {
-        case 'S1':
-          feedback += "Recommendations: Focus on basic vocabulary building, simple sentence structures, and everyday expressions. Practice listening to slow, clear speech.";
-          break;
-        case 'S2':
-          feedback += "Recommendations: Expand vocabulary for common situations, practice past and future tenses, and work on basic conversation skills.";
-          break;
-        case 'S3':
-          feedback += "Recommendations: Study complex grammar structures, academic vocabulary, and practice expressing opinions clearly in writing.";
-          break;
-        case 'S4':
-          feedback += "Recommendations: Refine advanced grammar usage, expand professional vocabulary, and practice nuanced expression in complex topics.";
-          break;
-        case 'S5':
-          feedback += "Recommendations: Maintain proficiency through exposure to complex texts, academic writing, and professional communication contexts.";
-          break;
-        default:
-          feedback += "Continue practicing to improve your English proficiency.";
-      }
+      feedback += report.recommendations[level as SEMFLevel] ?? report.keepPracticing;
       
       return feedback;
     };
@@ -290,9 +433,11 @@ export class SEMFScoringEngine {
     const summary = getDetailedFeedback(overallLevel, rawScores);
 
     return {
+      formId: form.id,
       skills,
       tieBreakerSkill,
       overallLevel,
+      provisional: hasSpeaking && awaitingRating,
       descriptions,
       summary
     };
@@ -0,0 +1,117 @@
+import { strFromU8, unzipSync } from 'fflate';
+import { childElements, find, findAll, parseXml, textOf, XmlElement } from './qtiXml';
+
+// A sheet as rows of cell text; rows are not padded, so short rows simply end early
+export type SheetRows = string[][];
+
+const DELIMITERS = [',', ';', '\t'];
+
+// Spreadsheet programs save CSV with commas, or semicolons in locales that use a decimal comma
+const detectDelimiter = (firstLine: string) =>
+  DELIMITERS.reduce((best, delimiter) => (firstLine.split(delimiter).length > firstLine.split(best).length ? delimiter : best));
+
+export const parseCsv = (text: string): SheetRows => {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source.split(/\r?\n/, 1)[0]);
+  const rows: SheetRows = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let index = 0; index < source.length; index++) {
+    const char = source[index];
+    if (quoted) {
+      if (char === '"' && source[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[index + 1] === '\n') index++;
+      rows.push([...row, cell]);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) rows.push([...row, cell]);
+  return rows;
+};
+
+// 'C12' -> 2
+const columnIndex = (reference: string) =>
+  [...reference.replace(/\d+$/, '')].reduce((total, letter) => total * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+// Shared strings may be split into formatted runs; phonetic guides (rPh) are not part of the text
+const readSharedStrings = (files: Record<string, Uint8Array>): string[] => {
+  const contents = files['xl/sharedStrings.xml'];
+  if (!contents) return [];
+  const runText = (element: XmlElement): string =>
+    childElements(element)
+      .filter(child => child.name !== 'rPh')
+      .map(child => (child.name === 't' ? textOf(child) : runText(child)))
+      .join('');
+  return findAll(parseXml(strFromU8(contents)), 'si').map(runText);
+};
+
+// The first sheet in workbook order, which is not always sheet1.xml
+const firstSheetPath = (files: Record<string, Uint8Array>): string => {
+  const workbook = files['xl/workbook.xml'];
+  const relationships = files['xl/_rels/workbook.xml.rels'];
+  const sheet = workbook && find(parseXml(strFromU8(workbook)), 'sheet');
+  const relationshipId = sheet?.attrs['r:id'];
+  const target = relationships
+    ? findAll(parseXml(strFromU8(relationships)), 'Relationship').find(relationship => relationship.attrs.Id === relationshipId)?.attrs.Target
+    : undefined;
+  if (!target) return 'xl/worksheets/sheet1.xml';
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+};
+
+export const parseXlsx = (bytes: Uint8Array): SheetRows => {
+  const files = unzipSync(bytes);
+  const sheet = files[firstSheetPath(files)];
+  if (!sheet) throw new Error('The workbook has no worksheet');
+  const sharedStrings = readSharedStrings(files);
+
+  // Empty rows are left out of the file, so rows are placed by their number to keep row numbers right
+  const rows: SheetRows = [];
+  findAll(parseXml(strFromU8(sheet)), 'row').forEach(row => {
+    const cells: string[] = [];
+    childElements(row)
+      .filter(cell => cell.name === 'c')
+      .forEach((cell, position) => {
+        const index = cell.attrs.r ? columnIndex(cell.attrs.r) : position;
+        const value = find(cell, 'v');
+        const inline = find(cell, 'is');
+        let text = value ? textOf(value) : '';
+        if (cell.attrs.t === 's') text = sharedStrings[Number(text)] ?? '';
+        else if (cell.attrs.t === 'inlineStr' && inline) text = findAll(inline, 't').map(textOf).join('');
+        else if (cell.attrs.t === 'b') text = text === '1' ? 'TRUE' : 'FALSE';
+        while (cells.length < index) cells.push('');
+        cells[index] = text;
+      });
+    const rowIndex = row.attrs.r ? Number(row.attrs.r) - 1 : rows.length;
+    while (rows.length < rowIndex) rows.push([]);
+    rows[rowIndex] = cells;
+  });
+  return rows;
+};
+
+/**
+ * Reads the first sheet of a CSV, TSV or Excel (.xlsx) file into rows of cell text.
+ * The format is chosen by file extension.
+ */
+export const readSpreadsheet = (bytes: Uint8Array, fileName: string): SheetRows => {
+  if (/\.xlsx$/i.test(fileName)) return parseXlsx(bytes);
+  if (/\.(csv|tsv|txt)$/i.test(fileName)) return parseCsv(new TextDecoder().decode(bytes));
+  throw new Error(`"${fileName}" is not a spreadsheet; use a .csv or .xlsx file`);
+};
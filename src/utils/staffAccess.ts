@@ -0,0 +1,66 @@
+// Staff views that change how a candidate's sitting runs are unlocked with a staff passcode. A build
+// only carries a salted PBKDF2 hash of it, so reading the bundle does not give the passcode away.
+
+const PASSCODE_ITERATIONS = 310000;
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) => new Uint8Array((hex.match(/.{2}/g) ?? []).map(pair => parseInt(pair, 16)));
+
+const derivePasscode = async (passcode: string, salt: Uint8Array): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(passcode), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations: PASSCODE_ITERATIONS },
+    key,
+    256
+  );
+  return toHex(new Uint8Array(bits));
+};
+
+// What a build is configured with for a passcode: a random salt and the passcode's hash, in hex, joined by a colon
+export const hashPasscode = async (passcode: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return `${toHex(salt)}:${await derivePasscode(passcode, salt)}`;
+};
+
+export const checkPasscode = async (passcode: string, passcodeHash: string): Promise<boolean> => {
+  const [salt, hash] = passcodeHash.split(':');
+  if (!salt || !hash) return false;
+  return (await derivePasscode(passcode, fromHex(salt))) === hash;
+};
+
+// Staff pick a candidate's form with a link that carries an ECDSA signature of the form id. Only the
+// public key is built into the app, so a candidate cannot write a link for a form of their choosing.
+const LINK_SIGNATURE = { name: 'ECDSA', namedCurve: 'P-256', hash: 'SHA-256' };
+
+const formLinkMessage = (formId: string) => new TextEncoder().encode(`semf-form:${formId}`);
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
+
+// Both keys as JWK JSON: the public one is built into the app, the private one stays with staff
+export const generateFormLinkKeys = async (): Promise<{ publicKey: string; privateKey: string }> => {
+  const keys = await crypto.subtle.generateKey(LINK_SIGNATURE, true, ['sign', 'verify']);
+  return {
+    publicKey: JSON.stringify(await crypto.subtle.exportKey('jwk', keys.publicKey)),
+    privateKey: JSON.stringify(await crypto.subtle.exportKey('jwk', keys.privateKey))
+  };
+};
+
+export const signFormLink = async (formId: string, privateKey: string): Promise<string> => {
+  const key = await crypto.subtle.importKey('jwk', JSON.parse(privateKey), LINK_SIGNATURE, false, ['sign']);
+  return toBase64Url(new Uint8Array(await crypto.subtle.sign(LINK_SIGNATURE, key, formLinkMessage(formId))));
+};
+
+// A malformed signature or key counts as unsigned rather than an error
+export const checkFormLink = async (formId: string, signature: string, publicKey: string): Promise<boolean> => {
+  try {
+    const key = await crypto.subtle.importKey('jwk', JSON.parse(publicKey), LINK_SIGNATURE, false, ['verify']);
+    return await crypto.subtle.verify(LINK_SIGNATURE, key, fromBase64Url(signature), formLinkMessage(formId));
+  } catch {
+    return false;
+  }
+};
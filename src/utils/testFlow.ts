@@ -0,0 +1,275 @@
+import { ListeningStimulus, NavigationPolicy, Passage, Question, TestForm, TestSection } from '../types/test';
+import { getItemTimeLimit, getPassageTimeLimit, getRecordingTimeLimit, getSectionTimeLimit } from './timing';
+import { Paths } from './adaptive';
+
+// One page of a section. Every screen belongs to a section, so the header and progress bar can follow it.
+// Screens with questions carry their time limit in seconds, worked out from the form's timing when the flow is built.
+export type SectionScreen =
+  | { kind: 'instructions'; sectionIndex: number }
+  | { kind: 'item'; sectionIndex: number; question: Question; number: number; total: number; timeLimit: number }
+  | {
+      kind: 'passage';
+      sectionIndex: number;
+      passage: Passage;
+      questions: Question[];
+      number: number;
+      total: number;
+      timeLimit: number;
+    }
+  | {
+      kind: 'audio';
+      sectionIndex: number;
+      stimulus: ListeningStimulus;
+      questions: Question[];
+      number: number;
+      total: number;
+      timeLimit: number;
+    }
+  | { kind: 'break'; sectionIndex: number; duration: number };
+
+// One page of the test; the review screen that closes it is shown with the last section
+export type FlowScreen = SectionScreen | { kind: 'review'; sectionIndex: number };
+
+// 'next' comes from the candidate or when a screen's time runs out, 'sectionEnd' when the section's time runs out,
+// 'end' when the whole test's time runs out and 'goTo' from the review screen
+export type FlowEvent =
+  | { type: 'next' }
+  | { type: 'previous' }
+  | { type: 'sectionEnd' }
+  | { type: 'end' }
+  | { type: 'goTo'; position: number };
+
+// Once the candidate has reached the review screen, moving on from a revisited screen returns there
+export interface FlowState {
+  position: number;
+  reviewing: boolean;
+}
+
+export const INITIAL_FLOW_STATE: FlowState = { position: 0, reviewing: false };
+
+const findQuestions = (section: TestSection, ids: number[]) =>
+  ids.map(id => section.questions.find(question => question.id === id)).filter((question): question is Question => !!question);
+
+// The question screens for some of a section's questions, numbered by `numberScreens` once the path is known
+const buildQuestionScreens = (section: TestSection, questions: Question[], sectionIndex: number): SectionScreen[] => {
+  const included = (question: Question) => questions.includes(question);
+  // With stages each module builds its own screens, so passages and recordings of the other modules are left out
+  const shown = (entry: { questions: Question[] }) => entry.questions.length > 0 || !section.stages;
+  const stimuli = section.stimuli ?? [];
+  const passages = section.passages ?? [];
+
+  if (stimuli.length > 0) {
+    return stimuli
+      .map(stimulus => ({ stimulus, questions: findQuestions(section, stimulus.questionIds).filter(included) }))
+      .filter(shown)
+      .map(({ stimulus, questions }) => ({
+        kind: 'audio',
+        sectionIndex,
+        stimulus,
+        questions,
+        number: 0,
+        total: 0,
+        timeLimit: getRecordingTimeLimit(stimulus, section)
+      }));
+  }
+
+  const standalone = questions.filter(question => !passages.some(passage => passage.id === question.passageId));
+  return [
+    ...standalone.map((question): SectionScreen => ({
+      kind: 'item',
+      sectionIndex,
+      question,
+      number: 0,
+      total: 0,
+      timeLimit: getItemTimeLimit(question, section)
+    })),
+    ...passages
+      .map(passage => ({ passage, questions: questions.filter(question => question.passageId === passage.id) }))
+      .filter(shown)
+      .map(({ passage, questions }): SectionScreen => ({
+        kind: 'passage',
+        sectionIndex,
+        passage,
+        questions,
+        number: 0,
+        total: 0,
+        timeLimit: getPassageTimeLimit(passage, section)
+      }))
+  ];
+};
+
+// Number items from 1 within each run of the same question type (e.g. story continuation, then sentence
+// ordering) out of all the questions on the path, and passages and recordings in order out of their count
+const numberScreens = (screens: SectionScreen[], questionCount: number): SectionScreen[] => {
+  const countOf = (kind: SectionScreen['kind']) => screens.filter(screen => screen.kind === kind).length;
+  let number = 0;
+  return screens.map((screen, index) => {
+    const previous = screens[index - 1];
+    switch (screen.kind) {
+      case 'item':
+        number = previous?.kind === 'item' && previous.question.type === screen.question.type ? number + 1 : 1;
+        return { ...screen, number, total: questionCount };
+      case 'passage':
+      case 'audio':
+        number = previous?.kind === screen.kind ? number + 1 : 1;
+        return { ...screen, number, total: countOf(screen.kind) };
+      default:
+        return screen;
+    }
+  });
+};
+
+/**
+ * The screens one section contributes, in order: its instructions when `flow.intro` is set, then
+ * one screen per listening recording when it has any; otherwise its questions one at a time
+ * followed by one screen per reading passage with the questions linked to it. Only the questions
+ * on the given path are shown, e.g. the routing module and the module it led to in a section with
+ * stages; every question when no path is given.
+ */
+export const buildSectionScreens = (
+  section: TestSection,
+  sectionIndex: number,
+  isLast = false,
+  path?: Question[]
+): SectionScreen[] => {
+  const questions = path ?? section.questions;
+  const parts = section.stages
+    ? (['routing', 'easier', 'harder'] as const).map(module => questions.filter(question => question.module === module))
+    : [questions];
+  const screens: SectionScreen[] = [
+    ...(section.flow?.intro ? [{ kind: 'instructions', sectionIndex } as const] : []),
+    ...numberScreens(
+      parts.flatMap(part => buildQuestionScreens(section, part, sectionIndex)),
+      questions.length
+    )
+  ];
+
+  // A break after the last section would only delay the results
+  if (section.flow?.breakAfter && !isLast) {
+    screens.push({ kind: 'break', sectionIndex, duration: section.flow.breakAfter });
+  }
+  return screens;
+};
+
+// The whole sitting as a flat sequence of screens, ending on the review screen. Multistage and adaptive sections
+// follow the given paths, which change ahead of the candidate as they answer and are fixed behind them.
+export const buildTestFlow = (form: TestForm, paths: Paths = []): FlowScreen[] => [
+  ...form.sections.flatMap((section, index) =>
+    buildSectionScreens(section, index, index === form.sections.length - 1, paths[index])
+  ),
+  { kind: 'review', sectionIndex: form.sections.length - 1 }
+];
+
+// Where an event leads from the current screen; moving on from the last screen completes the test
+export const transition = (flow: FlowScreen[], state: FlowState, event: FlowEvent): FlowState | 'complete' => {
+  if (event.type === 'end') return 'complete';
+  if (event.type === 'goTo') return { ...state, position: event.position };
+  if (event.type === 'previous') return { ...state, position: Math.max(state.position - 1, 0) };
+
+  const reviewPosition = flow.findIndex(screen => screen.kind === 'review');
+  if (state.reviewing && state.position !== reviewPosition) return { ...state, position: reviewPosition };
+
+  if (event.type === 'sectionEnd') {
+    // Skip the rest of the section, but still offer the break after it
+    const { sectionIndex } = flow[state.position];
+    const position = flow.findIndex(
+      (screen, index) =>
+        index > state.position && (screen.sectionIndex !== sectionIndex || screen.kind === 'break' || screen.kind === 'review')
+    );
+    if (position < 0) return 'complete';
+    return { position, reviewing: position === reviewPosition };
+  }
+
+  const position = state.position + 1;
+  if (position >= flow.length) return 'complete';
+  return { position, reviewing: position === reviewPosition };
+};
+
+// The questions answered on a screen
+export const getScreenQuestions = (screen: FlowScreen): Question[] => {
+  switch (screen.kind) {
+    case 'item':
+      return [screen.question];
+    case 'passage':
+    case 'audio':
+      return screen.questions;
+    default:
+      return [];
+  }
+};
+
+// Whether a screen holds questions of a routing module
+const isRoutingScreen = (screen: FlowScreen): boolean =>
+  getScreenQuestions(screen).some(question => question.module === 'routing');
+
+// Seconds a screen's own timer allows in total, across every visit; undefined for screens without one
+export const getScreenTimeLimit = (screen: FlowScreen): number | undefined => {
+  switch (screen.kind) {
+    case 'item':
+    case 'passage':
+    case 'audio':
+      return screen.timeLimit;
+    case 'break':
+      return screen.duration;
+    default:
+      return undefined;
+  }
+};
+
+// Whether the review screen may send the candidate back to a screen: it must have questions and time left on its timer
+export const canRevisit = (screen: FlowScreen, timeUsed = 0): boolean => {
+  const timeLimit = getScreenTimeLimit(screen);
+  return getScreenQuestions(screen).length > 0 && (timeLimit === undefined || timeUsed < timeLimit);
+};
+
+export const getNavigationPolicy = (section: TestSection): NavigationPolicy => section.navigation ?? 'forward-only';
+
+// Seconds spent so far on a section's screens; breaks are rest and do not count
+export const getSectionTimeUsed = (flow: FlowScreen[], sectionIndex: number, timeUsed: Record<number, number>): number =>
+  flow.reduce(
+    (total, screen, position) =>
+      screen.sectionIndex === sectionIndex && screen.kind !== 'break' && screen.kind !== 'review'
+        ? total + (timeUsed[position] ?? 0)
+        : total,
+    0
+  );
+
+/**
+ * Whether the candidate may go back from one screen to an earlier one. The navigation policy of
+ * the target's section decides. During the test only screens of the current section can be
+ * reached, while the review screen reaches every section; either way the target needs time left.
+ * The routing module of a multistage section closes behind the candidate whatever the policy, and
+ * so does every question of an adaptive section, since each answer chose the questions after it.
+ */
+export const canNavigateTo = (
+  flow: FlowScreen[],
+  sections: TestSection[],
+  timeUsed: Record<number, number>,
+  from: number,
+  to: number
+): boolean => {
+  const current = flow[from];
+  const target = flow[to];
+  if (!current || !target || to >= from || !canRevisit(target, timeUsed[to])) return false;
+  if (current.kind !== 'review' && current.sectionIndex !== target.sectionIndex) return false;
+
+  const section = sections[target.sectionIndex];
+  // The route is settled once the candidate has left the routing module, so its answers can no longer change
+  if (section.stages && isRoutingScreen(target) && !isRoutingScreen(current)) return false;
+  if (section.adaptive) return false;
+
+  switch (getNavigationPolicy(section)) {
+    case 'free':
+      return true;
+    case 'forward-only':
+      return false;
+    case 'locked-on-expiry': {
+      const timeLimit = getSectionTimeLimit(section);
+      return timeLimit === undefined || getSectionTimeUsed(flow, target.sectionIndex, timeUsed) < timeLimit;
+    }
+  }
+};
+
+// Seconds spent so far on the whole test; breaks are rest and do not count
+export const getTestTimeUsed = (flow: FlowScreen[], timeUsed: Record<number, number>): number =>
+  flow.reduce((total, screen, position) => (screen.kind === 'break' ? total : total + (timeUsed[position] ?? 0)), 0);
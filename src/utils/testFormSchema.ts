@@ -0,0 +1,619 @@
+import {
+  AnswerKey,
+  ModuleLevel,
+  NavigationPolicy,
+  Question,
+  SEMFLevel,
+  SEMFSkill,
+  StageModule,
+  TestForm,
+  TEST_FORM_SCHEMA_VERSION,
+  TRUE_FALSE_NOT_GIVEN
+} from '../types/test';
+import { splitClozeText } from './cloze';
+import { getSpeakingRubric } from '../data/speakingRubric';
+
+const SKILLS: SEMFSkill[] = ['GrammarVocabulary', 'ReadingWriting', 'Listening', 'Speaking'];
+const LEVELS: SEMFLevel[] = ['S1', 'S2', 'S3', 'S4', 'S5'];
+const QUESTION_TYPES: Question['type'][] = [
+  'multiple-choice',
+  'text',
+  'multi-field',
+  'essay',
+  'sentence-ordering',
+  'gap-fill',
+  'matching',
+  'true-false-not-given',
+  'speaking',
+  'note-completion',
+  'dictation'
+];
+const NAVIGATION_POLICIES: NavigationPolicy[] = ['free', 'forward-only', 'locked-on-expiry'];
+const MODULE_LEVELS: ModuleLevel[] = ['easier', 'harder'];
+const STAGE_MODULES: StageModule[] = ['routing', ...MODULE_LEVELS];
+const MIN_ORDERING_SENTENCES = 3;
+const MAX_ORDERING_SENTENCES = 8;
+
+// Which scoring methods make sense for each question type
+const METHODS_BY_TYPE: Record<Question['type'], AnswerKey['method'][]> = {
+  'multiple-choice': ['exact'],
+  'sentence-ordering': ['ordering'],
+  'text': ['keywords', 'exact'],
+  'multi-field': ['fields'],
+  'gap-fill': ['gaps'],
+  'matching': ['matching'],
+  'true-false-not-given': ['exact'],
+  'speaking': ['rubric'],
+  'note-completion': ['tolerant'],
+  'dictation': ['dictation'],
+  'essay': ['essay']
+};
+
+export class TestFormValidationError extends Error {
+  constructor(public readonly formId: string, public readonly issues: string[]) {
+    super(`Test form "${formId}" is invalid:\n${issues.map(issue => `• ${issue}`).join('\n')}`);
+    this.name = 'TestFormValidationError';
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const validateAnswerKey = (key: unknown, where: string, issues: string[]) => {
+  if (!isRecord(key)) {
+    issues.push(`${where}: missing answerKey`);
+    return;
+  }
+
+  switch (key.method) {
+    case 'exact':
+      if (typeof key.value !== 'string' || !key.value.trim()) {
+        issues.push(`${where}: exact key needs a non-empty value`);
+      }
+      break;
+    case 'ordering':
+      if (!isStringArray(key.sequence) || key.sequence.length === 0) {
+        issues.push(`${where}: ordering key needs a sequence of letters`);
+      }
+      break;
+    case 'keywords':
+      if (!isStringArray(key.keywords) || key.keywords.length === 0) {
+        issues.push(`${where}: keywords key needs at least one keyword`);
+      }
+      if (typeof key.minMatches !== 'number' || typeof key.minLength !== 'number') {
+        issues.push(`${where}: keywords key needs numeric minMatches and minLength`);
+      }
+      break;
+    case 'essay':
+      if (typeof key.minWords !== 'number' || typeof key.maxWords !== 'number' || key.minWords > key.maxWords) {
+        issues.push(`${where}: essay key needs minWords <= maxWords`);
+      }
+      if (!isStringArray(key.anyOf)) {
+        issues.push(`${where}: essay key needs an anyOf word list`);
+      }
+      break;
+    case 'fields':
+      if (!Array.isArray(key.accept) || key.accept.length === 0 || !key.accept.every(idea => isStringArray(idea) && idea.length > 0)) {
+        issues.push(`${where}: fields key needs a list of accepted ideas, each with at least one keyword`);
+      }
+      if (typeof key.distinct !== 'boolean') {
+        issues.push(`${where}: fields key needs a distinct flag`);
+      }
+      break;
+    case 'gaps':
+      if (!Array.isArray(key.accept) || !key.accept.every(answers => isStringArray(answers) && answers.length > 0)) {
+        issues.push(`${where}: gaps key needs at least one accepted answer per gap`);
+      }
+      break;
+    case 'matching':
+      if (!isStringArray(key.pairs) || key.pairs.length === 0) {
+        issues.push(`${where}: matching key needs an option letter for each prompt`);
+      }
+      break;
+    case 'tolerant':
+      if (!Array.isArray(key.accept) || !key.accept.every(answers => isStringArray(answers) && answers.length > 0)) {
+        issues.push(`${where}: tolerant key needs at least one accepted answer per field`);
+      }
+      break;
+    case 'dictation':
+      if (typeof key.text !== 'string' || !key.text.trim()) {
+        issues.push(`${where}: dictation key needs the dictated text`);
+      }
+      break;
+    case 'rubric':
+      if (typeof key.rubricId !== 'string') {
+        issues.push(`${where}: rubric key needs a rubricId`);
+      } else {
+        try {
+          getSpeakingRubric(key.rubricId);
+        } catch {
+          issues.push(`${where}: unknown speaking rubric "${key.rubricId}"`);
+        }
+      }
+      break;
+    default:
+      issues.push(`${where}: unknown scoring method "${String(key.method)}"`);
+  }
+};
+
+const validateOrderingContent = (ordering: unknown, key: unknown, label: string, issues: string[]) => {
+  if (!isRecord(ordering)) {
+    issues.push(`${label}: sentence-ordering questions need an ordering block`);
+    return;
+  }
+  if (typeof ordering.topic !== 'string' || typeof ordering.firstSentence !== 'string' || !ordering.firstSentence.trim()) {
+    issues.push(`${label}: ordering needs a topic and a first sentence`);
+  }
+  if (ordering.lastSentence !== undefined && typeof ordering.lastSentence !== 'string') {
+    issues.push(`${label}: ordering lastSentence must be a string`);
+  }
+  const { sentences } = ordering;
+  if (!Array.isArray(sentences) || sentences.length < MIN_ORDERING_SENTENCES || sentences.length > MAX_ORDERING_SENTENCES) {
+    issues.push(`${label}: ordering needs between ${MIN_ORDERING_SENTENCES} and ${MAX_ORDERING_SENTENCES} sentences`);
+    return;
+  }
+  const letters = new Set<string>();
+  sentences.forEach((sentence: unknown, index) => {
+    if (!isRecord(sentence) || typeof sentence.letter !== 'string' || !sentence.letter || typeof sentence.text !== 'string' || !sentence.text.trim()) {
+      issues.push(`${label}: ordering sentence ${index + 1} needs a letter and text`);
+      return;
+    }
+    if (letters.has(sentence.letter)) issues.push(`${label}: ordering letter "${sentence.letter}" is used twice`);
+    letters.add(sentence.letter);
+  });
+
+  // The key must use every sentence exactly once
+  if (!isRecord(key) || key.method !== 'ordering' || !isStringArray(key.sequence)) return;
+  const sequence = key.sequence;
+  if (sequence.length !== letters.size || new Set(sequence).size !== sequence.length || !sequence.every(letter => letters.has(letter))) {
+    issues.push(`${label}: ordering key ${sequence.join(', ')} is not an order of the sentences ${[...letters].join(', ')}`);
+  }
+};
+
+const validateClozeContent = (cloze: unknown, key: unknown, label: string, issues: string[]) => {
+  if (!isRecord(cloze) || typeof cloze.text !== 'string' || !Array.isArray(cloze.gaps) || cloze.gaps.length === 0) {
+    issues.push(`${label}: gap-fill questions need a cloze text and at least one gap`);
+    return;
+  }
+  const gaps: unknown[] = cloze.gaps;
+  const markers = splitClozeText(cloze.text).filter((part): part is number => typeof part === 'number');
+  gaps.forEach((_, index) => {
+    const count = markers.filter(marker => marker === index).length;
+    if (count !== 1) issues.push(`${label}: gap [[${index + 1}]] appears ${count} times in the text`);
+  });
+  markers
+    .filter(marker => marker < 0 || marker >= gaps.length)
+    .forEach(marker => issues.push(`${label}: marker [[${marker + 1}]] has no matching gap`));
+
+  const accept = isRecord(key) && key.method === 'gaps' && Array.isArray(key.accept) ? key.accept : undefined;
+  if (accept && accept.length !== gaps.length) {
+    issues.push(`${label}: gaps key has ${accept.length} entries for ${gaps.length} gaps`);
+  }
+  gaps.forEach((gap, index) => {
+    if (!isRecord(gap)) {
+      issues.push(`${label}: gap ${index + 1} must be an object`);
+      return;
+    }
+    if (gap.options === undefined) return;
+    if (!isStringArray(gap.options) || gap.options.length < 2) {
+      issues.push(`${label}: gap ${index + 1} needs at least two options`);
+      return;
+    }
+    const options = gap.options;
+    const answers = accept?.[index];
+    if (isStringArray(answers) && !answers.every(answer => options.includes(answer))) {
+      issues.push(`${label}: gap ${index + 1} accepts an answer that is not one of its options`);
+    }
+  });
+};
+
+const validateMatchingContent = (matching: unknown, key: unknown, label: string, issues: string[]) => {
+  if (
+    !isRecord(matching) ||
+    typeof matching.promptLabel !== 'string' ||
+    typeof matching.optionLabel !== 'string' ||
+    !isStringArray(matching.prompts) ||
+    !isStringArray(matching.options) ||
+    matching.prompts.length === 0 ||
+    matching.options.length < 2
+  ) {
+    issues.push(`${label}: matching questions need labelled prompts and at least two options`);
+    return;
+  }
+  if (!isRecord(key) || key.method !== 'matching' || !isStringArray(key.pairs)) return;
+
+  const letters = matching.options.map((_, index) => String.fromCharCode(65 + index));
+  if (key.pairs.length !== matching.prompts.length) {
+    issues.push(`${label}: matching key has ${key.pairs.length} entries for ${matching.prompts.length} prompts`);
+  }
+  key.pairs
+    .filter(letter => !letters.includes(letter))
+    .forEach(letter => issues.push(`${label}: matching key letter "${letter}" is not one of the options`));
+};
+
+// Optional time limits are either left out or a positive number
+const isValidTimeLimit = (value: unknown): boolean => value === undefined || (typeof value === 'number' && value > 0);
+
+const validateQuestion = (question: unknown, sectionId: string, index: number, issues: string[]) => {
+  const where = `${sectionId}[${index}]`;
+  if (!isRecord(question)) {
+    issues.push(`${where}: question must be an object`);
+    return;
+  }
+
+  const label = typeof question.id === 'number' ? `Question ${question.id}` : where;
+  if (typeof question.id !== 'number' || !Number.isInteger(question.id)) {
+    issues.push(`${where}: id must be an integer`);
+  }
+  if (typeof question.question !== 'string' || !question.question.trim()) {
+    issues.push(`${label}: question text is empty`);
+  }
+  if (!QUESTION_TYPES.includes(question.type as Question['type'])) {
+    issues.push(`${label}: unknown type "${String(question.type)}"`);
+    return;
+  }
+  if (question.section !== sectionId) {
+    issues.push(`${label}: section "${String(question.section)}" does not match its parent "${sectionId}"`);
+  }
+  if (!SKILLS.includes(question.skill as SEMFSkill)) {
+    issues.push(`${label}: unknown skill "${String(question.skill)}"`);
+  }
+  if (typeof question.points !== 'number' || question.points <= 0) {
+    issues.push(`${label}: points must be a positive number`);
+  }
+  if (!isValidTimeLimit(question.timeLimit)) {
+    issues.push(`${label}: timeLimit must be a positive number of seconds`);
+  }
+  if (question.targetLevel !== undefined && !LEVELS.includes(question.targetLevel as SEMFLevel)) {
+    issues.push(`${label}: unknown target level "${String(question.targetLevel)}"`);
+  }
+  if (question.difficulty !== undefined && typeof question.difficulty !== 'number') {
+    issues.push(`${label}: difficulty must be a number`);
+  }
+  if (question.discrimination !== undefined && (typeof question.discrimination !== 'number' || question.discrimination <= 0)) {
+    issues.push(`${label}: discrimination must be a positive number`);
+  }
+  if (question.type === 'multiple-choice') {
+    if (!isStringArray(question.options) || question.options.length < 2) {
+      issues.push(`${label}: multiple-choice questions need at least two options`);
+    } else if (isRecord(question.answerKey) && question.answerKey.method === 'exact' && typeof question.answerKey.value === 'string') {
+      const letters = question.options.map((_, optionIndex) => String.fromCharCode(65 + optionIndex));
+      if (!letters.includes(question.answerKey.value.trim().toUpperCase())) {
+        issues.push(`${label}: key "${question.answerKey.value}" is outside the options ${letters[0]}-${letters[letters.length - 1]}`);
+      }
+    }
+  }
+  if (question.type === 'sentence-ordering') {
+    validateOrderingContent(question.ordering, question.answerKey, label, issues);
+  }
+  if (question.type === 'gap-fill') {
+    validateClozeContent(question.cloze, question.answerKey, label, issues);
+  }
+  if (question.type === 'matching') {
+    validateMatchingContent(question.matching, question.answerKey, label, issues);
+  }
+  const { answerKey } = question;
+  if (
+    question.type === 'true-false-not-given' &&
+    isRecord(answerKey) &&
+    answerKey.method === 'exact' &&
+    !TRUE_FALSE_NOT_GIVEN.some(value => value === answerKey.value)
+  ) {
+    issues.push(`${label}: true/false/not given key must be one of ${TRUE_FALSE_NOT_GIVEN.join(', ')}`);
+  }
+  if (question.type === 'speaking') {
+    const task = question.speaking;
+    if (!isRecord(task) || typeof task.prepTime !== 'number' || task.prepTime < 0 || typeof task.responseTime !== 'number' || task.responseTime <= 0) {
+      issues.push(`${label}: speaking questions need a prepTime and a positive responseTime in seconds`);
+    }
+  }
+  if (question.type === 'multi-field' || question.type === 'note-completion') {
+    const { fields } = question;
+    if (!Array.isArray(fields) || fields.length === 0 || !fields.every(field => isRecord(field) && typeof field.label === 'string' && field.label.trim())) {
+      issues.push(`${label}: ${question.type} questions need at least one labelled field`);
+    } else if (
+      isRecord(question.answerKey) &&
+      question.answerKey.method === 'tolerant' &&
+      Array.isArray(question.answerKey.accept) &&
+      question.answerKey.accept.length !== fields.length
+    ) {
+      issues.push(`${label}: tolerant key has ${question.answerKey.accept.length} entries for ${fields.length} fields`);
+    } else if (
+      isRecord(question.answerKey) &&
+      question.answerKey.method === 'fields' &&
+      question.answerKey.distinct === true &&
+      Array.isArray(question.answerKey.accept) &&
+      question.answerKey.accept.length < fields.length
+    ) {
+      issues.push(`${label}: ${fields.length} fields need at least ${fields.length} distinct accepted ideas`);
+    }
+  }
+
+  validateAnswerKey(question.answerKey, label, issues);
+  if (isRecord(question.answerKey)) {
+    const allowed = METHODS_BY_TYPE[question.type as Question['type']];
+    if (!allowed.includes(question.answerKey.method as AnswerKey['method'])) {
+      issues.push(`${label}: scoring method "${String(question.answerKey.method)}" cannot score a ${question.type} question`);
+    }
+  }
+};
+
+const validatePassages = (passages: unknown, sectionId: string, questions: unknown[], issues: string[]) => {
+  const passageIds = new Set<string>();
+  if (passages !== undefined) {
+    if (!Array.isArray(passages)) {
+      issues.push(`${sectionId}: passages must be an array`);
+      return;
+    }
+    passages.forEach((passage: unknown, index) => {
+      if (!isRecord(passage) || typeof passage.id !== 'string') {
+        issues.push(`${sectionId}.passages[${index}]: passage needs a string id`);
+        return;
+      }
+      const label = `Passage "${passage.id}"`;
+      if (passageIds.has(passage.id)) issues.push(`${label}: duplicate id`);
+      passageIds.add(passage.id);
+      if (typeof passage.title !== 'string' || typeof passage.body !== 'string' || !passage.body.trim()) {
+        issues.push(`${label}: title and body are required`);
+      }
+      if (passage.wordCount !== undefined && typeof passage.wordCount !== 'number') {
+        issues.push(`${label}: wordCount must be a number`);
+      }
+      if (passage.timeLimit !== undefined && (typeof passage.timeLimit !== 'number' || passage.timeLimit <= 0)) {
+        issues.push(`${label}: timeLimit must be a positive number of seconds`);
+      }
+    });
+  }
+
+  questions.forEach(question => {
+    if (isRecord(question) && question.passageId !== undefined && !passageIds.has(question.passageId as string)) {
+      issues.push(`Question ${String(question.id)}: passage "${String(question.passageId)}" is not in section "${sectionId}"`);
+    }
+  });
+};
+
+const validateStimuli = (stimuli: unknown, sectionId: string, questionIds: Set<number>, issues: string[]) => {
+  if (stimuli === undefined) return;
+  if (!Array.isArray(stimuli)) {
+    issues.push(`${sectionId}: stimuli must be an array`);
+    return;
+  }
+
+  const linked = new Set<number>();
+  const stimulusIds = new Set<string>();
+  stimuli.forEach((stimulus: unknown, index) => {
+    const where = `${sectionId}.stimuli[${index}]`;
+    if (!isRecord(stimulus) || typeof stimulus.id !== 'string') {
+      issues.push(`${where}: stimulus needs a string id`);
+      return;
+    }
+    const label = `Stimulus "${stimulus.id}"`;
+    if (stimulusIds.has(stimulus.id)) issues.push(`${label}: duplicate id`);
+    stimulusIds.add(stimulus.id);
+    if (typeof stimulus.title !== 'string' || typeof stimulus.description !== 'string') {
+      issues.push(`${label}: title and description are required`);
+    }
+    if (typeof stimulus.audioFile !== 'string' || !stimulus.audioFile) {
+      issues.push(`${label}: audioFile is required`);
+    }
+    const policy = stimulus.playPolicy;
+    if (!isRecord(policy) || typeof policy.maxPlays !== 'number' || policy.maxPlays < 1) {
+      issues.push(`${label}: playPolicy.maxPlays must be at least 1`);
+    }
+    if (!isValidTimeLimit(stimulus.timeLimit)) {
+      issues.push(`${label}: timeLimit must be a positive number of seconds`);
+    }
+    if (!Array.isArray(stimulus.questionIds) || stimulus.questionIds.length === 0) {
+      issues.push(`${label}: needs at least one linked question`);
+      return;
+    }
+    stimulus.questionIds.forEach((id: unknown) => {
+      if (typeof id !== 'number' || !questionIds.has(id)) {
+        issues.push(`${label}: linked question ${String(id)} is not in section "${sectionId}"`);
+      } else if (linked.has(id)) {
+        issues.push(`${label}: question ${id} is already linked to another stimulus`);
+      }
+      if (typeof id === 'number') linked.add(id);
+    });
+  });
+
+  // Questions in a section with recordings are only shown alongside the recording they belong to
+  questionIds.forEach(id => {
+    if (!linked.has(id)) issues.push(`Question ${id}: not linked to any stimulus in section "${sectionId}"`);
+  });
+};
+
+const validateFlow = (flow: unknown, sectionId: string, issues: string[]) => {
+  if (flow === undefined) return;
+  if (!isRecord(flow)) {
+    issues.push(`${sectionId}: flow must be an object`);
+    return;
+  }
+  if (flow.intro !== undefined && typeof flow.intro !== 'boolean') {
+    issues.push(`${sectionId}: flow.intro must be true or false`);
+  }
+  if (flow.breakAfter !== undefined && (typeof flow.breakAfter !== 'number' || flow.breakAfter <= 0)) {
+    issues.push(`${sectionId}: flow.breakAfter must be a positive number of seconds`);
+  }
+};
+
+const validateTiming = (timing: unknown, sectionId: string, issues: string[]) => {
+  if (timing === undefined) return;
+  if (!isRecord(timing)) {
+    issues.push(`${sectionId}: timing must be an object`);
+    return;
+  }
+  if (!isValidTimeLimit(timing.item)) issues.push(`${sectionId}: timing.item must be a positive number of seconds`);
+  if (!isValidTimeLimit(timing.screen)) issues.push(`${sectionId}: timing.screen must be a positive number of seconds`);
+};
+
+const isValidScale = (scale: unknown): boolean =>
+  isRecord(scale) &&
+  typeof scale.min === 'number' &&
+  typeof scale.max === 'number' &&
+  scale.min >= 0 &&
+  scale.min < scale.max &&
+  scale.max <= 50;
+
+// A multistage section tags every question with its module; a passage or recording belongs to exactly one
+// module, and the routing module must be marked automatically since it decides the route straight away
+const validateStages = (section: Record<string, unknown>, sectionId: string, questions: unknown[], issues: string[]) => {
+  const records = questions.filter(isRecord);
+  const modules = new Map(records.map(question => [question.id, question.module]));
+
+  const { stages } = section;
+  if (stages === undefined) {
+    modules.forEach((module, id) => {
+      if (module !== undefined) issues.push(`Question ${id}: module is only used in a section with stages`);
+    });
+    return;
+  }
+  if (!isRecord(stages)) {
+    issues.push(`${sectionId}: stages must be an object`);
+    return;
+  }
+  if (typeof stages.threshold !== 'number' || stages.threshold <= 0 || stages.threshold > 1) {
+    issues.push(`${sectionId}: stages.threshold must be a share of the routing points above 0 and at most 1`);
+  }
+  MODULE_LEVELS.forEach(level => {
+    if (!isRecord(stages.scales) || !isValidScale(stages.scales[level])) {
+      issues.push(`${sectionId}: stages.scales.${level} needs a min below its max, both from 0 to 50`);
+    }
+  });
+
+  modules.forEach((module, id) => {
+    if (!STAGE_MODULES.includes(module as StageModule)) {
+      issues.push(`Question ${id}: module must be one of ${STAGE_MODULES.join(', ')}`);
+    }
+  });
+  STAGE_MODULES.forEach(module => {
+    if (![...modules.values()].includes(module)) issues.push(`${sectionId}: the ${module} module has no questions`);
+  });
+  records.forEach(question => {
+    if (question.module === 'routing' && isRecord(question.answerKey) && question.answerKey.method === 'rubric') {
+      issues.push(`Question ${String(question.id)}: routing questions must be marked automatically, not by a rater`);
+    }
+  });
+
+  const groups = [
+    ...(Array.isArray(section.passages) ? section.passages.filter(isRecord) : []).map(passage => ({
+      label: `Passage "${String(passage.id)}"`,
+      ids: records.filter(question => question.passageId === passage.id).map(question => question.id)
+    })),
+    ...(Array.isArray(section.stimuli) ? section.stimuli.filter(isRecord) : []).map(stimulus => ({
+      label: `Stimulus "${String(stimulus.id)}"`,
+      ids: Array.isArray(stimulus.questionIds) ? stimulus.questionIds : []
+    }))
+  ];
+  groups.forEach(({ label, ids }) => {
+    if (new Set(ids.map(id => modules.get(id))).size > 1) issues.push(`${label}: all its questions must be in the same module`);
+  });
+};
+
+const isPositiveInteger = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+// An adaptive section picks from its questions by their calibration and marks each answer before choosing
+// the next, so every question needs a difficulty and an automatic key, and none can share a screen
+const validateAdaptive = (section: Record<string, unknown>, sectionId: string, questions: unknown[], issues: string[]) => {
+  const { adaptive } = section;
+  if (adaptive === undefined) return;
+  if (!isRecord(adaptive)) {
+    issues.push(`${sectionId}: adaptive must be an object`);
+    return;
+  }
+  if (section.stages !== undefined) issues.push(`${sectionId}: a section cannot have both stages and adaptive`);
+  if (!isPositiveInteger(adaptive.minItems) || !isPositiveInteger(adaptive.maxItems) || adaptive.minItems > adaptive.maxItems) {
+    issues.push(`${sectionId}: adaptive.minItems and adaptive.maxItems must be whole numbers above 0, the min at most the max`);
+  } else if (adaptive.maxItems > questions.length) {
+    issues.push(`${sectionId}: adaptive.maxItems is ${adaptive.maxItems} but the pool has ${questions.length} questions`);
+  }
+  if (typeof adaptive.targetStandardError !== 'number' || adaptive.targetStandardError <= 0) {
+    issues.push(`${sectionId}: adaptive.targetStandardError must be a positive number of logits`);
+  }
+  const range = adaptive.abilityRange;
+  if (!isRecord(range) || typeof range.min !== 'number' || typeof range.max !== 'number' || range.min >= range.max) {
+    issues.push(`${sectionId}: adaptive.abilityRange needs a min below its max, in logits`);
+  }
+  if (Array.isArray(section.passages) && section.passages.length > 0) {
+    issues.push(`${sectionId}: an adaptive section cannot have passages`);
+  }
+  if (Array.isArray(section.stimuli) && section.stimuli.length > 0) {
+    issues.push(`${sectionId}: an adaptive section cannot have stimuli`);
+  }
+  questions.filter(isRecord).forEach(question => {
+    if (typeof question.difficulty !== 'number') {
+      issues.push(`Question ${String(question.id)}: questions in an adaptive section need a difficulty`);
+    }
+    if (isRecord(question.answerKey) && question.answerKey.method === 'rubric') {
+      issues.push(`Question ${String(question.id)}: questions in an adaptive section must be marked automatically, not by a rater`);
+    }
+  });
+};
+
+/**
+ * Checks an untrusted form definition (e.g. parsed JSON) against the schema and
+ * returns it typed. Throws a TestFormValidationError listing every problem found.
+ */
+export const loadTestForm = (raw: unknown): TestForm => {
+  const issues: string[] = [];
+  const formId = isRecord(raw) && typeof raw.id === 'string' ? raw.id : '(unknown)';
+
+  if (!isRecord(raw)) {
+    throw new TestFormValidationError(formId, ['form must be an object']);
+  }
+  if (raw.schemaVersion !== TEST_FORM_SCHEMA_VERSION) {
+    issues.push(`unsupported schemaVersion ${String(raw.schemaVersion)} (expected ${TEST_FORM_SCHEMA_VERSION})`);
+  }
+  if (typeof raw.id !== 'string' || !raw.id) issues.push('form id is required');
+  if (typeof raw.title !== 'string') issues.push('form title is required');
+  if (typeof raw.version !== 'string') issues.push('form version is required');
+  if (!isValidTimeLimit(raw.timeLimit)) issues.push('form timeLimit must be a positive number of minutes');
+
+  if (!Array.isArray(raw.sections) || raw.sections.length === 0) {
+    issues.push('form needs at least one section');
+  } else {
+    const seenIds = new Set<number>();
+    const sectionIds = new Set<string>();
+    raw.sections.forEach((section: unknown, sectionIndex) => {
+      if (!isRecord(section) || typeof section.id !== 'string') {
+        issues.push(`sections[${sectionIndex}]: section needs a string id`);
+        return;
+      }
+      if (sectionIds.has(section.id)) issues.push(`${section.id}: duplicate section id`);
+      sectionIds.add(section.id);
+      if (typeof section.timeLimit !== 'number') {
+        issues.push(`${section.id}: timeLimit must be a number of minutes`);
+      }
+      if (!Array.isArray(section.questions)) {
+        issues.push(`${section.id}: questions must be an array`);
+        return;
+      }
+      const sectionQuestionIds = new Set<number>();
+      section.questions.forEach((question: unknown, index) => {
+        validateQuestion(question, section.id as string, index, issues);
+        if (isRecord(question) && typeof question.id === 'number') {
+          if (seenIds.has(question.id)) issues.push(`Question ${question.id}: duplicate id`);
+          seenIds.add(question.id);
+          sectionQuestionIds.add(question.id);
+        }
+      });
+      validatePassages(section.passages, section.id, section.questions, issues);
+      validateStimuli(section.stimuli, section.id, sectionQuestionIds, issues);
+      validateFlow(section.flow, section.id, issues);
+      validateTiming(section.timing, section.id, issues);
+      validateStages(section, section.id, section.questions, issues);
+      validateAdaptive(section, section.id, section.questions, issues);
+      if (section.navigation !== undefined && !NAVIGATION_POLICIES.includes(section.navigation as NavigationPolicy)) {
+        issues.push(`${section.id}: navigation must be one of ${NAVIGATION_POLICIES.join(', ')}`);
+      }
+    });
+  }
+
+  if (issues.length > 0) {
+    throw new TestFormValidationError(formId, issues);
+  }
+  return raw as unknown as TestForm;
+};
@@ -0,0 +1,26 @@
+import { ListeningStimulus, Passage, Question, TestSection } from '../types/test';
+
+// Fallbacks for forms that leave a level of timing out
+export const DEFAULT_ITEM_TIME_LIMIT = 20;
+export const DEFAULT_PASSAGE_TIME_LIMIT = 600; // 10 minutes
+export const DEFAULT_RECORDING_TIME_LIMIT = 300; // 5 minutes
+const SPEAKING_SAVE_TIME = 10; // a moment after the response to save the recording
+
+// Seconds for a question shown on its own: its own limit, then what a speaking task needs, then the section default
+export const getItemTimeLimit = (question: Question, section: TestSection): number => {
+  if (question.timeLimit) return question.timeLimit;
+  if (question.speaking) {
+    return question.speaking.prepTime + question.speaking.responseTime + SPEAKING_SAVE_TIME;
+  }
+  return section.timing?.item ?? DEFAULT_ITEM_TIME_LIMIT;
+};
+
+export const getPassageTimeLimit = (passage: Passage, section: TestSection): number =>
+  passage.timeLimit ?? section.timing?.screen ?? DEFAULT_PASSAGE_TIME_LIMIT;
+
+export const getRecordingTimeLimit = (stimulus: ListeningStimulus, section: TestSection): number =>
+  stimulus.timeLimit ?? section.timing?.screen ?? DEFAULT_RECORDING_TIME_LIMIT;
+
+// Seconds allowed for a section, or undefined when it has no limit of its own
+export const getSectionTimeLimit = (section: TestSection): number | undefined =>
+  section.timeLimit > 0 ? section.timeLimit * 60 : undefined;
@@ -0,0 +1,78 @@
+// Lower-cases and strips punctuation so "Tuesday." matches "tuesday" and "vet's" matches "vets"
+export const normalizeResponse = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const toWords = (text: string): string[] => {
+  const normalized = normalizeResponse(text);
+  return normalized ? normalized.split(' ') : [];
+};
+
+// Optimal string alignment distance: insertions, deletions, substitutions and adjacent swaps
+const editDistance = (a: string, b: string): number => {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+};
+
+// Short words and numbers must be exact; longer words allow one or two slips
+const allowedEdits = (word: string): number => {
+  if (/\d/.test(word)) return 0;
+  if (word.length >= 8) return 2;
+  if (word.length >= 4) return 1;
+  return 0;
+};
+
+const wordsMatch = (expected: string, actual: string): boolean =>
+  editDistance(expected, actual) <= allowedEdits(expected);
+
+const MAX_EXTRA_WORDS = 2;
+
+/**
+ * True when the response contains the accepted phrase, allowing for case, punctuation and
+ * common misspellings, with at most a couple of extra words (e.g. "the second floor" for "second").
+ */
+export const matchesTolerantly = (response: string, accepted: string): boolean => {
+  const actual = toWords(response);
+  const expected = toWords(accepted);
+  if (expected.length === 0 || actual.length < expected.length || actual.length > expected.length + MAX_EXTRA_WORDS) {
+    return false;
+  }
+  for (let start = 0; start + expected.length <= actual.length; start++) {
+    if (expected.every((word, index) => wordsMatch(word, actual[start + index]))) return true;
+  }
+  return false;
+};
+
+/**
+ * Scores a dictated sentence as the share of its words the response reproduces in order
+ * (longest common subsequence, using the same tolerance for each word).
+ */
+export const dictationAccuracy = (response: string, sentence: string): number => {
+  const actual = toWords(response);
+  const expected = toWords(sentence);
+  if (expected.length === 0) return 0;
+
+  let previous = new Array<number>(actual.length + 1).fill(0);
+  for (const word of expected) {
+    const current = [0];
+    for (let j = 1; j <= actual.length; j++) {
+      current[j] = wordsMatch(word, actual[j - 1]) ? previous[j - 1] + 1 : Math.max(previous[j], current[j - 1]);
+    }
+    previous = current;
+  }
+  return previous[actual.length] / expected.length;
+};
@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Salted hash of the staff passcode, from `npm run staff -- passcode <passcode>`
+  readonly VITE_STAFF_PASSCODE_HASH?: string;
+  // Public key that staff-issued ?form= links are checked against, from `npm run staff -- keygen`
+  readonly VITE_FORM_LINK_PUBLIC_KEY?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}